@@ -3,11 +3,48 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { CommonModule } from './common/common.module';
 import { EventsModule } from './events/events.module';
+import { IndexerModule } from './indexer/indexer.module';
 import { TicketsModule } from './tickets/tickets.module';
+import { TransactionsModule } from './transactions/transactions.module';
+import { SponsorshipModule } from './sponsorship/sponsorship.module';
+import { CheckInModule } from './check-in/check-in.module';
+import { LiveFeedModule } from './live-feed/live-feed.module';
+import { PaymentsModule } from './payments/payments.module';
+import { AttendanceModule } from './attendance/attendance.module';
+import { AuthModule } from './auth/auth.module';
+import { StaffModule } from './staff/staff.module';
+import { ContentModule } from './content/content.module';
+import { TicketPayloadsModule } from './ticket-payloads/ticket-payloads.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { RefundsModule } from './refunds/refunds.module';
+import { ResaleModule } from './resale/resale.module';
+import { WaitlistModule } from './waitlist/waitlist.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
 import { UsersModule } from './users/users.module';
 
 @Module({
-  imports: [CommonModule, EventsModule, TicketsModule, UsersModule],
+  imports: [
+    CommonModule,
+    IndexerModule,
+    EventsModule,
+    TicketsModule,
+    UsersModule,
+    TransactionsModule,
+    SponsorshipModule,
+    CheckInModule,
+    LiveFeedModule,
+    PaymentsModule,
+    AttendanceModule,
+    AuthModule,
+    StaffModule,
+    ContentModule,
+    TicketPayloadsModule,
+    MetricsModule,
+    RefundsModule,
+    ResaleModule,
+    WaitlistModule,
+    WebhooksModule,
+  ],
   controllers: [AppController],
   providers: [AppService],
 })
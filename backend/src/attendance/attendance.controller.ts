@@ -0,0 +1,67 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../common/pagination/pagination.dto';
+import { AttendanceService } from './attendance.service';
+import {
+  AttendanceProofListResponseDto,
+  DwellTimeStatsDto,
+  ProofVerificationResponseDto,
+} from './dto/attendance.dto';
+
+@ApiTags('attendance')
+@Controller('attendance')
+export class AttendanceController {
+  constructor(private readonly attendanceService: AttendanceService) {}
+
+  @Get('attendee/:address')
+  @ApiOperation({ summary: 'Get attendance proofs minted to an attendee' })
+  @ApiParam({ name: 'address', description: 'Attendee wallet address' })
+  @ApiResponse({ status: 200, type: AttendanceProofListResponseDto })
+  async getProofsByAttendee(
+    @Param('address') address: string,
+    @Query() query: PaginationQueryDto,
+  ): Promise<AttendanceProofListResponseDto> {
+    return this.attendanceService.getProofsByAttendee(
+      address,
+      query.limit,
+      query.cursor,
+    );
+  }
+
+  @Get('event/:eventId')
+  @ApiOperation({ summary: 'Get attendance proofs minted for an event' })
+  @ApiParam({ name: 'eventId', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: AttendanceProofListResponseDto })
+  async getProofsByEvent(
+    @Param('eventId') eventId: string,
+    @Query() query: PaginationQueryDto,
+  ): Promise<AttendanceProofListResponseDto> {
+    return this.attendanceService.getProofsByEvent(
+      eventId,
+      query.limit,
+      query.cursor,
+    );
+  }
+
+  @Get('event/:eventId/dwell-time')
+  @ApiOperation({ summary: 'Get check-in to check-out dwell time stats' })
+  @ApiParam({ name: 'eventId', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: DwellTimeStatsDto })
+  async getDwellTimeStats(
+    @Param('eventId') eventId: string,
+  ): Promise<DwellTimeStatsDto> {
+    return this.attendanceService.getDwellTimeStats(eventId);
+  }
+
+  @Get(':proofId/verify')
+  @ApiOperation({
+    summary: 'Verify a proof against the registry and its source ticket',
+  })
+  @ApiParam({ name: 'proofId', description: 'AttendanceProof object ID' })
+  @ApiResponse({ status: 200, type: ProofVerificationResponseDto })
+  async verifyProof(
+    @Param('proofId') proofId: string,
+  ): Promise<ProofVerificationResponseDto> {
+    return this.attendanceService.verifyProof(proofId);
+  }
+}
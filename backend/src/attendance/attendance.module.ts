@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { IndexerModule } from '../indexer/indexer.module';
+import { TicketsModule } from '../tickets/tickets.module';
+import { AttendanceController } from './attendance.controller';
+import { AttendanceService } from './attendance.service';
+
+@Module({
+  imports: [IndexerModule, TicketsModule],
+  controllers: [AttendanceController],
+  providers: [AttendanceService],
+  exports: [AttendanceService],
+})
+export class AttendanceModule {}
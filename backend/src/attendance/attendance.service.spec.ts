@@ -0,0 +1,252 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  moveObject,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import {
+  attendanceProofFields,
+  ticketObject,
+} from '../common/sui/testing/move-fixtures';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { TicketsService } from '../tickets/tickets.service';
+import { AttendanceService } from './attendance.service';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const ATTENDEE = normalizeSuiAddress('0xa11ce');
+const VALIDATOR = normalizeSuiAddress('0x5aff');
+const REGISTRY_ID = normalizeSuiAddress('0xa77');
+const TABLE_ID = normalizeSuiAddress('0x7ab');
+const PROOF_ID = normalizeSuiAddress('0x900f');
+const TICKET_ID = normalizeSuiAddress('0x71c');
+
+describe('AttendanceService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let indexer: IndexerService;
+  let attendance: AttendanceService;
+
+  function setProof(
+    proofId: string,
+    checkInTime: number,
+    overrides: { type?: string; validator?: string } = {},
+  ) {
+    client.setObject(
+      moveObject(
+        proofId,
+        overrides.type ?? 'attendance::AttendanceProof',
+        attendanceProofFields({
+          id: { id: proofId },
+          event_id: EVENT_ID,
+          attendee: ATTENDEE,
+          ticket_id: TICKET_ID,
+          verification: {
+            check_in_time: String(checkInTime),
+            check_out_time: null,
+            validator_address: overrides.validator ?? VALIDATOR,
+            verification_hash: [0xab, 0xcd],
+            location_hash: [],
+          },
+          metadata: { event_title: 'Gig', event_date: '0' },
+        }),
+        ATTENDEE,
+      ),
+    );
+  }
+
+  function setTicket(validation: Record<string, unknown>) {
+    client.setObject(
+      ticketObject(TICKET_ID, {
+        event_id: EVENT_ID,
+        owner: ATTENDEE,
+        original_owner: ATTENDEE,
+        validation,
+      }),
+    );
+  }
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: {
+              packageId: FAKE_PACKAGE_ID,
+              objects: { attendanceRegistry: REGISTRY_ID },
+            },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        TicketsService,
+        AttendanceService,
+      ],
+    }).compile();
+    await module.init();
+
+    indexer = module.get(IndexerService);
+    attendance = module.get(AttendanceService);
+
+    client.setObject(
+      moveObject(REGISTRY_ID, 'attendance::AttendanceRegistry', {
+        total_proofs: '1',
+        proofs_by_ticket: {
+          type: '0x2::table::Table<0x2::object::ID, 0x2::object::ID>',
+          fields: { id: { id: TABLE_ID }, size: '1' },
+        },
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('lists proofs by attendee and by event from indexed mints', async () => {
+    setProof(PROOF_ID, 1000);
+    client.addEvents(
+      recordedEvent('attendance::AttendanceProofMinted', {
+        proof_id: PROOF_ID,
+        event_id: EVENT_ID,
+        attendee: ATTENDEE,
+        ticket_id: TICKET_ID,
+      }),
+    );
+    await indexer.syncOnce();
+
+    const byAttendee = await attendance.getProofsByAttendee(ATTENDEE);
+    const byEvent = await attendance.getProofsByEvent(EVENT_ID);
+    const other = await attendance.getProofsByEvent(
+      normalizeSuiAddress('0xe2'),
+    );
+
+    expect(byAttendee.proofs).toEqual([
+      expect.objectContaining({
+        id: PROOF_ID,
+        ticketId: TICKET_ID,
+        checkInTime: '1000',
+        verificationHash: 'abcd',
+        checkOutTime: undefined,
+      }),
+    ]);
+    expect(byEvent.proofs.map((proof) => proof.id)).toEqual([PROOF_ID]);
+    expect(other.proofs).toEqual([]);
+  });
+
+  it('verifies a registered proof against the validated ticket', async () => {
+    setProof(PROOF_ID, 1000);
+    setTicket({
+      is_validated: true,
+      validation_time: '1000',
+      validator_address: VALIDATOR,
+    });
+    client.setDynamicField(TABLE_ID, TICKET_ID, PROOF_ID);
+
+    const result = await attendance.verifyProof(PROOF_ID);
+
+    expect(result.valid).toBe(true);
+    expect(result.reasons).toEqual([]);
+    expect(result.checks).toEqual({
+      registeredForTicket: true,
+      ticketFound: true,
+      ticketValidated: true,
+      eventMatches: true,
+      validatorMatches: true,
+    });
+  });
+
+  it('fails verification when the registry or ticket disagree', async () => {
+    setProof(PROOF_ID, 1000, { validator: normalizeSuiAddress('0xbad') });
+    setTicket({
+      is_validated: true,
+      validation_time: '1000',
+      validator_address: VALIDATOR,
+    });
+
+    const result = await attendance.verifyProof(PROOF_ID);
+
+    expect(result.valid).toBe(false);
+    expect(result.checks).toMatchObject({
+      registeredForTicket: false,
+      ticketValidated: true,
+      validatorMatches: false,
+    });
+    expect(result.reasons).toHaveLength(2);
+  });
+
+  it('does not verify look-alike objects from other packages', async () => {
+    setProof(PROOF_ID, 1000);
+    const forged = moveObject(
+      normalizeSuiAddress('0xf09'),
+      'attendance::AttendanceProof',
+      {},
+    );
+    (forged.data!.content as { type: string }).type =
+      '0xbeef::attendance::AttendanceProof';
+    client.setObject(forged);
+
+    await expect(
+      attendance.verifyProof(normalizeSuiAddress('0xf09')),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('summarises dwell time from the latest check-out per proof', async () => {
+    const second = normalizeSuiAddress('0x9002');
+    setProof(PROOF_ID, 1_000);
+    setProof(second, 5_000);
+    client.addEvents(
+      recordedEvent('attendance::AttendanceProofMinted', {
+        proof_id: PROOF_ID,
+        event_id: EVENT_ID,
+      }),
+      recordedEvent('attendance::AttendanceProofMinted', {
+        proof_id: second,
+        event_id: EVENT_ID,
+      }),
+      recordedEvent('attendance::CheckOutRecorded', {
+        proof_id: PROOF_ID,
+        event_id: EVENT_ID,
+        check_out_time: '2000',
+      }),
+      recordedEvent('attendance::CheckOutRecorded', {
+        proof_id: PROOF_ID,
+        event_id: EVENT_ID,
+        check_out_time: '4000',
+      }),
+      recordedEvent('attendance::CheckOutRecorded', {
+        proof_id: second,
+        event_id: EVENT_ID,
+        check_out_time: '6000',
+      }),
+    );
+    await indexer.syncOnce();
+
+    const stats = await attendance.getDwellTimeStats(EVENT_ID);
+
+    expect(stats).toEqual({
+      eventId: EVENT_ID,
+      proofs: 2,
+      checkedOut: 2,
+      averageMs: 2000,
+      medianMs: 2000,
+      minMs: 1000,
+      maxMs: 3000,
+    });
+  });
+});
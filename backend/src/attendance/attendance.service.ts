@@ -0,0 +1,243 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import {
+  decodeCursor,
+  encodeCursor,
+  isRowCursor,
+} from '../common/pagination/cursor';
+import {
+  decodeMoveObject,
+  fields,
+  id,
+  table,
+} from '../common/sui/move-decoder';
+import {
+  ATTENDANCE_PROOF,
+  AttendanceProofObject,
+} from '../common/sui/move-objects';
+import { SuiService } from '../common/sui/sui.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import {
+  AttendanceProofMintedEvent,
+  CheckOutRecordedEvent,
+  IndexedEventFilter,
+} from '../indexer/indexer.types';
+import { TicketsService } from '../tickets/tickets.service';
+import {
+  AttendanceProofDto,
+  AttendanceProofListResponseDto,
+  DwellTimeStatsDto,
+  ProofVerificationResponseDto,
+} from './dto/attendance.dto';
+import { summarizeDwellTimes } from './dwell-time';
+
+@Injectable()
+export class AttendanceService {
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly indexerStore: IndexerStore,
+    private readonly ticketsService: TicketsService,
+  ) {}
+
+  async getProof(proofId: string): Promise<AttendanceProofDto | null> {
+    const proof = decodeMoveObject(
+      await this.suiService.getObject(proofId),
+      this.suiService.getPackageIds(),
+      ATTENDANCE_PROOF,
+    );
+    return proof && mapProof(proofId, proof);
+  }
+
+  async getProofsByAttendee(
+    attendee: string,
+    limit = 20,
+    cursor?: string,
+  ): Promise<AttendanceProofListResponseDto> {
+    return this.pageProofs({ attendee }, limit, cursor);
+  }
+
+  async getProofsByEvent(
+    eventId: string,
+    limit = 20,
+    cursor?: string,
+  ): Promise<AttendanceProofListResponseDto> {
+    return this.pageProofs({ event_id: eventId }, limit, cursor);
+  }
+
+  /**
+   * Re-check a proof against the AttendanceRegistry entry for its ticket
+   * and the ticket's own validation record, so a third party does not have
+   * to trust the proof object alone.
+   */
+  async verifyProof(proofId: string): Promise<ProofVerificationResponseDto> {
+    const proof = await this.getProof(proofId);
+    if (!proof) {
+      throw new NotFoundException(`AttendanceProof ${proofId} not found`);
+    }
+
+    const reasons: string[] = [];
+    const registeredProof = await this.findRegisteredProof(proof.ticketId);
+    const registeredForTicket =
+      registeredProof !== null && sameAddress(registeredProof, proofId);
+    if (!registeredForTicket) {
+      reasons.push(
+        registeredProof
+          ? `AttendanceRegistry maps ticket ${proof.ticketId} to proof ${registeredProof}`
+          : `AttendanceRegistry has no proof for ticket ${proof.ticketId}`,
+      );
+    }
+
+    const ticket = await this.ticketsService.getTicket(proof.ticketId);
+    const ticketFound = ticket !== null;
+    const ticketValidated = Boolean(ticket?.isValidated);
+    const eventMatches =
+      ticketFound && sameAddress(ticket.eventId, proof.eventId);
+    const validatorMatches =
+      ticketFound &&
+      ticket.validatorAddress !== undefined &&
+      sameAddress(ticket.validatorAddress, proof.validatorAddress);
+
+    if (!ticketFound) {
+      reasons.push(`Ticket ${proof.ticketId} no longer exists`);
+    } else {
+      if (!ticketValidated) {
+        reasons.push(`Ticket ${proof.ticketId} was never validated`);
+      }
+      if (!eventMatches) {
+        reasons.push(`Ticket belongs to event ${ticket.eventId}`);
+      }
+      if (ticketValidated && !validatorMatches) {
+        reasons.push(
+          `Ticket was validated by ${ticket.validatorAddress}, not ${proof.validatorAddress}`,
+        );
+      }
+    }
+
+    return {
+      proofId,
+      valid: reasons.length === 0,
+      checks: {
+        registeredForTicket,
+        ticketFound,
+        ticketValidated,
+        eventMatches,
+        validatorMatches,
+      },
+      reasons,
+      proof,
+    };
+  }
+
+  async getDwellTimeStats(eventId: string): Promise<DwellTimeStatsDto> {
+    const proofs = this.indexerStore.countEvents(
+      'attendance::AttendanceProofMinted',
+      { event_id: eventId },
+    );
+
+    // A proof can be checked out more than once; the last record wins
+    const checkOuts = new Map<string, number>();
+    for (const event of this.indexerStore.findEvents<CheckOutRecordedEvent>(
+      'attendance::CheckOutRecorded',
+      { event_id: eventId },
+    )) {
+      checkOuts.set(event.data.proof_id, Number(event.data.check_out_time));
+    }
+
+    const durations: number[] = [];
+    for (const [proofId, checkOutTime] of checkOuts) {
+      const proof = await this.getProof(proofId);
+      if (proof) {
+        durations.push(checkOutTime - Number(proof.checkInTime));
+      }
+    }
+
+    return {
+      eventId,
+      proofs,
+      checkedOut: durations.length,
+      ...summarizeDwellTimes(durations),
+    };
+  }
+
+  private async pageProofs(
+    filter: IndexedEventFilter,
+    limit: number,
+    cursor?: string,
+  ): Promise<AttendanceProofListResponseDto> {
+    const after = decodeCursor(cursor, isRowCursor);
+    const page = this.indexerStore.pageEvents<AttendanceProofMintedEvent>(
+      'attendance::AttendanceProofMinted',
+      filter,
+      { afterId: after?.id, limit },
+    );
+
+    const proofs: AttendanceProofDto[] = [];
+    for (const event of page.events) {
+      const proof = await this.getProof(event.data.proof_id);
+      if (proof) {
+        proofs.push(proof);
+      }
+    }
+
+    const last = page.events[page.events.length - 1];
+    return {
+      proofs,
+      nextCursor: page.hasMore ? encodeCursor({ id: last.id }) : undefined,
+      hasMore: page.hasMore,
+    };
+  }
+
+  /**
+   * Read `proofs_by_ticket[ticketId]` from the shared AttendanceRegistry,
+   * the same lookup `has_proof_for_ticket` performs.
+   */
+  private async findRegisteredProof(ticketId: string): Promise<string | null> {
+    const registry = await this.suiService.getObject(
+      this.suiService.getSharedObjectId('attendanceRegistry'),
+    );
+    const content = registry.data?.content;
+    if (content?.dataType !== 'moveObject') {
+      return null;
+    }
+    const { proofs_by_ticket } = fields({ proofs_by_ticket: table })(
+      content.fields,
+      'attendance::AttendanceRegistry',
+    );
+
+    const entry = await this.suiService.getDynamicFieldObject(
+      proofs_by_ticket.id,
+      { type: '0x2::object::ID', value: ticketId },
+    );
+    const field = entry.data?.content;
+    return field?.dataType === 'moveObject'
+      ? fields({ value: id })(field.fields, 'proofs_by_ticket entry').value
+      : null;
+  }
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return normalizeSuiAddress(a) === normalizeSuiAddress(b);
+}
+
+function mapProof(
+  proofId: string,
+  proof: AttendanceProofObject,
+): AttendanceProofDto {
+  const { verification, metadata } = proof;
+
+  return {
+    id: proofId,
+    eventId: proof.event_id,
+    attendee: proof.attendee,
+    ticketId: proof.ticket_id,
+    checkInTime: verification.check_in_time,
+    checkOutTime: verification.check_out_time ?? undefined,
+    validatorAddress: verification.validator_address,
+    verificationHash: verification.verification_hash,
+    locationHash: verification.location_hash,
+    badgeImageUrl: metadata.badge_image_url,
+    eventTitle: metadata.event_title,
+    eventDate: metadata.event_date,
+    specialNotes: metadata.special_notes ?? undefined,
+  };
+}
@@ -0,0 +1,114 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class AttendanceProofDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  attendee: string;
+
+  @ApiProperty()
+  ticketId: string;
+
+  @ApiProperty()
+  checkInTime: string;
+
+  @ApiPropertyOptional()
+  checkOutTime?: string;
+
+  @ApiProperty()
+  validatorAddress: string;
+
+  @ApiProperty({ description: 'Hex-encoded verification hash' })
+  verificationHash: string;
+
+  @ApiProperty({ description: 'Hex-encoded location hash' })
+  locationHash: string;
+
+  @ApiProperty()
+  badgeImageUrl: string;
+
+  @ApiProperty()
+  eventTitle: string;
+
+  @ApiProperty()
+  eventDate: string;
+
+  @ApiPropertyOptional()
+  specialNotes?: string;
+}
+
+export class AttendanceProofListResponseDto {
+  @ApiProperty({ type: [AttendanceProofDto] })
+  proofs: AttendanceProofDto[];
+
+  @ApiPropertyOptional()
+  nextCursor?: string;
+
+  @ApiProperty()
+  hasMore: boolean;
+}
+
+export class ProofVerificationChecksDto {
+  @ApiProperty({
+    description: 'AttendanceRegistry maps the ticket to this proof',
+  })
+  registeredForTicket: boolean;
+
+  @ApiProperty({ description: 'The source ticket still exists on chain' })
+  ticketFound: boolean;
+
+  @ApiProperty({ description: 'The ticket carries a validation record' })
+  ticketValidated: boolean;
+
+  @ApiProperty({ description: 'Ticket and proof belong to the same event' })
+  eventMatches: boolean;
+
+  @ApiProperty({
+    description: 'The ticket was validated by the proof validator',
+  })
+  validatorMatches: boolean;
+}
+
+export class ProofVerificationResponseDto {
+  @ApiProperty()
+  proofId: string;
+
+  @ApiProperty({ description: 'True when every check passed' })
+  valid: boolean;
+
+  @ApiProperty()
+  checks: ProofVerificationChecksDto;
+
+  @ApiProperty({ type: [String], description: 'Why each failed check failed' })
+  reasons: string[];
+
+  @ApiProperty()
+  proof: AttendanceProofDto;
+}
+
+export class DwellTimeStatsDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({ description: 'Attendance proofs minted for the event' })
+  proofs: number;
+
+  @ApiProperty({ description: 'Proofs with a recorded check-out' })
+  checkedOut: number;
+
+  @ApiPropertyOptional()
+  averageMs?: number;
+
+  @ApiPropertyOptional()
+  medianMs?: number;
+
+  @ApiPropertyOptional()
+  minMs?: number;
+
+  @ApiPropertyOptional()
+  maxMs?: number;
+}
@@ -0,0 +1,35 @@
+export interface DwellTimeSummary {
+  averageMs: number;
+  medianMs: number;
+  minMs: number;
+  maxMs: number;
+}
+
+/**
+ * Summarise check-in to check-out durations. Both ends are stamped with
+ * epoch timestamps on chain, so a duration can come out negative and is
+ * clamped to zero.
+ */
+export function summarizeDwellTimes(
+  durations: number[],
+): DwellTimeSummary | null {
+  if (durations.length === 0) {
+    return null;
+  }
+
+  const sorted = durations
+    .map((duration) => Math.max(duration, 0))
+    .sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const total = sorted.reduce((sum, duration) => sum + duration, 0);
+
+  return {
+    averageMs: Math.round(total / sorted.length),
+    medianMs:
+      sorted.length % 2 === 1
+        ? sorted[middle]
+        : Math.round((sorted[middle - 1] + sorted[middle]) / 2),
+    minMs: sorted[0],
+    maxMs: sorted[sorted.length - 1],
+  };
+}
@@ -0,0 +1,2 @@
+export const EVENT_ROLES_KEY = 'auth:eventRoles';
+export const ORGANIZER_PERMISSION_KEY = 'auth:organizerPermission';
@@ -0,0 +1,50 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { Authenticated, CurrentAddress } from './auth.decorators';
+import {
+  ChallengeRequestDto,
+  ChallengeResponseDto,
+  CurrentSessionDto,
+  LoginDto,
+  SessionResponseDto,
+} from './dto/auth.dto';
+
+@ApiTags('auth')
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Post('challenge')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Issue a login challenge for a wallet to sign' })
+  @ApiResponse({ status: 200, type: ChallengeResponseDto })
+  createChallenge(@Body() dto: ChallengeRequestDto): ChallengeResponseDto {
+    return this.authService.createChallenge(dto.address);
+  }
+
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Exchange a signed challenge for a session token',
+  })
+  @ApiResponse({ status: 200, type: SessionResponseDto })
+  async login(@Body() dto: LoginDto): Promise<SessionResponseDto> {
+    return this.authService.login(dto);
+  }
+
+  @Get('me')
+  @Authenticated()
+  @ApiOperation({ summary: 'Get the address behind the session token' })
+  @ApiResponse({ status: 200, type: CurrentSessionDto })
+  me(@CurrentAddress() address: string): CurrentSessionDto {
+    return { address };
+  }
+}
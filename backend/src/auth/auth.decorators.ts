@@ -0,0 +1,57 @@
+import {
+  ExecutionContext,
+  SetMetadata,
+  UseGuards,
+  applyDecorators,
+  createParamDecorator,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { EVENT_ROLES_KEY, ORGANIZER_PERMISSION_KEY } from './auth.constants';
+import {
+  AuthenticatedRequest,
+  EventRole,
+  OrganizerPermission,
+} from './auth.types';
+import { EventRoleGuard } from './event-role.guard';
+import { SessionGuard } from './session.guard';
+
+/** Require a valid session token */
+export function Authenticated() {
+  return applyDecorators(
+    UseGuards(SessionGuard),
+    ApiBearerAuth(),
+    ApiUnauthorizedResponse({ description: 'Missing or invalid session' }),
+  );
+}
+
+/**
+ * Require a session whose address holds one of `roles` for the event whose
+ * id is in route parameter `param`.
+ */
+export function EventRoles(param: string, ...roles: EventRole[]) {
+  return applyDecorators(
+    SetMetadata(EVENT_ROLES_KEY, { param, roles }),
+    UseGuards(SessionGuard, EventRoleGuard),
+    ApiBearerAuth(),
+    ApiUnauthorizedResponse({ description: 'Missing or invalid session' }),
+    ApiForbiddenResponse({ description: `Requires ${roles.join(' or ')}` }),
+  );
+}
+
+/**
+ * Permission an EventOrganizerCap must carry for the organizer role of
+ * EventRoles; routes without one require `can_update_event`.
+ */
+export function RequiresPermission(permission: OrganizerPermission) {
+  return SetMetadata(ORGANIZER_PERMISSION_KEY, permission);
+}
+
+/** The address authenticated by SessionGuard */
+export const CurrentAddress = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().address,
+);
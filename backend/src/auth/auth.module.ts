@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { randomBytes } from 'crypto';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { EventRoleGuard } from './event-role.guard';
+import { SessionGuard } from './session.guard';
+
+@Module({
+  imports: [
+    TransactionsModule,
+    JwtModule.registerAsync({
+      useFactory: (configService: ConfigService) => ({
+        // without a configured secret, sessions end when the process does
+        secret:
+          configService.get<string>('auth.jwtSecret') ||
+          randomBytes(32).toString('hex'),
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [AuthController],
+  providers: [AuthService, SessionGuard, EventRoleGuard],
+  exports: [AuthService, SessionGuard, EventRoleGuard, TransactionsModule],
+})
+export class AuthModule {}
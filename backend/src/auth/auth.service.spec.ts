@@ -0,0 +1,156 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+} from '../common/sui/testing/fake-sui-client';
+import { AuthService } from './auth.service';
+
+describe('AuthService', () => {
+  let module: TestingModule;
+  let auth: AuthService;
+  const wallet = Ed25519Keypair.generate();
+  const address = wallet.toSuiAddress();
+
+  async function sign(message: string, keypair = wallet) {
+    const { signature } = await keypair.signPersonalMessage(
+      new TextEncoder().encode(message),
+    );
+    return signature;
+  }
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      imports: [JwtModule.register({ secret: 'test-secret' })],
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            auth: {
+              sessionTtlSeconds: 60,
+              challengeTtlMs: 1000,
+              maxChallengesPerAddress: 2,
+              maxPendingChallenges: 4,
+            },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: new FakeSuiClient().asClient() },
+        SuiService,
+        AuthService,
+      ],
+    }).compile();
+
+    auth = module.get(AuthService);
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await module.close();
+  });
+
+  it('issues a session for a correctly signed challenge', async () => {
+    const challenge = auth.createChallenge(address);
+    expect(challenge.message).toContain(address);
+    expect(challenge.message).toContain(challenge.nonce);
+
+    const session = await auth.login({
+      address,
+      nonce: challenge.nonce,
+      signature: await sign(challenge.message),
+    });
+
+    expect(session.tokenType).toBe('Bearer');
+    expect(session.address).toBe(address);
+    await expect(auth.verifySession(session.accessToken)).resolves.toBe(
+      address,
+    );
+  });
+
+  it('rejects a signature from a different key', async () => {
+    const challenge = auth.createChallenge(address);
+
+    await expect(
+      auth.login({
+        address,
+        nonce: challenge.nonce,
+        signature: await sign(challenge.message, Ed25519Keypair.generate()),
+      }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('consumes a challenge on first use', async () => {
+    const challenge = auth.createChallenge(address);
+    const signature = await sign(challenge.message);
+    await auth.login({ address, nonce: challenge.nonce, signature });
+
+    await expect(
+      auth.login({ address, nonce: challenge.nonce, signature }),
+    ).rejects.toThrow('Unknown or expired challenge');
+  });
+
+  it('rejects expired challenges and challenges for another address', async () => {
+    const other = Ed25519Keypair.generate();
+    const forOther = auth.createChallenge(other.toSuiAddress());
+    await expect(
+      auth.login({
+        address,
+        nonce: forOther.nonce,
+        signature: await sign(forOther.message),
+      }),
+    ).rejects.toThrow('Challenge was issued to another address');
+
+    jest.useFakeTimers({ now: Date.now() });
+    const challenge = auth.createChallenge(address);
+    const signature = await sign(challenge.message);
+    jest.setSystemTime(challenge.expiresAt);
+
+    await expect(
+      auth.login({ address, nonce: challenge.nonce, signature }),
+    ).rejects.toThrow('Unknown or expired challenge');
+  });
+
+  it('keeps only the newest challenges for an address', async () => {
+    const [oldest, older, newest] = [1, 2, 3].map(() =>
+      auth.createChallenge(address),
+    );
+
+    await expect(
+      auth.login({
+        address,
+        nonce: oldest.nonce,
+        signature: await sign(oldest.message),
+      }),
+    ).rejects.toThrow('Unknown or expired challenge');
+    for (const challenge of [older, newest]) {
+      await expect(
+        auth.login({
+          address,
+          nonce: challenge.nonce,
+          signature: await sign(challenge.message),
+        }),
+      ).resolves.toBeDefined();
+    }
+  });
+
+  it('refuses new challenges while too many are pending', () => {
+    for (let i = 0; i < 4; i++) {
+      auth.createChallenge(Ed25519Keypair.generate().toSuiAddress());
+    }
+
+    expect(() => auth.createChallenge(address)).toThrow(
+      'Too many pending login challenges',
+    );
+  });
+
+  it('rejects tampered session tokens', async () => {
+    await expect(auth.verifySession('not.a.token')).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { randomBytes } from 'crypto';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  ChallengeResponseDto,
+  LoginDto,
+  SessionResponseDto,
+} from './dto/auth.dto';
+import { SessionClaims } from './auth.types';
+import { loginMessage } from './login-message';
+
+interface PendingChallenge {
+  address: string;
+  message: string;
+  expiresAt: number;
+}
+
+/**
+ * Challenge/response login for Sui wallets. Challenges live in memory and
+ * are single use: a login attempt consumes its nonce whether or not the
+ * signature checks out. Anyone may ask for one, so each address keeps only
+ * its newest few and the total held at once is capped.
+ */
+@Injectable()
+export class AuthService {
+  private readonly challenges = new Map<string, PendingChallenge>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+    private readonly suiService: SuiService,
+  ) {}
+
+  createChallenge(address: string): ChallengeResponseDto {
+    const now = Date.now();
+    this.pruneExpired(now);
+
+    const normalized = normalizeSuiAddress(address);
+    this.evictOldest(normalized);
+    if (
+      this.challenges.size >=
+      this.configService.get<number>('auth.maxPendingChallenges', 10_000)
+    ) {
+      throw new HttpException(
+        'Too many pending login challenges; try again shortly',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const nonce = randomBytes(16).toString('hex');
+    const expiresAt =
+      now + this.configService.get<number>('auth.challengeTtlMs', 300_000);
+    const message = loginMessage(normalized, nonce, expiresAt);
+
+    this.challenges.set(nonce, { address: normalized, message, expiresAt });
+    return { nonce, message, expiresAt };
+  }
+
+  async login(dto: LoginDto): Promise<SessionResponseDto> {
+    const challenge = this.challenges.get(dto.nonce);
+    this.challenges.delete(dto.nonce);
+
+    const address = normalizeSuiAddress(dto.address);
+    if (!challenge || challenge.expiresAt <= Date.now()) {
+      throw new UnauthorizedException('Unknown or expired challenge');
+    }
+    if (challenge.address !== address) {
+      throw new UnauthorizedException(
+        'Challenge was issued to another address',
+      );
+    }
+
+    try {
+      // the client lets zkLogin signatures be checked by the fullnode
+      await verifyPersonalMessageSignature(
+        new TextEncoder().encode(challenge.message),
+        dto.signature,
+        { address, client: this.suiService.getClient() },
+      );
+    } catch {
+      throw new UnauthorizedException('Invalid signature for challenge');
+    }
+
+    const ttlSeconds = this.configService.get<number>(
+      'auth.sessionTtlSeconds',
+      900,
+    );
+    const claims: SessionClaims = { sub: address };
+    const accessToken = await this.jwtService.signAsync(claims, {
+      expiresIn: ttlSeconds,
+    });
+
+    return {
+      accessToken,
+      tokenType: 'Bearer',
+      expiresAt: Date.now() + ttlSeconds * 1000,
+      address,
+    };
+  }
+
+  /**
+   * Address authenticated by a session token.
+   */
+  async verifySession(token: string): Promise<string> {
+    try {
+      const claims = await this.jwtService.verifyAsync<SessionClaims>(token);
+      return claims.sub;
+    } catch {
+      throw new UnauthorizedException('Invalid or expired session token');
+    }
+  }
+
+  /** Make room for one more challenge for `address` */
+  private evictOldest(address: string) {
+    const limit = this.configService.get<number>(
+      'auth.maxChallengesPerAddress',
+      3,
+    );
+    const pending = [...this.challenges].filter(
+      ([, challenge]) => challenge.address === address,
+    );
+    // Maps iterate in insertion order, so the oldest come first
+    for (const [nonce] of pending.slice(0, pending.length - limit + 1)) {
+      this.challenges.delete(nonce);
+    }
+  }
+
+  private pruneExpired(now: number) {
+    for (const [nonce, challenge] of this.challenges) {
+      if (challenge.expiresAt <= now) {
+        this.challenges.delete(nonce);
+      }
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { Request } from 'express';
+import { OrganizerPermissions } from '../common/sui/move-objects';
+
+export const EVENT_ROLES = ['organizer', 'validator'] as const;
+
+export type EventRole = (typeof EVENT_ROLES)[number];
+
+/** EventOrganizerCap flag that admits an organizer to a route */
+export type OrganizerPermission = keyof OrganizerPermissions;
+
+/** Claims carried by a session token */
+export interface SessionClaims {
+  /** Authenticated Sui address */
+  sub: string;
+}
+
+export interface AuthenticatedRequest extends Request {
+  /** Set by SessionGuard */
+  address?: string;
+  /** Set by EventRoleGuard: the roles the address holds for the event */
+  eventRoles?: EventRole[];
+}
+
+export interface EventRoleRequirement {
+  /** Route parameter holding the event id */
+  param: string;
+  /** Any one of these roles grants access */
+  roles: EventRole[];
+}
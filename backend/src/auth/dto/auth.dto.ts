@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+import { IsSuiAddress } from '../../common/validation/sui.validators';
+
+export class ChallengeRequestDto {
+  @ApiProperty({ description: 'Address that will sign the challenge' })
+  @IsSuiAddress()
+  address: string;
+}
+
+export class ChallengeResponseDto {
+  @ApiProperty()
+  nonce: string;
+
+  @ApiProperty({ description: 'Message to sign with signPersonalMessage' })
+  message: string;
+
+  @ApiProperty({ description: 'Challenge expiry (ms)' })
+  expiresAt: number;
+}
+
+export class LoginDto {
+  @ApiProperty()
+  @IsSuiAddress()
+  address: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  nonce: string;
+
+  @ApiProperty({
+    description: 'Serialized Sui signature (Ed25519, Secp256k1/r1 or zkLogin)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  signature: string;
+}
+
+export class SessionResponseDto {
+  @ApiProperty()
+  accessToken: string;
+
+  @ApiProperty({ example: 'Bearer' })
+  tokenType: string;
+
+  @ApiProperty({ description: 'Token expiry (ms)' })
+  expiresAt: number;
+
+  @ApiProperty()
+  address: string;
+}
+
+export class CurrentSessionDto {
+  @ApiProperty()
+  address: string;
+}
@@ -0,0 +1,133 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { EVENT_ROLES_KEY, ORGANIZER_PERMISSION_KEY } from './auth.constants';
+import {
+  AuthenticatedRequest,
+  EventRoleRequirement,
+  OrganizerPermission,
+} from './auth.types';
+import { EventRoleGuard } from './event-role.guard';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const ORGANIZER = normalizeSuiAddress('0x0a');
+const STAFF = normalizeSuiAddress('0x5aff');
+
+describe('EventRoleGuard', () => {
+  const resolver = {
+    // the organizer's cap grants everything but withdrawals
+    findOrganizerCap: jest.fn(
+      (owner: string, _eventId: string, permission: OrganizerPermission) =>
+        Promise.resolve(
+          owner === ORGANIZER && permission !== 'can_withdraw_funds'
+            ? '0xca9'
+            : null,
+        ),
+    ),
+    resolveValidatorCap: jest.fn((owner: string) =>
+      Promise.resolve(owner === STAFF ? '0x7a1' : null),
+    ),
+  };
+
+  function contextFor(
+    address: string | undefined,
+    requirement: EventRoleRequirement,
+    { id = EVENT_ID, permission }: { id?: string; permission?: string } = {},
+  ) {
+    const request = {
+      address,
+      params: { id },
+    } as unknown as AuthenticatedRequest;
+    const handler = () => undefined;
+    Reflect.defineMetadata(EVENT_ROLES_KEY, requirement, handler);
+    if (permission) {
+      Reflect.defineMetadata(ORGANIZER_PERMISSION_KEY, permission, handler);
+    }
+
+    const context = {
+      getHandler: () => handler,
+      getClass: () => class {},
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+    return { context, request };
+  }
+
+  const guard = new EventRoleGuard(
+    new Reflector(),
+    resolver as unknown as ObjectResolverService,
+  );
+
+  it('admits the holder of the event organizer cap', async () => {
+    const { context, request } = contextFor(ORGANIZER, {
+      param: 'id',
+      roles: ['organizer'],
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request.eventRoles).toEqual(['organizer']);
+    expect(resolver.findOrganizerCap).toHaveBeenCalledWith(
+      ORGANIZER,
+      EVENT_ID,
+      'can_update_event',
+    );
+  });
+
+  it('forbids organizer caps without the route permission', async () => {
+    const { context } = contextFor(
+      ORGANIZER,
+      { param: 'id', roles: ['organizer'] },
+      { permission: 'can_withdraw_funds' },
+    );
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+  });
+
+  it('normalizes the event id from the route', async () => {
+    const { context } = contextFor(
+      STAFF,
+      { param: 'id', roles: ['validator'] },
+      { id: '0xE1' },
+    );
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(resolver.resolveValidatorCap).toHaveBeenLastCalledWith(
+      STAFF,
+      EVENT_ID,
+    );
+  });
+
+  it('admits validators when either role is accepted', async () => {
+    const { context, request } = contextFor(STAFF, {
+      param: 'id',
+      roles: ['validator', 'organizer'],
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request.eventRoles).toEqual(['validator']);
+  });
+
+  it('forbids addresses without a matching cap', async () => {
+    const { context } = contextFor(STAFF, {
+      param: 'id',
+      roles: ['organizer'],
+    });
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+  });
+
+  it('forbids unauthenticated requests', async () => {
+    const { context } = contextFor(undefined, {
+      param: 'id',
+      roles: ['validator'],
+    });
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { EVENT_ROLES_KEY, ORGANIZER_PERMISSION_KEY } from './auth.constants';
+import {
+  AuthenticatedRequest,
+  EventRole,
+  EventRoleRequirement,
+  OrganizerPermission,
+} from './auth.types';
+
+/**
+ * Resolves the caller's roles for the event named by a route parameter
+ * from chain state: organizer when the address holds an EventOrganizerCap
+ * for the event granting the route's permission (see RequiresPermission),
+ * validator when it holds a ValidatorCap for it. Must run after
+ * SessionGuard.
+ */
+@Injectable()
+export class EventRoleGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly resolver: ObjectResolverService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requirement = this.reflector.getAllAndOverride<EventRoleRequirement>(
+      EVENT_ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!requirement) {
+      return true;
+    }
+
+    const permission =
+      this.reflector.getAllAndOverride<OrganizerPermission>(
+        ORGANIZER_PERMISSION_KEY,
+        [context.getHandler(), context.getClass()],
+      ) ?? 'can_update_event';
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const param = request.params[requirement.param];
+    if (!request.address || typeof param !== 'string') {
+      throw new ForbiddenException('No authenticated address for event');
+    }
+    const address = normalizeSuiAddress(request.address);
+    const eventId = normalizeSuiAddress(param);
+
+    const held: EventRole[] = [];
+    for (const role of requirement.roles) {
+      if (await this.holdsRole(address, eventId, role, permission)) {
+        held.push(role);
+      }
+    }
+    if (held.length === 0) {
+      throw new ForbiddenException(
+        `Requires ${requirement.roles.join(' or ')} access to event ${eventId}`,
+      );
+    }
+
+    request.eventRoles = held;
+    return true;
+  }
+
+  private async holdsRole(
+    address: string,
+    eventId: string,
+    role: EventRole,
+    permission: OrganizerPermission,
+  ): Promise<boolean> {
+    const cap =
+      role === 'organizer'
+        ? await this.resolver.findOrganizerCap(address, eventId, permission)
+        : await this.resolver.resolveValidatorCap(address, eventId);
+    return cap !== null;
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * The exact text a wallet signs with `signPersonalMessage` to log in.
+ * Binding the address and expiry into the message stops a signature from
+ * being replayed for another account or after the challenge lapses.
+ */
+export function loginMessage(
+  address: string,
+  nonce: string,
+  expiresAt: number,
+): string {
+  return [
+    'Sign in to Event Platform',
+    '',
+    `Address: ${address}`,
+    `Nonce: ${nonce}`,
+    `Expires: ${new Date(expiresAt).toISOString()}`,
+  ].join('\n');
+}
@@ -0,0 +1,28 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { AuthenticatedRequest } from './auth.types';
+
+/**
+ * Requires a `Bearer` session token issued by POST /auth/login and exposes
+ * the authenticated address on the request.
+ */
+@Injectable()
+export class SessionGuard implements CanActivate {
+  constructor(private readonly authService: AuthService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    if (scheme !== 'Bearer' || !token) {
+      throw new UnauthorizedException('Missing bearer session token');
+    }
+
+    request.address = await this.authService.verifySession(token);
+    return true;
+  }
+}
@@ -0,0 +1,4 @@
+export const SNAPSHOT_SIGNER = 'SNAPSHOT_SIGNER';
+
+/** Tickets fetched per page when exporting an offline snapshot */
+export const SNAPSHOT_PAGE_SIZE = 100;
@@ -0,0 +1,80 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  Authenticated,
+  CurrentAddress,
+  EventRoles,
+  RequiresPermission,
+} from '../auth/auth.decorators';
+import { CheckInService } from './check-in.service';
+import { OfflineSyncService } from './offline-sync.service';
+import {
+  CheckInDto,
+  CheckInResponseDto,
+  SignedSnapshotResponseDto,
+  SyncScansDto,
+  SyncScansResponseDto,
+} from './dto/check-in.dto';
+
+@ApiTags('check-in')
+@Controller('check-in')
+export class CheckInController {
+  constructor(
+    private readonly checkInService: CheckInService,
+    private readonly offlineSyncService: OfflineSyncService,
+  ) {}
+
+  @Post()
+  @Authenticated()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Verify a scanned QR code and build the check_in_ticket transaction for the signed-in validator',
+  })
+  @ApiResponse({ status: 200, type: CheckInResponseDto })
+  async checkIn(
+    @Body() dto: CheckInDto,
+    @CurrentAddress() validator: string,
+  ): Promise<CheckInResponseDto> {
+    return this.checkInService.checkIn(dto, validator);
+  }
+
+  @Get('events/:eventId/snapshot')
+  @EventRoles('eventId', 'validator', 'organizer')
+  @RequiresPermission('can_grant_validators')
+  @ApiOperation({
+    summary: 'Export a signed ticket snapshot for offline gate scanning',
+  })
+  @ApiParam({ name: 'eventId', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: SignedSnapshotResponseDto })
+  async getSnapshot(
+    @Param('eventId') eventId: string,
+  ): Promise<SignedSnapshotResponseDto> {
+    return this.offlineSyncService.getSnapshot(eventId);
+  }
+
+  @Post('events/:eventId/sync')
+  @EventRoles('eventId', 'validator')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Upload an offline scan journal, resolve double entries and build check_in_ticket transactions',
+  })
+  @ApiParam({ name: 'eventId', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: SyncScansResponseDto })
+  async sync(
+    @Param('eventId') eventId: string,
+    @Body() dto: SyncScansDto,
+    @CurrentAddress() validator: string,
+  ): Promise<SyncScansResponseDto> {
+    return this.offlineSyncService.sync(eventId, dto, validator);
+  }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthModule } from '../auth/auth.module';
+import { EventsModule } from '../events/events.module';
+import { TicketsModule } from '../tickets/tickets.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { SNAPSHOT_SIGNER } from './check-in.constants';
+import { CheckInController } from './check-in.controller';
+import { CheckInService } from './check-in.service';
+import { OfflineSyncService } from './offline-sync.service';
+import { ScanJournalStore } from './scan-journal.store';
+import { KeypairSnapshotSigner } from './snapshot-signer';
+
+@Module({
+  imports: [EventsModule, TicketsModule, TransactionsModule, AuthModule],
+  controllers: [CheckInController],
+  providers: [
+    {
+      provide: SNAPSHOT_SIGNER,
+      useFactory: (configService: ConfigService) => {
+        const key = configService.get<string>('checkIn.snapshotKey');
+        return key ? KeypairSnapshotSigner.fromSecretKey(key) : null;
+      },
+      inject: [ConfigService],
+    },
+    CheckInService,
+    OfflineSyncService,
+    ScanJournalStore,
+  ],
+})
+export class CheckInModule {}
@@ -0,0 +1,267 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  moveObject,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import { FakeZkLoginSigner } from '../common/sui/testing/fake-zklogin-signer';
+import { EventsService } from '../events/events.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { TicketsService } from '../tickets/tickets.service';
+import { TierStore } from '../tiers/tier.store';
+import { TiersService } from '../tiers/tiers.service';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { TransactionsService } from '../transactions/transactions.service';
+import { CheckInService } from './check-in.service';
+import { encodeQrPayload, hashQrSecret, qrSigningMessage } from './qr-payload';
+import { eventObject, ticketObject } from './testing/check-in.fixtures';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const TICKET_ID = normalizeSuiAddress('0x71c');
+const STAFF = normalizeSuiAddress('0x57af');
+const SECRET = 'c0ffee';
+
+describe('CheckInService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let attendee: Ed25519Keypair;
+  let service: CheckInService;
+  let serialize: jest.SpyInstance;
+
+  function setTicket(
+    overrides: { isValidated?: boolean } = {},
+    owner = attendee.toSuiAddress(),
+  ) {
+    client.setObject(
+      ticketObject(TICKET_ID, {
+        eventId: EVENT_ID,
+        owner,
+        qrCodeHash: hashQrSecret(SECRET),
+        ...overrides,
+      }),
+    );
+  }
+
+  function setEvent(startTime: number, endTime: number) {
+    client.setObject(eventObject(EVENT_ID, startTime, endTime));
+  }
+
+  async function signedPayload(
+    signer: {
+      signPersonalMessage(bytes: Uint8Array): Promise<{ signature: string }>;
+    } = attendee,
+    secret = SECRET,
+    issuedAt = Date.now(),
+  ) {
+    const unsigned = { ticketId: TICKET_ID, secret, issuedAt };
+    const { signature } = await signer.signPersonalMessage(
+      qrSigningMessage(unsigned),
+    );
+    return encodeQrPayload({ ...unsigned, signature });
+  }
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+    attendee = Ed25519Keypair.generate();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            checkIn: { earlyEntryMs: 60 * 60 * 1000, qrMaxAgeMs: 60_000 },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        EventsService,
+        TicketsService,
+        ObjectResolverService,
+        TierStore,
+        TiersService,
+        TransactionsService,
+        CheckInService,
+      ],
+    }).compile();
+    await module.init();
+
+    service = module.get(CheckInService);
+    serialize = jest
+      .spyOn(module.get(TransactionsService), 'serialize')
+      .mockImplementation((_tx: Transaction, sender: string) =>
+        Promise.resolve({ sender, txBytes: 'dHg=' }),
+      );
+
+    setTicket();
+    setEvent(Date.now() - 1000, Date.now() + 60 * 60 * 1000);
+    client.setObject(
+      moveObject(
+        '0xca9',
+        'access_control::ValidatorCap',
+        { event_id: EVENT_ID },
+        STAFF,
+      ),
+    );
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('accepts a fresh QR code and builds check_in_ticket for the validator', async () => {
+    const result = await service.checkIn(
+      { eventId: EVENT_ID, payload: await signedPayload() },
+      STAFF,
+    );
+
+    expect(result).toMatchObject({
+      accepted: true,
+      ticketId: TICKET_ID,
+      sender: STAFF,
+      txBytes: 'dHg=',
+    });
+
+    const [tx] = serialize.mock.calls[0] as [Transaction];
+    const call = tx.getData().commands[0].MoveCall!;
+    expect(`${call.module}::${call.function}`).toBe('tickets::check_in_ticket');
+    expect(tx.getData().sender).toBe(STAFF);
+  });
+
+  it('accepts QR codes signed by a zkLogin ticket owner', async () => {
+    const zkLoginOwner = new FakeZkLoginSigner(client);
+    setTicket({}, zkLoginOwner.toSuiAddress());
+
+    const result = await service.checkIn(
+      { eventId: EVENT_ID, payload: await signedPayload(zkLoginOwner) },
+      STAFF,
+    );
+
+    expect(result).toMatchObject({ accepted: true, ticketId: TICKET_ID });
+    expect(client.calls.verifyZkLoginSignature).toBe(1);
+  });
+
+  it('rejects a ticket already checked in at the door with EAlreadyValidated', async () => {
+    module.get(IndexerStore).saveBatch(
+      'tickets::TicketValidated',
+      [
+        recordedEvent('tickets::TicketValidated', {
+          ticket_id: TICKET_ID,
+          event_id: EVENT_ID,
+          owner: attendee.toSuiAddress(),
+          validator: STAFF,
+          timestamp: '1',
+        }),
+      ],
+      null,
+    );
+
+    const result = await service.checkIn(
+      { eventId: EVENT_ID, payload: await signedPayload() },
+      STAFF,
+    );
+
+    expect(result).toMatchObject({
+      accepted: false,
+      abortName: 'tickets::EAlreadyValidated',
+    });
+    expect(serialize).not.toHaveBeenCalled();
+  });
+
+  it('rejects a ticket that was already validated with EAlreadyValidated', async () => {
+    setTicket({ isValidated: true });
+
+    const result = await service.checkIn(
+      { eventId: EVENT_ID, payload: await signedPayload() },
+      STAFF,
+    );
+
+    expect(result).toMatchObject({
+      accepted: false,
+      abortCode: 4005,
+      abortName: 'tickets::EAlreadyValidated',
+    });
+  });
+
+  it('rejects a secret that does not hash to qr_code_hash with EInvalidQRHash', async () => {
+    const result = await service.checkIn(
+      { eventId: EVENT_ID, payload: await signedPayload(attendee, 'deadbeef') },
+      STAFF,
+    );
+
+    expect(result).toMatchObject({ accepted: false, abortCode: 4008 });
+  });
+
+  it('rejects staff without a ValidatorCap for the event', async () => {
+    const result = await service.checkIn(
+      { eventId: EVENT_ID, payload: await signedPayload() },
+      '0x0b',
+    );
+
+    expect(result).toMatchObject({
+      accepted: false,
+      abortCode: 4000,
+      abortName: 'tickets::ENotAuthorized',
+    });
+  });
+
+  it('rejects QR codes not signed by the ticket owner', async () => {
+    const result = await service.checkIn(
+      {
+        eventId: EVENT_ID,
+        payload: await signedPayload(Ed25519Keypair.generate()),
+      },
+      STAFF,
+    );
+
+    expect(result).toMatchObject({ accepted: false, abortCode: 4000 });
+    expect(result.message).toMatch(/not signed by the ticket owner/);
+  });
+
+  it('rejects stale QR codes', async () => {
+    const result = await service.checkIn(
+      {
+        eventId: EVENT_ID,
+        payload: await signedPayload(attendee, SECRET, Date.now() - 120_000),
+      },
+      STAFF,
+    );
+
+    expect(result).toMatchObject({ accepted: false, abortCode: 4000 });
+    expect(result.message).toMatch(/expired/);
+  });
+
+  it('rejects scans outside the event window with EInvalidTime', async () => {
+    setEvent(Date.now() - 2 * 60 * 60 * 1000, Date.now() - 1000);
+
+    const result = await service.checkIn(
+      { eventId: EVENT_ID, payload: await signedPayload() },
+      STAFF,
+    );
+
+    expect(result).toMatchObject({
+      accepted: false,
+      abortCode: 3001,
+      abortName: 'events::EInvalidTime',
+      message: 'Event has ended',
+    });
+  });
+
+  it('refuses payloads that are not QR check-in codes', async () => {
+    await expect(
+      service.checkIn({ eventId: EVENT_ID, payload: 'hello' }, STAFF),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,167 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { isValidSuiObjectId, normalizeSuiAddress } from '@mysten/sui/utils';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import { MoveAbort, moveAbort } from '../common/sui/move-aborts';
+import { SuiService } from '../common/sui/sui.service';
+import { EventsService } from '../events/events.service';
+import { TicketResponseDto } from '../tickets/dto/ticket.dto';
+import { TicketsService } from '../tickets/tickets.service';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { buildCheckInTicketTx } from '../transactions/transaction.builders';
+import { UnsignedTransactionResponseDto } from '../transactions/dto/transaction.dto';
+import { TransactionsService } from '../transactions/transactions.service';
+import { CheckInDto, CheckInResponseDto } from './dto/check-in.dto';
+import { eventWindowRejection } from './event-window';
+import { decodeQrPayload, hashQrSecret, qrSigningMessage } from './qr-payload';
+
+/**
+ * Runs the checks `tickets::validate_ticket` would abort on, so gates get
+ * an instant verdict, and returns the `tickets::check_in_ticket`
+ * transaction that records the admission on chain. `validate_ticket`
+ * itself needs objects owned by both the attendee and the validator, so
+ * the validator signs `check_in_ticket` instead.
+ */
+@Injectable()
+export class CheckInService {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly suiService: SuiService,
+    private readonly eventsService: EventsService,
+    private readonly ticketsService: TicketsService,
+    private readonly resolver: ObjectResolverService,
+    private readonly transactionsService: TransactionsService,
+  ) {}
+
+  /** Check a scan made by `validator`, the session address at the gate */
+  async checkIn(
+    dto: CheckInDto,
+    validator: string,
+  ): Promise<CheckInResponseDto> {
+    const eventId = normalizeSuiAddress(dto.eventId);
+    const payload = decodeQrPayload(dto.payload);
+    if (!isValidSuiObjectId(payload.ticketId)) {
+      return {
+        accepted: false,
+        eventId,
+        message: 'QR code has no valid ticket id',
+      };
+    }
+    const ticketId = normalizeSuiAddress(payload.ticketId);
+
+    const reject = (abort: MoveAbort, message: string): CheckInResponseDto => ({
+      accepted: false,
+      eventId,
+      ticketId,
+      abortCode: abort.code,
+      abortName: abort.name,
+      message,
+    });
+
+    const ticket = await this.ticketsService.getTicket(ticketId);
+    if (!ticket) {
+      return {
+        accepted: false,
+        eventId,
+        ticketId,
+        message: 'Ticket not found',
+      };
+    }
+
+    const validatorCapId = await this.resolver.resolveValidatorCap(
+      validator,
+      eventId,
+    );
+    if (!validatorCapId) {
+      return reject(
+        moveAbort('tickets', 'ENotAuthorized'),
+        `${normalizeSuiAddress(validator)} holds no ValidatorCap for this event`,
+      );
+    }
+
+    if (normalizeSuiAddress(ticket.eventId) !== eventId) {
+      return reject(
+        moveAbort('tickets', 'EInvalidEvent'),
+        'Ticket is for a different event',
+      );
+    }
+
+    // the client lets zkLogin signatures be checked by the fullnode
+    const signedByOwner = await verifyPersonalMessageSignature(
+      qrSigningMessage(payload),
+      payload.signature,
+      { address: ticket.owner, client: this.suiService.getClient() },
+    ).then(
+      () => true,
+      () => false,
+    );
+    if (!signedByOwner) {
+      return reject(
+        moveAbort('tickets', 'ENotAuthorized'),
+        'QR code was not signed by the ticket owner',
+      );
+    }
+
+    const maxAge =
+      this.configService.get<number>('checkIn.qrMaxAgeMs') ?? 60_000;
+    if (Math.abs(Date.now() - payload.issuedAt) > maxAge) {
+      return reject(
+        moveAbort('tickets', 'ENotAuthorized'),
+        'QR code has expired; ask the attendee to refresh it',
+      );
+    }
+
+    if (hashQrSecret(payload.secret) !== ticket.qrCodeHash.toLowerCase()) {
+      return reject(
+        moveAbort('tickets', 'EInvalidQRHash'),
+        'QR code does not match this ticket',
+      );
+    }
+
+    if (ticket.isValidated) {
+      return reject(
+        moveAbort('tickets', 'EAlreadyValidated'),
+        'Ticket has already been checked in',
+      );
+    }
+
+    const windowRejection = eventWindowRejection(
+      await this.eventsService.getEvent(eventId),
+      Date.now(),
+      this.earlyEntryMs(),
+    );
+    if (windowRejection) {
+      return reject(windowRejection.abort, windowRejection.message);
+    }
+
+    const checkIn = await this.buildCheckIn(ticket, validator, validatorCapId);
+    return {
+      accepted: true,
+      eventId,
+      ticketId,
+      message: 'Ticket accepted',
+      sender: checkIn.sender,
+      txBytes: checkIn.txBytes,
+    };
+  }
+
+  /** Build the validator-signed `check_in_ticket` transaction for a ticket */
+  buildCheckIn(
+    ticket: TicketResponseDto,
+    validator: string,
+    validatorCapId: string,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const tx = buildCheckInTicketTx(this.suiService.getPackageId(), {
+      sender: validator,
+      eventId: ticket.eventId,
+      validatorCapId,
+      ticketId: ticket.id,
+      owner: ticket.owner,
+    });
+    return this.transactionsService.serialize(tx, validator);
+  }
+
+  earlyEntryMs(): number {
+    return this.configService.get<number>('checkIn.earlyEntryMs') ?? 0;
+  }
+}
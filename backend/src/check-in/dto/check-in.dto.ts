@@ -0,0 +1,197 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  IsHexBytes,
+  IsSuiAddress,
+} from '../../common/validation/sui.validators';
+import type { ScanStatus } from '../scan-journal.store';
+
+export class CheckInDto {
+  @ApiProperty({ description: 'Event the gate is admitting' })
+  @IsSuiAddress()
+  eventId: string;
+
+  @ApiProperty({ description: 'Scanned QR code contents' })
+  @IsString()
+  @IsNotEmpty()
+  payload: string;
+}
+
+export class CheckInResponseDto {
+  @ApiProperty()
+  accepted: boolean;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiPropertyOptional()
+  ticketId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Move abort code validate_ticket would fail with',
+  })
+  abortCode?: number;
+
+  @ApiPropertyOptional({ description: 'e.g. tickets::EAlreadyValidated' })
+  abortName?: string;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiPropertyOptional({ description: 'Validator, who signs txBytes' })
+  sender?: string;
+
+  @ApiPropertyOptional({
+    description: 'Base64 BCS check_in_ticket TransactionData, ready to sign',
+  })
+  txBytes?: string;
+}
+
+export class OfflineSnapshotTicketDto {
+  @ApiProperty()
+  ticketId: string;
+
+  @ApiProperty()
+  owner: string;
+
+  @ApiProperty()
+  tier: string;
+
+  @ApiProperty({ description: 'Hex-encoded qr_code_hash' })
+  qrCodeHash: string;
+
+  @ApiProperty()
+  isValidated: boolean;
+}
+
+export class OfflineSnapshotDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  startTime: string;
+
+  @ApiProperty()
+  endTime: string;
+
+  @ApiProperty()
+  generatedAt: number;
+
+  @ApiProperty({ type: [OfflineSnapshotTicketDto] })
+  tickets: OfflineSnapshotTicketDto[];
+}
+
+export class SignedSnapshotResponseDto {
+  @ApiProperty({ type: OfflineSnapshotDto })
+  snapshot: OfflineSnapshotDto;
+
+  @ApiProperty({
+    description: 'Base64 of the exact JSON bytes that were signed',
+  })
+  payload: string;
+
+  @ApiProperty({ description: 'Sui personal-message signature over payload' })
+  signature: string;
+
+  @ApiProperty({ description: 'Address scanners should pin' })
+  signer: string;
+}
+
+export class ScanJournalEntryDto {
+  @ApiProperty()
+  @IsSuiAddress()
+  ticketId: string;
+
+  @ApiProperty({ description: 'qr_code_hash the device matched offline' })
+  @IsHexBytes()
+  qrCodeHash: string;
+
+  @ApiProperty({ description: 'Device clock time of the scan, in ms' })
+  @IsInt()
+  @Min(0)
+  scannedAt: number;
+}
+
+export class SyncScansDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  deviceId: string;
+
+  @ApiProperty({ type: [ScanJournalEntryDto] })
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @ValidateNested({ each: true })
+  @Type(() => ScanJournalEntryDto)
+  scans: ScanJournalEntryDto[];
+}
+
+export class FirstScanDto {
+  @ApiProperty()
+  deviceId: string;
+
+  @ApiProperty()
+  scannedAt: number;
+}
+
+export class ScanResultDto {
+  @ApiProperty()
+  ticketId: string;
+
+  @ApiProperty()
+  deviceId: string;
+
+  @ApiProperty()
+  scannedAt: number;
+
+  @ApiProperty({ enum: ['accepted', 'duplicate', 'rejected'] })
+  status: ScanStatus;
+
+  @ApiPropertyOptional()
+  abortCode?: number;
+
+  @ApiPropertyOptional()
+  abortName?: string;
+
+  @ApiPropertyOptional()
+  message?: string;
+
+  @ApiPropertyOptional({
+    type: FirstScanDto,
+    description: 'Scan that admitted the ticket, for duplicates',
+  })
+  firstScan?: FirstScanDto;
+}
+
+export class CheckInTransactionDto {
+  @ApiProperty()
+  ticketId: string;
+
+  @ApiProperty({ description: 'Validator, who signs txBytes' })
+  sender: string;
+
+  @ApiProperty()
+  txBytes: string;
+}
+
+export class SyncScansResponseDto {
+  @ApiProperty({ type: [ScanResultDto] })
+  results: ScanResultDto[];
+
+  @ApiProperty({
+    type: [CheckInTransactionDto],
+    description: 'check_in_ticket transactions for newly admitted tickets',
+  })
+  transactions: CheckInTransactionDto[];
+}
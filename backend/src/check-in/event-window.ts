@@ -0,0 +1,48 @@
+import { MoveAbort, moveAbort } from '../common/sui/move-aborts';
+import { EventResponseDto } from '../events/dto/event.dto';
+
+const ADMITTING_STATUSES = ['open', 'in_progress'];
+
+export interface CheckInRejection {
+  abort: MoveAbort;
+  message: string;
+}
+
+/**
+ * Whether gates may admit attendees to `event` at time `at`: the event
+ * must be live and the scan must fall between early entry and the end.
+ */
+export function eventWindowRejection(
+  event: EventResponseDto | null,
+  at: number,
+  earlyEntryMs: number,
+): CheckInRejection | null {
+  if (!event) {
+    return {
+      abort: moveAbort('tickets', 'EInvalidEvent'),
+      message: 'Event not found',
+    };
+  }
+
+  if (!ADMITTING_STATUSES.includes(event.status)) {
+    return {
+      abort: moveAbort('events', 'EInvalidStatus'),
+      message: `Event is ${event.status}`,
+    };
+  }
+
+  if (at < Number(event.config.startTime) - earlyEntryMs) {
+    return {
+      abort: moveAbort('events', 'EInvalidTime'),
+      message: 'Doors are not open yet',
+    };
+  }
+  if (at > Number(event.config.endTime)) {
+    return {
+      abort: moveAbort('events', 'EInvalidTime'),
+      message: 'Event has ended',
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,269 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  moveObject,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import { EventsService } from '../events/events.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { TicketsService } from '../tickets/tickets.service';
+import { TierStore } from '../tiers/tier.store';
+import { TiersService } from '../tiers/tiers.service';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { TransactionsService } from '../transactions/transactions.service';
+import { SNAPSHOT_SIGNER } from './check-in.constants';
+import { CheckInService } from './check-in.service';
+import { OfflineSyncService } from './offline-sync.service';
+import { ScanJournalStore } from './scan-journal.store';
+import { KeypairSnapshotSigner } from './snapshot-signer';
+import { eventObject, ticketObject } from './testing/check-in.fixtures';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const STAFF = normalizeSuiAddress('0x57af');
+const OWNER = normalizeSuiAddress('0xa11ce');
+const T1 = normalizeSuiAddress('0x71');
+const T2 = normalizeSuiAddress('0x72');
+const HASH_1 = 'aa01';
+const HASH_2 = 'aa02';
+
+describe('OfflineSyncService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let signer: KeypairSnapshotSigner;
+  let service: OfflineSyncService;
+  let serialize: jest.SpyInstance;
+  let start: number;
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+    signer = new KeypairSnapshotSigner(Ed25519Keypair.generate());
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            checkIn: { earlyEntryMs: 0 },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        { provide: SNAPSHOT_SIGNER, useValue: signer },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        EventsService,
+        TicketsService,
+        ObjectResolverService,
+        TierStore,
+        TiersService,
+        TransactionsService,
+        CheckInService,
+        ScanJournalStore,
+        OfflineSyncService,
+      ],
+    }).compile();
+    await module.init();
+
+    service = module.get(OfflineSyncService);
+    serialize = jest
+      .spyOn(module.get(TransactionsService), 'serialize')
+      .mockImplementation((_tx: Transaction, sender: string) =>
+        Promise.resolve({ sender, txBytes: 'dHg=' }),
+      );
+
+    start = Date.now() - 60 * 60 * 1000;
+    client.setObject(eventObject(EVENT_ID, start, start + 4 * 60 * 60 * 1000));
+    client.setObject(
+      ticketObject(T1, { eventId: EVENT_ID, owner: OWNER, qrCodeHash: HASH_1 }),
+    );
+    client.setObject(
+      ticketObject(T2, {
+        eventId: EVENT_ID,
+        owner: OWNER,
+        qrCodeHash: HASH_2,
+        isValidated: true,
+      }),
+    );
+    client.setObject(
+      moveObject(
+        '0xca9',
+        'access_control::ValidatorCap',
+        { event_id: EVENT_ID },
+        STAFF,
+      ),
+    );
+    module.get(IndexerStore).saveBatch(
+      'tickets::TicketMinted',
+      [T1, T2].map((ticketId) =>
+        recordedEvent('tickets::TicketMinted', {
+          ticket_id: ticketId,
+          event_id: EVENT_ID,
+        }),
+      ),
+      null,
+    );
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  function upload(deviceId: string, scans: [string, string, number][]) {
+    return service.sync(
+      EVENT_ID,
+      {
+        deviceId,
+        scans: scans.map(([ticketId, qrCodeHash, offset]) => ({
+          ticketId,
+          qrCodeHash,
+          scannedAt: start + offset,
+        })),
+      },
+      STAFF,
+    );
+  }
+
+  it('exports every ticket in a snapshot signed by the configured key', async () => {
+    const result = await service.getSnapshot(EVENT_ID);
+
+    expect(result.signer).toBe(signer.getAddress());
+    expect(result.snapshot.tickets).toEqual([
+      {
+        ticketId: T1,
+        owner: OWNER,
+        tier: 'general',
+        qrCodeHash: HASH_1,
+        isValidated: false,
+      },
+      {
+        ticketId: T2,
+        owner: OWNER,
+        tier: 'general',
+        qrCodeHash: HASH_2,
+        isValidated: true,
+      },
+    ]);
+
+    const payload = Buffer.from(result.payload, 'base64');
+    expect(JSON.parse(payload.toString())).toEqual(result.snapshot);
+    const publicKey = await verifyPersonalMessageSignature(
+      payload,
+      result.signature,
+    );
+    expect(publicKey.toSuiAddress()).toBe(signer.getAddress());
+  });
+
+  it('admits the first scan and builds its check_in_ticket transaction', async () => {
+    const result = await upload('gate-a', [[T1, HASH_1, 1_000]]);
+
+    expect(result.results).toEqual([
+      {
+        ticketId: T1,
+        deviceId: 'gate-a',
+        scannedAt: start + 1_000,
+        status: 'accepted',
+      },
+    ]);
+    expect(result.transactions).toEqual([
+      { ticketId: T1, sender: STAFF, txBytes: 'dHg=' },
+    ]);
+
+    const [tx] = serialize.mock.calls[0] as [Transaction];
+    const call = tx.getData().commands[0].MoveCall!;
+    expect(`${call.module}::${call.function}`).toBe('tickets::check_in_ticket');
+  });
+
+  it('lets an earlier scan from a later upload win and flags the other', async () => {
+    await upload('gate-a', [[T1, HASH_1, 5_000]]);
+    const result = await upload('gate-b', [[T1, HASH_1, 1_000]]);
+
+    expect(result.results[0]).toMatchObject({
+      deviceId: 'gate-b',
+      status: 'accepted',
+    });
+
+    // re-syncing gate-a's journal is idempotent and now reports the conflict
+    const resync = await upload('gate-a', [[T1, HASH_1, 5_000]]);
+    expect(resync.results).toEqual([
+      {
+        ticketId: T1,
+        deviceId: 'gate-a',
+        scannedAt: start + 5_000,
+        status: 'duplicate',
+        abortCode: 4005,
+        abortName: 'tickets::EAlreadyValidated',
+        message: 'Ticket was already admitted by gate-b',
+        firstScan: { deviceId: 'gate-b', scannedAt: start + 1_000 },
+      },
+    ]);
+  });
+
+  it('flags double entry within one journal and builds one transaction', async () => {
+    const result = await upload('gate-a', [
+      [T1, HASH_1, 1_000],
+      [T1, HASH_1, 2_000],
+    ]);
+
+    expect(result.results.map((scan) => scan.status)).toEqual([
+      'accepted',
+      'duplicate',
+    ]);
+    expect(result.transactions).toHaveLength(1);
+  });
+
+  it('builds no transaction again when a later upload only repeats an admission', async () => {
+    await upload('gate-a', [[T1, HASH_1, 1_000]]);
+    const result = await upload('gate-b', [[T1, HASH_1, 2_000]]);
+
+    expect(result.results[0].status).toBe('duplicate');
+    expect(result.transactions).toEqual([]);
+  });
+
+  it('rejects scans whose QR hash does not match the ticket', async () => {
+    const result = await upload('gate-a', [[T1, 'ffff', 1_000]]);
+
+    expect(result.results[0]).toMatchObject({
+      status: 'rejected',
+      abortCode: 4008,
+      abortName: 'tickets::EInvalidQRHash',
+    });
+    expect(result.transactions).toEqual([]);
+  });
+
+  it('rejects scans recorded after the event ended', async () => {
+    const result = await upload('gate-a', [[T1, HASH_1, 5 * 60 * 60 * 1000]]);
+
+    expect(result.results[0]).toMatchObject({
+      status: 'rejected',
+      abortName: 'events::EInvalidTime',
+    });
+  });
+
+  it('rejects scans of tickets already validated on chain', async () => {
+    const result = await upload('gate-a', [[T2, HASH_2, 1_000]]);
+
+    expect(result.results[0]).toMatchObject({
+      status: 'rejected',
+      abortCode: 4005,
+      abortName: 'tickets::EAlreadyValidated',
+    });
+  });
+
+  it('refuses journals from staff without a ValidatorCap', async () => {
+    await expect(
+      service.sync(EVENT_ID, { deviceId: 'gate-a', scans: [] }, '0x0b'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,261 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { findMoveAbort, moveAbort } from '../common/sui/move-aborts';
+import { EventResponseDto } from '../events/dto/event.dto';
+import { EventsService } from '../events/events.service';
+import { TicketResponseDto } from '../tickets/dto/ticket.dto';
+import { TicketsService } from '../tickets/tickets.service';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { CheckInService } from './check-in.service';
+import { SNAPSHOT_PAGE_SIZE, SNAPSHOT_SIGNER } from './check-in.constants';
+import { CheckInRejection, eventWindowRejection } from './event-window';
+import { resolveScanConflicts } from './scan-resolution';
+import { ScanJournalStore, StoredScan } from './scan-journal.store';
+import { SnapshotSigner } from './snapshot-signer';
+import {
+  CheckInTransactionDto,
+  OfflineSnapshotDto,
+  OfflineSnapshotTicketDto,
+  ScanJournalEntryDto,
+  ScanResultDto,
+  SignedSnapshotResponseDto,
+  SyncScansDto,
+  SyncScansResponseDto,
+} from './dto/check-in.dto';
+
+/**
+ * Lets gates keep admitting attendees without connectivity: devices scan
+ * against a signed snapshot of the event's tickets and upload their scan
+ * journal once they are back online.
+ */
+@Injectable()
+export class OfflineSyncService {
+  constructor(
+    private readonly eventsService: EventsService,
+    private readonly ticketsService: TicketsService,
+    private readonly resolver: ObjectResolverService,
+    private readonly checkInService: CheckInService,
+    private readonly journal: ScanJournalStore,
+    @Inject(SNAPSHOT_SIGNER) private readonly signer: SnapshotSigner | null,
+  ) {}
+
+  async getSnapshot(eventId: string): Promise<SignedSnapshotResponseDto> {
+    if (!this.signer) {
+      throw new ServiceUnavailableException(
+        'Offline snapshots are not configured',
+      );
+    }
+
+    const id = normalizeSuiAddress(eventId);
+    const event = await this.requireEvent(id);
+
+    const tickets: OfflineSnapshotTicketDto[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.ticketsService.getTicketsByEvent(
+        id,
+        SNAPSHOT_PAGE_SIZE,
+        cursor,
+      );
+      for (const ticket of page.tickets) {
+        tickets.push({
+          ticketId: ticket.id,
+          owner: ticket.owner,
+          tier: ticket.tier,
+          qrCodeHash: ticket.qrCodeHash,
+          isValidated: ticket.isValidated,
+        });
+      }
+      cursor = page.hasMore ? page.nextCursor : undefined;
+    } while (cursor);
+
+    const snapshot: OfflineSnapshotDto = {
+      eventId: id,
+      startTime: event.config.startTime,
+      endTime: event.config.endTime,
+      generatedAt: Date.now(),
+      tickets,
+    };
+    const payload = Buffer.from(JSON.stringify(snapshot));
+
+    return {
+      snapshot,
+      payload: payload.toString('base64'),
+      signature: await this.signer.signPersonalMessage(payload),
+      signer: this.signer.getAddress(),
+    };
+  }
+
+  /**
+   * Record the journal a device uploaded under `uploader`'s session, settle
+   * double entries against every scan uploaded so far and build
+   * `check_in_ticket` transactions for the tickets this upload admitted.
+   */
+  async sync(
+    eventId: string,
+    dto: SyncScansDto,
+    uploader: string,
+  ): Promise<SyncScansResponseDto> {
+    const id = normalizeSuiAddress(eventId);
+    const validator = normalizeSuiAddress(uploader);
+    const validatorCapId = await this.resolver.resolveValidatorCap(
+      validator,
+      id,
+    );
+    if (!validatorCapId) {
+      throw new ForbiddenException(
+        `${validator} holds no ValidatorCap for event ${id}`,
+      );
+    }
+    const event = await this.requireEvent(id);
+
+    const tickets = new Map<string, TicketResponseDto | null>();
+    const uploaded: StoredScan[] = [];
+    for (const entry of dto.scans) {
+      const ticketId = normalizeSuiAddress(entry.ticketId);
+      if (!tickets.has(ticketId)) {
+        tickets.set(ticketId, await this.ticketsService.getTicket(ticketId));
+      }
+
+      const rejection = this.checkScan(
+        id,
+        event,
+        tickets.get(ticketId) ?? null,
+        entry,
+      );
+      uploaded.push(
+        this.journal.insert({
+          eventId: id,
+          ticketId,
+          deviceId: dto.deviceId,
+          validator,
+          qrCodeHash: normalizeHex(entry.qrCodeHash),
+          scannedAt: entry.scannedAt,
+          status: rejection ? 'rejected' : 'accepted',
+          abortCode: rejection?.abort.code ?? null,
+          message: rejection?.message ?? null,
+        }),
+      );
+    }
+
+    const outcomes = new Map<number, ScanResultDto>();
+    const admitted: TicketResponseDto[] = [];
+    const touched = new Set(
+      uploaded
+        .filter((scan) => scan.status !== 'rejected')
+        .map((scan) => scan.ticketId),
+    );
+
+    for (const ticketId of touched) {
+      const resolution = resolveScanConflicts(
+        this.journal.findAdmissions(id, ticketId),
+      ).get(ticketId)!;
+      const { winner, duplicates } = resolution;
+
+      this.journal.setStatus(winner.id, 'accepted');
+      outcomes.set(winner.id, toResult(winner, 'accepted'));
+      for (const duplicate of duplicates) {
+        this.journal.setStatus(duplicate.id, 'duplicate');
+        outcomes.set(duplicate.id, {
+          ...toResult(duplicate, 'duplicate'),
+          ...abortFields(moveAbort('tickets', 'EAlreadyValidated').code),
+          message: `Ticket was already admitted by ${winner.deviceId}`,
+          firstScan: { deviceId: winner.deviceId, scannedAt: winner.scannedAt },
+        });
+      }
+
+      // a winner from an earlier upload already had its transaction built
+      if (uploaded.some((scan) => scan.id === winner.id)) {
+        admitted.push(tickets.get(ticketId)!);
+      }
+    }
+
+    const transactions: CheckInTransactionDto[] = [];
+    for (const ticket of admitted) {
+      const tx = await this.checkInService.buildCheckIn(
+        ticket,
+        validator,
+        validatorCapId,
+      );
+      transactions.push({ ticketId: ticket.id, ...tx });
+    }
+
+    return {
+      results: uploaded.map(
+        (scan) =>
+          outcomes.get(scan.id) ?? {
+            ...toResult(scan, scan.status),
+            ...abortFields(scan.abortCode),
+            message: scan.message ?? undefined,
+          },
+      ),
+      transactions,
+    };
+  }
+
+  private checkScan(
+    eventId: string,
+    event: EventResponseDto,
+    ticket: TicketResponseDto | null,
+    entry: ScanJournalEntryDto,
+  ): CheckInRejection | null {
+    if (!ticket || normalizeSuiAddress(ticket.eventId) !== eventId) {
+      return {
+        abort: moveAbort('tickets', 'EInvalidEvent'),
+        message: 'Ticket is not for this event',
+      };
+    }
+    if (normalizeHex(entry.qrCodeHash) !== normalizeHex(ticket.qrCodeHash)) {
+      return {
+        abort: moveAbort('tickets', 'EInvalidQRHash'),
+        message: 'Scanned QR hash does not match this ticket',
+      };
+    }
+    if (ticket.isValidated) {
+      return {
+        abort: moveAbort('tickets', 'EAlreadyValidated'),
+        message: 'Ticket was already validated on chain',
+      };
+    }
+    return eventWindowRejection(
+      event,
+      entry.scannedAt,
+      this.checkInService.earlyEntryMs(),
+    );
+  }
+
+  private async requireEvent(eventId: string): Promise<EventResponseDto> {
+    const event = await this.eventsService.getEvent(eventId);
+    if (!event) {
+      throw new NotFoundException(`Event ${eventId} not found`);
+    }
+    return event;
+  }
+}
+
+function toResult(
+  scan: StoredScan,
+  status: ScanResultDto['status'],
+): ScanResultDto {
+  return {
+    ticketId: scan.ticketId,
+    deviceId: scan.deviceId,
+    scannedAt: scan.scannedAt,
+    status,
+  };
+}
+
+function abortFields(code: number | null) {
+  const abort = code === null ? null : findMoveAbort(code);
+  return abort ? { abortCode: abort.code, abortName: abort.name } : {};
+}
+
+function normalizeHex(hex: string): string {
+  return hex.replace(/^0x/, '').toLowerCase();
+}
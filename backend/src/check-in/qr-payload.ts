@@ -0,0 +1,56 @@
+import { BadRequestException } from '@nestjs/common';
+import { fromHex } from '@mysten/sui/utils';
+import { createHash } from 'crypto';
+
+const SECRET_PATTERN = /^([0-9a-fA-F]{2})+$/;
+
+/**
+ * Contents of the QR code an attendee shows at the door. The secret's
+ * SHA3-256 hash is what `mint_ticket` stored as `qr_code_hash`; the owner
+ * signs the payload as a personal message so a screenshot goes stale
+ * after `issuedAt`.
+ */
+export interface QrPayload {
+  ticketId: string;
+  secret: string;
+  issuedAt: number;
+  signature: string;
+}
+
+export function qrSigningMessage(
+  payload: Omit<QrPayload, 'signature'>,
+): Uint8Array {
+  return new TextEncoder().encode(
+    `event-platform:check-in:${payload.ticketId}:${payload.secret}:${payload.issuedAt}`,
+  );
+}
+
+export function hashQrSecret(secret: string): string {
+  return createHash('sha3-256').update(fromHex(secret)).digest('hex');
+}
+
+export function encodeQrPayload(payload: QrPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeQrPayload(encoded: string): QrPayload {
+  let payload: Partial<QrPayload>;
+  try {
+    payload = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf8'),
+    ) as Partial<QrPayload>;
+  } catch {
+    throw new BadRequestException('QR payload is not valid');
+  }
+
+  if (
+    typeof payload?.ticketId !== 'string' ||
+    typeof payload.secret !== 'string' ||
+    !SECRET_PATTERN.test(payload.secret) ||
+    typeof payload.issuedAt !== 'number' ||
+    typeof payload.signature !== 'string'
+  ) {
+    throw new BadRequestException('QR payload is not valid');
+  }
+  return payload as QrPayload;
+}
@@ -0,0 +1,143 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../common/database/database.service';
+import { JournalScan } from './scan-resolution';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS check_in_scans (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    event_id TEXT NOT NULL,
+    ticket_id TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    validator TEXT NOT NULL,
+    qr_code_hash TEXT NOT NULL,
+    scanned_at INTEGER NOT NULL,
+    received_at INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    abort_code INTEGER,
+    message TEXT,
+    UNIQUE (event_id, ticket_id, device_id, scanned_at)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_check_in_scans_ticket
+    ON check_in_scans (event_id, ticket_id);
+`;
+
+export type ScanStatus = 'accepted' | 'duplicate' | 'rejected';
+
+export interface StoredScan extends JournalScan {
+  eventId: string;
+  validator: string;
+  qrCodeHash: string;
+  receivedAt: number;
+  status: ScanStatus;
+  abortCode: number | null;
+  message: string | null;
+}
+
+export type NewScan = Omit<StoredScan, 'id' | 'receivedAt'>;
+
+interface ScanRow {
+  id: number;
+  event_id: string;
+  ticket_id: string;
+  device_id: string;
+  validator: string;
+  qr_code_hash: string;
+  scanned_at: number;
+  received_at: number;
+  status: ScanStatus;
+  abort_code: number | null;
+  message: string | null;
+}
+
+/**
+ * Scans uploaded by gate devices that validated tickets offline.
+ */
+@Injectable()
+export class ScanJournalStore implements OnModuleInit {
+  private readonly db: Database.Database;
+
+  constructor(database: DatabaseService) {
+    this.db = database.connection;
+  }
+
+  onModuleInit() {
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Store a scan unless the device already uploaded it, and return the
+   * stored row either way so re-syncing a journal is idempotent.
+   */
+  insert(scan: NewScan): StoredScan {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO check_in_scans
+          (event_id, ticket_id, device_id, validator, qr_code_hash,
+           scanned_at, received_at, status, abort_code, message)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        scan.eventId,
+        scan.ticketId,
+        scan.deviceId,
+        scan.validator,
+        scan.qrCodeHash,
+        scan.scannedAt,
+        Date.now(),
+        scan.status,
+        scan.abortCode,
+        scan.message,
+      );
+
+    const row = this.db
+      .prepare(
+        `SELECT * FROM check_in_scans
+          WHERE event_id = ? AND ticket_id = ? AND device_id = ? AND scanned_at = ?`,
+      )
+      .get(
+        scan.eventId,
+        scan.ticketId,
+        scan.deviceId,
+        scan.scannedAt,
+      ) as ScanRow;
+    return this.mapRow(row);
+  }
+
+  /**
+   * Scans of a ticket that passed the offline checks, in upload order.
+   */
+  findAdmissions(eventId: string, ticketId: string): StoredScan[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM check_in_scans
+          WHERE event_id = ? AND ticket_id = ? AND status != 'rejected'
+          ORDER BY id`,
+      )
+      .all(eventId, ticketId) as ScanRow[];
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  setStatus(id: number, status: Exclude<ScanStatus, 'rejected'>) {
+    this.db
+      .prepare('UPDATE check_in_scans SET status = ? WHERE id = ?')
+      .run(status, id);
+  }
+
+  private mapRow(row: ScanRow): StoredScan {
+    return {
+      id: row.id,
+      eventId: row.event_id,
+      ticketId: row.ticket_id,
+      deviceId: row.device_id,
+      validator: row.validator,
+      qrCodeHash: row.qr_code_hash,
+      scannedAt: row.scanned_at,
+      receivedAt: row.received_at,
+      status: row.status,
+      abortCode: row.abort_code,
+      message: row.message,
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { JournalScan, resolveScanConflicts } from './scan-resolution';
+
+let nextId = 1;
+
+function scan(ticketId: string, deviceId: string, scannedAt: number) {
+  return { id: nextId++, ticketId, deviceId, scannedAt } as JournalScan;
+}
+
+describe('resolveScanConflicts', () => {
+  it('lets the earliest scan win across devices, whatever the upload order', () => {
+    const late = scan('0xt1', 'gate-a', 2_000);
+    const early = scan('0xt1', 'gate-b', 1_000);
+
+    const resolution = resolveScanConflicts([late, early]).get('0xt1')!;
+
+    expect(resolution.winner).toBe(early);
+    expect(resolution.duplicates).toEqual([late]);
+  });
+
+  it('breaks timestamp ties in favour of the scan received first', () => {
+    const first = scan('0xt1', 'gate-a', 1_000);
+    const second = scan('0xt1', 'gate-b', 1_000);
+
+    const resolution = resolveScanConflicts([second, first]).get('0xt1')!;
+
+    expect(resolution.winner).toBe(first);
+    expect(resolution.duplicates).toEqual([second]);
+  });
+
+  it('flags repeat scans on the same device as duplicates', () => {
+    const entry = scan('0xt1', 'gate-a', 1_000);
+    const reentry = scan('0xt1', 'gate-a', 5_000);
+
+    const resolution = resolveScanConflicts([entry, reentry]).get('0xt1')!;
+
+    expect(resolution.winner).toBe(entry);
+    expect(resolution.duplicates).toEqual([reentry]);
+  });
+
+  it('resolves each ticket independently', () => {
+    const t1 = scan('0xt1', 'gate-a', 3_000);
+    const t2 = scan('0xt2', 'gate-b', 1_000);
+    const t2Again = scan('0xt2', 'gate-a', 2_000);
+
+    const resolutions = resolveScanConflicts([t1, t2, t2Again]);
+
+    expect(resolutions.get('0xt1')).toEqual({ winner: t1, duplicates: [] });
+    expect(resolutions.get('0xt2')).toEqual({
+      winner: t2,
+      duplicates: [t2Again],
+    });
+  });
+});
@@ -0,0 +1,38 @@
+export interface JournalScan {
+  id: number;
+  ticketId: string;
+  deviceId: string;
+  scannedAt: number;
+}
+
+export interface ScanResolution<T extends JournalScan = JournalScan> {
+  winner: T;
+  duplicates: T[];
+}
+
+/**
+ * Group offline scans by ticket and decide which one admitted the holder.
+ * The earliest scan wins regardless of which device or upload it came
+ * from; ties go to the scan the server received first. Every other scan
+ * of the same ticket, including repeats on the winning device, is a
+ * duplicate entry attempt.
+ */
+export function resolveScanConflicts<T extends JournalScan>(
+  scans: T[],
+): Map<string, ScanResolution<T>> {
+  const byTicket = new Map<string, T[]>();
+  for (const scan of scans) {
+    const group = byTicket.get(scan.ticketId) ?? [];
+    group.push(scan);
+    byTicket.set(scan.ticketId, group);
+  }
+
+  const resolutions = new Map<string, ScanResolution<T>>();
+  for (const [ticketId, group] of byTicket) {
+    const [winner, ...duplicates] = [...group].sort(
+      (a, b) => a.scannedAt - b.scannedAt || a.id - b.id,
+    );
+    resolutions.set(ticketId, { winner, duplicates });
+  }
+  return resolutions;
+}
@@ -0,0 +1,29 @@
+import { Keypair } from '@mysten/sui/cryptography';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+
+/**
+ * Signs offline gate snapshots as Sui personal messages, so scanners can
+ * check them with `verifyPersonalMessageSignature` against a pinned
+ * address.
+ */
+export interface SnapshotSigner {
+  getAddress(): string;
+  signPersonalMessage(message: Uint8Array): Promise<string>;
+}
+
+export class KeypairSnapshotSigner implements SnapshotSigner {
+  constructor(private readonly keypair: Keypair) {}
+
+  static fromSecretKey(secretKey: string): KeypairSnapshotSigner {
+    return new KeypairSnapshotSigner(Ed25519Keypair.fromSecretKey(secretKey));
+  }
+
+  getAddress(): string {
+    return this.keypair.toSuiAddress();
+  }
+
+  async signPersonalMessage(message: Uint8Array): Promise<string> {
+    const { signature } = await this.keypair.signPersonalMessage(message);
+    return signature;
+  }
+}
@@ -0,0 +1,32 @@
+import { SuiObjectResponse } from '@mysten/sui/client';
+import { fromHex } from '@mysten/sui/utils';
+import * as fixtures from '../../common/sui/testing/move-fixtures';
+
+export function ticketObject(
+  ticketId: string,
+  input: {
+    eventId: string;
+    owner: string;
+    qrCodeHash: string;
+    isValidated?: boolean;
+  },
+): SuiObjectResponse {
+  return fixtures.ticketObject(ticketId, {
+    event_id: input.eventId,
+    owner: input.owner,
+    original_owner: input.owner,
+    metadata: { qr_code_hash: Array.from(fromHex(input.qrCodeHash)) },
+    validation: { is_validated: input.isValidated ?? false },
+  });
+}
+
+export function eventObject(
+  eventId: string,
+  startTime: number,
+  endTime: number,
+): SuiObjectResponse {
+  return fixtures.eventObject(eventId, {
+    metadata: { title: 'Gig', tags: [] },
+    config: { start_time: String(startTime), end_time: String(endTime) },
+  });
+}
@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from './database/database.module';
 import { SuiModule } from './sui/sui.module';
 import configuration from './config/configuration';
 
@@ -9,8 +10,9 @@ import configuration from './config/configuration';
       isGlobal: true,
       load: [configuration],
     }),
+    DatabaseModule,
     SuiModule,
   ],
-  exports: [SuiModule],
+  exports: [DatabaseModule, SuiModule],
 })
 export class CommonModule {}
@@ -1,7 +1,133 @@
-export default () => ({
-  port: parseInt(process.env.PORT || '3000', 10),
-  sui: {
-    network: process.env.SUI_NETWORK || 'testnet',
-    packageId: process.env.PACKAGE_ID || '0x0',
-  },
-});
+import { resolveSuiNetwork } from './sui-networks';
+
+export default () => {
+  const network = resolveSuiNetwork();
+  return {
+    port: parseInt(process.env.PORT || '3000', 10),
+    sui: {
+      ...network,
+      cache: {
+        ttlMs: parseInt(process.env.SUI_CACHE_TTL_MS || '30000', 10),
+        maxEntries: parseInt(process.env.SUI_CACHE_MAX_ENTRIES || '10000', 10),
+      },
+    },
+    database: {
+      path: process.env.DATABASE_PATH || `data/${network.network}.db`,
+    },
+    indexer: {
+      enabled: process.env.INDEXER_ENABLED !== 'false',
+      pollIntervalMs: parseInt(
+        process.env.INDEXER_POLL_INTERVAL_MS || '5000',
+        10,
+      ),
+      batchSize: parseInt(process.env.INDEXER_BATCH_SIZE || '50', 10),
+    },
+    checkIn: {
+      earlyEntryMs: parseInt(
+        process.env.CHECK_IN_EARLY_ENTRY_MS || '7200000',
+        10,
+      ),
+      qrMaxAgeMs: parseInt(process.env.CHECK_IN_QR_MAX_AGE_MS || '60000', 10),
+      snapshotKey: process.env.CHECK_IN_SNAPSHOT_KEY || '',
+    },
+    auth: {
+      jwtSecret: process.env.AUTH_JWT_SECRET || '',
+      sessionTtlSeconds: parseInt(
+        process.env.AUTH_SESSION_TTL_SECONDS || '900',
+        10,
+      ),
+      challengeTtlMs: parseInt(
+        process.env.AUTH_CHALLENGE_TTL_MS || '300000',
+        10,
+      ),
+      maxChallengesPerAddress: parseInt(
+        process.env.AUTH_MAX_CHALLENGES_PER_ADDRESS || '3',
+        10,
+      ),
+      maxPendingChallenges: parseInt(
+        process.env.AUTH_MAX_PENDING_CHALLENGES || '10000',
+        10,
+      ),
+    },
+    walrus: {
+      blobDirectory: process.env.WALRUS_BLOB_DIR || 'data/blobs',
+      cacheEntries: parseInt(process.env.WALRUS_CACHE_ENTRIES || '500', 10),
+    },
+    seal: {
+      masterKey: process.env.SEAL_MASTER_KEY || '',
+    },
+    resale: {
+      defaultMaxMarkupBps: parseInt(
+        process.env.RESALE_DEFAULT_MAX_MARKUP_BPS || '1000',
+        10,
+      ),
+      purchaseHoldMs: parseInt(
+        process.env.RESALE_PURCHASE_HOLD_MS || '600000',
+        10,
+      ),
+    },
+    waitlist: {
+      claimWindowMs: parseInt(
+        process.env.WAITLIST_CLAIM_WINDOW_MS || '1800000',
+        10,
+      ),
+      sweepIntervalMs: parseInt(
+        process.env.WAITLIST_SWEEP_INTERVAL_MS || '60000',
+        10,
+      ),
+    },
+    webhooks: {
+      maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+      retryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '10000', 10),
+      retryMaxMs: parseInt(process.env.WEBHOOK_RETRY_MAX_MS || '3600000', 10),
+      timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+      pollIntervalMs: parseInt(
+        process.env.WEBHOOK_POLL_INTERVAL_MS || '5000',
+        10,
+      ),
+      allowPrivateTargets: process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true',
+    },
+    sponsorship: {
+      privateKey: process.env.SPONSOR_PRIVATE_KEY || '',
+      allowedTargets: (
+        process.env.SPONSOR_ALLOWED_TARGETS ||
+        'users::create_profile,users::create_profile_with_zklogin,users::keep_profile,tickets::mint_ticket'
+      )
+        .split(',')
+        .map((target) => target.trim())
+        .filter(Boolean),
+      gasBudget: parseInt(process.env.SPONSOR_GAS_BUDGET || '50000000', 10),
+      windowMs: parseInt(process.env.SPONSOR_LIMIT_WINDOW_MS || '86400000', 10),
+      global: {
+        maxTransactions: parseInt(
+          process.env.SPONSOR_GLOBAL_MAX_TX || '5000',
+          10,
+        ),
+        maxGas: parseInt(
+          process.env.SPONSOR_GLOBAL_MAX_GAS || '50000000000',
+          10,
+        ),
+      },
+      perAddress: {
+        maxTransactions: parseInt(
+          process.env.SPONSOR_ADDRESS_MAX_TX || '10',
+          10,
+        ),
+        maxGas: parseInt(
+          process.env.SPONSOR_ADDRESS_MAX_GAS || '250000000',
+          10,
+        ),
+      },
+      perEvent: {
+        maxTransactions: parseInt(
+          process.env.SPONSOR_EVENT_MAX_TX || '1000',
+          10,
+        ),
+        maxGas: parseInt(
+          process.env.SPONSOR_EVENT_MAX_GAS || '10000000000',
+          10,
+        ),
+      },
+    },
+  };
+};
@@ -0,0 +1,130 @@
+import 'reflect-metadata';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resolveSuiNetwork } from './sui-networks';
+
+const OBJECTS = {
+  eventRegistry: '0x1e',
+  badgeRegistry: '0x1b',
+  platformTreasury: '0x1f',
+  attendanceRegistry: '0x1a',
+};
+
+describe('resolveSuiNetwork', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sui-networks-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function registryFile(registry: unknown): string {
+    const path = join(dir, 'networks.json');
+    writeFileSync(path, JSON.stringify(registry));
+    return path;
+  }
+
+  it('reads a single network from the environment', () => {
+    expect(
+      resolveSuiNetwork({
+        SUI_NETWORK: 'devnet',
+        PACKAGE_ID: '0xfeed',
+        PREVIOUS_PACKAGE_IDS: '0xfee0, 0xfee1',
+        EVENT_REGISTRY_ID: '0x1e',
+      }),
+    ).toEqual({
+      network: 'devnet',
+      rpcUrl: 'https://fullnode.devnet.sui.io:443',
+      packageId: '0xfeed',
+      previousPackageIds: ['0xfee0', '0xfee1'],
+      objects: expect.objectContaining({
+        eventRegistry: '0x1e',
+        badgeRegistry: '0x0',
+      }) as unknown,
+    });
+  });
+
+  it('selects the active network from a registry file', () => {
+    const SUI_NETWORKS_FILE = registryFile({
+      testnet: { packageId: '0xaa', objects: OBJECTS },
+      localnet: {
+        packageId: '0xbb',
+        previousPackageIds: ['0xba'],
+        objects: OBJECTS,
+      },
+    });
+
+    const resolved = resolveSuiNetwork({
+      SUI_NETWORK: 'localnet',
+      SUI_NETWORKS_FILE,
+      PACKAGE_ID: '0xcc',
+    });
+
+    expect(resolved).toMatchObject({
+      network: 'localnet',
+      rpcUrl: 'http://127.0.0.1:9000',
+      packageId: '0xbb',
+      previousPackageIds: ['0xba'],
+      objects: OBJECTS,
+    });
+  });
+
+  it('lets SUI_RPC_URL override the registry and requires it for custom networks', () => {
+    const SUI_NETWORKS_FILE = registryFile({
+      staging: { packageId: '0xaa', objects: OBJECTS },
+    });
+
+    expect(() =>
+      resolveSuiNetwork({ SUI_NETWORK: 'staging', SUI_NETWORKS_FILE }),
+    ).toThrow('rpcUrl is required for custom network staging');
+    expect(
+      resolveSuiNetwork({
+        SUI_NETWORK: 'staging',
+        SUI_NETWORKS_FILE,
+        SUI_RPC_URL: 'http://sui-node:9000',
+      }).rpcUrl,
+    ).toBe('http://sui-node:9000');
+  });
+
+  it('rejects a network missing from the registry', () => {
+    const SUI_NETWORKS_FILE = registryFile({
+      testnet: { packageId: '0xaa', objects: OBJECTS },
+    });
+
+    expect(() =>
+      resolveSuiNetwork({ SUI_NETWORK: 'mainnet', SUI_NETWORKS_FILE }),
+    ).toThrow('Sui network "mainnet" is not in the network registry (testnet)');
+  });
+
+  it('rejects malformed ids and unknown keys, naming each field', () => {
+    const SUI_NETWORKS_FILE = registryFile({
+      testnet: {
+        packageId: 'feed',
+        previousPackageIds: ['0xfee0', 'nope'],
+        objects: { ...OBJECTS, badgeRegistry: undefined },
+        packageID: '0xfeed',
+      },
+    });
+
+    expect(() => resolveSuiNetwork({ SUI_NETWORKS_FILE })).toThrow(
+      'Invalid Sui network config for "testnet": ' +
+        'property packageID should not exist; ' +
+        'packageId must be a 0x-prefixed Sui address; ' +
+        'previousPackageIds must be a 0x-prefixed Sui address; ' +
+        'objects.badgeRegistry must be a 0x-prefixed Sui address',
+    );
+  });
+
+  it('rejects a registry file that is not a JSON object', () => {
+    expect(() =>
+      resolveSuiNetwork({ SUI_NETWORKS_FILE: registryFile(['testnet']) }),
+    ).toThrow('must be a JSON object');
+    expect(() =>
+      resolveSuiNetwork({ SUI_NETWORKS_FILE: join(dir, 'missing.json') }),
+    ).toThrow('Could not read Sui network registry');
+  });
+});
@@ -0,0 +1,160 @@
+import { readFileSync } from 'fs';
+import { getFullnodeUrl } from '@mysten/sui/client';
+import { Type, plainToInstance } from 'class-transformer';
+import {
+  IsArray,
+  IsOptional,
+  IsUrl,
+  ValidateNested,
+  validateSync,
+} from 'class-validator';
+import { IsSuiAddress } from '../validation/sui.validators';
+import { flattenValidationErrors } from '../validation/validation-errors';
+
+/** Networks whose fullnode URL the SDK knows, so `rpcUrl` may be omitted */
+export const KNOWN_SUI_NETWORKS = [
+  'mainnet',
+  'testnet',
+  'devnet',
+  'localnet',
+] as const;
+
+type KnownSuiNetwork = (typeof KNOWN_SUI_NETWORKS)[number];
+
+export class SharedObjectsConfig {
+  @IsSuiAddress()
+  eventRegistry: string;
+
+  @IsSuiAddress()
+  badgeRegistry: string;
+
+  @IsSuiAddress()
+  platformTreasury: string;
+
+  @IsSuiAddress()
+  attendanceRegistry: string;
+}
+
+/** One entry of the network registry */
+export class SuiNetworkConfig {
+  @IsOptional()
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  rpcUrl?: string;
+
+  /** Latest package version; transactions call into this one */
+  @IsSuiAddress()
+  packageId: string;
+
+  /**
+   * Earlier versions of the package, oldest first. Types keep the id of the
+   * version that introduced them, so their objects and events are still
+   * matched and indexed under these ids after an upgrade.
+   */
+  @IsArray()
+  @IsSuiAddress({ each: true })
+  previousPackageIds: string[] = [];
+
+  @ValidateNested()
+  @Type(() => SharedObjectsConfig)
+  objects: SharedObjectsConfig;
+}
+
+/** The network this instance serves, as exposed under `sui.*` */
+export interface ResolvedSuiNetwork {
+  network: string;
+  rpcUrl: string;
+  packageId: string;
+  previousPackageIds: string[];
+  objects: SharedObjectsConfig;
+}
+
+/**
+ * Resolve and validate the active network. With `SUI_NETWORKS_FILE` the
+ * registry is a JSON object of network name to `SuiNetworkConfig`, so
+ * several instances (e.g. testnet and mainnet) can share one file and
+ * differ only in `SUI_NETWORK`; without it the single network is read from
+ * the individual variables. Throws on any invalid entry so a misconfigured
+ * instance fails at boot rather than on its first chain read.
+ */
+export function resolveSuiNetwork(
+  env: NodeJS.ProcessEnv = process.env,
+): ResolvedSuiNetwork {
+  const network = env.SUI_NETWORK || 'testnet';
+  const registry = env.SUI_NETWORKS_FILE
+    ? readRegistry(env.SUI_NETWORKS_FILE)
+    : { [network]: networkFromEnv(env) };
+
+  const entry: unknown = registry[network];
+  if (!entry) {
+    throw new Error(
+      `Sui network "${network}" is not in the network registry (${Object.keys(registry).join(', ')})`,
+    );
+  }
+
+  const config = plainToInstance(SuiNetworkConfig, entry);
+  if (env.SUI_RPC_URL) {
+    config.rpcUrl = env.SUI_RPC_URL;
+  }
+
+  const errors = flattenValidationErrors(
+    validateSync(config, { whitelist: true, forbidNonWhitelisted: true }),
+  );
+  const rpcUrl = config.rpcUrl ?? knownFullnodeUrl(network);
+  if (!rpcUrl) {
+    errors.push(`rpcUrl is required for custom network ${network}`);
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid Sui network config for "${network}": ${errors.join('; ')}`,
+    );
+  }
+
+  return {
+    network,
+    rpcUrl: rpcUrl!,
+    packageId: config.packageId,
+    previousPackageIds: config.previousPackageIds,
+    objects: config.objects,
+  };
+}
+
+function readRegistry(path: string): Record<string, unknown> {
+  let registry: unknown;
+  try {
+    registry = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Could not read Sui network registry ${path}: ${(error as Error).message}`,
+    );
+  }
+  if (
+    typeof registry !== 'object' ||
+    registry === null ||
+    Array.isArray(registry)
+  ) {
+    throw new Error(`Sui network registry ${path} must be a JSON object`);
+  }
+  return registry as Record<string, unknown>;
+}
+
+function networkFromEnv(env: NodeJS.ProcessEnv) {
+  return {
+    packageId: env.PACKAGE_ID || '0x0',
+    previousPackageIds: (env.PREVIOUS_PACKAGE_IDS || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
+    objects: {
+      eventRegistry: env.EVENT_REGISTRY_ID || '0x0',
+      badgeRegistry: env.BADGE_REGISTRY_ID || '0x0',
+      platformTreasury: env.PLATFORM_TREASURY_ID || '0x0',
+      attendanceRegistry: env.ATTENDANCE_REGISTRY_ID || '0x0',
+    },
+  };
+}
+
+function knownFullnodeUrl(network: string): string | undefined {
+  return (KNOWN_SUI_NETWORKS as readonly string[]).includes(network)
+    ? getFullnodeUrl(network as KnownSuiNetwork)
+    : undefined;
+}
@@ -0,0 +1,28 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Owns the backend's SQLite connection. Stores create their own tables on
+ * module init and share this single handle.
+ */
+@Injectable()
+export class DatabaseService implements OnModuleDestroy {
+  readonly connection: Database.Database;
+
+  constructor(configService: ConfigService) {
+    const path = configService.get<string>('database.path') || ':memory:';
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.connection = new Database(path);
+    this.connection.pragma('journal_mode = WAL');
+  }
+
+  onModuleDestroy() {
+    this.connection.close();
+  }
+}
@@ -0,0 +1,72 @@
+import { BadRequestException } from '@nestjs/common';
+import { EventId } from '@mysten/sui/client';
+
+/**
+ * Cursors are handed to clients as base64url JSON so the underlying
+ * position (a chain EventId, an object id or an indexer row id) stays opaque.
+ */
+export function encodeCursor(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+export function decodeCursor<T>(
+  cursor: string | undefined,
+  isValid: (value: unknown) => value is T,
+): T | undefined {
+  if (!cursor) {
+    return undefined;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid pagination cursor');
+  }
+
+  if (!isValid(value)) {
+    throw new BadRequestException('Invalid pagination cursor');
+  }
+  return value;
+}
+
+export function isEventIdCursor(value: unknown): value is EventId {
+  const id = value as EventId;
+  return (
+    typeof id === 'object' &&
+    id !== null &&
+    typeof id.txDigest === 'string' &&
+    typeof id.eventSeq === 'string'
+  );
+}
+
+export function isRowCursor(value: unknown): value is { id: number } {
+  const row = value as { id: number };
+  return typeof row === 'object' && row !== null && Number.isInteger(row.id);
+}
+
+export function isOffsetCursor(value: unknown): value is { offset: number } {
+  const position = value as { offset: number };
+  return (
+    typeof position === 'object' &&
+    position !== null &&
+    Number.isInteger(position.offset) &&
+    position.offset >= 0
+  );
+}
+
+export function isSortKeyCursor(
+  value: unknown,
+): value is { key: string | number; id: string } {
+  const position = value as { key: unknown; id: unknown };
+  return (
+    typeof position === 'object' &&
+    position !== null &&
+    (typeof position.key === 'string' || typeof position.key === 'number') &&
+    typeof position.id === 'string'
+  );
+}
+
+export function isObjectIdCursor(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
@@ -0,0 +1,103 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Abort codes declared by the event_platform Move modules. Keep in sync
+ * with the `const E...` declarations in `event_platform/sources`.
+ */
+export const MOVE_ABORT_CODES = {
+  access_control: {
+    EInvalidEventId: 1001,
+    EInvalidPermission: 1003,
+  },
+  users: {
+    ENotAuthorized: 2000,
+    EInvalidRating: 2001,
+    EProfileNotFound: 2002,
+  },
+  events: {
+    ENotAuthorized: 3000,
+    EInvalidTime: 3001,
+    EInvalidStatus: 3002,
+    EEventFull: 3003,
+    ERegistrationClosed: 3004,
+    EEventAlreadyStarted: 3005,
+    EAlreadyRegistered: 3007,
+    ENotRegistered: 3008,
+    EAlreadyCheckedIn: 3009,
+    EInvalidCapacity: 3010,
+  },
+  tickets: {
+    ENotAuthorized: 4000,
+    ERegistrationClosed: 4001,
+    EInsufficientPayment: 4002,
+    EInvalidEvent: 4003,
+    ERefundNotAllowed: 4004,
+    EAlreadyValidated: 4005,
+    EInsufficientBalance: 4006,
+    ETicketNotTransferable: 4007,
+    EInvalidQRHash: 4008,
+    EPoolExhausted: 4009,
+  },
+  attendance: {
+    ENotAuthorized: 5000,
+    ETicketNotValidated: 5001,
+    EAlreadyHasProof: 5002,
+    ETicketEventMismatch: 5005,
+  },
+  payments: {
+    EInsufficientPayment: 6000,
+    EInsufficientBalance: 6001,
+    ENotAuthorized: 6002,
+    EInvalidDiscount: 6003,
+    EDiscountExpired: 6004,
+    EDiscountMaxUsed: 6005,
+    EInvalidAmount: 6006,
+  },
+} as const;
+
+type AbortModules = typeof MOVE_ABORT_CODES;
+
+export interface MoveAbort {
+  code: number;
+  /** Fully qualified constant, e.g. `tickets::EAlreadyValidated` */
+  name: string;
+}
+
+export function moveAbort<M extends keyof AbortModules>(
+  module: M,
+  name: keyof AbortModules[M] & string,
+): MoveAbort {
+  const codes = MOVE_ABORT_CODES[module] as Record<string, number>;
+  return { code: codes[name], name: `${module}::${name}` };
+}
+
+/**
+ * Reverse lookup; codes are unique across the package's modules.
+ */
+export function findMoveAbort(code: number): MoveAbort | null {
+  for (const [module, codes] of Object.entries(MOVE_ABORT_CODES)) {
+    for (const [name, value] of Object.entries(codes)) {
+      if (value === code) {
+        return { code, name: `${module}::${name}` };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 400 carrying the abort the contract would raise for the same input, so
+ * clients can handle previews and on-chain failures alike.
+ */
+export function moveAbortException(
+  abort: MoveAbort,
+  message: string,
+): BadRequestException {
+  return new BadRequestException({
+    statusCode: 400,
+    error: 'Bad Request',
+    message,
+    abortCode: abort.code,
+    abortName: abort.name,
+  });
+}
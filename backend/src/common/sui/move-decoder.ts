@@ -0,0 +1,204 @@
+import type { SuiObjectResponse } from '@mysten/sui/client';
+import { normalizeStructTag, toHex } from '@mysten/sui/utils';
+
+/**
+ * Decoders for Move values as the fullnode renders them in parsed object
+ * content (`showContent`). Each decoder checks the JSON shape its Move type
+ * produces and throws `MoveDecodeError` naming the offending field path
+ * instead of letting a missing or mistyped field turn into `undefined`.
+ */
+
+export class MoveDecodeError extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    actual: unknown,
+  ) {
+    super(`${path}: expected ${expected}, got ${describe(actual)}`);
+    this.name = 'MoveDecodeError';
+  }
+}
+
+export type MoveDecoder<T> = (value: unknown, path: string) => T;
+
+/** Decoders for each field of a Move struct, keyed by field name */
+export type MoveFieldDecoders<T> = { [K in keyof T]: MoveDecoder<T[K]> };
+
+/** A top-level Move object type and the decoder for its fields */
+export interface MoveObjectSchema<T> {
+  /** `module::Struct` within the platform package */
+  type: string;
+  decode: MoveDecoder<T>;
+}
+
+const U64_PATTERN = /^\d+$/;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+
+export const bool: MoveDecoder<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') {
+    throw new MoveDecodeError(path, 'bool', value);
+  }
+  return value;
+};
+
+export const u8: MoveDecoder<number> = (value, path) => {
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < 0 ||
+    (value as number) > 0xff
+  ) {
+    throw new MoveDecodeError(path, 'u8', value);
+  }
+  return value as number;
+};
+
+/** u64 is rendered as a decimal string so it survives JSON without rounding */
+export const u64: MoveDecoder<string> = (value, path) => {
+  if (typeof value !== 'string' || !U64_PATTERN.test(value)) {
+    throw new MoveDecodeError(path, 'u64 string', value);
+  }
+  return value;
+};
+
+export const string: MoveDecoder<string> = (value, path) => {
+  if (typeof value !== 'string') {
+    throw new MoveDecodeError(path, 'string', value);
+  }
+  return value;
+};
+
+/** `address` and `ID` both render as 0x-prefixed hex */
+export const address: MoveDecoder<string> = (value, path) => {
+  if (typeof value !== 'string' || !ADDRESS_PATTERN.test(value)) {
+    throw new MoveDecodeError(path, 'address', value);
+  }
+  return value;
+};
+
+export const id = address;
+
+/** `UID` renders as `{ id }` */
+export const uid: MoveDecoder<string> = (value, path) =>
+  address(asRecord(value, path, 'UID').id, `${path}.id`);
+
+/** `vector<u8>` renders as an array of numbers; decoded to hex */
+export const bytes: MoveDecoder<string> = (value, path) =>
+  toHex(Uint8Array.from(vector(u8)(value, path)));
+
+export function vector<T>(item: MoveDecoder<T>): MoveDecoder<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new MoveDecodeError(path, 'vector', value);
+    }
+    return value.map((element, index) => item(element, `${path}[${index}]`));
+  };
+}
+
+/**
+ * `Option<T>` renders as the value or null; older fullnodes return the
+ * underlying `{ vec: [] }` struct instead.
+ */
+export function option<T>(inner: MoveDecoder<T>): MoveDecoder<T | null> {
+  return (value, path) => {
+    if (value === null) {
+      return null;
+    }
+    const legacy = legacyOption(value);
+    if (legacy) {
+      return legacy.length === 0 ? null : inner(legacy[0], path);
+    }
+    return inner(value, path);
+  };
+}
+
+/** Fields of a struct given as a bare record, as in top-level object content */
+export function fields<T>(decoders: MoveFieldDecoders<T>): MoveDecoder<T> {
+  return (value, path) => {
+    const record = asRecord(value, path, 'struct fields');
+    const decoded = {} as T;
+    for (const key of Object.keys(decoders) as (keyof T & string)[]) {
+      decoded[key] = decoders[key](record[key], `${path}.${key}`);
+    }
+    return decoded;
+  };
+}
+
+/** A struct nested in another struct, rendered as `{ type, fields }` */
+export function struct<T>(decoders: MoveFieldDecoders<T>): MoveDecoder<T> {
+  const decodeFields = fields(decoders);
+  return (value, path) => {
+    const wrapper = asRecord(value, path, 'struct');
+    return decodeFields(wrapper.fields, path);
+  };
+}
+
+/** `Table<K, V>`: only the id (parent of its dynamic fields) and size */
+export const table: MoveDecoder<{ id: string; size: string }> = struct({
+  id: uid,
+  size: u64,
+});
+
+/** `Balance<T>` renders as its u64 value, or as `{ value }` on older nodes */
+export const balance: MoveDecoder<string> = (value, path) =>
+  typeof value === 'string'
+    ? u64(value, path)
+    : struct({ value: u64 })(value, path).value;
+
+/**
+ * Decode an object response as `schema`, accepting the struct under any of
+ * `packageIds` (every version of the package). Returns null when the
+ * response holds no Move object or one of a different type; throws
+ * `MoveDecodeError` when the type matches but the fields do not.
+ */
+export function decodeMoveObject<T>(
+  response: SuiObjectResponse,
+  packageIds: readonly string[],
+  schema: MoveObjectSchema<T>,
+): T | null {
+  const content = response.data?.content;
+  if (content?.dataType !== 'moveObject') {
+    return null;
+  }
+  const type = normalizeStructTag(content.type);
+  const matches = packageIds.some(
+    (packageId) => normalizeStructTag(`${packageId}::${schema.type}`) === type,
+  );
+  return matches ? schema.decode(content.fields, schema.type) : null;
+}
+
+/** Address that owns an object outright, if any */
+export function addressOwner(response: SuiObjectResponse): string | undefined {
+  const owner = response.data?.owner;
+  return owner && typeof owner === 'object' && 'AddressOwner' in owner
+    ? owner.AddressOwner
+    : undefined;
+}
+
+function asRecord(
+  value: unknown,
+  path: string,
+  expected: string,
+): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new MoveDecodeError(path, expected, value);
+  }
+  return value as Record<string, unknown>;
+}
+
+function legacyOption(value: unknown): unknown[] | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+  const record = value as { fields?: { vec?: unknown }; vec?: unknown };
+  const vec = record.fields?.vec ?? record.vec;
+  return Array.isArray(vec) ? (vec as unknown[]) : null;
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) {
+    return 'nothing';
+  }
+  return Array.isArray(value)
+    ? 'array'
+    : `${typeof value} ${JSON.stringify(value)}`.slice(0, 80);
+}
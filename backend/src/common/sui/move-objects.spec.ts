@@ -0,0 +1,229 @@
+import { MoveDecodeError, decodeMoveObject } from './move-decoder';
+import {
+  ATTENDANCE_PROOF,
+  EVENT,
+  EVENT_ORGANIZER_CAP,
+  EVENT_TREASURY,
+  TICKET,
+  USER_PROFILE,
+  VALIDATOR_CAP,
+} from './move-objects';
+import { FAKE_PACKAGE_ID, moveObject } from './testing/fake-sui-client';
+import {
+  attendanceProofObject,
+  eventFields,
+  eventObject,
+  eventTreasuryObject,
+  organizerCapObject,
+  ticketFields,
+  ticketObject,
+  userProfileObject,
+  validatorCapObject,
+} from './testing/move-fixtures';
+
+const PACKAGE_IDS = [FAKE_PACKAGE_ID];
+
+describe('Move object contracts', () => {
+  it('decodes an Event with nested structs and its attendee table', () => {
+    const event = decodeMoveObject(eventObject('0xe1'), PACKAGE_IDS, EVENT);
+
+    expect(event).toMatchObject({
+      id: '0xe1',
+      organizer: '0x0a',
+      metadata: { title: 'Sui Builders Night', tags: ['sui', 'move'] },
+      config: { capacity: '100', requires_approval: false },
+      stats: { registered: '0' },
+      status: 1,
+      attendees: { id: '0xe0e0', size: '0' },
+    });
+  });
+
+  it('decodes a Ticket, hex-encoding byte vectors and unwrapping options', () => {
+    const ticket = decodeMoveObject(
+      ticketObject('0x71', {
+        validation: {
+          is_validated: true,
+          validation_time: '1700004000000',
+          validator_address: '0x0c',
+        },
+      }),
+      PACKAGE_IDS,
+      TICKET,
+    );
+
+    expect(ticket).toEqual({
+      id: '0x71',
+      event_id: '0xe0',
+      owner: '0x0b',
+      original_owner: '0x0b',
+      metadata: {
+        ticket_number: '1',
+        tier: 'general',
+        encrypted_data: '',
+        seal_key_id: '',
+        qr_code_hash: 'abcd',
+      },
+      validation: {
+        is_validated: true,
+        validation_time: '1700004000000',
+        validator_address: '0x0c',
+      },
+      mint_time: '1699995000000',
+    });
+  });
+
+  it('decodes a UserProfile identity, reputation, stats and preferences', () => {
+    const profile = decodeMoveObject(
+      userProfileObject('0x90', '0x0b', {
+        identity: { bio: 'hi', email_hash: [0xff] },
+        reputation: { badges: ['0xb1'] },
+      }),
+      PACKAGE_IDS,
+      USER_PROFILE,
+    );
+
+    expect(profile?.identity).toMatchObject({
+      display_name: 'alice',
+      bio: 'hi',
+      email_hash: 'ff',
+      avatar_url: null,
+    });
+    expect(profile?.reputation.badges).toEqual(['0xb1']);
+    expect(profile?.stats.total_spent).toBe('0');
+    expect(profile?.preferences.timezone).toBe('UTC');
+  });
+
+  it('decodes an EventTreasury balance in either rendering', () => {
+    const plain = decodeMoveObject(
+      eventTreasuryObject('0x7e', { balance: '500' }),
+      PACKAGE_IDS,
+      EVENT_TREASURY,
+    );
+    const wrapped = decodeMoveObject(
+      eventTreasuryObject('0x7e', {
+        balance: {
+          type: '0x2::balance::Balance<0x2::sui::SUI>',
+          fields: { value: '500' },
+        },
+      }),
+      PACKAGE_IDS,
+      EVENT_TREASURY,
+    );
+
+    expect(plain?.balance).toBe('500');
+    expect(wrapped).toEqual(plain);
+  });
+
+  it('decodes an AttendanceProof, including legacy Option rendering', () => {
+    const proof = decodeMoveObject(
+      attendanceProofObject('0xa1', {
+        verification: {
+          check_out_time: {
+            type: '0x1::option::Option<u64>',
+            fields: { vec: ['1700008000000'] },
+          },
+        },
+        metadata: { special_notes: { vec: [] } },
+      }),
+      PACKAGE_IDS,
+      ATTENDANCE_PROOF,
+    );
+
+    expect(proof?.verification).toMatchObject({
+      check_out_time: '1700008000000',
+      verification_hash: '0102',
+      location_hash: '',
+    });
+    expect(proof?.metadata.special_notes).toBeNull();
+  });
+
+  it('decodes organizer and validator caps', () => {
+    const organizer = decodeMoveObject(
+      organizerCapObject('0xca1', '0x0a', {
+        permissions: { can_withdraw_funds: false },
+      }),
+      PACKAGE_IDS,
+      EVENT_ORGANIZER_CAP,
+    );
+    const validator = decodeMoveObject(
+      validatorCapObject('0xca2', '0x0c'),
+      PACKAGE_IDS,
+      VALIDATOR_CAP,
+    );
+
+    expect(organizer?.permissions).toMatchObject({
+      can_update_event: true,
+      can_withdraw_funds: false,
+    });
+    expect(validator?.validator_address).toBe('0x0c');
+  });
+
+  it('returns null for objects of another type or package', () => {
+    const forged = ticketObject('0x71');
+    (forged.data!.content as { type: string }).type = '0xbeef::tickets::Ticket';
+
+    expect(decodeMoveObject(forged, PACKAGE_IDS, TICKET)).toBeNull();
+    expect(
+      decodeMoveObject(eventObject('0xe1'), PACKAGE_IDS, TICKET),
+    ).toBeNull();
+    expect(decodeMoveObject({ data: null }, PACKAGE_IDS, TICKET)).toBeNull();
+  });
+
+  it('accepts structs introduced by an earlier package version', () => {
+    const upgraded = ['0xfeed0', FAKE_PACKAGE_ID];
+    const original = eventObject('0xe1');
+    (original.data!.content as { type: string }).type =
+      '0xfeed0::events::Event';
+
+    expect(decodeMoveObject(original, upgraded, EVENT)?.id).toBe('0xe1');
+    expect(decodeMoveObject(original, PACKAGE_IDS, EVENT)).toBeNull();
+  });
+
+  describe('shape mismatches', () => {
+    function decodeEvent(fields: Record<string, unknown>) {
+      return () =>
+        decodeMoveObject(
+          moveObject('0xe1', 'events::Event', fields),
+          PACKAGE_IDS,
+          EVENT,
+        );
+    }
+
+    it('names the path of a missing field', () => {
+      const fields = eventFields();
+      delete fields.stats;
+
+      expect(decodeEvent(fields)).toThrow(
+        new MoveDecodeError('events::Event.stats', 'struct', undefined),
+      );
+    });
+
+    it('rejects a nested struct rendered without its { type, fields } wrapper', () => {
+      expect(
+        decodeEvent({ ...eventFields(), config: { capacity: '10' } }),
+      ).toThrow('events::Event.config: expected struct fields');
+    });
+
+    it('rejects u64 values that are not decimal strings', () => {
+      expect(decodeEvent(eventFields({ config: { capacity: 10 } }))).toThrow(
+        'events::Event.config.capacity: expected u64 string',
+      );
+    });
+
+    it('rejects malformed addresses and byte vectors', () => {
+      const ticket = (overrides: Record<string, unknown>) => () =>
+        decodeMoveObject(
+          moveObject('0x71', 'tickets::Ticket', ticketFields(overrides)),
+          PACKAGE_IDS,
+          TICKET,
+        );
+
+      expect(ticket({ owner: 'alice' })).toThrow(
+        'tickets::Ticket.owner: expected address',
+      );
+      expect(ticket({ metadata: { qr_code_hash: [256] } })).toThrow(
+        'tickets::Ticket.metadata.qr_code_hash[0]: expected u8',
+      );
+    });
+  });
+});
@@ -0,0 +1,372 @@
+import {
+  MoveObjectSchema,
+  address,
+  balance,
+  bool,
+  bytes,
+  fields,
+  id,
+  option,
+  string,
+  struct,
+  table,
+  u64,
+  u8,
+  uid,
+  vector,
+} from './move-decoder';
+
+/**
+ * TypeScript mirrors of the platform's key Move structs, field for field,
+ * with the schemas that decode them from parsed object content. Keep these
+ * in step with event_platform/sources; the contract spec decodes fixtures
+ * of each object and fails when they drift.
+ */
+
+// ======== events ========
+
+export interface EventMetadata {
+  title: string;
+  description: string;
+  walrus_blob_id: string;
+  image_url: string;
+  category: string;
+  tags: string[];
+}
+
+export interface EventConfig {
+  start_time: string;
+  end_time: string;
+  registration_deadline: string;
+  capacity: string;
+  ticket_price: string;
+  requires_approval: boolean;
+  is_transferable: boolean;
+  refund_deadline: string;
+}
+
+export interface EventStats {
+  registered: string;
+  attended: string;
+  revenue: string;
+  refunded: string;
+}
+
+export interface EventObject {
+  id: string;
+  organizer: string;
+  metadata: EventMetadata;
+  config: EventConfig;
+  stats: EventStats;
+  status: number;
+  attendees: { id: string; size: string };
+  created_at: string;
+  updated_at: string;
+}
+
+export const EVENT: MoveObjectSchema<EventObject> = {
+  type: 'events::Event',
+  decode: fields<EventObject>({
+    id: uid,
+    organizer: address,
+    metadata: struct<EventMetadata>({
+      title: string,
+      description: string,
+      walrus_blob_id: string,
+      image_url: string,
+      category: string,
+      tags: vector(string),
+    }),
+    config: struct<EventConfig>({
+      start_time: u64,
+      end_time: u64,
+      registration_deadline: u64,
+      capacity: u64,
+      ticket_price: u64,
+      requires_approval: bool,
+      is_transferable: bool,
+      refund_deadline: u64,
+    }),
+    stats: struct<EventStats>({
+      registered: u64,
+      attended: u64,
+      revenue: u64,
+      refunded: u64,
+    }),
+    status: u8,
+    attendees: table,
+    created_at: u64,
+    updated_at: u64,
+  }),
+};
+
+// ======== tickets ========
+
+export interface TicketMetadata {
+  ticket_number: string;
+  tier: string;
+  /** hex */
+  encrypted_data: string;
+  seal_key_id: string;
+  /** hex */
+  qr_code_hash: string;
+}
+
+export interface ValidationInfo {
+  is_validated: boolean;
+  validation_time: string | null;
+  validator_address: string | null;
+}
+
+export interface TicketObject {
+  id: string;
+  event_id: string;
+  owner: string;
+  original_owner: string;
+  metadata: TicketMetadata;
+  validation: ValidationInfo;
+  mint_time: string;
+}
+
+export const TICKET: MoveObjectSchema<TicketObject> = {
+  type: 'tickets::Ticket',
+  decode: fields<TicketObject>({
+    id: uid,
+    event_id: id,
+    owner: address,
+    original_owner: address,
+    metadata: struct<TicketMetadata>({
+      ticket_number: u64,
+      tier: string,
+      encrypted_data: bytes,
+      seal_key_id: string,
+      qr_code_hash: bytes,
+    }),
+    validation: struct<ValidationInfo>({
+      is_validated: bool,
+      validation_time: option(u64),
+      validator_address: option(address),
+    }),
+    mint_time: u64,
+  }),
+};
+
+// ======== users ========
+
+export interface UserIdentity {
+  display_name: string | null;
+  zklogin_sub: string | null;
+  zklogin_provider: string | null;
+  /** hex */
+  email_hash: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  social_links: string[];
+}
+
+export interface ReputationData {
+  score: string;
+  organizer_rating: string;
+  attendee_rating: string;
+  organizer_rating_count: string;
+  attendee_rating_count: string;
+  verified_organizer: boolean;
+  badges: string[];
+}
+
+export interface UserStats {
+  events_created: string;
+  events_attended: string;
+  no_show_count: string;
+  tickets_purchased: string;
+  tickets_transferred: string;
+  total_spent: string;
+}
+
+export interface UserPreferences {
+  notification_enabled: boolean;
+  favorite_categories: string[];
+  timezone: string;
+  language: string;
+}
+
+export interface UserProfileObject {
+  id: string;
+  identity: UserIdentity;
+  reputation: ReputationData;
+  stats: UserStats;
+  preferences: UserPreferences;
+  created_at: string;
+  updated_at: string;
+}
+
+export const USER_PROFILE: MoveObjectSchema<UserProfileObject> = {
+  type: 'users::UserProfile',
+  decode: fields<UserProfileObject>({
+    id: uid,
+    identity: struct<UserIdentity>({
+      display_name: option(string),
+      zklogin_sub: option(string),
+      zklogin_provider: option(string),
+      email_hash: option(bytes),
+      avatar_url: option(string),
+      bio: option(string),
+      social_links: vector(string),
+    }),
+    reputation: struct<ReputationData>({
+      score: u64,
+      organizer_rating: u64,
+      attendee_rating: u64,
+      organizer_rating_count: u64,
+      attendee_rating_count: u64,
+      verified_organizer: bool,
+      badges: vector(id),
+    }),
+    stats: struct<UserStats>({
+      events_created: u64,
+      events_attended: u64,
+      no_show_count: u64,
+      tickets_purchased: u64,
+      tickets_transferred: u64,
+      total_spent: u64,
+    }),
+    preferences: struct<UserPreferences>({
+      notification_enabled: bool,
+      favorite_categories: vector(string),
+      timezone: string,
+      language: string,
+    }),
+    created_at: u64,
+    updated_at: u64,
+  }),
+};
+
+// ======== payments ========
+
+export interface EventTreasuryObject {
+  id: string;
+  event_id: string;
+  organizer: string;
+  balance: string;
+  platform_fee: string;
+  total_collected: string;
+  total_withdrawn: string;
+  locked_for_refunds: string;
+}
+
+export const EVENT_TREASURY: MoveObjectSchema<EventTreasuryObject> = {
+  type: 'payments::EventTreasury',
+  decode: fields<EventTreasuryObject>({
+    id: uid,
+    event_id: id,
+    organizer: address,
+    balance,
+    platform_fee: u64,
+    total_collected: u64,
+    total_withdrawn: u64,
+    locked_for_refunds: u64,
+  }),
+};
+
+// ======== attendance ========
+
+export interface VerificationData {
+  check_in_time: string;
+  check_out_time: string | null;
+  validator_address: string;
+  /** hex */
+  verification_hash: string;
+  /** hex */
+  location_hash: string;
+}
+
+export interface AttendanceMetadata {
+  badge_image_url: string;
+  event_title: string;
+  event_date: string;
+  special_notes: string | null;
+}
+
+export interface AttendanceProofObject {
+  id: string;
+  event_id: string;
+  attendee: string;
+  ticket_id: string;
+  verification: VerificationData;
+  metadata: AttendanceMetadata;
+}
+
+export const ATTENDANCE_PROOF: MoveObjectSchema<AttendanceProofObject> = {
+  type: 'attendance::AttendanceProof',
+  decode: fields<AttendanceProofObject>({
+    id: uid,
+    event_id: id,
+    attendee: address,
+    ticket_id: id,
+    verification: struct<VerificationData>({
+      check_in_time: u64,
+      check_out_time: option(u64),
+      validator_address: address,
+      verification_hash: bytes,
+      location_hash: bytes,
+    }),
+    metadata: struct<AttendanceMetadata>({
+      badge_image_url: string,
+      event_title: string,
+      event_date: u64,
+      special_notes: option(string),
+    }),
+  }),
+};
+
+// ======== access_control ========
+
+export interface OrganizerPermissions {
+  can_update_event: boolean;
+  can_cancel_event: boolean;
+  can_approve_registrations: boolean;
+  can_withdraw_funds: boolean;
+  can_grant_validators: boolean;
+}
+
+export interface EventOrganizerCapObject {
+  id: string;
+  event_id: string;
+  permissions: OrganizerPermissions;
+  granted_at: string;
+}
+
+export const EVENT_ORGANIZER_CAP: MoveObjectSchema<EventOrganizerCapObject> = {
+  type: 'access_control::EventOrganizerCap',
+  decode: fields<EventOrganizerCapObject>({
+    id: uid,
+    event_id: id,
+    permissions: struct<OrganizerPermissions>({
+      can_update_event: bool,
+      can_cancel_event: bool,
+      can_approve_registrations: bool,
+      can_withdraw_funds: bool,
+      can_grant_validators: bool,
+    }),
+    granted_at: u64,
+  }),
+};
+
+export interface ValidatorCapObject {
+  id: string;
+  event_id: string;
+  validator_address: string;
+  granted_by: string;
+  granted_at: string;
+}
+
+export const VALIDATOR_CAP: MoveObjectSchema<ValidatorCapObject> = {
+  type: 'access_control::ValidatorCap',
+  decode: fields<ValidatorCapObject>({
+    id: uid,
+    event_id: id,
+    validator_address: address,
+    granted_by: address,
+    granted_at: u64,
+  }),
+};
@@ -0,0 +1,54 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { moveObject } from './testing/fake-sui-client';
+import { ObjectCache } from './object-cache';
+
+describe('ObjectCache', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1_000;
+  });
+
+  it('serves entries until their TTL lapses', () => {
+    const cache = new ObjectCache(100, 10, clock);
+    cache.set('0x1', moveObject('0x1', 'events::Event', {}));
+
+    now += 99;
+    expect(cache.get(normalizeSuiAddress('0x1'))).toBeDefined();
+    now += 1;
+    expect(cache.get('0x1')).toBeUndefined();
+
+    expect(cache.metrics()).toMatchObject({ hits: 1, misses: 1, size: 0 });
+  });
+
+  it('evicts the least recently written entry past the size cap', () => {
+    const cache = new ObjectCache(100, 2, clock);
+    for (const id of ['0x1', '0x2', '0x3']) {
+      cache.set(id, moveObject(id, 'events::Event', {}));
+    }
+
+    expect(cache.get('0x1')).toBeUndefined();
+    expect(cache.get('0x3')).toBeDefined();
+    expect(cache.metrics()).toMatchObject({ evictions: 1, size: 2 });
+  });
+
+  it('drops invalidated ids and never caches missing objects', () => {
+    const cache = new ObjectCache(100, 10, clock);
+    cache.set('0x1', moveObject('0x1', 'events::Event', {}));
+    cache.set('0x2', { error: { code: 'notExists', object_id: '0x2' } });
+
+    expect(cache.invalidate([normalizeSuiAddress('0x1'), '0x2'])).toBe(1);
+    expect(cache.get('0x1')).toBeUndefined();
+    expect(cache.get('0x2')).toBeUndefined();
+    expect(cache.metrics()).toMatchObject({ invalidations: 1, hitRate: 0 });
+  });
+
+  it('is a pass-through when the TTL is zero', () => {
+    const cache = new ObjectCache(0, 10, clock);
+    cache.set('0x1', moveObject('0x1', 'events::Event', {}));
+
+    expect(cache.enabled).toBe(false);
+    expect(cache.get('0x1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import { SuiObjectResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+export interface ObjectCacheMetrics {
+  hits: number;
+  misses: number;
+  invalidations: number;
+  evictions: number;
+  size: number;
+  /** hits / (hits + misses), or 0 before the first lookup */
+  hitRate: number;
+}
+
+interface CacheEntry {
+  response: SuiObjectResponse;
+  expiresAt: number;
+}
+
+/**
+ * TTL-bounded object response cache keyed by normalized object id. Entries
+ * are also dropped early when the indexer sees a Move event touching the
+ * object, so the TTL only bounds staleness for objects no event reports.
+ */
+export class ObjectCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get enabled(): boolean {
+    return this.ttlMs > 0 && this.maxEntries > 0;
+  }
+
+  get(objectId: string): SuiObjectResponse | undefined {
+    const key = normalizeSuiAddress(objectId);
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > this.now()) {
+      this.hits++;
+      return entry.response;
+    }
+
+    if (entry) {
+      this.entries.delete(key);
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  /** Error responses (deleted or missing objects) are never cached */
+  set(objectId: string, response: SuiObjectResponse) {
+    if (!this.enabled || response.error || !response.data) {
+      return;
+    }
+
+    const key = normalizeSuiAddress(objectId);
+    this.entries.delete(key);
+    this.entries.set(key, { response, expiresAt: this.now() + this.ttlMs });
+
+    if (this.entries.size > this.maxEntries) {
+      const [oldest] = this.entries.keys();
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  invalidate(objectIds: Iterable<string>): number {
+    let dropped = 0;
+    for (const objectId of objectIds) {
+      if (this.entries.delete(normalizeSuiAddress(objectId))) {
+        dropped++;
+      }
+    }
+    this.invalidations += dropped;
+    return dropped;
+  }
+
+  metrics(): ObjectCacheMetrics {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+      evictions: this.evictions,
+      size: this.entries.size,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+}
@@ -0,0 +1,4 @@
+export const SUI_CLIENT = 'SUI_CLIENT';
+
+/** Most object ids a fullnode accepts in one `sui_multiGetObjects` call */
+export const MULTI_GET_OBJECTS_LIMIT = 50;
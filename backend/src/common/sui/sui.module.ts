@@ -1,9 +1,20 @@
 import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SuiClient } from '@mysten/sui/client';
 import { SuiService } from './sui.service';
+import { SUI_CLIENT } from './sui.constants';
 
 @Global()
 @Module({
-  providers: [SuiService],
+  providers: [
+    {
+      provide: SUI_CLIENT,
+      useFactory: (configService: ConfigService) =>
+        new SuiClient({ url: configService.getOrThrow<string>('sui.rpcUrl') }),
+      inject: [ConfigService],
+    },
+    SuiService,
+  ],
   exports: [SuiService],
 })
 export class SuiModule {}
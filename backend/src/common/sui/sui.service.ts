@@ -1,50 +1,131 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { EventId, SuiClient, SuiObjectResponse } from '@mysten/sui/client';
+import { ObjectCache, ObjectCacheMetrics } from './object-cache';
+import { MULTI_GET_OBJECTS_LIMIT, SUI_CLIENT } from './sui.constants';
+
+const OBJECT_OPTIONS = {
+  showContent: true,
+  showType: true,
+  showOwner: true,
+};
 
 @Injectable()
 export class SuiService implements OnModuleInit {
-  private client: SuiClient;
   private packageId: string;
+  private packageIds: string[];
+  private readonly objectCache: ObjectCache;
 
-  constructor(private configService: ConfigService) {}
+  constructor(
+    private configService: ConfigService,
+    @Inject(SUI_CLIENT) private client: SuiClient,
+  ) {
+    this.objectCache = new ObjectCache(
+      this.configService.get<number>('sui.cache.ttlMs', 0),
+      this.configService.get<number>('sui.cache.maxEntries', 10_000),
+    );
+  }
 
   onModuleInit() {
-    const network = this.configService.get<string>('sui.network') as
-      | 'devnet'
-      | 'testnet'
-      | 'mainnet';
     this.packageId = this.configService.get<string>('sui.packageId') || '0x0';
-    this.client = new SuiClient({ url: getFullnodeUrl(network) });
+    this.packageIds = [
+      ...this.configService.get<string[]>('sui.previousPackageIds', []),
+      this.packageId,
+    ];
   }
 
   getClient(): SuiClient {
     return this.client;
   }
 
+  /** Latest package version, the target of every Move call */
   getPackageId(): string {
     return this.packageId;
   }
 
-  async getObject(objectId: string) {
-    return this.client.getObject({
+  /**
+   * Every version of the package, oldest first. A type's tag carries the id
+   * of the version that introduced it, so matching our objects and events
+   * has to consider all of them.
+   */
+  getPackageIds(): readonly string[] {
+    return this.packageIds;
+  }
+
+  async getObject(objectId: string): Promise<SuiObjectResponse> {
+    const cached = this.objectCache.get(objectId);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.client.getObject({
       id: objectId,
-      options: {
-        showContent: true,
-        showType: true,
-        showOwner: true,
-      },
+      options: OBJECT_OPTIONS,
     });
+    this.objectCache.set(objectId, response);
+    return response;
   }
 
-  async getOwnedObjects(owner: string, type?: string) {
-    const filter = type
-      ? { StructType: `${this.packageId}::${type}` }
-      : undefined;
+  /**
+   * Fetch many objects in input order, serving cached ones and batching the
+   * rest into as few `multiGetObjects` calls as the fullnode allows.
+   */
+  async getObjects(objectIds: string[]): Promise<SuiObjectResponse[]> {
+    const found = new Map<string, SuiObjectResponse>();
+    const missing: string[] = [];
+    for (const objectId of new Set(objectIds)) {
+      const cached = this.objectCache.get(objectId);
+      if (cached) {
+        found.set(objectId, cached);
+      } else {
+        missing.push(objectId);
+      }
+    }
+
+    for (let i = 0; i < missing.length; i += MULTI_GET_OBJECTS_LIMIT) {
+      const batch = missing.slice(i, i + MULTI_GET_OBJECTS_LIMIT);
+      const responses = await this.client.multiGetObjects({
+        ids: batch,
+        options: OBJECT_OPTIONS,
+      });
+      batch.forEach((objectId, index) => {
+        found.set(objectId, responses[index]);
+        this.objectCache.set(objectId, responses[index]);
+      });
+    }
+
+    return objectIds.map((objectId) => found.get(objectId)!);
+  }
+
+  /** Drop cached responses for objects a Move event reported as changed */
+  invalidateObjects(objectIds: Iterable<string>): number {
+    return this.objectCache.invalidate(objectIds);
+  }
+
+  getCacheMetrics(): ObjectCacheMetrics {
+    return this.objectCache.metrics();
+  }
+
+  async getOwnedObjects(
+    owner: string,
+    type?: string,
+    cursor?: string | null,
+    limit?: number,
+  ) {
+    const structTypes = this.packageIds.map((packageId) => ({
+      StructType: `${packageId}::${type}`,
+    }));
+    const filter = !type
+      ? undefined
+      : structTypes.length === 1
+        ? structTypes[0]
+        : { MatchAny: structTypes };
 
     return this.client.getOwnedObjects({
       owner,
       filter,
+      cursor,
+      limit,
       options: {
         showContent: true,
         showType: true,
@@ -52,15 +133,71 @@ export class SuiService implements OnModuleInit {
     });
   }
 
-  async queryEvents(eventType: string, cursor?: string, limit = 50) {
+  /**
+   * Events of `eventType` as defined by `packageId`, by default the original
+   * package version that introduced the platform's event structs.
+   */
+  async queryEvents(
+    eventType: string,
+    cursor?: EventId | null,
+    limit = 50,
+    order: 'ascending' | 'descending' = 'descending',
+    packageId = this.packageIds[0],
+  ) {
     return this.client.queryEvents({
-      query: { MoveEventType: `${this.packageId}::${eventType}` },
-      cursor: cursor ? { txDigest: cursor, eventSeq: '0' } : undefined,
+      query: { MoveEventType: `${packageId}::${eventType}` },
+      cursor,
       limit,
-      order: 'descending',
+      order,
     });
   }
 
+  async getTransactionObjectChanges(digest: string) {
+    const response = await this.client.getTransactionBlock({
+      digest,
+      options: { showObjectChanges: true },
+    });
+    return response.objectChanges ?? [];
+  }
+
+  async getTransactionBalanceChanges(digest: string) {
+    const response = await this.client.getTransactionBlock({
+      digest,
+      options: { showBalanceChanges: true },
+    });
+    return response.balanceChanges ?? [];
+  }
+
+  async getTransactionEffects(digest: string) {
+    const response = await this.client.getTransactionBlock({
+      digest,
+      options: { showEffects: true },
+    });
+    return response.effects ?? null;
+  }
+
+  async getGasCoins(owner: string, cursor?: string | null) {
+    return this.client.getCoins({
+      owner,
+      coinType: '0x2::sui::SUI',
+      cursor,
+    });
+  }
+
+  async getReferenceGasPrice(): Promise<bigint> {
+    return this.client.getReferenceGasPrice();
+  }
+
+  getSharedObjectId(
+    name:
+      | 'eventRegistry'
+      | 'badgeRegistry'
+      | 'platformTreasury'
+      | 'attendanceRegistry',
+  ): string {
+    return this.configService.get<string>(`sui.objects.${name}`) || '0x0';
+  }
+
   async getDynamicFields(parentId: string) {
     return this.client.getDynamicFields({
       parentId,
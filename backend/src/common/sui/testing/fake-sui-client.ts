@@ -0,0 +1,282 @@
+import {
+  CoinStruct,
+  EventId,
+  PaginatedCoins,
+  PaginatedEvents,
+  QueryEventsParams,
+  SuiClient,
+  SuiEvent,
+  SuiObjectResponse,
+  SuiTransactionBlockResponse,
+} from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+export const FAKE_PACKAGE_ID = '0xfeed';
+
+let eventSeq = 0;
+
+/**
+ * Build a recorded Move event the way a fullnode returns it from
+ * `suix_queryEvents`.
+ */
+export function recordedEvent(
+  eventType: string,
+  parsedJson: Record<string, unknown>,
+  overrides: Partial<SuiEvent> = {},
+): SuiEvent {
+  const [module] = eventType.split('::');
+  return {
+    id: { txDigest: `tx${eventSeq++}`, eventSeq: '0' },
+    packageId: FAKE_PACKAGE_ID,
+    transactionModule: module,
+    sender: '0xsender',
+    type: `${FAKE_PACKAGE_ID}::${eventType}`,
+    parsedJson,
+    bcs: '',
+    bcsEncoding: 'base64',
+    timestampMs: String(1_700_000_000_000 + eventSeq),
+    ...overrides,
+  } as SuiEvent;
+}
+
+/**
+ * Build a Move object response with parsed content.
+ */
+export function moveObject(
+  objectId: string,
+  type: string,
+  fields: Record<string, unknown>,
+  owner?: string,
+): SuiObjectResponse {
+  return {
+    data: {
+      objectId,
+      version: '1',
+      digest: `digest-${objectId}`,
+      type: `${FAKE_PACKAGE_ID}::${type}`,
+      owner: owner
+        ? { AddressOwner: owner }
+        : { Shared: { initial_shared_version: '1' } },
+      content: {
+        dataType: 'moveObject',
+        type: `${FAKE_PACKAGE_ID}::${type}`,
+        hasPublicTransfer: false,
+        fields: fields as never,
+      },
+    },
+  };
+}
+
+/**
+ * In-memory stand-in for `SuiClient` that replays recorded events and
+ * serves objects from a map. Only the methods the backend uses are
+ * implemented.
+ */
+export class FakeSuiClient {
+  readonly calls: Record<string, number> = {};
+  readonly coins: CoinStruct[] = [];
+  readonly transactions = new Map<string, SuiTransactionBlockResponse>();
+  referenceGasPrice = 1000n;
+  /** zkLogin signatures the fake fullnode accepts */
+  readonly zkLoginSignatures = new Set<string>();
+
+  /** Signature checks that need a fullnode, such as zkLogin proofs */
+  readonly core = {
+    verifyZkLoginSignature: (input: { signature: string }) => {
+      this.track('verifyZkLoginSignature');
+      const success = this.zkLoginSignatures.has(input.signature);
+      return Promise.resolve({
+        success,
+        errors: success ? [] : ['Invalid zkLogin signature'],
+      });
+    },
+  };
+
+  private readonly coinOwners = new Map<string, string>();
+  private readonly dynamicFields = new Map<string, SuiObjectResponse>();
+
+  constructor(
+    private events: SuiEvent[] = [],
+    private objects = new Map<string, SuiObjectResponse>(),
+  ) {}
+
+  addEvents(...events: SuiEvent[]) {
+    this.events.push(...events);
+  }
+
+  setObject(response: SuiObjectResponse) {
+    if (response.data) {
+      this.objects.set(normalizeSuiAddress(response.data.objectId), response);
+    }
+  }
+
+  deleteObject(objectId: string) {
+    this.objects.delete(normalizeSuiAddress(objectId));
+  }
+
+  /**
+   * Store a `0x2::dynamic_field::Field` under `parentId`, the way a Table
+   * entry is stored.
+   */
+  setDynamicField(parentId: string, name: unknown, value: unknown) {
+    const fieldId = `${parentId}:${JSON.stringify(name)}`;
+    const field = moveObject(fieldId, 'dynamic_field::Field', {
+      id: { id: fieldId },
+      name,
+      value,
+    });
+    this.dynamicFields.set(fieldId, field);
+  }
+
+  asClient(): SuiClient {
+    return this as unknown as SuiClient;
+  }
+
+  queryEvents(input: QueryEventsParams): Promise<PaginatedEvents> {
+    this.track('queryEvents');
+    const filter = input.query as { MoveEventType?: string };
+    let matching = this.events.filter(
+      (event) => !filter.MoveEventType || event.type === filter.MoveEventType,
+    );
+    if (input.order === 'descending') {
+      matching = [...matching].reverse();
+    }
+
+    const start = input.cursor
+      ? matching.findIndex((event) => sameId(event.id, input.cursor!)) + 1
+      : 0;
+    const limit = input.limit ?? 50;
+    const data = matching.slice(start, start + limit);
+
+    return Promise.resolve({
+      data,
+      hasNextPage: start + limit < matching.length,
+      nextCursor: data.length > 0 ? data[data.length - 1].id : input.cursor,
+    });
+  }
+
+  getObject(input: { id: string }): Promise<SuiObjectResponse> {
+    this.track('getObject');
+    return Promise.resolve(this.lookup(input.id));
+  }
+
+  multiGetObjects(input: { ids: string[] }): Promise<SuiObjectResponse[]> {
+    this.track('multiGetObjects');
+    return Promise.resolve(input.ids.map((id) => this.lookup(id)));
+  }
+
+  getOwnedObjects(input: {
+    owner: string;
+    filter?: {
+      StructType?: string;
+      MatchAny?: { StructType: string }[];
+    } | null;
+    cursor?: string | null;
+    limit?: number | null;
+  }) {
+    this.track('getOwnedObjects');
+    const filter = input.filter;
+    const structTypes = filter?.MatchAny
+      ? filter.MatchAny.map((inner) => inner.StructType)
+      : filter?.StructType
+        ? [filter.StructType]
+        : null;
+    const owned = [...this.objects.values()].filter((response) => {
+      const owner = response.data?.owner as
+        | { AddressOwner?: string }
+        | undefined;
+      return (
+        owner?.AddressOwner === input.owner &&
+        (!structTypes || structTypes.includes(response.data?.type ?? ''))
+      );
+    });
+
+    const start = input.cursor
+      ? owned.findIndex(
+          (response) => response.data?.objectId === input.cursor,
+        ) + 1
+      : 0;
+    const limit = input.limit ?? 50;
+    const data = owned.slice(start, start + limit);
+
+    return Promise.resolve({
+      data,
+      hasNextPage: start + limit < owned.length,
+      nextCursor:
+        data.length > 0 ? data[data.length - 1].data!.objectId : input.cursor,
+    });
+  }
+
+  getCoins(input: {
+    owner: string;
+    coinType?: string | null;
+  }): Promise<PaginatedCoins> {
+    this.track('getCoins');
+    const data = this.coins.filter(
+      (coin) =>
+        (!input.coinType || coin.coinType === input.coinType) &&
+        this.coinOwners.get(coin.coinObjectId) === input.owner,
+    );
+    return Promise.resolve({ data, hasNextPage: false, nextCursor: null });
+  }
+
+  addCoin(owner: string, coinObjectId: string, balance: bigint) {
+    this.coins.push({
+      coinType: '0x2::sui::SUI',
+      coinObjectId,
+      version: '1',
+      digest: '4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi',
+      balance: balance.toString(),
+      previousTransaction: '',
+    });
+    this.coinOwners.set(coinObjectId, owner);
+  }
+
+  getReferenceGasPrice(): Promise<bigint> {
+    this.track('getReferenceGasPrice');
+    return Promise.resolve(this.referenceGasPrice);
+  }
+
+  getTransactionBlock(input: {
+    digest: string;
+  }): Promise<SuiTransactionBlockResponse> {
+    this.track('getTransactionBlock');
+    const response = this.transactions.get(input.digest);
+    if (!response) {
+      return Promise.reject(
+        new Error(`Could not find the referenced transaction ${input.digest}`),
+      );
+    }
+    return Promise.resolve(response);
+  }
+
+  getDynamicFieldObject(input: {
+    parentId: string;
+    name: { type: string; value: unknown };
+  }): Promise<SuiObjectResponse> {
+    this.track('getDynamicFieldObject');
+    const fieldId = `${input.parentId}:${JSON.stringify(input.name.value)}`;
+    return Promise.resolve(
+      this.dynamicFields.get(fieldId) ?? {
+        error: { code: 'dynamicFieldNotFound', parent_object_id: fieldId },
+      },
+    );
+  }
+
+  /** Fullnodes accept ids in short form and any case */
+  private lookup(id: string): SuiObjectResponse {
+    return (
+      this.objects.get(normalizeSuiAddress(id)) ?? {
+        error: { code: 'notExists', object_id: id },
+      }
+    );
+  }
+
+  private track(method: string) {
+    this.calls[method] = (this.calls[method] ?? 0) + 1;
+  }
+}
+
+function sameId(a: EventId, b: EventId) {
+  return a.txDigest === b.txDigest && a.eventSeq === b.eventSeq;
+}
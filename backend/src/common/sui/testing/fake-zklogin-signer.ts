@@ -0,0 +1,55 @@
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import {
+  computeZkLoginAddressFromSeed,
+  getZkLoginSignature,
+} from '@mysten/sui/zklogin';
+import { randomBytes } from 'crypto';
+import { FakeSuiClient } from './fake-sui-client';
+
+const ISSUER = 'https://accounts.google.com';
+
+/**
+ * zkLogin account whose signatures only `client` accepts. The proof is a
+ * placeholder: zkLogin signatures cannot be checked locally, so verifiers
+ * ask the fullnode, which the fake client stands in for.
+ */
+export class FakeZkLoginSigner {
+  private readonly ephemeral = Ed25519Keypair.generate();
+  private readonly addressSeed = BigInt(
+    `0x${randomBytes(16).toString('hex')}`,
+  ).toString();
+
+  constructor(private readonly client: FakeSuiClient) {}
+
+  toSuiAddress(): string {
+    return computeZkLoginAddressFromSeed(BigInt(this.addressSeed), ISSUER);
+  }
+
+  async signPersonalMessage(bytes: Uint8Array): Promise<{ signature: string }> {
+    const { signature: userSignature } =
+      await this.ephemeral.signPersonalMessage(bytes);
+    const signature = getZkLoginSignature({
+      inputs: {
+        proofPoints: {
+          a: ['1', '2', '1'],
+          b: [
+            ['1', '2'],
+            ['3', '4'],
+            ['1', '0'],
+          ],
+          c: ['1', '2', '1'],
+        },
+        issBase64Details: {
+          value: Buffer.from(`"iss":"${ISSUER}",`).toString('base64url'),
+          indexMod4: 0,
+        },
+        headerBase64: 'eyJ9',
+        addressSeed: this.addressSeed,
+      },
+      maxEpoch: '10',
+      userSignature,
+    });
+    this.client.zkLoginSignatures.add(signature);
+    return { signature };
+  }
+}
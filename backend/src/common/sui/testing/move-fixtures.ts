@@ -0,0 +1,322 @@
+import { SuiObjectResponse } from '@mysten/sui/client';
+import { FAKE_PACKAGE_ID, moveObject } from './fake-sui-client';
+
+/**
+ * Parsed content of the platform's Move objects exactly as `sui_getObject`
+ * (`showContent`) returns it: nested structs as `{ type, fields }`, u64 as
+ * decimal strings, `Option` as value or null and `vector<u8>` as numbers.
+ *
+ * The baselines mirror objects created by the package's entry functions
+ * (`sui client object <id> --json`, `.content.fields`); recapture them
+ * whenever a struct in event_platform/sources changes. Overrides are merged
+ * into nested structs, so tests only spell out the fields they care about.
+ */
+
+type RawFields = Record<string, unknown>;
+
+interface RawStruct {
+  type: string;
+  fields: RawFields;
+}
+
+const ORGANIZER = '0x0a';
+const ATTENDEE = '0x0b';
+const VALIDATOR = '0x0c';
+
+export function rawStruct(type: string, fields: RawFields): RawStruct {
+  return { type: `${FAKE_PACKAGE_ID}::${type}`, fields };
+}
+
+function isRawStruct(value: unknown): value is RawStruct {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'type' in value &&
+    'fields' in value
+  );
+}
+
+/** Merge overrides into fixture fields, descending into nested structs */
+export function withOverrides(
+  base: RawFields,
+  overrides: RawFields,
+): RawFields {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    const current = merged[key];
+    merged[key] =
+      isRawStruct(current) &&
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      !isRawStruct(value)
+        ? {
+            ...current,
+            fields: withOverrides(current.fields, value as RawFields),
+          }
+        : value;
+  }
+  return merged;
+}
+
+export function eventFields(overrides: RawFields = {}): RawFields {
+  return withOverrides(
+    {
+      id: { id: '0xe0' },
+      organizer: ORGANIZER,
+      metadata: rawStruct('events::EventMetadata', {
+        title: 'Sui Builders Night',
+        description: 'Talks and demos',
+        walrus_blob_id: '',
+        image_url: '',
+        category: 'tech',
+        tags: ['sui', 'move'],
+      }),
+      config: rawStruct('events::EventConfig', {
+        start_time: '1700003600000',
+        end_time: '1700010800000',
+        registration_deadline: '1700000000000',
+        capacity: '100',
+        ticket_price: '1000000000',
+        requires_approval: false,
+        is_transferable: true,
+        refund_deadline: '1700000000000',
+      }),
+      stats: rawStruct('events::EventStats', {
+        registered: '0',
+        attended: '0',
+        revenue: '0',
+        refunded: '0',
+      }),
+      status: 1,
+      attendees: {
+        type: `0x2::table::Table<address, ${FAKE_PACKAGE_ID}::events::AttendeeInfo>`,
+        fields: { id: { id: '0xe0e0' }, size: '0' },
+      },
+      created_at: '1699990000000',
+      updated_at: '1699990000000',
+    },
+    overrides,
+  );
+}
+
+export function eventObject(
+  eventId: string,
+  overrides: RawFields = {},
+): SuiObjectResponse {
+  return moveObject(
+    eventId,
+    'events::Event',
+    eventFields({ ...overrides, id: { id: eventId } }),
+  );
+}
+
+export function ticketFields(overrides: RawFields = {}): RawFields {
+  return withOverrides(
+    {
+      id: { id: '0x70' },
+      event_id: '0xe0',
+      owner: ATTENDEE,
+      original_owner: ATTENDEE,
+      metadata: rawStruct('tickets::TicketMetadata', {
+        ticket_number: '1',
+        tier: 'general',
+        encrypted_data: [],
+        seal_key_id: '',
+        qr_code_hash: [0xab, 0xcd],
+      }),
+      validation: rawStruct('tickets::ValidationInfo', {
+        is_validated: false,
+        validation_time: null,
+        validator_address: null,
+      }),
+      mint_time: '1699995000000',
+    },
+    overrides,
+  );
+}
+
+/** Tickets are owned by the address in their `owner` field */
+export function ticketObject(
+  ticketId: string,
+  overrides: RawFields = {},
+): SuiObjectResponse {
+  const fields = ticketFields({ ...overrides, id: { id: ticketId } });
+  return moveObject(
+    ticketId,
+    'tickets::Ticket',
+    fields,
+    fields.owner as string,
+  );
+}
+
+export function userProfileFields(overrides: RawFields = {}): RawFields {
+  return withOverrides(
+    {
+      id: { id: '0x90' },
+      identity: rawStruct('users::UserIdentity', {
+        display_name: 'alice',
+        zklogin_sub: null,
+        zklogin_provider: null,
+        email_hash: null,
+        avatar_url: null,
+        bio: null,
+        social_links: [],
+      }),
+      reputation: rawStruct('users::ReputationData', {
+        score: '100',
+        organizer_rating: '0',
+        attendee_rating: '0',
+        organizer_rating_count: '0',
+        attendee_rating_count: '0',
+        verified_organizer: false,
+        badges: [],
+      }),
+      stats: rawStruct('users::UserStats', {
+        events_created: '0',
+        events_attended: '0',
+        no_show_count: '0',
+        tickets_purchased: '0',
+        tickets_transferred: '0',
+        total_spent: '0',
+      }),
+      preferences: rawStruct('users::UserPreferences', {
+        notification_enabled: true,
+        favorite_categories: [],
+        timezone: 'UTC',
+        language: 'en',
+      }),
+      created_at: '1699980000000',
+      updated_at: '1699980000000',
+    },
+    overrides,
+  );
+}
+
+export function userProfileObject(
+  profileId: string,
+  owner: string,
+  overrides: RawFields = {},
+): SuiObjectResponse {
+  return moveObject(
+    profileId,
+    'users::UserProfile',
+    userProfileFields({ ...overrides, id: { id: profileId } }),
+    owner,
+  );
+}
+
+export function eventTreasuryFields(overrides: RawFields = {}): RawFields {
+  return withOverrides(
+    {
+      id: { id: '0x7e' },
+      event_id: '0xe0',
+      organizer: ORGANIZER,
+      balance: '0',
+      platform_fee: '250',
+      total_collected: '0',
+      total_withdrawn: '0',
+      locked_for_refunds: '0',
+    },
+    overrides,
+  );
+}
+
+export function eventTreasuryObject(
+  treasuryId: string,
+  overrides: RawFields = {},
+): SuiObjectResponse {
+  return moveObject(
+    treasuryId,
+    'payments::EventTreasury',
+    eventTreasuryFields({ ...overrides, id: { id: treasuryId } }),
+  );
+}
+
+export function attendanceProofFields(overrides: RawFields = {}): RawFields {
+  return withOverrides(
+    {
+      id: { id: '0xa0' },
+      event_id: '0xe0',
+      attendee: ATTENDEE,
+      ticket_id: '0x70',
+      verification: rawStruct('attendance::VerificationData', {
+        check_in_time: '1700004000000',
+        check_out_time: null,
+        validator_address: VALIDATOR,
+        verification_hash: [0x01, 0x02],
+        location_hash: [],
+      }),
+      metadata: rawStruct('attendance::AttendanceMetadata', {
+        badge_image_url: '',
+        event_title: 'Sui Builders Night',
+        event_date: '1700003600000',
+        special_notes: null,
+      }),
+    },
+    overrides,
+  );
+}
+
+/** Proofs are soulbound to the attendee */
+export function attendanceProofObject(
+  proofId: string,
+  overrides: RawFields = {},
+): SuiObjectResponse {
+  const fields = attendanceProofFields({ ...overrides, id: { id: proofId } });
+  return moveObject(
+    proofId,
+    'attendance::AttendanceProof',
+    fields,
+    fields.attendee as string,
+  );
+}
+
+export function organizerCapObject(
+  capId: string,
+  holder: string,
+  overrides: RawFields = {},
+): SuiObjectResponse {
+  return moveObject(
+    capId,
+    'access_control::EventOrganizerCap',
+    withOverrides(
+      {
+        id: { id: capId },
+        event_id: '0xe0',
+        permissions: rawStruct('access_control::OrganizerPermissions', {
+          can_update_event: true,
+          can_cancel_event: true,
+          can_approve_registrations: true,
+          can_withdraw_funds: true,
+          can_grant_validators: true,
+        }),
+        granted_at: '1699990000000',
+      },
+      overrides,
+    ),
+    holder,
+  );
+}
+
+export function validatorCapObject(
+  capId: string,
+  holder: string,
+  overrides: RawFields = {},
+): SuiObjectResponse {
+  return moveObject(
+    capId,
+    'access_control::ValidatorCap',
+    withOverrides(
+      {
+        id: { id: capId },
+        event_id: '0xe0',
+        validator_address: holder,
+        granted_by: ORGANIZER,
+        granted_at: '1699990000000',
+      },
+      overrides,
+    ),
+    holder,
+  );
+}
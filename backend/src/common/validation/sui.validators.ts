@@ -0,0 +1,24 @@
+import { Matches, ValidationOptions } from 'class-validator';
+
+const SUI_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+const HEX_BYTES_PATTERN = /^(0x)?([0-9a-fA-F]{2})*$/;
+
+/**
+ * Sui address or object id (0x-prefixed hex, up to 32 bytes).
+ */
+export function IsSuiAddress(options?: ValidationOptions) {
+  return Matches(SUI_ADDRESS_PATTERN, {
+    message: '$property must be a 0x-prefixed Sui address',
+    ...options,
+  });
+}
+
+/**
+ * Even-length hex string, optionally 0x-prefixed, for vector<u8> arguments.
+ */
+export function IsHexBytes(options?: ValidationOptions) {
+  return Matches(HEX_BYTES_PATTERN, {
+    message: '$property must be a hex-encoded byte string',
+    ...options,
+  });
+}
@@ -0,0 +1,20 @@
+import { ValidationError } from 'class-validator';
+
+/**
+ * Flatten nested class-validator errors into messages that name the full
+ * property path, e.g. `agenda.0.title must be a string`.
+ */
+export function flattenValidationErrors(
+  errors: ValidationError[],
+  path = '',
+): string[] {
+  return errors.flatMap((error) => {
+    const property = path ? `${path}.${error.property}` : error.property;
+    return [
+      ...Object.values(error.constraints ?? {}).map((message) =>
+        message.replace(error.property, property),
+      ),
+      ...flattenValidationErrors(error.children ?? [], property),
+    ];
+  });
+}
@@ -0,0 +1,60 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+/** Walrus blob ids are 32 bytes, base64url without padding */
+const BLOB_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+export function isBlobId(value: string): boolean {
+  return BLOB_ID_PATTERN.test(value);
+}
+
+/**
+ * Content-addressed storage for event content. Production points this at a
+ * Walrus publisher and aggregator; the filesystem store below keeps the
+ * same contract for offline development and tests.
+ */
+export interface BlobStore {
+  write(data: Uint8Array): Promise<string>;
+  /** `null` when no blob with this id has been stored */
+  read(blobId: string): Promise<Uint8Array | null>;
+}
+
+/**
+ * Stores each blob as one file named by the base64url SHA-256 of its
+ * bytes, so ids have the same shape as Walrus ids and rewrites are no-ops.
+ */
+export class FilesystemBlobStore implements BlobStore {
+  constructor(private readonly directory: string) {}
+
+  async write(data: Uint8Array): Promise<string> {
+    const blobId = createHash('sha256').update(data).digest('base64url');
+    await mkdir(this.directory, { recursive: true });
+    try {
+      await writeFile(this.path(blobId), data, { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+    return blobId;
+  }
+
+  async read(blobId: string): Promise<Uint8Array | null> {
+    if (!isBlobId(blobId)) {
+      return null;
+    }
+    try {
+      return await readFile(this.path(blobId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private path(blobId: string): string {
+    return join(this.directory, blobId);
+  }
+}
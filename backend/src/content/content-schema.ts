@@ -0,0 +1,61 @@
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { flattenValidationErrors } from '../common/validation/validation-errors';
+import { EventContentDto } from './dto/event-content.dto';
+
+export type ContentValidationResult =
+  | { content: EventContentDto; errors: [] }
+  | { content: null; errors: string[] };
+
+/**
+ * Check a decoded blob against the EventContentDto schema, dropping
+ * unknown properties, then check agenda items only name listed speakers.
+ */
+export function validateEventContent(value: unknown): ContentValidationResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { content: null, errors: ['content must be a JSON object'] };
+  }
+
+  const content = plainToInstance(EventContentDto, value);
+  const errors = flattenValidationErrors(
+    validateSync(content, { whitelist: true }),
+  );
+  if (errors.length === 0) {
+    errors.push(...speakerReferenceErrors(content));
+  }
+
+  return errors.length === 0
+    ? { content, errors: [] }
+    : { content: null, errors };
+}
+
+/** Decode blob bytes as UTF-8 JSON and validate them */
+export function parseEventContent(bytes: Uint8Array): ContentValidationResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(bytes).toString('utf8'));
+  } catch {
+    return { content: null, errors: ['blob is not valid JSON'] };
+  }
+  return validateEventContent(value);
+}
+
+function speakerReferenceErrors(content: EventContentDto): string[] {
+  const errors: string[] = [];
+  const speakerIds = new Set<string>();
+  for (const speaker of content.speakers) {
+    if (speakerIds.has(speaker.id)) {
+      errors.push(`speakers contains duplicate id ${speaker.id}`);
+    }
+    speakerIds.add(speaker.id);
+  }
+
+  content.agenda.forEach((item, index) => {
+    for (const speakerId of item.speakerIds ?? []) {
+      if (!speakerIds.has(speakerId)) {
+        errors.push(`agenda.${index} references unknown speaker ${speakerId}`);
+      }
+    }
+  });
+  return errors;
+}
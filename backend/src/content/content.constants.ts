@@ -0,0 +1,4 @@
+export const BLOB_STORE = 'BLOB_STORE';
+
+/** Schema version written into every uploaded content document */
+export const EVENT_CONTENT_VERSION = 1;
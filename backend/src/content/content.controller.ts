@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Authenticated } from '../auth/auth.decorators';
+import { ContentService } from './content.service';
+import {
+  EventContentDto,
+  EventContentResponseDto,
+  UploadContentResponseDto,
+} from './dto/event-content.dto';
+
+@ApiTags('content')
+@Controller('content')
+export class ContentController {
+  constructor(private readonly contentService: ContentService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Authenticated()
+  @ApiOperation({
+    summary: 'Store event content and return its blob id for create_event',
+  })
+  @ApiResponse({ status: 201, type: UploadContentResponseDto })
+  async upload(
+    @Body() dto: EventContentDto,
+  ): Promise<UploadContentResponseDto> {
+    return this.contentService.upload(dto);
+  }
+
+  @Get('event/:eventId')
+  @ApiOperation({ summary: "Resolve an event's Walrus content" })
+  @ApiParam({ name: 'eventId', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: EventContentResponseDto })
+  async getEventContent(
+    @Param('eventId') eventId: string,
+  ): Promise<EventContentResponseDto> {
+    return this.contentService.getEventContent(eventId);
+  }
+
+  @Get(':blobId')
+  @ApiOperation({ summary: 'Resolve a Walrus blob into event content' })
+  @ApiParam({ name: 'blobId', description: 'Walrus blob ID' })
+  @ApiResponse({ status: 200, type: EventContentResponseDto })
+  async getContent(
+    @Param('blobId') blobId: string,
+  ): Promise<EventContentResponseDto> {
+    return this.contentService.getContent(blobId);
+  }
+}
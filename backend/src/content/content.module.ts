@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthModule } from '../auth/auth.module';
+import { EventsModule } from '../events/events.module';
+import { FilesystemBlobStore } from './blob-store';
+import { BLOB_STORE } from './content.constants';
+import { ContentController } from './content.controller';
+import { ContentService } from './content.service';
+
+@Module({
+  imports: [EventsModule, AuthModule],
+  controllers: [ContentController],
+  providers: [
+    {
+      provide: BLOB_STORE,
+      useFactory: (configService: ConfigService) =>
+        new FilesystemBlobStore(
+          configService.get<string>('walrus.blobDirectory', 'data/blobs'),
+        ),
+      inject: [ConfigService],
+    },
+    ContentService,
+  ],
+  exports: [ContentService],
+})
+export class ContentModule {}
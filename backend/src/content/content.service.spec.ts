@@ -0,0 +1,133 @@
+import {
+  BadRequestException,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EventsService } from '../events/events.service';
+import { FilesystemBlobStore } from './blob-store';
+import { BLOB_STORE } from './content.constants';
+import { ContentService } from './content.service';
+import { EventContentDto } from './dto/event-content.dto';
+
+const CONTENT = {
+  version: 1,
+  description: '# Sui Summit\n\nTwo days of Move.',
+  agenda: [
+    {
+      startTime: '1000',
+      endTime: '2000',
+      title: 'Keynote',
+      speakerIds: ['ada'],
+    },
+  ],
+  speakers: [
+    { id: 'ada', name: 'Ada', avatarUrl: 'https://example.com/a.png' },
+  ],
+  gallery: [{ url: 'https://example.com/venue.jpg', caption: 'Venue' }],
+} as EventContentDto;
+
+describe('ContentService', () => {
+  let module: TestingModule;
+  let directory: string;
+  let store: FilesystemBlobStore;
+  let content: ContentService;
+  const getEvent = jest.fn();
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'blobs-'));
+    store = new FilesystemBlobStore(directory);
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ walrus: { cacheEntries: 2 } }),
+        },
+        { provide: BLOB_STORE, useValue: store },
+        { provide: EventsService, useValue: { getEvent } },
+        ContentService,
+      ],
+    }).compile();
+
+    content = module.get(ContentService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    await rm(directory, { recursive: true, force: true });
+    getEvent.mockReset();
+  });
+
+  it('uploads content and resolves it by blob id', async () => {
+    const uploaded = await content.upload(CONTENT);
+    const again = await content.upload(CONTENT);
+
+    expect(uploaded.blobId).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(again.blobId).toBe(uploaded.blobId);
+
+    const resolved = await content.getContent(uploaded.blobId);
+    expect(resolved.content).toMatchObject({
+      description: CONTENT.description,
+      speakers: [{ id: 'ada', name: 'Ada' }],
+    });
+  });
+
+  it('rejects uploads whose agenda names unknown speakers', async () => {
+    await expect(
+      content.upload({
+        ...CONTENT,
+        agenda: [{ startTime: '1000', title: 'Panel', speakerIds: ['bob'] }],
+      } as EventContentDto),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('reports blobs that do not match the schema', async () => {
+    const blobId = await store.write(
+      Buffer.from(JSON.stringify({ version: 1, agenda: 'soon' })),
+    );
+
+    const error = await content.getContent(blobId).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UnprocessableEntityException);
+    const response = (error as UnprocessableEntityException).getResponse();
+    expect((response as { message: string[] }).message).toEqual(
+      expect.arrayContaining([
+        'description must be a string',
+        'agenda must be an array',
+      ]),
+    );
+  });
+
+  it('caches parsed blobs and rejects unknown or malformed ids', async () => {
+    const { blobId } = await content.upload(CONTENT);
+    const read = jest.spyOn(store, 'read');
+
+    await content.getContent(blobId);
+    expect(read).not.toHaveBeenCalled();
+
+    await expect(content.getContent('A'.repeat(43))).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    await expect(content.getContent('../etc')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it("resolves an event's walrus blob id", async () => {
+    const { blobId } = await content.upload(CONTENT);
+    getEvent.mockResolvedValueOnce({ metadata: { walrusBlobId: blobId } });
+    getEvent.mockResolvedValueOnce({ metadata: { walrusBlobId: '' } });
+
+    await expect(content.getEventContent('0xe1')).resolves.toMatchObject({
+      blobId,
+    });
+    await expect(content.getEventContent('0xe1')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventsService } from '../events/events.service';
+import { isBlobId } from './blob-store';
+import type { BlobStore } from './blob-store';
+import { BLOB_STORE } from './content.constants';
+import {
+  ContentValidationResult,
+  parseEventContent,
+  validateEventContent,
+} from './content-schema';
+import {
+  EventContentDto,
+  EventContentResponseDto,
+  UploadContentResponseDto,
+} from './dto/event-content.dto';
+
+@Injectable()
+export class ContentService {
+  /**
+   * Blobs are immutable, so parsed results (valid or not) never go stale;
+   * the cache is only bounded, least recently used first out.
+   */
+  private readonly cache = new Map<string, ContentValidationResult>();
+  private readonly cacheEntries: number;
+
+  constructor(
+    @Inject(BLOB_STORE) private readonly blobStore: BlobStore,
+    private readonly eventsService: EventsService,
+    configService: ConfigService,
+  ) {
+    this.cacheEntries = configService.get<number>('walrus.cacheEntries', 500);
+  }
+
+  async getContent(blobId: string): Promise<EventContentResponseDto> {
+    if (!isBlobId(blobId)) {
+      throw new BadRequestException(`${blobId} is not a Walrus blob id`);
+    }
+
+    const result = await this.resolve(blobId);
+    if (!result.content) {
+      throw new UnprocessableEntityException({
+        statusCode: 422,
+        error: 'Unprocessable Entity',
+        message: [
+          `Blob ${blobId} is not valid event content`,
+          ...result.errors,
+        ],
+      });
+    }
+    return { blobId, content: result.content };
+  }
+
+  async getEventContent(eventId: string): Promise<EventContentResponseDto> {
+    const event = await this.eventsService.getEvent(eventId);
+    if (!event) {
+      throw new NotFoundException(`Event ${eventId} not found`);
+    }
+    if (!event.metadata.walrusBlobId) {
+      throw new NotFoundException(`Event ${eventId} has no Walrus content`);
+    }
+    return this.getContent(event.metadata.walrusBlobId);
+  }
+
+  async upload(dto: EventContentDto): Promise<UploadContentResponseDto> {
+    const result = validateEventContent(dto);
+    if (!result.content) {
+      throw new BadRequestException(result.errors);
+    }
+
+    const bytes = Buffer.from(JSON.stringify(result.content));
+    const blobId = await this.blobStore.write(bytes);
+    this.remember(blobId, result);
+
+    return { blobId, size: bytes.length };
+  }
+
+  private async resolve(blobId: string): Promise<ContentValidationResult> {
+    const cached = this.cache.get(blobId);
+    if (cached) {
+      this.remember(blobId, cached);
+      return cached;
+    }
+
+    // Missing blobs are not cached: they may still be propagating
+    const bytes = await this.blobStore.read(blobId);
+    if (!bytes) {
+      throw new NotFoundException(`Blob ${blobId} not found`);
+    }
+
+    const result = parseEventContent(bytes);
+    this.remember(blobId, result);
+    return result;
+  }
+
+  private remember(blobId: string, result: ContentValidationResult) {
+    this.cache.delete(blobId);
+    this.cache.set(blobId, result);
+    if (this.cache.size > this.cacheEntries) {
+      const [oldest] = this.cache.keys();
+      this.cache.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { EVENT_CONTENT_VERSION } from '../content.constants';
+
+export class AgendaItemDto {
+  @ApiProperty({ description: 'Start time in epoch milliseconds' })
+  @IsNumberString({ no_symbols: true })
+  startTime: string;
+
+  @ApiPropertyOptional({ description: 'End time in epoch milliseconds' })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  endTime?: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title: string;
+
+  @ApiPropertyOptional({ description: 'Markdown' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  description?: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Ids from the speakers list',
+  })
+  @IsOptional()
+  @IsString({ each: true })
+  speakerIds?: string[];
+}
+
+export class SpeakerDto {
+  @ApiProperty({ description: 'Referenced by agenda items' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  id: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  title?: string;
+
+  @ApiPropertyOptional({ description: 'Markdown' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  bio?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUrl()
+  avatarUrl?: string;
+}
+
+export class GalleryImageDto {
+  @ApiProperty()
+  @IsUrl()
+  url: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  caption?: string;
+}
+
+/**
+ * Long-form event content stored in the Walrus blob referenced by
+ * `EventMetadata.walrus_blob_id`.
+ */
+export class EventContentDto {
+  @ApiProperty({ enum: [EVENT_CONTENT_VERSION] })
+  @IsIn([EVENT_CONTENT_VERSION])
+  version: number;
+
+  @ApiProperty({ description: 'Markdown' })
+  @IsString()
+  @MaxLength(50_000)
+  description: string;
+
+  @ApiProperty({ type: [AgendaItemDto] })
+  @IsArray()
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => AgendaItemDto)
+  agenda: AgendaItemDto[];
+
+  @ApiProperty({ type: [SpeakerDto] })
+  @IsArray()
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => SpeakerDto)
+  speakers: SpeakerDto[];
+
+  @ApiProperty({ type: [GalleryImageDto] })
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => GalleryImageDto)
+  gallery: GalleryImageDto[];
+}
+
+export class EventContentResponseDto {
+  @ApiProperty()
+  blobId: string;
+
+  @ApiProperty({ type: EventContentDto })
+  content: EventContentDto;
+}
+
+export class UploadContentResponseDto {
+  @ApiProperty({ description: 'Pass as metadata.walrusBlobId to create-event' })
+  blobId: string;
+
+  @ApiProperty({ description: 'Stored size in bytes' })
+  size: number;
+}
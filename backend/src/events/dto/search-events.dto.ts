@@ -0,0 +1,98 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsNumberString,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { PaginationQueryDto } from '../../common/pagination/pagination.dto';
+import { EVENT_STATUSES } from '../events.constants';
+
+export const EVENT_SORT_FIELDS = [
+  'createdAt',
+  'startTime',
+  'price',
+  'registered',
+  'seatsLeft',
+] as const;
+
+export type EventSortField = (typeof EVENT_SORT_FIELDS)[number];
+
+const toList = ({ value }: { value: unknown }) =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : value;
+
+const toBoolean = ({ value }: { value: unknown }) =>
+  value === 'true' ? true : value === 'false' ? false : value;
+
+export class SearchEventsQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @ApiPropertyOptional({ description: 'Comma-separated tags' })
+  @IsOptional()
+  @Transform(toList)
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({ enum: ['any', 'all'], default: 'any' })
+  @IsOptional()
+  @IsIn(['any', 'all'])
+  tagMatch?: 'any' | 'all' = 'any';
+
+  @ApiPropertyOptional({ enum: EVENT_STATUSES })
+  @IsOptional()
+  @IsIn(EVENT_STATUSES)
+  status?: string;
+
+  @ApiPropertyOptional({ description: 'Earliest start time (ms)' })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  startsAfter?: string;
+
+  @ApiPropertyOptional({ description: 'Latest start time (ms)' })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  startsBefore?: string;
+
+  @ApiPropertyOptional({ description: 'Minimum ticket price in MIST' })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  minPrice?: string;
+
+  @ApiPropertyOptional({ description: 'Maximum ticket price in MIST' })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  maxPrice?: string;
+
+  @ApiPropertyOptional({ description: 'Only events with seats left' })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  hasSeats?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Free text matched against title and description',
+  })
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  @ApiPropertyOptional({ enum: EVENT_SORT_FIELDS, default: 'createdAt' })
+  @IsOptional()
+  @IsIn(EVENT_SORT_FIELDS)
+  sortBy?: EventSortField = 'createdAt';
+
+  @ApiPropertyOptional({ enum: ['asc', 'desc'], default: 'desc' })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sortOrder?: 'asc' | 'desc' = 'desc';
+}
@@ -0,0 +1,8 @@
+import { EventResponseDto } from './dto/event.dto';
+
+export function seatsLeft(event: EventResponseDto): number {
+  return Math.max(
+    0,
+    (event.config.capacity || 0) - (event.stats.registered || 0),
+  );
+}
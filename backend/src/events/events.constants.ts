@@ -0,0 +1,14 @@
+export const STATUS_MAP: Record<number, string> = {
+  0: 'draft',
+  1: 'open',
+  2: 'in_progress',
+  3: 'completed',
+  4: 'cancelled',
+};
+
+export const EVENT_STATUSES = Object.values(STATUS_MAP);
+
+/** Move status code of each status name */
+export const STATUS_CODES: Record<string, number> = Object.fromEntries(
+  Object.entries(STATUS_MAP).map(([code, name]) => [name, Number(code)]),
+);
@@ -1,7 +1,9 @@
 import { Controller, Get, Param, Query } from '@nestjs/common';
-import { ApiOperation, ApiParam, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { EventsService } from './events.service';
-import { EventResponseDto } from './dto/event.dto';
+import { EventListResponseDto, EventResponseDto } from './dto/event.dto';
+import { SearchEventsQueryDto } from './dto/search-events.dto';
+import { PaginationQueryDto } from '../common/pagination/pagination.dto';
 
 @ApiTags('events')
 @Controller('events')
@@ -10,10 +12,16 @@ export class EventsController {
 
   @Get()
   @ApiOperation({ summary: 'Get recent events' })
-  @ApiQuery({ name: 'limit', required: false, type: Number })
-  @ApiResponse({ status: 200, type: [EventResponseDto] })
-  async getRecentEvents(@Query('limit') limit?: number): Promise<EventResponseDto[]> {
-    return this.eventsService.getRecentEvents(limit || 20);
+  @ApiResponse({ status: 200, type: EventListResponseDto })
+  async getRecentEvents(@Query() query: PaginationQueryDto): Promise<EventListResponseDto> {
+    return this.eventsService.getRecentEvents(query.limit, query.cursor);
+  }
+
+  @Get('search')
+  @ApiOperation({ summary: 'Search and filter events' })
+  @ApiResponse({ status: 200, type: EventListResponseDto })
+  async searchEvents(@Query() query: SearchEventsQueryDto): Promise<EventListResponseDto> {
+    return this.eventsService.searchEvents(query);
   }
 
   @Get(':id')
@@ -27,8 +35,11 @@ export class EventsController {
   @Get('organizer/:address')
   @ApiOperation({ summary: 'Get events by organizer address' })
   @ApiParam({ name: 'address', description: 'Organizer wallet address' })
-  @ApiResponse({ status: 200, type: [EventResponseDto] })
-  async getEventsByOrganizer(@Param('address') address: string): Promise<EventResponseDto[]> {
-    return this.eventsService.getEventsByOrganizer(address);
+  @ApiResponse({ status: 200, type: EventListResponseDto })
+  async getEventsByOrganizer(
+    @Param('address') address: string,
+    @Query() query: PaginationQueryDto,
+  ): Promise<EventListResponseDto> {
+    return this.eventsService.getEventsByOrganizer(address, query.limit, query.cursor);
   }
 }
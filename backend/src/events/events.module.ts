@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
+import { IndexerModule } from '../indexer/indexer.module';
 import { EventsController } from './events.controller';
 import { EventsService } from './events.service';
 
 @Module({
+  imports: [IndexerModule],
   controllers: [EventsController],
   providers: [EventsService],
   exports: [EventsService],
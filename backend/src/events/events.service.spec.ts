@@ -0,0 +1,321 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import { eventObject } from '../common/sui/testing/move-fixtures';
+import { EventListingIndexer } from '../indexer/event-listing-indexer';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { ObjectCacheInvalidator } from '../indexer/object-cache-invalidator';
+import { SearchEventsQueryDto } from './dto/search-events.dto';
+import { EventsService } from './events.service';
+
+const ORGANIZER = normalizeSuiAddress('0x0a9');
+const EVENT_COUNT = 60;
+const EVENT_IDS = Array.from({ length: EVENT_COUNT }, (_, i) =>
+  normalizeSuiAddress(`0xe${i.toString(16).padStart(2, '0')}`),
+);
+
+function organizerEvent(eventId: string, title: string) {
+  return eventObject(eventId, { organizer: ORGANIZER, metadata: { title } });
+}
+
+describe('EventsService object reads', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let events: EventsService;
+  let suiService: SuiService;
+
+  async function createModule(ttlMs: number) {
+    client = new FakeSuiClient();
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID, cache: { ttlMs } },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        ObjectCacheInvalidator,
+        EventsService,
+      ],
+    }).compile();
+    await module.init();
+
+    events = module.get(EventsService);
+    suiService = module.get(SuiService);
+
+    for (const eventId of EVENT_IDS) {
+      client.addEvents(
+        recordedEvent('events::EventCreated', {
+          event_id: eventId,
+          organizer: ORGANIZER,
+        }),
+      );
+      client.setObject(organizerEvent(eventId, 'Meetup'));
+    }
+    await module.get(IndexerService).syncOnce();
+  }
+
+  function objectReads() {
+    return (client.calls.getObject ?? 0) + (client.calls.multiGetObjects ?? 0);
+  }
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('benchmarks fullnode object reads across three organizer listings', async () => {
+    await createModule(0);
+    const sequentialBefore = objectReads();
+    for (let round = 0; round < 3; round++) {
+      for (const eventId of EVENT_IDS) {
+        await events.getEvent(eventId);
+      }
+    }
+    const sequential = objectReads() - sequentialBefore;
+
+    const batchedBefore = objectReads();
+    for (let round = 0; round < 3; round++) {
+      await events.getEventsByOrganizer(ORGANIZER, EVENT_COUNT);
+    }
+    const batched = objectReads() - batchedBefore;
+    await module.close();
+
+    await createModule(60_000);
+    const cachedBefore = objectReads();
+    for (let round = 0; round < 3; round++) {
+      const page = await events.getEventsByOrganizer(ORGANIZER, EVENT_COUNT);
+      expect(page.events).toHaveLength(EVENT_COUNT);
+    }
+    const cached = objectReads() - cachedBefore;
+
+    // One getObject per event per listing, then two 50-id batches per
+    // listing, then two batches in total once the cache is warm
+    expect({ sequential, batched, cached }).toEqual({
+      sequential: 3 * EVENT_COUNT,
+      batched: 3 * 2,
+      cached: 2,
+    });
+    expect(suiService.getCacheMetrics()).toMatchObject({
+      hits: 2 * EVENT_COUNT,
+      misses: EVENT_COUNT,
+      size: EVENT_COUNT,
+    });
+  });
+
+  it('refetches only events a Move event reported as changed', async () => {
+    await createModule(60_000);
+    await events.getEventsByOrganizer(ORGANIZER, EVENT_COUNT);
+
+    client.setObject(organizerEvent(EVENT_IDS[7], 'Renamed'));
+    client.addEvents(
+      recordedEvent('events::EventUpdated', {
+        event_id: EVENT_IDS[7],
+        timestamp: '1',
+      }),
+    );
+    await module.get(IndexerService).syncOnce();
+
+    const before = client.calls.multiGetObjects;
+    const page = await events.getEventsByOrganizer(ORGANIZER, EVENT_COUNT);
+
+    expect(client.calls.multiGetObjects - before).toBe(1);
+    expect(
+      page.events.find((event) => event.id === EVENT_IDS[7])?.metadata.title,
+    ).toBe('Renamed');
+    expect(suiService.getCacheMetrics().invalidations).toBe(1);
+  });
+});
+
+describe('EventsService search', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let events: EventsService;
+
+  function create(eventId: string, overrides: Record<string, unknown> = {}) {
+    client.addEvents(
+      recordedEvent('events::EventCreated', {
+        event_id: normalizeSuiAddress(eventId),
+        organizer: ORGANIZER,
+      }),
+    );
+    client.setObject(eventObject(normalizeSuiAddress(eventId), overrides));
+  }
+
+  async function sync() {
+    await module.get(IndexerService).syncOnce();
+    await module.get(EventListingIndexer).sync();
+  }
+
+  async function search(query: SearchEventsQueryDto) {
+    const page = await events.searchEvents({
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+      ...query,
+    });
+    return page.events.map((event) => event.id);
+  }
+
+  const id = (eventId: string) => normalizeSuiAddress(eventId);
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        ObjectCacheInvalidator,
+        EventListingIndexer,
+        EventsService,
+      ],
+    }).compile();
+    await module.init();
+    events = module.get(EventsService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('matches any or all tags', async () => {
+    create('0xa1', { metadata: { tags: ['jazz', 'outdoor'] } });
+    create('0xa2', { metadata: { tags: ['jazz'] } });
+    await sync();
+
+    expect(await search({ tags: ['outdoor', 'indoor'] })).toEqual([id('0xa1')]);
+    expect(
+      await search({ tags: ['jazz', 'outdoor'], tagMatch: 'all' }),
+    ).toEqual([id('0xa1')]);
+    expect(await search({ tags: ['jazz', 'indoor'], tagMatch: 'all' })).toEqual(
+      [],
+    );
+  });
+
+  it('filters by category, status and start window', async () => {
+    create('0xa1', { config: { start_time: '5000' } });
+    create('0xa2', { status: 4, metadata: { category: 'music' } });
+    await sync();
+
+    expect(await search({ category: 'music' })).toEqual([id('0xa2')]);
+    expect(await search({ status: 'cancelled' })).toEqual([id('0xa2')]);
+    expect(await search({ startsAfter: '4000', startsBefore: '6000' })).toEqual(
+      [id('0xa1')],
+    );
+    expect(await search({ startsAfter: '5001', startsBefore: '6000' })).toEqual(
+      [],
+    );
+  });
+
+  it('compares prices as u64 MIST', async () => {
+    create('0xa1', { config: { ticket_price: '18446744073709551615' } });
+    create('0xa2', { config: { ticket_price: '900000000' } });
+    await sync();
+
+    expect(await search({ minPrice: '18446744073709551614' })).toEqual([
+      id('0xa1'),
+    ]);
+    expect(await search({ maxPrice: '18446744073709551614' })).toEqual([
+      id('0xa2'),
+    ]);
+  });
+
+  it('filters on seats left and free-text terms', async () => {
+    create('0xa1', {
+      metadata: { title: 'Summer Jazz Night', description: 'Live music' },
+      config: { capacity: '10' },
+      stats: { registered: '10' },
+    });
+    create('0xa2');
+    await sync();
+
+    expect(await search({ hasSeats: true })).toEqual([id('0xa2')]);
+    expect(await search({ hasSeats: false })).toEqual([id('0xa1')]);
+    expect(await search({ q: 'JAZZ live' })).toEqual([id('0xa1')]);
+    expect(await search({ q: 'jazz rock' })).toEqual([]);
+  });
+
+  it('pages in sort order with a stable id tie-break', async () => {
+    create('0xc', { config: { ticket_price: '5' } });
+    create('0xa', { config: { ticket_price: '10' } });
+    create('0xb', { config: { ticket_price: '5' } });
+    await sync();
+
+    const first = await events.searchEvents({
+      sortBy: 'price',
+      sortOrder: 'asc',
+      limit: 2,
+    });
+    const second = await events.searchEvents({
+      sortBy: 'price',
+      sortOrder: 'asc',
+      limit: 2,
+      cursor: first.nextCursor,
+    });
+
+    expect(first.events.map((event) => event.id)).toEqual([
+      id('0xb'),
+      id('0xc'),
+    ]);
+    expect(second.events.map((event) => event.id)).toEqual([id('0xa')]);
+    expect(second.hasMore).toBe(false);
+    expect(await search({ sortBy: 'price', sortOrder: 'desc' })).toEqual([
+      id('0xa'),
+      id('0xb'),
+      id('0xc'),
+    ]);
+  });
+
+  it('reads only the page of results and follows event updates', async () => {
+    for (let i = 0; i < EVENT_COUNT; i++) {
+      create(`0xe${i}`, { metadata: { category: i === 7 ? 'music' : 'tech' } });
+    }
+    await sync();
+
+    const before = client.calls.multiGetObjects;
+    expect(await search({ category: 'music' })).toEqual([id('0xe7')]);
+    // A scan would read every event in two batches; the page needs one
+    expect(client.calls.multiGetObjects - before).toBe(1);
+
+    client.setObject(
+      eventObject(id('0xe8'), { metadata: { category: 'music' } }),
+    );
+    client.addEvents(
+      recordedEvent('events::EventUpdated', {
+        event_id: id('0xe8'),
+        timestamp: '1',
+      }),
+    );
+    await sync();
+
+    expect(await search({ category: 'music', sortOrder: 'asc' })).toEqual([
+      id('0xe7'),
+      id('0xe8'),
+    ]);
+  });
+});
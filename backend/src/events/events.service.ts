@@ -1,109 +1,178 @@
 import { Injectable } from '@nestjs/common';
+import { SuiObjectResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
 import { SuiService } from '../common/sui/sui.service';
-import { EventResponseDto } from './dto/event.dto';
-
-const STATUS_MAP: Record<number, string> = {
-  0: 'draft',
-  1: 'open',
-  2: 'in_progress',
-  3: 'completed',
-  4: 'cancelled',
-};
+import { decodeMoveObject } from '../common/sui/move-decoder';
+import { EVENT, EventObject } from '../common/sui/move-objects';
+import {
+  decodeCursor,
+  encodeCursor,
+  isEventIdCursor,
+  isRowCursor,
+  isSortKeyCursor,
+} from '../common/pagination/cursor';
+import { IndexerStore } from '../indexer/indexer.store';
+import { EventCreatedEvent } from '../indexer/indexer.types';
+import { EventListResponseDto, EventResponseDto } from './dto/event.dto';
+import { SearchEventsQueryDto } from './dto/search-events.dto';
+import { STATUS_CODES, STATUS_MAP } from './events.constants';
 
 @Injectable()
 export class EventsService {
-  constructor(private readonly suiService: SuiService) {}
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly indexerStore: IndexerStore,
+  ) {}
 
   async getEvent(eventId: string): Promise<EventResponseDto | null> {
-    const response = await this.suiService.getObject(eventId);
+    const event = this.decodeEvent(await this.suiService.getObject(eventId));
+    return event && mapEvent(eventId, event);
+  }
 
-    if (!response.data?.content || response.data.content.dataType !== 'moveObject') {
-      return null;
-    }
+  /**
+   * Batch-fetch events in input order, skipping ids that no longer resolve
+   * to an event object.
+   */
+  async getEvents(eventIds: string[]): Promise<EventResponseDto[]> {
+    const responses = await this.suiService.getObjects(eventIds);
 
-    const fields = response.data.content.fields as Record<string, unknown>;
-    return this.mapEventFields(eventId, fields);
+    const events: EventResponseDto[] = [];
+    responses.forEach((response, index) => {
+      const event = this.decodeEvent(response);
+      if (event) {
+        events.push(mapEvent(eventIds[index], event));
+      }
+    });
+    return events;
   }
 
-  async getEventsByOrganizer(organizer: string): Promise<EventResponseDto[]> {
-    const response = await this.suiService.queryEvents(
+  async getEventsByOrganizer(
+    organizer: string,
+    limit = 20,
+    cursor?: string,
+  ): Promise<EventListResponseDto> {
+    const after = decodeCursor(cursor, isRowCursor);
+    const page = this.indexerStore.pageEvents<EventCreatedEvent>(
       'events::EventCreated',
+      { organizer },
+      { order: 'desc', afterId: after?.id, limit },
     );
 
-    const organizerEvents = response.data.filter(
-      (event) => (event.parsedJson as Record<string, unknown>)?.organizer === organizer,
+    const events = await this.getEvents(
+      page.events.map((event) => event.data.event_id),
     );
 
-    const events: EventResponseDto[] = [];
-    for (const event of organizerEvents) {
-      const eventId = (event.parsedJson as Record<string, unknown>)?.event_id as string;
-      if (eventId) {
-        const eventData = await this.getEvent(eventId);
-        if (eventData) {
-          events.push(eventData);
-        }
-      }
-    }
-
-    return events;
+    const last = page.events[page.events.length - 1];
+    return {
+      events,
+      nextCursor: page.hasMore ? encodeCursor({ id: last.id }) : undefined,
+      hasMore: page.hasMore,
+    };
   }
 
-  async getRecentEvents(limit = 20): Promise<EventResponseDto[]> {
+  async getRecentEvents(
+    limit = 20,
+    cursor?: string,
+  ): Promise<EventListResponseDto> {
     const response = await this.suiService.queryEvents(
       'events::EventCreated',
-      undefined,
+      decodeCursor(cursor, isEventIdCursor),
       limit,
     );
 
-    const events: EventResponseDto[] = [];
-    for (const event of response.data) {
-      const eventId = (event.parsedJson as Record<string, unknown>)?.event_id as string;
-      if (eventId) {
-        const eventData = await this.getEvent(eventId);
-        if (eventData) {
-          events.push(eventData);
-        }
-      }
-    }
+    const events = await this.getEvents(
+      response.data
+        .map(
+          (event) =>
+            (event.parsedJson as Record<string, unknown>)?.event_id as string,
+        )
+        .filter(Boolean),
+    );
 
-    return events;
+    return {
+      events,
+      nextCursor:
+        response.hasNextPage && response.nextCursor
+          ? encodeCursor(response.nextCursor)
+          : undefined,
+      hasMore: response.hasNextPage,
+    };
   }
 
-  private mapEventFields(id: string, fields: Record<string, unknown>): EventResponseDto {
-    const metadata = fields.metadata as Record<string, unknown>;
-    const config = fields.config as Record<string, unknown>;
-    const stats = fields.stats as Record<string, unknown>;
+  /**
+   * Filter and page in SQL over the listings EventListingIndexer keeps,
+   * then read only the page's events from the fullnode.
+   */
+  async searchEvents(
+    query: SearchEventsQueryDto,
+  ): Promise<EventListResponseDto> {
+    const {
+      limit = 20,
+      cursor,
+      sortBy = 'createdAt',
+      sortOrder = 'desc',
+      status,
+      ...criteria
+    } = query;
 
+    const page = this.indexerStore.searchEventListings({
+      ...criteria,
+      status: status === undefined ? undefined : STATUS_CODES[status],
+      sortBy,
+      sortOrder,
+      after: decodeCursor(cursor, isSortKeyCursor),
+      limit,
+    });
+
+    const events = await this.getEvents(
+      page.listings.map((listing) => listing.id),
+    );
+
+    const last = page.listings[page.listings.length - 1];
     return {
-      id,
-      organizer: fields.organizer as string,
-      metadata: {
-        title: metadata?.title as string,
-        description: metadata?.description as string,
-        walrusBlobId: metadata?.walrus_blob_id as string,
-        imageUrl: metadata?.image_url as string,
-        category: metadata?.category as string,
-        tags: (metadata?.tags as string[]) || [],
-      },
-      config: {
-        startTime: config?.start_time as string,
-        endTime: config?.end_time as string,
-        registrationDeadline: config?.registration_deadline as string,
-        capacity: Number(config?.capacity),
-        ticketPrice: config?.ticket_price as string,
-        requiresApproval: config?.requires_approval as boolean,
-        isTransferable: config?.is_transferable as boolean,
-        refundDeadline: config?.refund_deadline as string,
-      },
-      stats: {
-        registered: Number(stats?.registered),
-        attended: Number(stats?.attended),
-        revenue: stats?.revenue as string,
-        refunded: stats?.refunded as string,
-      },
-      status: STATUS_MAP[fields.status as number] || 'unknown',
-      createdAt: fields.created_at as string,
-      updatedAt: fields.updated_at as string,
+      events,
+      nextCursor: page.hasMore ? encodeCursor(last) : undefined,
+      hasMore: page.hasMore,
     };
   }
+
+  private decodeEvent(response: SuiObjectResponse): EventObject | null {
+    return decodeMoveObject(response, this.suiService.getPackageIds(), EVENT);
+  }
+}
+
+function mapEvent(id: string, event: EventObject): EventResponseDto {
+  const { metadata, config, stats } = event;
+
+  return {
+    id: normalizeSuiAddress(id),
+    organizer: event.organizer,
+    metadata: {
+      title: metadata.title,
+      description: metadata.description,
+      walrusBlobId: metadata.walrus_blob_id,
+      imageUrl: metadata.image_url,
+      category: metadata.category,
+      tags: metadata.tags,
+    },
+    config: {
+      startTime: config.start_time,
+      endTime: config.end_time,
+      registrationDeadline: config.registration_deadline,
+      capacity: Number(config.capacity),
+      ticketPrice: config.ticket_price,
+      requiresApproval: config.requires_approval,
+      isTransferable: config.is_transferable,
+      refundDeadline: config.refund_deadline,
+    },
+    stats: {
+      registered: Number(stats.registered),
+      attended: Number(stats.attended),
+      revenue: stats.revenue,
+      refunded: stats.refunded,
+    },
+    status: STATUS_MAP[event.status] || 'unknown',
+    createdAt: event.created_at,
+    updatedAt: event.updated_at,
+  };
 }
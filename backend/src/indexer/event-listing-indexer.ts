@@ -0,0 +1,83 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { SuiService } from '../common/sui/sui.service';
+import { decodeMoveObject } from '../common/sui/move-decoder';
+import { EVENT } from '../common/sui/move-objects';
+import { IndexerService } from './indexer.service';
+import { IndexerStore } from './indexer.store';
+import { IndexedEventType } from './indexer.types';
+import { CACHE_INVALIDATING_FIELDS } from './object-cache-invalidator';
+import { RefreshQueue } from './refresh-queue';
+
+/** EventCreated plus every Move event that mutates the Event it names */
+function changesEvent(eventType: string): boolean {
+  return (
+    eventType === 'events::EventCreated' ||
+    !!CACHE_INVALIDATING_FIELDS[eventType as IndexedEventType]?.includes(
+      'event_id',
+    )
+  );
+}
+
+/**
+ * Keeps IndexerStore's searchable event listings in step with the chain,
+ * rereading an Event object whenever an indexed Move event changes it.
+ * Events indexed before the listing table existed are backfilled at
+ * startup.
+ */
+@Injectable()
+export class EventListingIndexer implements OnApplicationBootstrap {
+  private readonly queue = new RefreshQueue(
+    (eventIds) => this.refresh(eventIds),
+    new Logger(EventListingIndexer.name),
+  );
+
+  constructor(
+    private readonly indexerService: IndexerService,
+    private readonly indexerStore: IndexerStore,
+    private readonly suiService: SuiService,
+  ) {}
+
+  onApplicationBootstrap() {
+    // Subscribed after ObjectCacheInvalidator, so changed events are refetched
+    this.indexerService.events$.subscribe((event) => {
+      const eventId = (event.data as { event_id?: string }).event_id;
+      if (changesEvent(event.eventType) && eventId) {
+        this.queue.add([eventId]);
+      }
+    });
+    this.queue.add(this.indexerStore.unlistedEventIds());
+  }
+
+  /** Refresh every queued listing */
+  sync(): Promise<void> {
+    return this.queue.flush();
+  }
+
+  private async refresh(eventIds: string[]) {
+    const responses = await this.suiService.getObjects(eventIds);
+    responses.forEach((response, index) => {
+      const event = decodeMoveObject(
+        response,
+        this.suiService.getPackageIds(),
+        EVENT,
+      );
+      if (!event) {
+        return;
+      }
+      const { metadata, config, stats } = event;
+      this.indexerStore.saveEventListing({
+        eventId: eventIds[index],
+        title: metadata.title,
+        description: metadata.description,
+        category: metadata.category,
+        tags: metadata.tags,
+        status: event.status,
+        startTime: config.start_time,
+        ticketPrice: config.ticket_price,
+        capacity: Number(config.capacity),
+        registered: Number(stats.registered),
+        createdAt: event.created_at,
+      });
+    });
+  }
+}
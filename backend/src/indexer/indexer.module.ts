@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { EventListingIndexer } from './event-listing-indexer';
+import { IndexerService } from './indexer.service';
+import { IndexerStore } from './indexer.store';
+import { ObjectCacheInvalidator } from './object-cache-invalidator';
+import { ProfileNameIndexer } from './profile-name-indexer';
+
+@Module({
+  providers: [
+    IndexerStore,
+    IndexerService,
+    ObjectCacheInvalidator,
+    ProfileNameIndexer,
+    EventListingIndexer,
+  ],
+  exports: [IndexerStore, IndexerService],
+})
+export class IndexerModule {}
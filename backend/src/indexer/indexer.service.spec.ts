@@ -0,0 +1,238 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatabaseService } from '../common/database/database.service';
+import { SuiService } from '../common/sui/sui.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import {
+  eventObject,
+  ticketObject,
+  userProfileObject,
+} from '../common/sui/testing/move-fixtures';
+import { EventsService } from '../events/events.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { UsersService } from '../users/users.service';
+import { IndexerService } from './indexer.service';
+import { IndexerStore } from './indexer.store';
+import { ObjectCacheInvalidator } from './object-cache-invalidator';
+import { ProfileNameIndexer } from './profile-name-indexer';
+
+describe('IndexerService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let indexer: IndexerService;
+  let store: IndexerStore;
+
+  async function compile(sui: Record<string, unknown>) {
+    client = new FakeSuiClient();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui,
+            database: { path: ':memory:' },
+            indexer: { enabled: false, batchSize: 2 },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        ObjectCacheInvalidator,
+        ProfileNameIndexer,
+        EventsService,
+        TicketsService,
+        UsersService,
+      ],
+    }).compile();
+    await module.init();
+
+    indexer = module.get(IndexerService);
+    store = module.get(IndexerStore);
+  }
+
+  beforeEach(() => compile({ packageId: FAKE_PACKAGE_ID }));
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('walks every page of an event type and saves the cursor', async () => {
+    const created = Array.from({ length: 5 }, (_, i) =>
+      recordedEvent('events::EventCreated', {
+        event_id: `0xevent${i}`,
+        organizer: '0xorganizer',
+        title: `Event ${i}`,
+        category: 'music',
+        timestamp: '0',
+      }),
+    );
+    client.addEvents(...created);
+
+    await expect(indexer.syncOnce()).resolves.toBe(5);
+    expect(store.countEvents('events::EventCreated')).toBe(5);
+    expect(store.getCursor('events::EventCreated')).toEqual(created[4].id);
+  });
+
+  it('resumes from the saved cursor on the next sync', async () => {
+    client.addEvents(
+      recordedEvent('users::ProfileCreated', {
+        profile_id: '0xp1',
+        owner: '0xa',
+      }),
+    );
+    await indexer.syncOnce();
+
+    client.addEvents(
+      recordedEvent('users::ProfileCreated', {
+        profile_id: '0xp2',
+        owner: '0xb',
+      }),
+    );
+
+    await expect(indexer.syncOnce()).resolves.toBe(1);
+    expect(
+      store.findEvents('users::ProfileCreated').map((e) => e.data.profile_id),
+    ).toEqual(['0xp1', '0xp2']);
+  });
+
+  it('indexes types from every package version under separate cursors', async () => {
+    await module.close();
+    await compile({
+      packageId: FAKE_PACKAGE_ID,
+      previousPackageIds: ['0xfee0'],
+    });
+
+    const created = recordedEvent(
+      'events::EventCreated',
+      { event_id: '0xe1', organizer: '0xea' },
+      { packageId: '0xfee0', type: '0xfee0::events::EventCreated' },
+    );
+    const transferred = recordedEvent('tickets::TicketTransferred', {
+      ticket_id: '0x71',
+    });
+    client.addEvents(created, transferred);
+
+    await expect(indexer.syncOnce()).resolves.toBe(2);
+    expect(store.countEvents('events::EventCreated')).toBe(1);
+    expect(store.countEvents('tickets::TicketTransferred')).toBe(1);
+    expect(store.getCursor('events::EventCreated')).toEqual(created.id);
+    expect(store.getCursor('tickets::TicketTransferred')).toBeNull();
+    expect(
+      store.getCursor(
+        `${normalizeSuiAddress(FAKE_PACKAGE_ID)}::tickets::TicketTransferred`,
+      ),
+    ).toEqual(transferred.id);
+    await expect(indexer.syncOnce()).resolves.toBe(0);
+  });
+
+  it('serves organizer events beyond the old 50-event window', async () => {
+    for (let i = 0; i < 60; i++) {
+      const organizer = normalizeSuiAddress(i === 0 ? '0xea' : '0x0e');
+      const eventId = normalizeSuiAddress(`0xe${i}`);
+      client.addEvents(
+        recordedEvent('events::EventCreated', {
+          event_id: eventId,
+          organizer,
+          title: `Event ${i}`,
+          category: 'music',
+          timestamp: '0',
+        }),
+      );
+      client.setObject(
+        eventObject(eventId, {
+          organizer,
+          metadata: { title: `Event ${i}` },
+        }),
+      );
+    }
+    await indexer.syncOnce();
+
+    const events = await module.get(EventsService).getEventsByOrganizer('0xea');
+
+    expect(events.events.map((event) => event.id)).toEqual([
+      normalizeSuiAddress('0xe0'),
+    ]);
+  });
+
+  it('drops refunded tickets when listing tickets for an event', async () => {
+    const eventId = normalizeSuiAddress('0xe1');
+    client.addEvents(
+      recordedEvent('tickets::TicketMinted', {
+        ticket_id: '0x71',
+        event_id: eventId,
+      }),
+      recordedEvent('tickets::TicketMinted', {
+        ticket_id: '0x72',
+        event_id: eventId,
+      }),
+      recordedEvent('tickets::TicketMinted', {
+        ticket_id: '0x73',
+        event_id: normalizeSuiAddress('0xe2'),
+      }),
+    );
+    client.setObject(ticketObject('0x71', { event_id: eventId }));
+    await indexer.syncOnce();
+
+    const tickets = await module.get(TicketsService).getTicketsByEvent('0xe1');
+
+    expect(tickets.tickets.map((ticket) => ticket.id)).toEqual(['0x71']);
+  });
+
+  it('looks events up by event id through an index', () => {
+    const plan = module
+      .get(DatabaseService)
+      .connection.prepare(
+        `EXPLAIN QUERY PLAN SELECT COUNT(*) FROM chain_events
+          WHERE event_type IN (?) AND json_extract(parsed_json, '$.event_id') = ?
+          AND id <= ?`,
+      )
+      .all('tickets::TicketMinted', '0xe1', 10) as { detail: string }[];
+
+    expect(plan.map((step) => step.detail).join('\n')).toContain(
+      'idx_chain_events_event_id',
+    );
+  });
+
+  it('answers username checks from indexed display names', async () => {
+    const users = module.get(UsersService);
+    const profileNames = module.get(ProfileNameIndexer);
+    client.setObject(userProfileObject('0x91', '0xa'));
+    client.addEvents(
+      recordedEvent('users::ProfileCreated', {
+        profile_id: '0x91',
+        owner: '0xa',
+      }),
+    );
+    await indexer.syncOnce();
+    await profileNames.sync();
+
+    expect(users.checkUsernameExists('alice')).toBe(true);
+    expect(users.checkUsernameExists('bob')).toBe(false);
+
+    client.setObject(
+      userProfileObject('0x91', '0xa', { identity: { display_name: 'bob' } }),
+    );
+    client.addEvents(
+      recordedEvent('users::ProfileUpdated', {
+        profile_id: '0x91',
+        owner: '0xa',
+      }),
+    );
+    await indexer.syncOnce();
+    await profileNames.sync();
+    const reads = client.calls.multiGetObjects;
+
+    expect(users.checkUsernameExists('alice')).toBe(false);
+    expect(users.checkUsernameExists('bob')).toBe(true);
+    expect(client.calls.multiGetObjects).toBe(reads);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { Observable, Subject } from 'rxjs';
+import { SuiService } from '../common/sui/sui.service';
+import { IndexerStore } from './indexer.store';
+import { INDEXED_EVENT_TYPES, IndexedEvent } from './indexer.types';
+
+/**
+ * Background poller that walks every indexed Move event type in ascending
+ * order and persists it, resuming from the last saved cursor.
+ */
+@Injectable()
+export class IndexerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(IndexerService.name);
+  private readonly indexed = new Subject<IndexedEvent>();
+  private timer?: NodeJS.Timeout;
+  private stopped = false;
+
+  /** Every newly indexed event, right after it has been persisted */
+  readonly events$: Observable<IndexedEvent> = this.indexed.asObservable();
+
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly indexerStore: IndexerStore,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (this.configService.get<boolean>('indexer.enabled')) {
+      void this.poll();
+    }
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.indexed.complete();
+  }
+
+  /**
+   * Walk every indexed type under every package version: after an upgrade,
+   * types the original package defined keep its id while types added later
+   * carry the id of the version that introduced them.
+   */
+  async syncOnce(): Promise<number> {
+    let indexed = 0;
+    for (const packageId of this.suiService.getPackageIds()) {
+      for (const eventType of INDEXED_EVENT_TYPES) {
+        indexed += await this.syncEventType(eventType, packageId);
+      }
+    }
+    return indexed;
+  }
+
+  async syncEventType(
+    eventType: string,
+    packageId = this.suiService.getPackageIds()[0],
+  ): Promise<number> {
+    const batchSize = this.configService.get<number>('indexer.batchSize') || 50;
+    const cursorKey = this.cursorKey(eventType, packageId);
+    let cursor = this.indexerStore.getCursor(cursorKey);
+    let indexed = 0;
+
+    for (;;) {
+      const page = await this.suiService.queryEvents(
+        eventType,
+        cursor,
+        batchSize,
+        'ascending',
+        packageId,
+      );
+      const nextCursor =
+        page.nextCursor ?? page.data[page.data.length - 1]?.id ?? cursor;
+
+      const saved = this.indexerStore.saveBatch(
+        eventType,
+        page.data,
+        nextCursor,
+        cursorKey,
+      );
+      saved.forEach((event) => this.indexed.next(event));
+      indexed += saved.length;
+      cursor = nextCursor;
+
+      if (!page.hasNextPage || page.data.length === 0) {
+        break;
+      }
+    }
+
+    return indexed;
+  }
+
+  /**
+   * Cursors of the original package keep the bare type as their key, so
+   * databases indexed before any upgrade resume where they left off.
+   */
+  private cursorKey(eventType: string, packageId: string): string {
+    return packageId === this.suiService.getPackageIds()[0]
+      ? eventType
+      : `${normalizeSuiAddress(packageId)}::${eventType}`;
+  }
+
+  private async poll() {
+    try {
+      const indexed = await this.syncOnce();
+      if (indexed > 0) {
+        this.logger.log(`Indexed ${indexed} new events`);
+      }
+    } catch (error) {
+      this.logger.error(`Indexer sync failed: ${(error as Error).message}`);
+    } finally {
+      if (!this.stopped) {
+        const interval =
+          this.configService.get<number>('indexer.pollIntervalMs') || 5000;
+        this.timer = setTimeout(() => void this.poll(), interval);
+        this.timer.unref();
+      }
+    }
+  }
+}
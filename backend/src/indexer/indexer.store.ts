@@ -0,0 +1,473 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { EventId, SuiEvent } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../common/database/database.service';
+import {
+  EventListing,
+  EventListingCursor,
+  EventListingPage,
+  EventListingQuery,
+  EventListingSortField,
+  FindEventsOptions,
+  IndexedEvent,
+  IndexedEventFilter,
+  IndexedEventPage,
+  IndexedEventTypes,
+} from './indexer.types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS chain_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tx_digest TEXT NOT NULL,
+    event_seq TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    package_id TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    timestamp_ms INTEGER,
+    parsed_json TEXT NOT NULL,
+    UNIQUE (tx_digest, event_seq)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_chain_events_type
+    ON chain_events (event_type, id);
+
+  CREATE INDEX IF NOT EXISTS idx_chain_events_event_id
+    ON chain_events (event_type, json_extract(parsed_json, '$.event_id'), id);
+
+  CREATE TABLE IF NOT EXISTS indexer_cursors (
+    event_type TEXT PRIMARY KEY,
+    tx_digest TEXT NOT NULL,
+    event_seq TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS profile_names (
+    profile_id TEXT PRIMARY KEY,
+    display_name TEXT,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_profile_names_name
+    ON profile_names (display_name);
+
+  CREATE TABLE IF NOT EXISTS event_listings (
+    event_id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    category TEXT NOT NULL,
+    tags TEXT NOT NULL,
+    status INTEGER NOT NULL,
+    start_time TEXT NOT NULL,
+    ticket_price TEXT NOT NULL,
+    capacity INTEGER NOT NULL,
+    registered INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_event_listings_start
+    ON event_listings (status, start_time);
+`;
+
+const U64_DIGITS = 20;
+const U64_MAX = 2n ** 64n - 1n;
+
+/** u64 values are stored zero-padded so SQLite compares them as text */
+function padU64(value: string): string {
+  const clamped = BigInt(value) > U64_MAX ? U64_MAX : BigInt(value);
+  return clamped.toString().padStart(U64_DIGITS, '0');
+}
+
+const LISTING_SORT_KEYS: Record<EventListingSortField, string> = {
+  createdAt: 'created_at',
+  startTime: 'start_time',
+  price: 'ticket_price',
+  registered: 'registered',
+  seatsLeft: 'MAX(capacity - registered, 0)',
+};
+
+const FILTER_KEY_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+
+/** Object ids and addresses, which events always carry in full form */
+const SUI_ID_PATTERN = /^0x[0-9a-f]{1,64}$/i;
+
+interface ChainEventRow {
+  id: number;
+  tx_digest: string;
+  event_seq: string;
+  event_type: string;
+  package_id: string;
+  sender: string;
+  timestamp_ms: number | null;
+  parsed_json: string;
+}
+
+/**
+ * SQLite persistence for indexed Move events and per-type cursors.
+ */
+@Injectable()
+export class IndexerStore implements OnModuleInit {
+  private readonly db: Database.Database;
+
+  constructor(database: DatabaseService) {
+    this.db = database.connection;
+  }
+
+  onModuleInit() {
+    this.db.exec(SCHEMA);
+  }
+
+  getCursor(cursorKey: string): EventId | null {
+    const row = this.db
+      .prepare(
+        'SELECT tx_digest, event_seq FROM indexer_cursors WHERE event_type = ?',
+      )
+      .get(cursorKey) as { tx_digest: string; event_seq: string } | undefined;
+
+    return row ? { txDigest: row.tx_digest, eventSeq: row.event_seq } : null;
+  }
+
+  /**
+   * Persist a page of events and advance the cursor in one transaction,
+   * so a crash never leaves the cursor ahead of the stored rows. Returns
+   * the rows that were new. `cursorKey` tells apart cursors for the same
+   * type under different package versions.
+   */
+  saveBatch(
+    eventType: string,
+    events: SuiEvent[],
+    cursor: EventId | null,
+    cursorKey = eventType,
+  ): IndexedEvent[] {
+    const insertEvent = this.db.prepare(
+      `INSERT OR IGNORE INTO chain_events
+        (tx_digest, event_seq, event_type, package_id, sender, timestamp_ms, parsed_json)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    );
+    const upsertCursor = this.db.prepare(
+      `INSERT INTO indexer_cursors (event_type, tx_digest, event_seq, updated_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT (event_type) DO UPDATE SET
+          tx_digest = excluded.tx_digest,
+          event_seq = excluded.event_seq,
+          updated_at = excluded.updated_at`,
+    );
+
+    const save = this.db.transaction(() => {
+      const inserted: IndexedEvent[] = [];
+      for (const event of events) {
+        const row = {
+          tx_digest: event.id.txDigest,
+          event_seq: event.id.eventSeq,
+          event_type: eventType,
+          package_id: event.packageId,
+          sender: event.sender,
+          timestamp_ms: event.timestampMs ? Number(event.timestampMs) : null,
+          parsed_json: JSON.stringify(event.parsedJson ?? {}),
+        };
+        const result = insertEvent.run(
+          row.tx_digest,
+          row.event_seq,
+          row.event_type,
+          row.package_id,
+          row.sender,
+          row.timestamp_ms,
+          row.parsed_json,
+        );
+        if (result.changes > 0) {
+          inserted.push(
+            this.mapRow({ id: Number(result.lastInsertRowid), ...row }),
+          );
+        }
+      }
+
+      if (cursor) {
+        upsertCursor.run(
+          cursorKey,
+          cursor.txDigest,
+          cursor.eventSeq,
+          Date.now(),
+        );
+      }
+
+      return inserted;
+    });
+
+    return save();
+  }
+
+  findEvents<T = Record<string, unknown>>(
+    eventType: IndexedEventTypes,
+    filter: IndexedEventFilter = {},
+    options: FindEventsOptions = {},
+  ): IndexedEvent<T>[] {
+    const order = options.order === 'desc' ? 'DESC' : 'ASC';
+    const { clause, params } = this.buildWhere(eventType, filter);
+
+    let sql = `SELECT * FROM chain_events WHERE ${clause}`;
+    if (options.afterId !== undefined) {
+      sql += order === 'ASC' ? ' AND id > ?' : ' AND id < ?';
+      params.push(options.afterId);
+    }
+    sql += ` ORDER BY id ${order}`;
+    if (options.limit !== undefined) {
+      sql += ' LIMIT ?';
+      params.push(options.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as ChainEventRow[];
+    return rows.map((row) => this.mapRow<T>(row));
+  }
+
+  /**
+   * Fetch one page of events plus a flag telling whether more rows follow.
+   */
+  pageEvents<T = Record<string, unknown>>(
+    eventType: IndexedEventTypes,
+    filter: IndexedEventFilter,
+    options: FindEventsOptions & { limit: number },
+  ): IndexedEventPage<T> {
+    const rows = this.findEvents<T>(eventType, filter, {
+      ...options,
+      limit: options.limit + 1,
+    });
+
+    return {
+      events: rows.slice(0, options.limit),
+      hasMore: rows.length > options.limit,
+    };
+  }
+
+  /**
+   * Count matching rows, optionally only those indexed up to and
+   * including row `upToId`. Each type is indexed in cursor order, so for a
+   * single type this is also chain order.
+   */
+  countEvents(
+    eventType: IndexedEventTypes,
+    filter: IndexedEventFilter = {},
+    upToId?: number,
+  ): number {
+    const { clause, params } = this.buildWhere(eventType, filter);
+    let sql = `SELECT COUNT(*) AS total FROM chain_events WHERE ${clause}`;
+    if (upToId !== undefined) {
+      sql += ' AND id <= ?';
+      params.push(upToId);
+    }
+    const row = this.db.prepare(sql).get(...params) as { total: number };
+
+    return row.total;
+  }
+
+  /**
+   * Id of the most recently indexed row, or 0 when nothing is indexed.
+   */
+  latestId(): number {
+    const row = this.db
+      .prepare('SELECT MAX(id) AS id FROM chain_events')
+      .get() as { id: number | null };
+    return row.id ?? 0;
+  }
+
+  /** Record a profile's display name; null when it has none or is gone */
+  saveProfileName(profileId: string, displayName: string | null) {
+    this.db
+      .prepare(
+        `INSERT INTO profile_names (profile_id, display_name, updated_at)
+          VALUES (?, ?, ?)
+          ON CONFLICT (profile_id) DO UPDATE SET
+            display_name = excluded.display_name,
+            updated_at = excluded.updated_at`,
+      )
+      .run(profileId, displayName, Date.now());
+  }
+
+  displayNameExists(displayName: string): boolean {
+    return (
+      this.db
+        .prepare('SELECT 1 FROM profile_names WHERE display_name = ? LIMIT 1')
+        .get(displayName) !== undefined
+    );
+  }
+
+  /** Profiles created on chain whose display name has not been read yet */
+  unnamedProfileIds(): string[] {
+    const rows = this.db
+      .prepare(
+        `SELECT DISTINCT json_extract(e.parsed_json, '$.profile_id') AS id
+          FROM chain_events e
+          LEFT JOIN profile_names p
+            ON p.profile_id = json_extract(e.parsed_json, '$.profile_id')
+          WHERE e.event_type = 'users::ProfileCreated' AND p.profile_id IS NULL`,
+      )
+      .all() as { id: string }[];
+    return rows.map((row) => row.id);
+  }
+
+  saveEventListing(listing: EventListing) {
+    this.db
+      .prepare(
+        `INSERT INTO event_listings
+          (event_id, title, description, category, tags, status, start_time,
+           ticket_price, capacity, registered, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (event_id) DO UPDATE SET
+            title = excluded.title,
+            description = excluded.description,
+            category = excluded.category,
+            tags = excluded.tags,
+            status = excluded.status,
+            start_time = excluded.start_time,
+            ticket_price = excluded.ticket_price,
+            capacity = excluded.capacity,
+            registered = excluded.registered,
+            created_at = excluded.created_at,
+            updated_at = excluded.updated_at`,
+      )
+      .run(
+        listing.eventId,
+        listing.title,
+        listing.description,
+        listing.category,
+        JSON.stringify(listing.tags),
+        listing.status,
+        padU64(listing.startTime),
+        padU64(listing.ticketPrice),
+        listing.capacity,
+        listing.registered,
+        padU64(listing.createdAt),
+        Date.now(),
+      );
+  }
+
+  /** Events created on chain that have no listing yet */
+  unlistedEventIds(): string[] {
+    const rows = this.db
+      .prepare(
+        `SELECT DISTINCT json_extract(e.parsed_json, '$.event_id') AS id
+          FROM chain_events e
+          LEFT JOIN event_listings l
+            ON l.event_id = json_extract(e.parsed_json, '$.event_id')
+          WHERE e.event_type = 'events::EventCreated' AND l.event_id IS NULL`,
+      )
+      .all() as { id: string }[];
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * One page of matching listings in the requested order, ties broken by
+   * ascending event id so keyset paging over them is stable.
+   */
+  searchEventListings(query: EventListingQuery): EventListingPage {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (query.category !== undefined) {
+      conditions.push('category = ?');
+      params.push(query.category);
+    }
+    if (query.tags?.length) {
+      const placeholders = query.tags.map(() => '?').join(', ');
+      const matched = `(SELECT COUNT(DISTINCT value) FROM json_each(tags)
+        WHERE value IN (${placeholders}))`;
+      conditions.push(
+        query.tagMatch === 'all'
+          ? `${matched} = ${new Set(query.tags).size}`
+          : `${matched} > 0`,
+      );
+      params.push(...query.tags);
+    }
+    if (query.status !== undefined) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    const bounds: [string | undefined, string][] = [
+      [query.startsAfter, 'start_time >= ?'],
+      [query.startsBefore, 'start_time <= ?'],
+      [query.minPrice, 'ticket_price >= ?'],
+      [query.maxPrice, 'ticket_price <= ?'],
+    ];
+    for (const [value, condition] of bounds) {
+      if (value !== undefined) {
+        conditions.push(condition);
+        params.push(padU64(value));
+      }
+    }
+    if (query.hasSeats !== undefined) {
+      conditions.push(
+        query.hasSeats ? 'capacity > registered' : 'capacity <= registered',
+      );
+    }
+    for (const term of query.q?.toLowerCase().split(/\s+/) ?? []) {
+      if (term) {
+        conditions.push(`instr(lower(title || ' ' || description), ?) > 0`);
+        params.push(term);
+      }
+    }
+
+    const key = LISTING_SORT_KEYS[query.sortBy];
+    const direction = query.sortOrder === 'asc' ? 'ASC' : 'DESC';
+    if (query.after) {
+      conditions.push(
+        `(${key} ${direction === 'ASC' ? '>' : '<'} ? OR (${key} = ? AND event_id > ?))`,
+      );
+      params.push(query.after.key, query.after.key, query.after.id);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(
+        `SELECT event_id AS id, ${key} AS key FROM event_listings ${where}
+          ORDER BY ${key} ${direction}, event_id ASC LIMIT ?`,
+      )
+      .all(...params, query.limit + 1) as EventListingCursor[];
+
+    return {
+      listings: rows.slice(0, query.limit),
+      hasMore: rows.length > query.limit,
+    };
+  }
+
+  private buildWhere(eventType: IndexedEventTypes, filter: IndexedEventFilter) {
+    const types = typeof eventType === 'string' ? [eventType] : eventType;
+    const conditions = [`event_type IN (${types.map(() => '?').join(', ')})`];
+    const params: (string | number)[] = [...types];
+
+    for (const [key, value] of Object.entries(filter)) {
+      if (!FILTER_KEY_PATTERN.test(key)) {
+        throw new Error(`Invalid event filter key: ${key}`);
+      }
+      conditions.push(`json_extract(parsed_json, '$.${key}') = ?`);
+      params.push(filterValue(value));
+    }
+
+    return { clause: conditions.join(' AND '), params };
+  }
+
+  private mapRow<T>(row: ChainEventRow): IndexedEvent<T> {
+    return {
+      id: row.id,
+      txDigest: row.tx_digest,
+      eventSeq: row.event_seq,
+      eventType: row.event_type,
+      packageId: row.package_id,
+      sender: row.sender,
+      timestampMs: row.timestamp_ms,
+      data: JSON.parse(row.parsed_json) as T,
+    };
+  }
+}
+
+/**
+ * Ids in the filter are matched in the full form events carry, so callers
+ * can pass route params as given, short or mixed case.
+ */
+function filterValue(value: string | number | boolean): string | number {
+  if (typeof value === 'boolean') {
+    return Number(value);
+  }
+  return typeof value === 'string' && SUI_ID_PATTERN.test(value)
+    ? normalizeSuiAddress(value)
+    : value;
+}
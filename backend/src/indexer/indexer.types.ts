@@ -0,0 +1,272 @@
+/**
+ * Move event types walked by the indexer, relative to the package id.
+ */
+export const INDEXED_EVENT_TYPES = [
+  'events::EventCreated',
+  'access_control::OrganizerCapCreated',
+  'access_control::LimitedCapCreated',
+  'access_control::ValidatorCapGranted',
+  'events::EventPublished',
+  'events::EventUpdated',
+  'events::EventCancelled',
+  'events::EventStarted',
+  'events::EventCompleted',
+  'events::AttendeeCheckedIn',
+  'tickets::TicketMinted',
+  'tickets::TicketValidated',
+  'tickets::TicketTransferred',
+  'tickets::TicketRefunded',
+  'users::ProfileCreated',
+  'users::ProfileUpdated',
+  'users::ReputationUpdated',
+  'users::BadgeEarned',
+  'attendance::AttendanceProofMinted',
+  'attendance::CheckOutRecorded',
+  'payments::PaymentProcessed',
+  'payments::RefundIssued',
+  'payments::FundsWithdrawn',
+  'payments::DiscountApplied',
+] as const;
+
+export type IndexedEventType = (typeof INDEXED_EVENT_TYPES)[number];
+
+export interface IndexedEvent<T = Record<string, unknown>> {
+  id: number;
+  txDigest: string;
+  eventSeq: string;
+  eventType: string;
+  packageId: string;
+  sender: string;
+  timestampMs: number | null;
+  data: T;
+}
+
+export interface IndexedEventPage<T> {
+  events: IndexedEvent<T>[];
+  hasMore: boolean;
+}
+
+/** One Move event type, or several to read as a single id-ordered stream */
+export type IndexedEventTypes = string | readonly string[];
+
+export type IndexedEventFilter = Record<string, string | number | boolean>;
+
+export interface FindEventsOptions {
+  /** Only return rows strictly after this row id in the requested order */
+  afterId?: number;
+  limit?: number;
+  order?: 'asc' | 'desc';
+}
+
+/** Searchable fields of an Event object, kept in step by EventListingIndexer */
+export interface EventListing {
+  eventId: string;
+  title: string;
+  description: string;
+  category: string;
+  tags: string[];
+  /** Raw Move status code */
+  status: number;
+  startTime: string;
+  ticketPrice: string;
+  capacity: number;
+  registered: number;
+  createdAt: string;
+}
+
+export type EventListingSortField =
+  | 'createdAt'
+  | 'startTime'
+  | 'price'
+  | 'registered'
+  | 'seatsLeft';
+
+/** Position after the last listing of a page: its sort key and id */
+export interface EventListingCursor {
+  key: string | number;
+  id: string;
+}
+
+export interface EventListingQuery {
+  category?: string;
+  tags?: string[];
+  tagMatch?: 'any' | 'all';
+  status?: number;
+  /** u64 bounds, inclusive */
+  startsAfter?: string;
+  startsBefore?: string;
+  minPrice?: string;
+  maxPrice?: string;
+  hasSeats?: boolean;
+  /** Every whitespace-separated term must appear in title or description */
+  q?: string;
+  sortBy: EventListingSortField;
+  sortOrder: 'asc' | 'desc';
+  after?: EventListingCursor;
+  limit: number;
+}
+
+export interface EventListingPage {
+  listings: EventListingCursor[];
+  hasMore: boolean;
+}
+
+// ======== Parsed Move event payloads ========
+
+/** EventPublished, EventUpdated and EventStarted share this payload */
+export interface EventStatusChangedEvent {
+  event_id: string;
+  timestamp: string;
+}
+
+export interface EventCompletedEvent {
+  event_id: string;
+  total_attended: string;
+  timestamp: string;
+}
+
+export interface EventCancelledEvent {
+  event_id: string;
+  reason: string;
+  timestamp: string;
+}
+
+export interface AttendeeCheckedInEvent {
+  event_id: string;
+  attendee: string;
+  timestamp: string;
+}
+
+export interface OrganizerCapCreatedEvent {
+  cap_id: string;
+  event_id: string;
+  organizer: string;
+  timestamp: string;
+}
+
+export interface LimitedCapCreatedEvent {
+  cap_id: string;
+  event_id: string;
+  /** The sender who delegated the cap, not its eventual holder */
+  delegated_to: string;
+  timestamp: string;
+}
+
+export interface ValidatorCapGrantedEvent {
+  cap_id: string;
+  event_id: string;
+  validator: string;
+  granted_by: string;
+  timestamp: string;
+}
+
+export interface EventCreatedEvent {
+  event_id: string;
+  organizer: string;
+  title: string;
+  category: string;
+  timestamp: string;
+}
+
+export interface TicketMintedEvent {
+  ticket_id: string;
+  event_id: string;
+  owner: string;
+  ticket_number: string;
+  tier: string;
+  price_paid: string;
+  timestamp: string;
+}
+
+export interface TicketValidatedEvent {
+  ticket_id: string;
+  event_id: string;
+  owner: string;
+  validator: string;
+  timestamp: string;
+}
+
+export interface TicketTransferredEvent {
+  ticket_id: string;
+  event_id: string;
+  from: string;
+  to: string;
+  timestamp: string;
+}
+
+export interface TicketRefundedEvent {
+  ticket_id: string;
+  event_id: string;
+  owner: string;
+  refund_amount: string;
+  timestamp: string;
+}
+
+/** Also the payload of ProfileUpdated */
+export interface ProfileCreatedEvent {
+  profile_id: string;
+  owner: string;
+  timestamp: string;
+}
+
+export interface ReputationUpdatedEvent extends ProfileCreatedEvent {
+  old_score: string;
+  new_score: string;
+}
+
+export interface BadgeEarnedEvent {
+  badge_id: string;
+  user: string;
+  badge_type: string;
+  name: string;
+  rarity: number;
+  timestamp: string;
+}
+
+export interface AttendanceProofMintedEvent {
+  proof_id: string;
+  event_id: string;
+  attendee: string;
+  ticket_id: string;
+  timestamp: string;
+}
+
+export interface CheckOutRecordedEvent {
+  proof_id: string;
+  event_id: string;
+  attendee: string;
+  check_out_time: string;
+}
+
+export interface PaymentProcessedEvent {
+  event_id: string;
+  payer: string;
+  amount: string;
+  platform_fee: string;
+  organizer_amount: string;
+  timestamp: string;
+}
+
+export interface RefundIssuedEvent {
+  event_id: string;
+  recipient: string;
+  ticket_id: string;
+  amount: string;
+  timestamp: string;
+}
+
+export interface FundsWithdrawnEvent {
+  event_id: string;
+  organizer: string;
+  amount: string;
+  timestamp: string;
+}
+
+export interface DiscountAppliedEvent {
+  event_id: string;
+  code: string;
+  original_price: string;
+  discounted_price: string;
+  discount_percent: string;
+  timestamp: string;
+}
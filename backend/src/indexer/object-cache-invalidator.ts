@@ -0,0 +1,54 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SuiService } from '../common/sui/sui.service';
+import { IndexerService } from './indexer.service';
+import { IndexedEvent, IndexedEventType } from './indexer.types';
+
+/**
+ * Payload fields naming the objects each Move event mutated. Events that
+ * only create objects are absent: nothing can be cached for them yet.
+ */
+export const CACHE_INVALIDATING_FIELDS: Partial<
+  Record<IndexedEventType, readonly string[]>
+> = {
+  'events::EventPublished': ['event_id'],
+  'events::EventUpdated': ['event_id'],
+  'events::EventCancelled': ['event_id'],
+  'events::EventStarted': ['event_id'],
+  'events::EventCompleted': ['event_id'],
+  'events::AttendeeCheckedIn': ['event_id'],
+  'tickets::TicketMinted': ['event_id'],
+  'tickets::TicketValidated': ['ticket_id', 'event_id'],
+  'tickets::TicketTransferred': ['ticket_id', 'event_id'],
+  'tickets::TicketRefunded': ['ticket_id', 'event_id'],
+  'users::ProfileUpdated': ['profile_id'],
+  'users::ReputationUpdated': ['profile_id'],
+  'attendance::CheckOutRecorded': ['proof_id'],
+};
+
+export function invalidatedObjectIds(event: IndexedEvent<unknown>): string[] {
+  const fields =
+    CACHE_INVALIDATING_FIELDS[event.eventType as IndexedEventType] ?? [];
+  const data = event.data as Record<string, unknown>;
+  return fields
+    .map((field) => data[field])
+    .filter((id): id is string => typeof id === 'string');
+}
+
+/**
+ * Drops SuiService's cached object responses as soon as the indexer
+ * persists an event that changed them.
+ */
+@Injectable()
+export class ObjectCacheInvalidator implements OnModuleInit {
+  constructor(
+    private readonly indexerService: IndexerService,
+    private readonly suiService: SuiService,
+  ) {}
+
+  onModuleInit() {
+    // events$ completes when the indexer shuts down, ending the subscription
+    this.indexerService.events$.subscribe((event) =>
+      this.suiService.invalidateObjects(invalidatedObjectIds(event)),
+    );
+  }
+}
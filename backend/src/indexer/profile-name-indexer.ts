@@ -0,0 +1,63 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { SuiService } from '../common/sui/sui.service';
+import { decodeMoveObject } from '../common/sui/move-decoder';
+import { USER_PROFILE } from '../common/sui/move-objects';
+import { IndexerService } from './indexer.service';
+import { IndexerStore } from './indexer.store';
+import { RefreshQueue } from './refresh-queue';
+
+const PROFILE_EVENTS = new Set([
+  'users::ProfileCreated',
+  'users::ProfileUpdated',
+]);
+
+/**
+ * Keeps IndexerStore's profile display names in step with the chain.
+ * ProfileCreated and ProfileUpdated carry no name, so each profile they
+ * name is read once from the fullnode; profiles indexed before the name
+ * table existed are backfilled at startup.
+ */
+@Injectable()
+export class ProfileNameIndexer implements OnApplicationBootstrap {
+  private readonly queue = new RefreshQueue(
+    (profileIds) => this.refresh(profileIds),
+    new Logger(ProfileNameIndexer.name),
+  );
+
+  constructor(
+    private readonly indexerService: IndexerService,
+    private readonly indexerStore: IndexerStore,
+    private readonly suiService: SuiService,
+  ) {}
+
+  onApplicationBootstrap() {
+    // Subscribed after ObjectCacheInvalidator, so updated profiles are refetched
+    this.indexerService.events$.subscribe((event) => {
+      const profileId = (event.data as { profile_id?: string }).profile_id;
+      if (PROFILE_EVENTS.has(event.eventType) && profileId) {
+        this.queue.add([profileId]);
+      }
+    });
+    this.queue.add(this.indexerStore.unnamedProfileIds());
+  }
+
+  /** Resolve every queued profile */
+  sync(): Promise<void> {
+    return this.queue.flush();
+  }
+
+  private async refresh(profileIds: string[]) {
+    const responses = await this.suiService.getObjects(profileIds);
+    responses.forEach((response, index) => {
+      const profile = decodeMoveObject(
+        response,
+        this.suiService.getPackageIds(),
+        USER_PROFILE,
+      );
+      this.indexerStore.saveProfileName(
+        profileIds[index],
+        profile?.identity.display_name ?? null,
+      );
+    });
+  }
+}
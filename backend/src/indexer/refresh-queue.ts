@@ -0,0 +1,50 @@
+import { Logger } from '@nestjs/common';
+
+/**
+ * Collects object ids named by indexed events and hands them to `refresh`
+ * in batches, one batch at a time. Ids of a failed batch stay queued and
+ * are retried with the next ids added.
+ */
+export class RefreshQueue {
+  private readonly pending = new Set<string>();
+  private running?: Promise<void>;
+
+  constructor(
+    private readonly refresh: (objectIds: string[]) => Promise<void>,
+    private readonly logger: Logger,
+  ) {}
+
+  add(objectIds: Iterable<string>) {
+    for (const objectId of objectIds) {
+      this.pending.add(objectId);
+    }
+    if (this.pending.size > 0) {
+      this.flush().catch((error: Error) =>
+        this.logger.error(`Object refresh failed: ${error.message}`),
+      );
+    }
+  }
+
+  /** Refresh every queued id; resolves once the queue is empty */
+  flush(): Promise<void> {
+    if (!this.running) {
+      this.running = this.drain().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  private async drain() {
+    while (this.pending.size > 0) {
+      const objectIds = [...this.pending];
+      this.pending.clear();
+      try {
+        await this.refresh(objectIds);
+      } catch (error) {
+        objectIds.forEach((objectId) => this.pending.add(objectId));
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { LIVE_FEED_MESSAGE_TYPES } from '../live-feed.types';
+import type { LiveFeedMessageType } from '../live-feed.types';
+
+export class LiveFeedQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Id of the last message seen; missed messages are replayed first. ' +
+      'The Last-Event-ID header takes precedence when present.',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  cursor?: number;
+}
+
+export class LiveFeedMessageDto {
+  @ApiProperty({ description: 'Cursor for resuming the feed' })
+  id: number;
+
+  @ApiProperty({ enum: LIVE_FEED_MESSAGE_TYPES })
+  type: LiveFeedMessageType;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  txDigest: string;
+
+  @ApiPropertyOptional()
+  timestampMs: number | null;
+
+  @ApiProperty()
+  ticketsSold: number;
+
+  @ApiProperty()
+  attended: number;
+
+  @ApiPropertyOptional()
+  capacityRemaining: number | null;
+
+  @ApiProperty({ description: 'Parsed Move event payload' })
+  data: Record<string, unknown>;
+}
@@ -0,0 +1,61 @@
+import {
+  BadRequestException,
+  Controller,
+  Headers,
+  MessageEvent,
+  Param,
+  Query,
+  Sse,
+} from '@nestjs/common';
+import {
+  ApiHeader,
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { map, Observable } from 'rxjs';
+import { LiveFeedService } from './live-feed.service';
+import { LiveFeedMessageDto, LiveFeedQueryDto } from './dto/live-feed.dto';
+
+@ApiTags('live')
+@Controller('live')
+export class LiveFeedController {
+  constructor(private readonly liveFeedService: LiveFeedService) {}
+
+  @Sse('events/:eventId')
+  @ApiOperation({
+    summary: 'Server-sent stream of ticket sales and check-ins for an event',
+  })
+  @ApiParam({ name: 'eventId', description: 'Event object ID' })
+  @ApiHeader({ name: 'Last-Event-ID', required: false })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, type: LiveFeedMessageDto })
+  async streamEvent(
+    @Param('eventId') eventId: string,
+    @Query() query: LiveFeedQueryDto,
+    @Headers('last-event-id') lastEventId?: string,
+  ): Promise<Observable<MessageEvent>> {
+    const feed = await this.liveFeedService.open(
+      eventId,
+      lastEventId !== undefined ? parseCursor(lastEventId) : query.cursor,
+    );
+
+    return feed.pipe(
+      map((message) => ({
+        id: String(message.id),
+        type: message.type,
+        data: message,
+      })),
+    );
+  }
+}
+
+function parseCursor(value: string): number {
+  const cursor = Number(value);
+  if (!Number.isInteger(cursor) || cursor < 0) {
+    throw new BadRequestException('Last-Event-ID must be a feed message id');
+  }
+  return cursor;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { EventsModule } from '../events/events.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { LiveFeedController } from './live-feed.controller';
+import { LiveFeedService } from './live-feed.service';
+
+@Module({
+  imports: [IndexerModule, EventsModule],
+  controllers: [LiveFeedController],
+  providers: [LiveFeedService],
+})
+export class LiveFeedModule {}
@@ -0,0 +1,174 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { firstValueFrom, take, toArray } from 'rxjs';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import { eventObject } from '../common/sui/testing/move-fixtures';
+import { EventsService } from '../events/events.service';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { LiveFeedService } from './live-feed.service';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const OTHER_EVENT_ID = normalizeSuiAddress('0xe2');
+
+describe('LiveFeedService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let indexer: IndexerService;
+  let feed: LiveFeedService;
+
+  function minted(ticketId: string, eventId = EVENT_ID) {
+    return recordedEvent('tickets::TicketMinted', {
+      ticket_id: ticketId,
+      event_id: eventId,
+    });
+  }
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        EventsService,
+        LiveFeedService,
+      ],
+    }).compile();
+    await module.init();
+
+    indexer = module.get(IndexerService);
+    feed = module.get(LiveFeedService);
+    client.setObject(eventObject(EVENT_ID, { config: { capacity: '10' } }));
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('pushes typed messages with running counts as events are indexed', async () => {
+    const stream = await feed.open(EVENT_ID);
+    const messages = firstValueFrom(stream.pipe(take(3), toArray()));
+
+    client.addEvents(
+      minted('0xt1'),
+      minted('0xt2'),
+      minted('0xt9', OTHER_EVENT_ID),
+      recordedEvent('events::AttendeeCheckedIn', {
+        event_id: EVENT_ID,
+        attendee: '0xa',
+      }),
+    );
+    await indexer.syncOnce();
+
+    expect(
+      (await messages).map(
+        ({ type, ticketsSold, attended, capacityRemaining }) => ({
+          type,
+          ticketsSold,
+          attended,
+          capacityRemaining,
+        }),
+      ),
+    ).toEqual([
+      {
+        type: 'attendee_checked_in',
+        ticketsSold: 0,
+        attended: 1,
+        capacityRemaining: 10,
+      },
+      {
+        type: 'ticket_minted',
+        ticketsSold: 1,
+        attended: 1,
+        capacityRemaining: 9,
+      },
+      {
+        type: 'ticket_minted',
+        ticketsSold: 2,
+        attended: 1,
+        capacityRemaining: 8,
+      },
+    ]);
+
+    // replay counts in the same row order, so it repeats what went live
+    const replay = await feed.open(EVENT_ID, 0);
+    expect(await firstValueFrom(replay.pipe(take(3), toArray()))).toEqual(
+      await messages,
+    );
+  });
+
+  it('replays messages missed after the cursor before going live', async () => {
+    client.addEvents(minted('0xt1'), minted('0xt2'));
+    await indexer.syncOnce();
+    const first = module
+      .get(IndexerStore)
+      .findEvents('tickets::TicketMinted', { ticket_id: '0xt1' })[0];
+
+    const stream = await feed.open(EVENT_ID, first.id);
+    const messages = firstValueFrom(stream.pipe(take(2), toArray()));
+
+    client.addEvents(
+      recordedEvent('tickets::TicketRefunded', {
+        ticket_id: '0xt2',
+        event_id: EVENT_ID,
+      }),
+    );
+    await indexer.syncOnce();
+
+    const [replayed, live] = await messages;
+    expect(replayed).toMatchObject({
+      type: 'ticket_minted',
+      data: { ticket_id: '0xt2' },
+      ticketsSold: 2,
+    });
+    expect(live).toMatchObject({ type: 'ticket_refunded', ticketsSold: 1 });
+    expect(live.id).toBeGreaterThan(replayed.id);
+  });
+
+  it('starts from the live edge without a cursor', async () => {
+    client.addEvents(minted('0xt1'));
+    await indexer.syncOnce();
+
+    const stream = await feed.open(EVENT_ID);
+    const messages = firstValueFrom(stream.pipe(take(1), toArray()));
+
+    client.addEvents(
+      recordedEvent('events::EventCancelled', {
+        event_id: EVENT_ID,
+        reason: 'weather',
+      }),
+    );
+    await indexer.syncOnce();
+
+    const [message] = await messages;
+    expect(message).toMatchObject({
+      type: 'event_cancelled',
+      data: { reason: 'weather' },
+    });
+  });
+
+  it('refuses feeds for unknown events', async () => {
+    await expect(feed.open(OTHER_EVENT_ID)).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,153 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { Observable } from 'rxjs';
+import { EventsService } from '../events/events.service';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { IndexedEvent } from '../indexer/indexer.types';
+import { LIVE_FEED_EVENT_TYPES, LiveFeedMessage } from './live-feed.types';
+
+const FEED_EVENT_TYPES = Object.keys(LIVE_FEED_EVENT_TYPES);
+const REPLAY_PAGE_SIZE = 200;
+
+/** Totals a feed carries forward from message to message */
+interface FeedCounts {
+  minted: number;
+  refunded: number;
+  attended: number;
+}
+
+/**
+ * Per-event feed of ticket sales and check-ins, built from the indexer.
+ * Message ids are indexer row ids, so a client that reconnects with the
+ * last id it saw gets everything it missed before live messages resume.
+ */
+@Injectable()
+export class LiveFeedService {
+  constructor(
+    private readonly eventsService: EventsService,
+    private readonly indexerService: IndexerService,
+    private readonly indexerStore: IndexerStore,
+  ) {}
+
+  async open(
+    eventId: string,
+    cursor?: number,
+  ): Promise<Observable<LiveFeedMessage>> {
+    const id = normalizeSuiAddress(eventId);
+    const event = await this.eventsService.getEvent(id);
+    if (!event) {
+      throw new NotFoundException(`Event ${id} not found`);
+    }
+
+    return this.stream(id, event.config.capacity, cursor);
+  }
+
+  /**
+   * Replay rows after `cursor`, then follow the indexer. The store is
+   * synchronous, so nothing can be indexed between the replay and the
+   * live subscription. Totals are counted once at the starting row and
+   * then kept running, so they follow indexer row order.
+   */
+  stream(
+    eventId: string,
+    capacity: number | null,
+    cursor?: number,
+  ): Observable<LiveFeedMessage> {
+    return new Observable<LiveFeedMessage>((subscriber) => {
+      let lastId = cursor ?? this.indexerStore.latestId();
+      const counts = this.countUpTo(eventId, lastId);
+      const deliver = (event: IndexedEvent) => {
+        if (event.id > lastId) {
+          lastId = event.id;
+          countEvent(counts, event);
+          subscriber.next(this.toMessage(event, eventId, capacity, counts));
+        }
+      };
+
+      let replaying = cursor !== undefined;
+      while (replaying) {
+        const page = this.indexerStore.pageEvents(
+          FEED_EVENT_TYPES,
+          { event_id: eventId },
+          { afterId: lastId, limit: REPLAY_PAGE_SIZE },
+        );
+        page.events.forEach(deliver);
+        replaying = page.hasMore;
+      }
+
+      const live = this.indexerService.events$.subscribe({
+        next: (event) => {
+          if (
+            FEED_EVENT_TYPES.includes(event.eventType) &&
+            event.data.event_id === eventId
+          ) {
+            deliver(event);
+          }
+        },
+        complete: () => subscriber.complete(),
+      });
+
+      return () => live.unsubscribe();
+    });
+  }
+
+  private countUpTo(eventId: string, upToId: number): FeedCounts {
+    const filter = { event_id: eventId };
+    return {
+      minted: this.indexerStore.countEvents(
+        'tickets::TicketMinted',
+        filter,
+        upToId,
+      ),
+      refunded: this.indexerStore.countEvents(
+        'tickets::TicketRefunded',
+        filter,
+        upToId,
+      ),
+      attended: this.indexerStore.countEvents(
+        'events::AttendeeCheckedIn',
+        filter,
+        upToId,
+      ),
+    };
+  }
+
+  private toMessage(
+    event: IndexedEvent<unknown>,
+    eventId: string,
+    capacity: number | null,
+    counts: FeedCounts,
+  ): LiveFeedMessage {
+    const ticketsSold = counts.minted - counts.refunded;
+
+    return {
+      id: event.id,
+      type: LIVE_FEED_EVENT_TYPES[
+        event.eventType as keyof typeof LIVE_FEED_EVENT_TYPES
+      ],
+      eventId,
+      txDigest: event.txDigest,
+      timestampMs: event.timestampMs,
+      ticketsSold,
+      attended: counts.attended,
+      capacityRemaining:
+        capacity === null ? null : Math.max(capacity - ticketsSold, 0),
+      data: event.data as LiveFeedMessage['data'],
+    } as LiveFeedMessage;
+  }
+}
+
+function countEvent(counts: FeedCounts, event: IndexedEvent) {
+  switch (event.eventType) {
+    case 'tickets::TicketMinted':
+      counts.minted++;
+      break;
+    case 'tickets::TicketRefunded':
+      counts.refunded++;
+      break;
+    case 'events::AttendeeCheckedIn':
+      counts.attended++;
+      break;
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  AttendeeCheckedInEvent,
+  EventCancelledEvent,
+  TicketMintedEvent,
+  TicketRefundedEvent,
+  TicketValidatedEvent,
+} from '../indexer/indexer.types';
+
+/**
+ * Indexed Move event types pushed to per-event feeds, keyed to the
+ * message type clients see.
+ */
+export const LIVE_FEED_EVENT_TYPES = {
+  'tickets::TicketMinted': 'ticket_minted',
+  'tickets::TicketValidated': 'ticket_validated',
+  'tickets::TicketRefunded': 'ticket_refunded',
+  'events::AttendeeCheckedIn': 'attendee_checked_in',
+  'events::EventCancelled': 'event_cancelled',
+} as const;
+
+export type LiveFeedMessageType =
+  (typeof LIVE_FEED_EVENT_TYPES)[keyof typeof LIVE_FEED_EVENT_TYPES];
+
+export const LIVE_FEED_MESSAGE_TYPES = Object.values(LIVE_FEED_EVENT_TYPES);
+
+interface LiveFeedMessageBase {
+  /** Indexer row id; pass it back as the cursor to resume */
+  id: number;
+  eventId: string;
+  txDigest: string;
+  timestampMs: number | null;
+  /** Tickets minted minus refunded, as of this message */
+  ticketsSold: number;
+  /** Attendees checked in, as of this message */
+  attended: number;
+  capacityRemaining: number | null;
+}
+
+export type LiveFeedMessage = LiveFeedMessageBase &
+  (
+    | { type: 'ticket_minted'; data: TicketMintedEvent }
+    | { type: 'ticket_validated'; data: TicketValidatedEvent }
+    | { type: 'ticket_refunded'; data: TicketRefundedEvent }
+    | { type: 'attendee_checked_in'; data: AttendeeCheckedInEvent }
+    | { type: 'event_cancelled'; data: EventCancelledEvent }
+  );
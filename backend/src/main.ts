@@ -23,6 +23,22 @@ async function bootstrap() {
     .addTag('events', 'Event management endpoints')
     .addTag('tickets', 'Ticket management endpoints')
     .addTag('users', 'User profile endpoints')
+    .addTag('transactions', 'Unsigned transaction builders')
+    .addTag('sponsorship', 'Gas-sponsored transactions')
+    .addTag('check-in', 'Door check-in')
+    .addTag('live', 'Live event feeds')
+    .addTag('payments', 'Treasury and revenue reporting')
+    .addTag('attendance', 'Attendance proofs')
+    .addTag('auth', 'Wallet sign-in')
+    .addTag('staff', 'Event staff and capability grants')
+    .addTag('content', 'Walrus event content')
+    .addTag('metrics', 'Operational metrics')
+    .addTag('refunds', 'Ticket refunds and cancellation refund campaigns')
+    .addTag('resale', 'Ticket resale listings and policies')
+    .addTag('waitlist', 'Sold-out event waitlists')
+    .addTag('tiers', 'Ticket tiers and pricing')
+    .addTag('webhooks', 'Organizer webhook subscriptions')
+    .addBearerAuth()
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ObjectCacheMetricsDto {
+  @ApiProperty()
+  hits: number;
+
+  @ApiProperty()
+  misses: number;
+
+  @ApiProperty({ description: 'Entries dropped after a Move event' })
+  invalidations: number;
+
+  @ApiProperty({ description: 'Entries dropped to stay under the size cap' })
+  evictions: number;
+
+  @ApiProperty({ description: 'Entries currently held' })
+  size: number;
+
+  @ApiProperty({ description: 'hits / (hits + misses)' })
+  hitRate: number;
+}
@@ -0,0 +1,17 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { SuiService } from '../common/sui/sui.service';
+import { ObjectCacheMetricsDto } from './dto/metrics.dto';
+
+@ApiTags('metrics')
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly suiService: SuiService) {}
+
+  @Get('cache')
+  @ApiOperation({ summary: 'Get object cache hit and miss counters' })
+  @ApiResponse({ status: 200, type: ObjectCacheMetricsDto })
+  getCacheMetrics(): ObjectCacheMetricsDto {
+    return this.suiService.getCacheMetrics();
+  }
+}
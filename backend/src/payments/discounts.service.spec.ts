@@ -0,0 +1,213 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  moveObject,
+} from '../common/sui/testing/fake-sui-client';
+import { eventObject } from '../common/sui/testing/move-fixtures';
+import { EventsService } from '../events/events.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { TierStore } from '../tiers/tier.store';
+import { TiersService } from '../tiers/tiers.service';
+import { DiscountsService } from './discounts.service';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const ORGANIZER = normalizeSuiAddress('0x0a');
+const HOUR = 3_600_000;
+
+describe('DiscountsService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let discounts: DiscountsService;
+
+  function setEvent(overrides: Record<string, unknown> = {}) {
+    client.setObject(
+      eventObject(EVENT_ID, {
+        organizer: ORGANIZER,
+        config: {
+          capacity: '10',
+          ticket_price: '2000000000',
+          registration_deadline: String(Date.now() + HOUR),
+        },
+        stats: { registered: '8' },
+        ...overrides,
+      }),
+    );
+  }
+
+  function setCode(
+    id: string,
+    code: string,
+    fields: Record<string, unknown> = {},
+  ) {
+    client.setObject(
+      moveObject(
+        normalizeSuiAddress(id),
+        'payments::DiscountCode',
+        {
+          code,
+          event_id: EVENT_ID,
+          discount_percent: '25',
+          max_uses: '5',
+          current_uses: '4',
+          expiry: String(Date.now() + HOUR),
+          ...fields,
+        },
+        ORGANIZER,
+      ),
+    );
+  }
+
+  async function rejection(promise: Promise<unknown>) {
+    const error = await promise.then(
+      () => null,
+      (err: unknown) => err,
+    );
+    expect(error).toBeInstanceOf(BadRequestException);
+    return (error as BadRequestException).getResponse();
+  }
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        EventsService,
+        TierStore,
+        TiersService,
+        DiscountsService,
+      ],
+    }).compile();
+    await module.init();
+
+    discounts = module.get(DiscountsService);
+    setEvent();
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('lists the event codes with remaining uses', async () => {
+    setCode('0xd1', 'EARLY');
+    setCode('0xd2', 'OTHER', { event_id: normalizeSuiAddress('0xe2') });
+    setCode('0xd3', 'OLD', { expiry: '1', current_uses: '9' });
+
+    const { codes } = await discounts.listDiscountCodes(EVENT_ID);
+
+    expect(codes).toEqual([
+      expect.objectContaining({
+        code: 'EARLY',
+        discountPercent: 25,
+        remainingUses: 1,
+        expired: false,
+      }),
+      expect.objectContaining({ code: 'OLD', remainingUses: 0, expired: true }),
+    ]);
+  });
+
+  it('quotes the base price with the platform fee taken from the total', async () => {
+    const quote = await discounts.quote(EVENT_ID, { tier: 'general' });
+
+    expect(quote).toMatchObject({
+      quantity: 1,
+      unitPrice: { sui: '2' },
+      basePrice: { sui: '2' },
+      discount: { mist: '0' },
+      platformFee: { sui: '0.05' },
+      organizerAmount: { sui: '1.95' },
+      total: { sui: '2' },
+    });
+  });
+
+  it('raises EAlreadyRegistered for more than one ticket per buyer', async () => {
+    const response = await rejection(
+      discounts.quote(EVENT_ID, { tier: 'general', quantity: 2 }),
+    );
+
+    expect(response).toMatchObject({
+      abortCode: 3007,
+      abortName: 'events::EAlreadyRegistered',
+    });
+  });
+
+  it('reports a discount beside the full price mint_ticket charges', async () => {
+    setCode('0xd1', 'EARLY');
+
+    const quote = await discounts.quote(EVENT_ID, {
+      tier: 'general',
+      quantity: 1,
+      code: 'EARLY',
+    });
+
+    expect(quote.discountCode?.id).toBe(normalizeSuiAddress('0xd1'));
+    expect(quote).toMatchObject({
+      discount: { sui: '0.5' },
+      total: { sui: '2' },
+      platformFee: { sui: '0.05' },
+      organizerAmount: { sui: '1.95' },
+    });
+  });
+
+  it('raises EDiscountMaxUsed for a code with no uses left', async () => {
+    setCode('0xd1', 'EARLY', { current_uses: '5' });
+
+    const response = await rejection(
+      discounts.quote(EVENT_ID, { tier: 'general', code: 'EARLY' }),
+    );
+
+    expect(response).toMatchObject({
+      abortCode: 6005,
+      abortName: 'payments::EDiscountMaxUsed',
+    });
+  });
+
+  it('raises EDiscountExpired for an expired code', async () => {
+    setCode('0xd1', 'EARLY', { expiry: String(Date.now() - 1) });
+
+    const response = await rejection(
+      discounts.quote(EVENT_ID, { tier: 'general', code: 'EARLY' }),
+    );
+
+    expect(response).toMatchObject({ abortName: 'payments::EDiscountExpired' });
+  });
+
+  it('raises EInvalidDiscount for a code from another event', async () => {
+    setCode('0xd2', 'OTHER', { event_id: normalizeSuiAddress('0xe2') });
+
+    const response = await rejection(
+      discounts.quote(EVENT_ID, { tier: 'general', code: 'OTHER' }),
+    );
+
+    expect(response).toMatchObject({ abortCode: 6003 });
+  });
+
+  it('raises ERegistrationClosed when registration is not possible', async () => {
+    setEvent({ stats: { registered: '10' } });
+    await expect(
+      rejection(discounts.quote(EVENT_ID, { tier: 'general' })),
+    ).resolves.toMatchObject({ abortName: 'tickets::ERegistrationClosed' });
+
+    setEvent({ status: 4 });
+    await expect(
+      rejection(discounts.quote(EVENT_ID, { tier: 'general' })),
+    ).resolves.toMatchObject({ abortCode: 4001 });
+  });
+});
@@ -0,0 +1,147 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { SuiService } from '../common/sui/sui.service';
+import { moveAbort, moveAbortException } from '../common/sui/move-aborts';
+import { EventResponseDto } from '../events/dto/event.dto';
+import { EventsService } from '../events/events.service';
+import { TiersService } from '../tiers/tiers.service';
+import {
+  DiscountCodeListResponseDto,
+  DiscountCodeResponseDto,
+  QuoteRequestDto,
+  QuoteResponseDto,
+} from './dto/payments.dto';
+import { suiAmount } from './mist';
+import {
+  DiscountCode,
+  mapDiscountCode,
+  quoteTickets,
+  remainingUses,
+} from './pricing';
+
+@Injectable()
+export class DiscountsService {
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly eventsService: EventsService,
+    private readonly tiersService: TiersService,
+  ) {}
+
+  async listDiscountCodes(
+    eventId: string,
+  ): Promise<DiscountCodeListResponseDto> {
+    const event = await this.requireEvent(eventId);
+    const codes = await this.findDiscountCodes(event);
+    const now = Date.now();
+    return { codes: codes.map((code) => toDiscountCodeDto(code, now)) };
+  }
+
+  async quote(
+    eventId: string,
+    dto: QuoteRequestDto,
+  ): Promise<QuoteResponseDto> {
+    const event = await this.requireEvent(eventId);
+    const now = Date.now();
+
+    let discount: DiscountCode | undefined;
+    if (dto.code) {
+      const codes = await this.findDiscountCodes(event);
+      discount = codes.find((candidate) => candidate.code === dto.code);
+      if (!discount) {
+        throw moveAbortException(
+          moveAbort('payments', 'EInvalidDiscount'),
+          `Discount code ${dto.code} is not valid for this event`,
+        );
+      }
+    }
+
+    const quantity = dto.quantity ?? 1;
+    const { premium } = await this.tiersService.priceTier(
+      event,
+      dto.tier,
+      quantity,
+      now,
+    );
+    const quote = quoteTickets({
+      event,
+      quantity,
+      discount,
+      tierPremium: premium,
+      now,
+    });
+
+    return {
+      eventId,
+      tier: dto.tier,
+      quantity: quote.quantity,
+      unitPrice: suiAmount(quote.unitPrice),
+      tierPremium: suiAmount(premium),
+      basePrice: suiAmount(quote.basePrice),
+      discount: suiAmount(quote.discount),
+      discountCode: discount ? toDiscountCodeDto(discount, now) : undefined,
+      platformFee: suiAmount(quote.platformFee),
+      organizerAmount: suiAmount(quote.organizerAmount),
+      total: suiAmount(quote.total),
+    };
+  }
+
+  /**
+   * DiscountCode objects carry no creation event, so they are found among
+   * the organizer's owned objects.
+   */
+  private async findDiscountCodes(
+    event: EventResponseDto,
+  ): Promise<DiscountCode[]> {
+    const eventId = normalizeSuiAddress(event.id);
+    const codes: DiscountCode[] = [];
+    let cursor: string | null | undefined;
+    do {
+      const page = await this.suiService.getOwnedObjects(
+        event.organizer,
+        'payments::DiscountCode',
+        cursor,
+      );
+      for (const obj of page.data) {
+        const content = obj.data?.content;
+        if (content?.dataType !== 'moveObject') {
+          continue;
+        }
+        const code = mapDiscountCode(
+          obj.data!.objectId,
+          content.fields as Record<string, unknown>,
+        );
+        if (normalizeSuiAddress(code.eventId) === eventId) {
+          codes.push(code);
+        }
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return codes;
+  }
+
+  private async requireEvent(eventId: string) {
+    const event = await this.eventsService.getEvent(eventId);
+    if (!event) {
+      throw new NotFoundException(`Event ${eventId} not found`);
+    }
+    return event;
+  }
+}
+
+function toDiscountCodeDto(
+  code: DiscountCode,
+  now: number,
+): DiscountCodeResponseDto {
+  return {
+    id: code.id,
+    code: code.code,
+    eventId: code.eventId,
+    discountPercent: Number(code.discountPercent),
+    maxUses: Number(code.maxUses),
+    currentUses: Number(code.currentUses),
+    remainingUses: Number(remainingUses(code)),
+    expiry: code.expiry.toString(),
+    expired: BigInt(now) >= code.expiry,
+  };
+}
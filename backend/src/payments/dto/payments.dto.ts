@@ -0,0 +1,214 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { MAX_QUOTE_QUANTITY } from '../payments.constants';
+import { REVENUE_INTERVALS } from '../revenue-report';
+import type { RevenueInterval } from '../revenue-report';
+
+export class SuiAmountDto {
+  @ApiProperty({ description: 'Exact amount in MIST', example: '1500000000' })
+  mist: string;
+
+  @ApiProperty({ description: 'Amount formatted in SUI', example: '1.5' })
+  sui: string;
+}
+
+export class TreasuryResponseDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  treasuryId: string;
+
+  @ApiProperty()
+  organizer: string;
+
+  @ApiProperty({ description: 'Platform fee in basis points' })
+  platformFeeBps: number;
+
+  @ApiProperty({ description: 'SUI currently held by the treasury' })
+  balance: SuiAmountDto;
+
+  @ApiProperty()
+  totalCollected: SuiAmountDto;
+
+  @ApiProperty()
+  totalWithdrawn: SuiAmountDto;
+
+  @ApiProperty({ description: 'Organizer share held back for refunds' })
+  lockedForRefunds: SuiAmountDto;
+
+  @ApiProperty({ description: 'What withdraw_funds would currently allow' })
+  withdrawable: SuiAmountDto;
+}
+
+export class RevenueReportQueryDto {
+  @ApiPropertyOptional({ enum: REVENUE_INTERVALS, default: 'day' })
+  @IsOptional()
+  @IsIn(REVENUE_INTERVALS)
+  interval?: RevenueInterval = 'day';
+
+  @ApiPropertyOptional({ description: 'Include activity from this time (ms)' })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Include activity before this time (ms)',
+  })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  to?: string;
+}
+
+export class RevenueTotalsDto {
+  @ApiProperty()
+  paymentCount: number;
+
+  @ApiProperty()
+  refundCount: number;
+
+  @ApiProperty({ description: 'Ticket payments received' })
+  gross: SuiAmountDto;
+
+  @ApiProperty({ description: 'Platform fees taken from payments' })
+  fees: SuiAmountDto;
+
+  @ApiProperty()
+  refunds: SuiAmountDto;
+
+  @ApiProperty({ description: 'Value of discount codes applied' })
+  discounts: SuiAmountDto;
+
+  @ApiProperty({ description: 'Gross less fees and refunds' })
+  net: SuiAmountDto;
+}
+
+export class RevenueBucketDto extends RevenueTotalsDto {
+  @ApiProperty({ description: 'Bucket start (ms, inclusive)' })
+  start: number;
+
+  @ApiProperty({ description: 'Bucket end (ms, exclusive)' })
+  end: number;
+}
+
+export class RevenueReportDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({ enum: REVENUE_INTERVALS })
+  interval: RevenueInterval;
+
+  @ApiProperty({ type: [RevenueBucketDto] })
+  buckets: RevenueBucketDto[];
+
+  @ApiProperty()
+  totals: RevenueTotalsDto;
+}
+
+export class DiscountCodeResponseDto {
+  @ApiProperty({ description: 'DiscountCode object ID' })
+  id: string;
+
+  @ApiProperty()
+  code: string;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  discountPercent: number;
+
+  @ApiProperty()
+  maxUses: number;
+
+  @ApiProperty()
+  currentUses: number;
+
+  @ApiProperty()
+  remainingUses: number;
+
+  @ApiProperty({ description: 'Expiry time (ms)' })
+  expiry: string;
+
+  @ApiProperty()
+  expired: boolean;
+}
+
+export class DiscountCodeListResponseDto {
+  @ApiProperty({ type: [DiscountCodeResponseDto] })
+  codes: DiscountCodeResponseDto[];
+}
+
+export class QuoteRequestDto {
+  @ApiProperty({ example: 'general' })
+  @IsString()
+  @IsNotEmpty()
+  tier: string;
+
+  @ApiPropertyOptional({
+    default: 1,
+    maximum: MAX_QUOTE_QUANTITY,
+    description: 'Always 1: an address registers once per event',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_QUOTE_QUANTITY)
+  quantity?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Discount code to apply' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  code?: string;
+}
+
+export class QuoteResponseDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  tier: string;
+
+  @ApiProperty()
+  quantity: number;
+
+  @ApiProperty({ description: 'Price of one ticket before discounts' })
+  unitPrice: SuiAmountDto;
+
+  @ApiProperty({
+    description: 'Part of the unit price paid to the organizer for the tier',
+  })
+  tierPremium: SuiAmountDto;
+
+  @ApiProperty({ description: 'Unit price times quantity' })
+  basePrice: SuiAmountDto;
+
+  @ApiProperty({
+    description:
+      'What apply_discount computes for the organizer to honour; ' +
+      'not deducted from the total',
+  })
+  discount: SuiAmountDto;
+
+  @ApiPropertyOptional()
+  discountCode?: DiscountCodeResponseDto;
+
+  @ApiProperty({ description: 'Platform fee taken from the total' })
+  platformFee: SuiAmountDto;
+
+  @ApiProperty({ description: 'Total less the platform fee' })
+  organizerAmount: SuiAmountDto;
+
+  @ApiProperty({ description: 'Amount mint_ticket charges the buyer' })
+  total: SuiAmountDto;
+}
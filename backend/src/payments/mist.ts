@@ -0,0 +1,42 @@
+/** 1 SUI = 10^9 MIST */
+export const MIST_PER_SUI = 1_000_000_000n;
+
+const SUI_DECIMALS = 9;
+
+/**
+ * Read a u64 amount as returned by JSON-RPC (decimal string) into MIST.
+ * Missing values count as zero.
+ */
+export function toMist(value: unknown): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return BigInt(Math.trunc(value));
+  }
+  if (typeof value === 'string' && value !== '') {
+    return BigInt(value);
+  }
+  return 0n;
+}
+
+/**
+ * Render MIST as a decimal SUI string without losing precision, e.g.
+ * `1500000000n` -> `"1.5"`.
+ */
+export function formatSui(mist: bigint): string {
+  const sign = mist < 0n ? '-' : '';
+  const abs = mist < 0n ? -mist : mist;
+  const whole = abs / MIST_PER_SUI;
+  const fraction = (abs % MIST_PER_SUI)
+    .toString()
+    .padStart(SUI_DECIMALS, '0')
+    .replace(/0+$/, '');
+
+  return fraction ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+}
+
+/** Exact MIST alongside its SUI rendering, as returned by the API */
+export function suiAmount(mist: bigint): { mist: string; sui: string } {
+  return { mist: mist.toString(), sui: formatSui(mist) };
+}
@@ -0,0 +1,8 @@
+/** payments::DEFAULT_PLATFORM_FEE_PERCENT, in basis points (2.5%) */
+export const DEFAULT_PLATFORM_FEE_BPS = 250n;
+
+/** payments::PERCENT_DENOMINATOR */
+export const PERCENT_DENOMINATOR = 10_000n;
+
+/** register_attendee records one registration per address and event */
+export const MAX_QUOTE_QUANTITY = 1;
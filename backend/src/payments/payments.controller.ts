@@ -0,0 +1,104 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { EventRoles, RequiresPermission } from '../auth/auth.decorators';
+import { DiscountsService } from './discounts.service';
+import { PaymentsService } from './payments.service';
+import {
+  DiscountCodeListResponseDto,
+  QuoteRequestDto,
+  QuoteResponseDto,
+  RevenueReportDto,
+  RevenueReportQueryDto,
+  TreasuryResponseDto,
+} from './dto/payments.dto';
+
+@ApiTags('payments')
+@Controller('events')
+export class PaymentsController {
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly discountsService: DiscountsService,
+  ) {}
+
+  @Get(':id/treasury')
+  @EventRoles('id', 'organizer')
+  @RequiresPermission('can_withdraw_funds')
+  @ApiOperation({ summary: 'Get event treasury balances' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: TreasuryResponseDto })
+  async getTreasury(@Param('id') id: string): Promise<TreasuryResponseDto> {
+    return this.paymentsService.getTreasury(id);
+  }
+
+  @Get(':id/revenue')
+  @EventRoles('id', 'organizer')
+  @RequiresPermission('can_withdraw_funds')
+  @ApiOperation({ summary: 'Get time-bucketed revenue for an event' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: RevenueReportDto })
+  async getRevenue(
+    @Param('id') id: string,
+    @Query() query: RevenueReportQueryDto,
+  ): Promise<RevenueReportDto> {
+    return this.paymentsService.getRevenueReport(id, query);
+  }
+
+  @Get(':id/revenue/csv')
+  @EventRoles('id', 'organizer')
+  @RequiresPermission('can_withdraw_funds')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="revenue.csv"')
+  @ApiOperation({ summary: 'Export the revenue report as CSV' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiProduces('text/csv')
+  @ApiResponse({ status: 200, description: 'CSV, one row per bucket' })
+  async exportRevenue(
+    @Param('id') id: string,
+    @Query() query: RevenueReportQueryDto,
+  ): Promise<string> {
+    return this.paymentsService.exportRevenueCsv(id, query);
+  }
+
+  @Get(':id/discount-codes')
+  @EventRoles('id', 'organizer')
+  @ApiOperation({ summary: 'List discount codes for an event' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: DiscountCodeListResponseDto })
+  async listDiscountCodes(
+    @Param('id') id: string,
+  ): Promise<DiscountCodeListResponseDto> {
+    return this.discountsService.listDiscountCodes(id);
+  }
+
+  @Post(':id/quote')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Price tickets before signing a purchase' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: QuoteResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'The purchase would abort on-chain; see abortCode',
+  })
+  async quote(
+    @Param('id') id: string,
+    @Body() dto: QuoteRequestDto,
+  ): Promise<QuoteResponseDto> {
+    return this.discountsService.quote(id, dto);
+  }
+}
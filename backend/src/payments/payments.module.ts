@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { EventsModule } from '../events/events.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { TiersController } from '../tiers/tiers.controller';
+import { TiersModule } from '../tiers/tiers.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { DiscountsService } from './discounts.service';
+import { PaymentsController } from './payments.controller';
+import { PaymentsService } from './payments.service';
+
+@Module({
+  imports: [
+    IndexerModule,
+    EventsModule,
+    TiersModule,
+    TransactionsModule,
+    AuthModule,
+  ],
+  controllers: [PaymentsController, TiersController],
+  providers: [PaymentsService, DiscountsService],
+  exports: [PaymentsService, DiscountsService],
+})
+export class PaymentsModule {}
@@ -0,0 +1,245 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import {
+  eventObject,
+  eventTreasuryObject,
+} from '../common/sui/testing/move-fixtures';
+import { EventsService } from '../events/events.service';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { PaymentsService } from './payments.service';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const TREASURY_ID = normalizeSuiAddress('0x7e');
+const DAY = 86_400_000;
+const T0 = Date.UTC(2026, 4, 1);
+
+describe('PaymentsService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let indexer: IndexerService;
+  let payments: PaymentsService;
+
+  function at(timestampMs: number) {
+    return { timestampMs: String(timestampMs) };
+  }
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        EventsService,
+        ObjectResolverService,
+        PaymentsService,
+      ],
+    }).compile();
+    await module.init();
+
+    indexer = module.get(IndexerService);
+    payments = module.get(PaymentsService);
+
+    const created = recordedEvent('events::EventCreated', {
+      event_id: EVENT_ID,
+      organizer: '0x0a',
+    });
+    client.addEvents(created);
+    client.transactions.set(created.id.txDigest, {
+      digest: created.id.txDigest,
+      objectChanges: [
+        {
+          type: 'created',
+          objectId: TREASURY_ID,
+          objectType: `${FAKE_PACKAGE_ID}::payments::EventTreasury`,
+        },
+      ],
+    } as SuiTransactionBlockResponse);
+    client.setObject(eventObject(EVENT_ID));
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('reports treasury balances and the withdrawable amount', async () => {
+    client.setObject(
+      eventTreasuryObject(TREASURY_ID, {
+        event_id: EVENT_ID,
+        organizer: '0x0a',
+        balance: '5000000000',
+        platform_fee: '250',
+        total_collected: '6000000000',
+        total_withdrawn: '1000000000',
+        locked_for_refunds: '3900000000',
+      }),
+    );
+    await indexer.syncOnce();
+
+    const treasury = await payments.getTreasury(EVENT_ID);
+
+    expect(treasury).toMatchObject({
+      treasuryId: TREASURY_ID,
+      platformFeeBps: 250,
+      balance: { mist: '5000000000', sui: '5' },
+      lockedForRefunds: { mist: '3900000000', sui: '3.9' },
+      withdrawable: { mist: '1100000000', sui: '1.1' },
+    });
+  });
+
+  it('never reports a negative withdrawable amount', async () => {
+    client.setObject(
+      eventTreasuryObject(TREASURY_ID, {
+        balance: '100',
+        platform_fee: '250',
+        locked_for_refunds: '975',
+      }),
+    );
+    await indexer.syncOnce();
+
+    const treasury = await payments.getTreasury(EVENT_ID);
+
+    expect(treasury.withdrawable).toEqual({ mist: '0', sui: '0' });
+  });
+
+  it('buckets payments, refunds and discounts for the event only', async () => {
+    client.addEvents(
+      recordedEvent(
+        'payments::PaymentProcessed',
+        {
+          event_id: EVENT_ID,
+          amount: '2000000000',
+          platform_fee: '50000000',
+          organizer_amount: '1950000000',
+        },
+        at(T0 + 1000),
+      ),
+      recordedEvent(
+        'payments::DiscountApplied',
+        {
+          event_id: EVENT_ID,
+          original_price: '2000000000',
+          discounted_price: '1500000000',
+        },
+        at(T0 + 2000),
+      ),
+      recordedEvent(
+        'payments::PaymentProcessed',
+        {
+          event_id: normalizeSuiAddress('0xe2'),
+          amount: '9000000000',
+          platform_fee: '225000000',
+        },
+        at(T0 + 3000),
+      ),
+      recordedEvent(
+        'payments::RefundIssued',
+        { event_id: EVENT_ID, amount: '1950000000' },
+        at(T0 + 2 * DAY),
+      ),
+    );
+    await indexer.syncOnce();
+
+    const report = await payments.getRevenueReport(EVENT_ID, {
+      interval: 'day',
+    });
+
+    expect(report.buckets.map((bucket) => bucket.start)).toEqual([
+      T0,
+      T0 + DAY,
+      T0 + 2 * DAY,
+    ]);
+    expect(report.buckets[0]).toMatchObject({
+      paymentCount: 1,
+      gross: { sui: '2' },
+      fees: { sui: '0.05' },
+      discounts: { sui: '0.5' },
+      net: { sui: '1.95' },
+    });
+    expect(report.buckets[1].paymentCount).toBe(0);
+    expect(report.totals).toMatchObject({
+      paymentCount: 1,
+      refundCount: 1,
+      refunds: { mist: '1950000000' },
+      net: { mist: '0', sui: '0' },
+    });
+  });
+
+  it('limits the report to the requested time range', async () => {
+    client.addEvents(
+      recordedEvent(
+        'payments::PaymentProcessed',
+        { event_id: EVENT_ID, amount: '1000', platform_fee: '25' },
+        at(T0),
+      ),
+      recordedEvent(
+        'payments::PaymentProcessed',
+        { event_id: EVENT_ID, amount: '3000', platform_fee: '75' },
+        at(T0 + DAY),
+      ),
+    );
+    await indexer.syncOnce();
+
+    const report = await payments.getRevenueReport(EVENT_ID, {
+      interval: 'hour',
+      from: String(T0 + 1),
+    });
+
+    expect(report.buckets).toHaveLength(1);
+    expect(report.totals.gross.mist).toBe('3000');
+  });
+
+  it('exports the report as CSV with SUI amounts and a totals row', async () => {
+    client.addEvents(
+      recordedEvent(
+        'payments::PaymentProcessed',
+        {
+          event_id: EVENT_ID,
+          amount: '1000000001',
+          platform_fee: '25000000',
+        },
+        at(T0 + 5),
+      ),
+    );
+    await indexer.syncOnce();
+
+    const csv = await payments.exportRevenueCsv(EVENT_ID, { interval: 'day' });
+
+    expect(csv.split('\r\n')).toEqual([
+      'period_start,period_end,payment_count,refund_count,gross_sui,fees_sui,refunds_sui,discounts_sui,net_sui',
+      '2026-05-01T00:00:00.000Z,2026-05-02T00:00:00.000Z,1,0,1.000000001,0.025,0,0,0.975000001',
+      'total,,1,0,1.000000001,0.025,0,0,0.975000001',
+      '',
+    ]);
+  });
+
+  it('rejects reports for unknown events', async () => {
+    await expect(
+      payments.getRevenueReport(normalizeSuiAddress('0xbad'), {}),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,120 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { decodeMoveObject } from '../common/sui/move-decoder';
+import { EVENT_TREASURY } from '../common/sui/move-objects';
+import { SuiService } from '../common/sui/sui.service';
+import { EventsService } from '../events/events.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import {
+  RevenueReportDto,
+  RevenueReportQueryDto,
+  RevenueTotalsDto,
+  TreasuryResponseDto,
+} from './dto/payments.dto';
+import { suiAmount, toMist } from './mist';
+import {
+  REVENUE_EVENT_TYPES,
+  RevenueEvent,
+  RevenueReport,
+  RevenueTotals,
+  buildRevenueReport,
+  revenueEventTime,
+  revenueReportToCsv,
+} from './revenue-report';
+
+@Injectable()
+export class PaymentsService {
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly eventsService: EventsService,
+    private readonly indexerStore: IndexerStore,
+    private readonly resolver: ObjectResolverService,
+  ) {}
+
+  async getTreasury(eventId: string): Promise<TreasuryResponseDto> {
+    const treasuryId = await this.resolver.resolveEventTreasury(eventId);
+    const treasury = decodeMoveObject(
+      await this.suiService.getObject(treasuryId),
+      this.suiService.getPackageIds(),
+      EVENT_TREASURY,
+    );
+    if (!treasury) {
+      throw new NotFoundException(`EventTreasury ${treasuryId} not found`);
+    }
+
+    const balance = toMist(treasury.balance);
+    const locked = toMist(treasury.locked_for_refunds);
+
+    return {
+      eventId,
+      treasuryId,
+      organizer: treasury.organizer,
+      platformFeeBps: Number(treasury.platform_fee),
+      balance: suiAmount(balance),
+      totalCollected: suiAmount(toMist(treasury.total_collected)),
+      totalWithdrawn: suiAmount(toMist(treasury.total_withdrawn)),
+      lockedForRefunds: suiAmount(locked),
+      // mirrors payments::get_withdrawable_amount
+      withdrawable: suiAmount(balance > locked ? balance - locked : 0n),
+    };
+  }
+
+  async getRevenueReport(
+    eventId: string,
+    query: RevenueReportQueryDto,
+  ): Promise<RevenueReportDto> {
+    const report = await this.buildReport(eventId, query);
+    return {
+      eventId,
+      interval: report.interval,
+      buckets: report.buckets.map((bucket) => ({
+        start: bucket.start,
+        end: bucket.end,
+        ...toTotalsDto(bucket),
+      })),
+      totals: toTotalsDto(report.totals),
+    };
+  }
+
+  async exportRevenueCsv(
+    eventId: string,
+    query: RevenueReportQueryDto,
+  ): Promise<string> {
+    return revenueReportToCsv(await this.buildReport(eventId, query));
+  }
+
+  private async buildReport(
+    eventId: string,
+    query: RevenueReportQueryDto,
+  ): Promise<RevenueReport> {
+    const event = await this.eventsService.getEvent(eventId);
+    if (!event) {
+      throw new NotFoundException(`Event ${eventId} not found`);
+    }
+
+    const from = query.from !== undefined ? Number(query.from) : -Infinity;
+    const to = query.to !== undefined ? Number(query.to) : Infinity;
+    const events = this.indexerStore
+      .findEvents<RevenueEvent['data']>(REVENUE_EVENT_TYPES, {
+        event_id: eventId,
+      })
+      .filter((row) => {
+        const at = revenueEventTime(row);
+        return at >= from && at < to;
+      });
+
+    return buildRevenueReport(events, query.interval ?? 'day');
+  }
+}
+
+function toTotalsDto(totals: RevenueTotals): RevenueTotalsDto {
+  return {
+    paymentCount: totals.paymentCount,
+    refundCount: totals.refundCount,
+    gross: suiAmount(totals.gross),
+    fees: suiAmount(totals.fees),
+    refunds: suiAmount(totals.refunds),
+    discounts: suiAmount(totals.discounts),
+    net: suiAmount(totals.net),
+  };
+}
@@ -0,0 +1,146 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { moveAbort, moveAbortException } from '../common/sui/move-aborts';
+import { EventResponseDto } from '../events/dto/event.dto';
+import { toMist } from './mist';
+import {
+  DEFAULT_PLATFORM_FEE_BPS,
+  MAX_QUOTE_QUANTITY,
+  PERCENT_DENOMINATOR,
+} from './payments.constants';
+
+export interface DiscountCode {
+  id: string;
+  code: string;
+  eventId: string;
+  discountPercent: bigint;
+  maxUses: bigint;
+  currentUses: bigint;
+  expiry: bigint;
+}
+
+export interface TicketQuote {
+  quantity: number;
+  unitPrice: bigint;
+  basePrice: bigint;
+  discount: bigint;
+  total: bigint;
+  platformFee: bigint;
+  organizerAmount: bigint;
+}
+
+export interface QuoteInput {
+  event: EventResponseDto;
+  quantity: number;
+  discount?: DiscountCode;
+  /** Per-ticket tier price above the on-chain ticket price */
+  tierPremium?: bigint;
+  now: number;
+}
+
+export function mapDiscountCode(
+  id: string,
+  fields: Record<string, unknown>,
+): DiscountCode {
+  return {
+    id,
+    code: fields.code as string,
+    eventId: fields.event_id as string,
+    discountPercent: toMist(fields.discount_percent),
+    maxUses: toMist(fields.max_uses),
+    currentUses: toMist(fields.current_uses),
+    expiry: toMist(fields.expiry),
+  };
+}
+
+/** Mirrors payments::get_discount_remaining_uses */
+export function remainingUses(code: DiscountCode): bigint {
+  return code.maxUses > code.currentUses ? code.maxUses - code.currentUses : 0n;
+}
+
+/**
+ * Run the checks mint_ticket and apply_discount would for a purchase and
+ * price it with the contract's integer arithmetic.
+ *
+ * mint_ticket takes payment at the full ticket price, so that is what the
+ * total charges and what the platform fee is taken from. A discount is
+ * what apply_discount computes for the organizer to honour and is reported
+ * beside the total, not deducted from it. A tier premium is paid to the
+ * organizer outside the treasury, so discounts and platform fees apply to
+ * the on-chain price only.
+ */
+export function quoteTickets({
+  event,
+  quantity,
+  discount,
+  tierPremium = 0n,
+  now,
+}: QuoteInput): TicketQuote {
+  if (event.status !== 'open') {
+    throw moveAbortException(
+      moveAbort('tickets', 'ERegistrationClosed'),
+      `Event is ${event.status}, not open for registration`,
+    );
+  }
+  if (now > Number(event.config.registrationDeadline)) {
+    throw moveAbortException(
+      moveAbort('tickets', 'ERegistrationClosed'),
+      'Registration deadline has passed',
+    );
+  }
+  if (quantity > MAX_QUOTE_QUANTITY) {
+    throw moveAbortException(
+      moveAbort('events', 'EAlreadyRegistered'),
+      'An address can buy only one ticket per event',
+    );
+  }
+  const seatsLeft = event.config.capacity - event.stats.registered;
+  if (quantity > seatsLeft) {
+    throw moveAbortException(
+      moveAbort('tickets', 'ERegistrationClosed'),
+      `Only ${Math.max(seatsLeft, 0)} seats left`,
+    );
+  }
+
+  const ticketPrice = toMist(event.config.ticketPrice);
+  const unitPrice = ticketPrice + tierPremium;
+  let unitDiscount = 0n;
+  if (discount) {
+    if (
+      normalizeSuiAddress(discount.eventId) !== normalizeSuiAddress(event.id)
+    ) {
+      throw moveAbortException(
+        moveAbort('payments', 'EInvalidDiscount'),
+        `Discount code ${discount.code} is not valid for this event`,
+      );
+    }
+    if (BigInt(now) >= discount.expiry) {
+      throw moveAbortException(
+        moveAbort('payments', 'EDiscountExpired'),
+        `Discount code ${discount.code} has expired`,
+      );
+    }
+    if (BigInt(quantity) > remainingUses(discount)) {
+      throw moveAbortException(
+        moveAbort('payments', 'EDiscountMaxUsed'),
+        `Discount code ${discount.code} has ${remainingUses(discount)} uses left`,
+      );
+    }
+    // apply_discount: (original_price * discount_percent) / 100
+    unitDiscount = (ticketPrice * discount.discountPercent) / 100n;
+  }
+
+  const count = BigInt(quantity);
+  // process_payment: (ticket_price * platform_fee_percent) / PERCENT_DENOMINATOR
+  const unitFee =
+    (ticketPrice * DEFAULT_PLATFORM_FEE_BPS) / PERCENT_DENOMINATOR;
+
+  return {
+    quantity,
+    unitPrice,
+    basePrice: unitPrice * count,
+    discount: unitDiscount * count,
+    total: unitPrice * count,
+    platformFee: unitFee * count,
+    organizerAmount: (unitPrice - unitFee) * count,
+  };
+}
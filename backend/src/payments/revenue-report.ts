@@ -0,0 +1,173 @@
+import {
+  DiscountAppliedEvent,
+  IndexedEvent,
+  PaymentProcessedEvent,
+  RefundIssuedEvent,
+} from '../indexer/indexer.types';
+import { formatSui, toMist } from './mist';
+
+export const REVENUE_INTERVALS = ['hour', 'day', 'week'] as const;
+
+export type RevenueInterval = (typeof REVENUE_INTERVALS)[number];
+
+export const INTERVAL_MS: Record<RevenueInterval, number> = {
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000,
+};
+
+/** Move events that feed the revenue report */
+export const REVENUE_EVENT_TYPES = [
+  'payments::PaymentProcessed',
+  'payments::RefundIssued',
+  'payments::DiscountApplied',
+] as const;
+
+export type RevenueEvent = IndexedEvent<
+  PaymentProcessedEvent | RefundIssuedEvent | DiscountAppliedEvent
+>;
+
+export interface RevenueTotals {
+  paymentCount: number;
+  refundCount: number;
+  gross: bigint;
+  fees: bigint;
+  refunds: bigint;
+  discounts: bigint;
+  net: bigint;
+}
+
+export interface RevenueBucket extends RevenueTotals {
+  start: number;
+  end: number;
+}
+
+export interface RevenueReport {
+  interval: RevenueInterval;
+  buckets: RevenueBucket[];
+  totals: RevenueTotals;
+}
+
+function emptyTotals(): RevenueTotals {
+  return {
+    paymentCount: 0,
+    refundCount: 0,
+    gross: 0n,
+    fees: 0n,
+    refunds: 0n,
+    discounts: 0n,
+    net: 0n,
+  };
+}
+
+/**
+ * Checkpoint time when the fullnode reported one, else the epoch timestamp
+ * the contract stamped on the event.
+ */
+export function revenueEventTime(event: RevenueEvent): number {
+  return event.timestampMs ?? Number(event.data.timestamp);
+}
+
+function addEvent(totals: RevenueTotals, event: RevenueEvent) {
+  if (event.eventType.endsWith('::PaymentProcessed')) {
+    const data = event.data as PaymentProcessedEvent;
+    totals.paymentCount++;
+    totals.gross += toMist(data.amount);
+    totals.fees += toMist(data.platform_fee);
+  } else if (event.eventType.endsWith('::RefundIssued')) {
+    const data = event.data as RefundIssuedEvent;
+    totals.refundCount++;
+    totals.refunds += toMist(data.amount);
+  } else if (event.eventType.endsWith('::DiscountApplied')) {
+    const data = event.data as DiscountAppliedEvent;
+    totals.discounts +=
+      toMist(data.original_price) - toMist(data.discounted_price);
+  }
+  // payments record the amount actually charged, so discounts are reported
+  // alongside gross rather than deducted from it a second time
+  totals.net = totals.gross - totals.fees - totals.refunds;
+}
+
+/**
+ * Sum payment events into contiguous UTC-aligned buckets, including empty
+ * buckets between the first and last event so exports line up in a
+ * spreadsheet.
+ */
+export function buildRevenueReport(
+  events: RevenueEvent[],
+  interval: RevenueInterval,
+): RevenueReport {
+  const size = INTERVAL_MS[interval];
+  const totals = emptyTotals();
+  const byStart = new Map<number, RevenueBucket>();
+
+  for (const event of events) {
+    const start = Math.floor(revenueEventTime(event) / size) * size;
+    let bucket = byStart.get(start);
+    if (!bucket) {
+      bucket = { start, end: start + size, ...emptyTotals() };
+      byStart.set(start, bucket);
+    }
+    addEvent(bucket, event);
+    addEvent(totals, event);
+  }
+
+  const starts = [...byStart.keys()];
+  if (starts.length === 0) {
+    return { interval, buckets: [], totals };
+  }
+
+  const buckets: RevenueBucket[] = [];
+  const last = Math.max(...starts);
+  for (let start = Math.min(...starts); start <= last; start += size) {
+    buckets.push(
+      byStart.get(start) ?? { start, end: start + size, ...emptyTotals() },
+    );
+  }
+
+  return { interval, buckets, totals };
+}
+
+const CSV_HEADER = [
+  'period_start',
+  'period_end',
+  'payment_count',
+  'refund_count',
+  'gross_sui',
+  'fees_sui',
+  'refunds_sui',
+  'discounts_sui',
+  'net_sui',
+];
+
+function csvRow(label: [string, string], totals: RevenueTotals): string {
+  return [
+    ...label,
+    totals.paymentCount,
+    totals.refundCount,
+    formatSui(totals.gross),
+    formatSui(totals.fees),
+    formatSui(totals.refunds),
+    formatSui(totals.discounts),
+    formatSui(totals.net),
+  ].join(',');
+}
+
+/**
+ * One row per bucket with ISO-8601 UTC period bounds and SUI amounts,
+ * followed by a totals row.
+ */
+export function revenueReportToCsv(report: RevenueReport): string {
+  const rows = report.buckets.map((bucket) =>
+    csvRow(
+      [
+        new Date(bucket.start).toISOString(),
+        new Date(bucket.end).toISOString(),
+      ],
+      bucket,
+    ),
+  );
+  rows.push(csvRow(['total', ''], report.totals));
+
+  return [CSV_HEADER.join(','), ...rows].join('\r\n') + '\r\n';
+}
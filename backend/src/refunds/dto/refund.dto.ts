@@ -0,0 +1,149 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsSuiAddress } from '../../common/validation/sui.validators';
+import { SuiAmountDto } from '../../payments/dto/payments.dto';
+import { REFUND_CONDITIONS } from '../refund-eligibility';
+import type { RefundConditionName } from '../refund-eligibility';
+
+export class RefundEligibilityQueryDto {
+  @ApiProperty({ description: 'Address that would sign the refund' })
+  @IsSuiAddress()
+  sender: string;
+}
+
+export class RefundConditionDto {
+  @ApiProperty({ enum: REFUND_CONDITIONS })
+  condition: RefundConditionName;
+
+  @ApiProperty()
+  passed: boolean;
+
+  @ApiProperty()
+  detail: string;
+}
+
+export class RefundEligibilityResponseDto {
+  @ApiProperty()
+  ticketId: string;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  sender: string;
+
+  @ApiProperty({ description: 'Whether refund_ticket would succeed now' })
+  eligible: boolean;
+
+  @ApiProperty({ description: 'Current ticket price, paid back in full' })
+  refundAmount: SuiAmountDto;
+
+  @ApiProperty({
+    type: [RefundConditionDto],
+    description: 'Every check refund_ticket makes, in the order it makes them',
+  })
+  conditions: RefundConditionDto[];
+}
+
+export class OutstandingRefundDto {
+  @ApiProperty()
+  ticketId: string;
+
+  @ApiProperty()
+  owner: string;
+
+  @ApiProperty({
+    description:
+      'Whether the owner can refund it, once the tickets before it are refunded',
+  })
+  refundable: boolean;
+
+  @ApiProperty({
+    type: [String],
+    description: 'Details of the failing refund conditions',
+  })
+  blockedBy: string[];
+}
+
+export class RefundCampaignResponseDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({
+    enum: ['active', 'shortfall', 'completed'],
+    description:
+      'shortfall: the treasury cannot cover every outstanding refund; completed: every ticket that can be refunded has been',
+  })
+  status: 'active' | 'shortfall' | 'completed';
+
+  @ApiProperty({ description: 'Reason given in EventCancelled' })
+  reason: string;
+
+  @ApiProperty()
+  cancelledAt: number;
+
+  @ApiProperty()
+  openedAt: number;
+
+  @ApiPropertyOptional({
+    description: 'When locked_for_refunds was first seen at zero',
+  })
+  completedAt?: number;
+
+  @ApiProperty()
+  ticketsSold: number;
+
+  @ApiProperty()
+  ticketsRefunded: number;
+
+  @ApiProperty()
+  refunded: SuiAmountDto;
+
+  @ApiProperty()
+  treasuryBalance: SuiAmountDto;
+
+  @ApiProperty()
+  lockedForRefunds: SuiAmountDto;
+
+  @ApiProperty({
+    description:
+      'Outstanding tickets that cannot be refunded, including those the treasury cannot cover',
+  })
+  ticketsUnrefundable: number;
+
+  @ApiProperty({
+    description:
+      'What the treasury lacks to refund every outstanding unvalidated ticket',
+  })
+  shortfall: SuiAmountDto;
+
+  @ApiProperty({
+    type: [OutstandingRefundDto],
+    description: 'Tickets not refunded yet, in mint order',
+  })
+  outstanding: OutstandingRefundDto[];
+}
+
+export class RefundTransactionDto {
+  @ApiProperty()
+  ticketId: string;
+
+  @ApiProperty({ description: 'Ticket owner, who must sign' })
+  sender: string;
+
+  @ApiProperty({ description: 'Base64 BCS TransactionData, ready to sign' })
+  txBytes: string;
+}
+
+export class RefundTransactionsResponseDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({ type: [RefundTransactionDto] })
+  transactions: RefundTransactionDto[];
+
+  @ApiProperty({
+    type: [OutstandingRefundDto],
+    description: 'Outstanding tickets no transaction was built for',
+  })
+  skipped: OutstandingRefundDto[];
+}
@@ -0,0 +1,85 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../common/database/database.service';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS refund_campaigns (
+    event_id TEXT PRIMARY KEY,
+    reason TEXT NOT NULL,
+    cancelled_at INTEGER NOT NULL,
+    opened_at INTEGER NOT NULL,
+    completed_at INTEGER
+  );
+`;
+
+export interface RefundCampaign {
+  eventId: string;
+  reason: string;
+  cancelledAt: number;
+  openedAt: number;
+  /** Set once the event's locked_for_refunds was seen at zero */
+  completedAt: number | null;
+}
+
+interface CampaignRow {
+  event_id: string;
+  reason: string;
+  cancelled_at: number;
+  opened_at: number;
+  completed_at: number | null;
+}
+
+/**
+ * One refund campaign per cancelled event, opened when the indexer sees
+ * its EventCancelled.
+ */
+@Injectable()
+export class RefundCampaignStore implements OnModuleInit {
+  private readonly db: Database.Database;
+
+  constructor(database: DatabaseService) {
+    this.db = database.connection;
+  }
+
+  onModuleInit() {
+    this.db.exec(SCHEMA);
+  }
+
+  /** Open a campaign unless one exists; returns whether it was new */
+  open(campaign: Omit<RefundCampaign, 'openedAt' | 'completedAt'>): boolean {
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO refund_campaigns
+          (event_id, reason, cancelled_at, opened_at)
+          VALUES (?, ?, ?, ?)`,
+      )
+      .run(campaign.eventId, campaign.reason, campaign.cancelledAt, Date.now());
+    return result.changes > 0;
+  }
+
+  get(eventId: string): RefundCampaign | null {
+    const row = this.db
+      .prepare('SELECT * FROM refund_campaigns WHERE event_id = ?')
+      .get(eventId) as CampaignRow | undefined;
+    return row ? this.mapRow(row) : null;
+  }
+
+  complete(eventId: string, completedAt = Date.now()) {
+    this.db
+      .prepare(
+        `UPDATE refund_campaigns SET completed_at = ?
+          WHERE event_id = ? AND completed_at IS NULL`,
+      )
+      .run(completedAt, eventId);
+  }
+
+  private mapRow(row: CampaignRow): RefundCampaign {
+    return {
+      eventId: row.event_id,
+      reason: row.reason,
+      cancelledAt: row.cancelled_at,
+      openedAt: row.opened_at,
+      completedAt: row.completed_at,
+    };
+  }
+}
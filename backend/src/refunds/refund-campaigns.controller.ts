@@ -0,0 +1,50 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { EventRoles, RequiresPermission } from '../auth/auth.decorators';
+import { RefundCampaignsService } from './refund-campaigns.service';
+import {
+  RefundCampaignResponseDto,
+  RefundTransactionsResponseDto,
+} from './dto/refund.dto';
+
+@ApiTags('refunds')
+@Controller('events')
+export class RefundCampaignsController {
+  constructor(
+    private readonly refundCampaignsService: RefundCampaignsService,
+  ) {}
+
+  @Get(':id/refund-campaign')
+  @EventRoles('id', 'organizer')
+  @RequiresPermission('can_cancel_event')
+  @ApiOperation({ summary: 'Get refund progress for a cancelled event' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: RefundCampaignResponseDto })
+  async getCampaign(
+    @Param('id') id: string,
+  ): Promise<RefundCampaignResponseDto> {
+    return this.refundCampaignsService.getCampaign(id);
+  }
+
+  @Post(':id/refund-campaign/transactions')
+  @HttpCode(HttpStatus.OK)
+  @EventRoles('id', 'organizer')
+  @RequiresPermission('can_cancel_event')
+  @ApiOperation({
+    summary: 'Build refund transactions for every refundable ticket',
+  })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: RefundTransactionsResponseDto })
+  async buildTransactions(
+    @Param('id') id: string,
+  ): Promise<RefundTransactionsResponseDto> {
+    return this.refundCampaignsService.buildRefundTransactions(id);
+  }
+}
@@ -0,0 +1,317 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import {
+  eventObject,
+  eventTreasuryObject,
+  ticketObject,
+} from '../common/sui/testing/move-fixtures';
+import { EventsService } from '../events/events.service';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { TicketsService } from '../tickets/tickets.service';
+import { TierStore } from '../tiers/tier.store';
+import { TiersService } from '../tiers/tiers.service';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { TransactionsService } from '../transactions/transactions.service';
+import { RefundCampaignStore } from './refund-campaign.store';
+import { RefundCampaignsService } from './refund-campaigns.service';
+import { RefundsService } from './refunds.service';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const TREASURY_ID = normalizeSuiAddress('0x7e');
+const POOL_ID = normalizeSuiAddress('0x9001');
+const FIRST = normalizeSuiAddress('0x71');
+const SECOND = normalizeSuiAddress('0x72');
+const REFUNDED = normalizeSuiAddress('0x73');
+const ALICE = normalizeSuiAddress('0xa1');
+const BOB = normalizeSuiAddress('0xb0');
+
+describe('RefundCampaignsService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let indexer: IndexerService;
+  let campaigns: RefundCampaignsService;
+  let serialize: jest.SpyInstance;
+
+  function setTreasury(balance: string, locked: string) {
+    client.setObject(
+      eventTreasuryObject(TREASURY_ID, {
+        event_id: EVENT_ID,
+        balance,
+        locked_for_refunds: locked,
+      }),
+    );
+  }
+
+  function mint(ticketId: string, owner: string) {
+    client.addEvents(
+      recordedEvent('tickets::TicketMinted', {
+        ticket_id: ticketId,
+        event_id: EVENT_ID,
+        owner,
+      }),
+    );
+  }
+
+  function cancel() {
+    client.setObject(eventObject(EVENT_ID, { status: 4 }));
+    client.addEvents(
+      recordedEvent('events::EventCancelled', {
+        event_id: EVENT_ID,
+        reason: 'Venue unavailable',
+        timestamp: '1700000500000',
+      }),
+    );
+  }
+
+  async function settled() {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        EventsService,
+        TicketsService,
+        ObjectResolverService,
+        TierStore,
+        TiersService,
+        TransactionsService,
+        RefundCampaignStore,
+        RefundsService,
+        RefundCampaignsService,
+      ],
+    }).compile();
+    await module.init();
+
+    indexer = module.get(IndexerService);
+    campaigns = module.get(RefundCampaignsService);
+    serialize = jest
+      .spyOn(module.get(TransactionsService), 'serialize')
+      .mockImplementation((_tx: Transaction, sender: string) =>
+        Promise.resolve({ sender, txBytes: 'dHg=' }),
+      );
+
+    const created = recordedEvent('events::EventCreated', {
+      event_id: EVENT_ID,
+      organizer: '0x0a',
+    });
+    client.addEvents(created);
+    client.transactions.set(created.id.txDigest, {
+      digest: created.id.txDigest,
+      objectChanges: [
+        {
+          type: 'created',
+          objectId: TREASURY_ID,
+          objectType: `${FAKE_PACKAGE_ID}::payments::EventTreasury`,
+        },
+        {
+          type: 'created',
+          objectId: POOL_ID,
+          objectType: `${FAKE_PACKAGE_ID}::tickets::TicketPool`,
+        },
+      ],
+    } as SuiTransactionBlockResponse);
+    client.setObject(eventObject(EVENT_ID));
+
+    mint(FIRST, ALICE);
+    mint(SECOND, BOB);
+    mint(REFUNDED, BOB);
+    client.setObject(ticketObject(FIRST, { event_id: EVENT_ID, owner: ALICE }));
+    client.setObject(ticketObject(SECOND, { event_id: EVENT_ID, owner: BOB }));
+    client.addEvents(
+      recordedEvent('tickets::TicketRefunded', {
+        ticket_id: REFUNDED,
+        event_id: EVENT_ID,
+        owner: BOB,
+        refund_amount: '1000000000',
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('has no campaign until the event is cancelled', async () => {
+    setTreasury('1500000000', '1400000000');
+    await indexer.syncOnce();
+
+    await expect(campaigns.getCampaign(EVENT_ID)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('lists outstanding tickets against what the treasury can still pay', async () => {
+    setTreasury('1500000000', '1400000000');
+    cancel();
+    await indexer.syncOnce();
+
+    const campaign = await campaigns.getCampaign(EVENT_ID);
+
+    expect(campaign).toMatchObject({
+      eventId: EVENT_ID,
+      status: 'shortfall',
+      reason: 'Venue unavailable',
+      cancelledAt: 1700000500000,
+      ticketsSold: 3,
+      ticketsRefunded: 1,
+      refunded: { mist: '1000000000', sui: '1' },
+      treasuryBalance: { mist: '1500000000', sui: '1.5' },
+      lockedForRefunds: { mist: '1400000000', sui: '1.4' },
+      ticketsUnrefundable: 1,
+      shortfall: { mist: '500000000', sui: '0.5' },
+    });
+    expect(campaign.completedAt).toBeUndefined();
+    expect(campaign.outstanding).toEqual([
+      { ticketId: FIRST, owner: ALICE, refundable: true, blockedBy: [] },
+      {
+        ticketId: SECOND,
+        owner: BOB,
+        refundable: false,
+        blockedBy: ['EventTreasury holds 0.5 SUI, less than the 1 SUI refund'],
+      },
+    ]);
+  });
+
+  it('leaves validated tickets out of the treasury shortfall', async () => {
+    setTreasury('500000000', '0');
+    client.setObject(
+      ticketObject(FIRST, {
+        event_id: EVENT_ID,
+        owner: ALICE,
+        validation: { is_validated: true },
+      }),
+    );
+    cancel();
+    await indexer.syncOnce();
+
+    await expect(campaigns.getCampaign(EVENT_ID)).resolves.toMatchObject({
+      status: 'shortfall',
+      ticketsUnrefundable: 2,
+      shortfall: { mist: '500000000', sui: '0.5' },
+    });
+  });
+
+  it('builds refund transactions signed by each refundable ticket owner', async () => {
+    setTreasury('1500000000', '1400000000');
+    cancel();
+    await indexer.syncOnce();
+
+    const result = await campaigns.buildRefundTransactions(EVENT_ID);
+
+    expect(result.transactions).toEqual([
+      { ticketId: FIRST, sender: ALICE, txBytes: 'dHg=' },
+    ]);
+    expect(result.skipped.map((ticket) => ticket.ticketId)).toEqual([SECOND]);
+
+    const [tx] = serialize.mock.calls[0] as [Transaction];
+    const call = tx.getData().commands[0].MoveCall!;
+    expect(`${call.module}::${call.function}`).toBe('tickets::refund_ticket');
+  });
+
+  it('is active while the treasury covers every outstanding refund', async () => {
+    setTreasury('2000000000', '1950000000');
+    cancel();
+    await indexer.syncOnce();
+
+    await expect(campaigns.getCampaign(EVENT_ID)).resolves.toMatchObject({
+      status: 'active',
+      ticketsUnrefundable: 0,
+      shortfall: { mist: '0', sui: '0' },
+    });
+  });
+
+  it('reports a shortfall, not completion, when the treasury runs dry first', async () => {
+    setTreasury('1500000000', '1400000000');
+    cancel();
+    await indexer.syncOnce();
+
+    setTreasury('500000000', '0');
+    client.addEvents(
+      recordedEvent('tickets::TicketRefunded', {
+        ticket_id: FIRST,
+        event_id: EVENT_ID,
+        owner: ALICE,
+        refund_amount: '1000000000',
+      }),
+    );
+    await indexer.syncOnce();
+    await settled();
+
+    expect(module.get(RefundCampaignStore).get(EVENT_ID)?.completedAt).toBe(
+      null,
+    );
+    const campaign = await campaigns.getCampaign(EVENT_ID);
+    expect(campaign).toMatchObject({
+      status: 'shortfall',
+      ticketsRefunded: 2,
+      ticketsUnrefundable: 1,
+      shortfall: { mist: '500000000', sui: '0.5' },
+      outstanding: [{ ticketId: SECOND, refundable: false }],
+    });
+    expect(campaign.completedAt).toBeUndefined();
+  });
+
+  it('completes the campaign once only validated tickets remain', async () => {
+    client.setObject(
+      ticketObject(SECOND, {
+        event_id: EVENT_ID,
+        owner: BOB,
+        validation: { is_validated: true },
+      }),
+    );
+    setTreasury('1500000000', '1400000000');
+    cancel();
+    await indexer.syncOnce();
+
+    setTreasury('500000000', '400000000');
+    client.addEvents(
+      recordedEvent('tickets::TicketRefunded', {
+        ticket_id: FIRST,
+        event_id: EVENT_ID,
+        owner: ALICE,
+        refund_amount: '1000000000',
+      }),
+    );
+    await indexer.syncOnce();
+    await settled();
+
+    const campaign = module.get(RefundCampaignStore).get(EVENT_ID);
+    expect(campaign?.completedAt).toEqual(expect.any(Number));
+    await expect(campaigns.getCampaign(EVENT_ID)).resolves.toMatchObject({
+      status: 'completed',
+      ticketsRefunded: 2,
+      ticketsUnrefundable: 1,
+      shortfall: { mist: '0', sui: '0' },
+      outstanding: [{ ticketId: SECOND, refundable: false }],
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { EventTreasuryObject } from '../common/sui/move-objects';
+import { EventResponseDto } from '../events/dto/event.dto';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import {
+  EventCancelledEvent,
+  TicketMintedEvent,
+  TicketRefundedEvent,
+} from '../indexer/indexer.types';
+import { suiAmount, toMist } from '../payments/mist';
+import { TicketsService } from '../tickets/tickets.service';
+import { TransactionsService } from '../transactions/transactions.service';
+import {
+  OutstandingRefundDto,
+  RefundCampaignResponseDto,
+  RefundTransactionsResponseDto,
+} from './dto/refund.dto';
+import { RefundCampaign, RefundCampaignStore } from './refund-campaign.store';
+import { checkRefundEligibility } from './refund-eligibility';
+import { RefundsService } from './refunds.service';
+
+/**
+ * Tracks refunds of cancelled events: a campaign opens on EventCancelled,
+ * lists the tickets still to be refunded and completes once every ticket
+ * that can still be refunded has been. A treasury that runs dry first
+ * leaves the campaign in `shortfall` rather than completed.
+ */
+@Injectable()
+export class RefundCampaignsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(RefundCampaignsService.name);
+
+  constructor(
+    private readonly indexerService: IndexerService,
+    private readonly indexerStore: IndexerStore,
+    private readonly campaignStore: RefundCampaignStore,
+    private readonly refundsService: RefundsService,
+    private readonly ticketsService: TicketsService,
+    private readonly transactionsService: TransactionsService,
+  ) {}
+
+  onApplicationBootstrap() {
+    // Cancellations indexed before the tracker existed, or while it was down
+    for (const cancelled of this.indexerStore.findEvents<EventCancelledEvent>(
+      'events::EventCancelled',
+    )) {
+      this.openCampaign(cancelled.data);
+    }
+
+    // events$ completes when the indexer shuts down, ending the subscription
+    this.indexerService.events$.subscribe((event) => {
+      if (event.eventType === 'events::EventCancelled') {
+        this.openCampaign(event.data as unknown as EventCancelledEvent);
+      } else if (event.eventType === 'tickets::TicketRefunded') {
+        const { event_id: eventId } =
+          event.data as unknown as TicketRefundedEvent;
+        this.refreshCompletion(eventId).catch((error: Error) =>
+          this.logger.warn(
+            `Could not check refund campaign ${eventId}: ${error.message}`,
+          ),
+        );
+      }
+    });
+  }
+
+  async getCampaign(id: string): Promise<RefundCampaignResponseDto> {
+    const eventId = normalizeSuiAddress(id);
+    const campaign = this.requireCampaign(eventId);
+    const event = await this.refundsService.requireEvent(eventId);
+    const treasury = await this.refundsService.readTreasury(eventId);
+    const {
+      tickets: outstanding,
+      shortfall,
+      awaiting,
+    } = await this.outstandingRefunds(event, treasury);
+    const current = this.completeIfSettled(campaign, awaiting);
+
+    const sold = this.indexerStore.countEvents('tickets::TicketMinted', {
+      event_id: eventId,
+    });
+    const refunds = this.indexerStore.findEvents<TicketRefundedEvent>(
+      'tickets::TicketRefunded',
+      { event_id: eventId },
+    );
+    const refunded = refunds.reduce(
+      (sum, refund) => sum + toMist(refund.data.refund_amount),
+      0n,
+    );
+
+    return {
+      eventId,
+      status:
+        current.completedAt !== null
+          ? 'completed'
+          : shortfall > 0n
+            ? 'shortfall'
+            : 'active',
+      reason: current.reason,
+      cancelledAt: current.cancelledAt,
+      openedAt: current.openedAt,
+      completedAt: current.completedAt ?? undefined,
+      ticketsSold: sold,
+      ticketsRefunded: refunds.length,
+      refunded: suiAmount(refunded),
+      treasuryBalance: suiAmount(toMist(treasury.balance)),
+      lockedForRefunds: suiAmount(toMist(treasury.locked_for_refunds)),
+      ticketsUnrefundable: outstanding.filter((ticket) => !ticket.refundable)
+        .length,
+      shortfall: suiAmount(shortfall),
+      outstanding,
+    };
+  }
+
+  /**
+   * Build one unsigned refund_ticket transaction per refundable ticket,
+   * each to be signed by the ticket's owner.
+   */
+  async buildRefundTransactions(
+    id: string,
+  ): Promise<RefundTransactionsResponseDto> {
+    const eventId = normalizeSuiAddress(id);
+    this.requireCampaign(eventId);
+    const event = await this.refundsService.requireEvent(eventId);
+    const treasury = await this.refundsService.readTreasury(eventId);
+
+    const response: RefundTransactionsResponseDto = {
+      eventId,
+      transactions: [],
+      skipped: [],
+    };
+    const { tickets } = await this.outstandingRefunds(event, treasury);
+    for (const ticket of tickets) {
+      if (!ticket.refundable) {
+        response.skipped.push(ticket);
+        continue;
+      }
+      const tx = await this.transactionsService.refundTicket({
+        sender: ticket.owner,
+        ticketId: ticket.ticketId,
+      });
+      response.transactions.push({ ticketId: ticket.ticketId, ...tx });
+    }
+    return response;
+  }
+
+  private openCampaign(cancelled: EventCancelledEvent) {
+    const opened = this.campaignStore.open({
+      eventId: cancelled.event_id,
+      reason: cancelled.reason,
+      cancelledAt: Number(cancelled.timestamp),
+    });
+    if (opened) {
+      this.logger.log(`Opened refund campaign for ${cancelled.event_id}`);
+    }
+  }
+
+  private async refreshCompletion(eventId: string) {
+    const campaign = this.campaignStore.get(eventId);
+    if (campaign && campaign.completedAt === null) {
+      const { awaiting } = await this.outstandingRefunds(
+        await this.refundsService.requireEvent(eventId),
+        await this.refundsService.readTreasury(eventId),
+      );
+      this.completeIfSettled(campaign, awaiting);
+    }
+  }
+
+  private completeIfSettled(
+    campaign: RefundCampaign,
+    awaiting: number,
+  ): RefundCampaign {
+    if (campaign.completedAt !== null || awaiting > 0) {
+      return campaign;
+    }
+    this.campaignStore.complete(campaign.eventId);
+    this.logger.log(`Refund campaign for ${campaign.eventId} completed`);
+    return this.campaignStore.get(campaign.eventId)!;
+  }
+
+  /**
+   * Unrefunded tickets in mint order. Each refund drains the treasury, so
+   * balance is checked against what the tickets before it leave behind.
+   * Refunds pay the full ticket price while the treasury only received the
+   * organizer share, so the last tickets of a campaign can go unfunded;
+   * `shortfall` is what the treasury lacks to refund them. `awaiting`
+   * counts tickets that are refundable or blocked only by the balance;
+   * validated tickets never become refundable and do not hold a campaign
+   * open.
+   */
+  private async outstandingRefunds(
+    event: EventResponseDto,
+    treasury: EventTreasuryObject,
+  ): Promise<{
+    tickets: OutstandingRefundDto[];
+    shortfall: bigint;
+    awaiting: number;
+  }> {
+    const refunded = new Set(
+      this.indexerStore
+        .findEvents<TicketRefundedEvent>('tickets::TicketRefunded', {
+          event_id: event.id,
+        })
+        .map((refund) => refund.data.ticket_id),
+    );
+    const ticketIds = this.indexerStore
+      .findEvents<TicketMintedEvent>('tickets::TicketMinted', {
+        event_id: event.id,
+      })
+      .map((minted) => minted.data.ticket_id)
+      .filter((ticketId) => !refunded.has(ticketId));
+
+    // Tickets refunded but not indexed yet no longer resolve and drop out
+    const tickets = await this.ticketsService.getTickets(ticketIds);
+    let balance = toMist(treasury.balance);
+    let shortfall = 0n;
+    let awaiting = 0;
+    const now = Date.now();
+
+    const outstanding = tickets.map((ticket) => {
+      const result = checkRefundEligibility({
+        sender: ticket.owner,
+        ticket,
+        event,
+        treasuryBalance: balance,
+        now,
+      });
+      const failed = result.conditions.filter((condition) => !condition.passed);
+      if (result.eligible) {
+        balance -= result.refundAmount;
+        awaiting++;
+      } else if (
+        failed.every((condition) => condition.condition === 'treasury_balance')
+      ) {
+        shortfall += result.refundAmount;
+        awaiting++;
+      }
+      return {
+        ticketId: ticket.id,
+        owner: ticket.owner,
+        refundable: result.eligible,
+        blockedBy: failed.map((condition) => condition.detail),
+      };
+    });
+    // Whatever is left is paid towards the first unfunded refund
+    if (shortfall > 0n) {
+      shortfall -= balance;
+    }
+    return { tickets: outstanding, shortfall, awaiting };
+  }
+
+  private requireCampaign(eventId: string): RefundCampaign {
+    const campaign = this.campaignStore.get(eventId);
+    if (!campaign) {
+      throw new NotFoundException(
+        `No refund campaign for event ${eventId}; it has not been cancelled`,
+      );
+    }
+    return campaign;
+  }
+}
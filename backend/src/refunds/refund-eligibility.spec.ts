@@ -0,0 +1,104 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { RefundCheckInput, checkRefundEligibility } from './refund-eligibility';
+
+const OWNER = normalizeSuiAddress('0xa1');
+const DEADLINE = Date.UTC(2026, 4, 1);
+
+function input(overrides: Partial<RefundCheckInput> = {}): RefundCheckInput {
+  return {
+    sender: OWNER,
+    ticket: { owner: OWNER, isValidated: false },
+    event: {
+      status: 'open',
+      config: {
+        startTime: String(DEADLINE + 86_400_000),
+        endTime: String(DEADLINE + 90_000_000),
+        registrationDeadline: String(DEADLINE),
+        capacity: 100,
+        ticketPrice: '1000000000',
+        requiresApproval: false,
+        isTransferable: true,
+        refundDeadline: String(DEADLINE),
+      },
+    },
+    treasuryBalance: 5_000_000_000n,
+    now: DEADLINE - 1,
+    ...overrides,
+  };
+}
+
+function failing(overrides: Partial<RefundCheckInput>) {
+  return checkRefundEligibility(input(overrides))
+    .conditions.filter((condition) => !condition.passed)
+    .map((condition) => condition.condition);
+}
+
+describe('checkRefundEligibility', () => {
+  it('passes every condition for the owner of an unused ticket before the deadline', () => {
+    const result = checkRefundEligibility(input({ sender: '0xa1' }));
+
+    expect(result.eligible).toBe(true);
+    expect(result.refundAmount).toBe(1_000_000_000n);
+    expect(result.conditions.map((condition) => condition.condition)).toEqual([
+      'owner',
+      'refund_deadline',
+      'validation',
+      'treasury_balance',
+    ]);
+  });
+
+  it('refuses anyone but the owner', () => {
+    expect(failing({ sender: normalizeSuiAddress('0xb0') })).toEqual(['owner']);
+  });
+
+  it('refuses open events once the refund deadline has passed', () => {
+    const result = checkRefundEligibility(input({ now: DEADLINE + 1 }));
+
+    expect(result.eligible).toBe(false);
+    expect(result.conditions[1]).toEqual({
+      condition: 'refund_deadline',
+      passed: false,
+      detail: 'Refund deadline passed at 2026-05-01T00:00:00.000Z',
+    });
+  });
+
+  it('ignores the deadline once the event is cancelled', () => {
+    const base = input();
+    expect(
+      failing({
+        event: { ...base.event, status: 'cancelled' },
+        now: DEADLINE + 1,
+      }),
+    ).toEqual([]);
+  });
+
+  it('refuses completed events', () => {
+    const base = input();
+    expect(failing({ event: { ...base.event, status: 'completed' } })).toEqual([
+      'refund_deadline',
+    ]);
+  });
+
+  it('refuses validated tickets', () => {
+    expect(
+      failing({
+        ticket: {
+          owner: OWNER,
+          isValidated: true,
+          validatedAt: String(DEADLINE - 10),
+        },
+      }),
+    ).toEqual(['validation']);
+  });
+
+  it('refuses when the treasury cannot cover the ticket price', () => {
+    const result = checkRefundEligibility(
+      input({ treasuryBalance: 400_000_000n }),
+    );
+
+    expect(result.eligible).toBe(false);
+    expect(result.conditions[3].detail).toBe(
+      'EventTreasury holds 0.4 SUI, less than the 1 SUI refund',
+    );
+  });
+});
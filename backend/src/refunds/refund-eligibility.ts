@@ -0,0 +1,134 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { EventResponseDto } from '../events/dto/event.dto';
+import { formatSui, toMist } from '../payments/mist';
+import { TicketResponseDto } from '../tickets/dto/ticket.dto';
+
+/** The checks tickets::refund_ticket asserts, in the order it asserts them */
+export const REFUND_CONDITIONS = [
+  'owner',
+  'refund_deadline',
+  'validation',
+  'treasury_balance',
+] as const;
+
+export type RefundConditionName = (typeof REFUND_CONDITIONS)[number];
+
+export interface RefundCondition {
+  condition: RefundConditionName;
+  passed: boolean;
+  detail: string;
+}
+
+export interface RefundEligibility {
+  eligible: boolean;
+  /** refund_ticket pays back the event's current ticket price */
+  refundAmount: bigint;
+  conditions: RefundCondition[];
+}
+
+export interface RefundCheckInput {
+  sender: string;
+  ticket: Pick<TicketResponseDto, 'owner' | 'isValidated' | 'validatedAt'>;
+  event: Pick<EventResponseDto, 'status' | 'config'>;
+  treasuryBalance: bigint;
+  now: number;
+}
+
+/**
+ * Explain whether `sender` can refund the ticket right now. On chain the
+ * deadline is compared with the epoch start, which never runs ahead of the
+ * wall clock, so a pass here is never refused for lateness on chain.
+ */
+export function checkRefundEligibility(
+  input: RefundCheckInput,
+): RefundEligibility {
+  const { ticket, event, treasuryBalance } = input;
+  const refundAmount = toMist(event.config.ticketPrice);
+
+  const conditions: RefundCondition[] = [
+    ownerCondition(input.sender, ticket.owner),
+    deadlineCondition(event, input.now),
+    validationCondition(ticket),
+    treasuryCondition(treasuryBalance, refundAmount),
+  ];
+
+  return {
+    eligible: conditions.every((condition) => condition.passed),
+    refundAmount,
+    conditions,
+  };
+}
+
+function ownerCondition(sender: string, owner: string): RefundCondition {
+  return normalizeSuiAddress(sender) === normalizeSuiAddress(owner)
+    ? { condition: 'owner', passed: true, detail: 'Sender owns the ticket' }
+    : {
+        condition: 'owner',
+        passed: false,
+        detail: `Ticket is owned by ${owner}; only its owner can refund it`,
+      };
+}
+
+/** Mirrors events::can_refund */
+function deadlineCondition(
+  event: RefundCheckInput['event'],
+  now: number,
+): RefundCondition {
+  const deadline = isoTime(event.config.refundDeadline);
+  if (event.status === 'cancelled') {
+    return {
+      condition: 'refund_deadline',
+      passed: true,
+      detail: 'Event was cancelled, so the refund deadline no longer applies',
+    };
+  }
+  if (event.status !== 'open') {
+    return {
+      condition: 'refund_deadline',
+      passed: false,
+      detail: `Event is ${event.status}; refunds are only possible while it is open or once it is cancelled`,
+    };
+  }
+  return now <= Number(event.config.refundDeadline)
+    ? {
+        condition: 'refund_deadline',
+        passed: true,
+        detail: `Refunds are open until ${deadline}`,
+      }
+    : {
+        condition: 'refund_deadline',
+        passed: false,
+        detail: `Refund deadline passed at ${deadline}`,
+      };
+}
+
+function validationCondition(
+  ticket: RefundCheckInput['ticket'],
+): RefundCondition {
+  if (!ticket.isValidated) {
+    return {
+      condition: 'validation',
+      passed: true,
+      detail: 'Ticket has not been validated',
+    };
+  }
+  const at = ticket.validatedAt ? ` at ${isoTime(ticket.validatedAt)}` : '';
+  return {
+    condition: 'validation',
+    passed: false,
+    detail: `Ticket was validated${at}; used tickets cannot be refunded`,
+  };
+}
+
+function treasuryCondition(balance: bigint, amount: bigint): RefundCondition {
+  const passed = balance >= amount;
+  return {
+    condition: 'treasury_balance',
+    passed,
+    detail: `EventTreasury holds ${formatSui(balance)} SUI, ${passed ? 'covering' : 'less than'} the ${formatSui(amount)} SUI refund`,
+  };
+}
+
+function isoTime(ms: string): string {
+  return new Date(Number(ms)).toISOString();
+}
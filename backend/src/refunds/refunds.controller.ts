@@ -0,0 +1,26 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { RefundsService } from './refunds.service';
+import {
+  RefundEligibilityQueryDto,
+  RefundEligibilityResponseDto,
+} from './dto/refund.dto';
+
+@ApiTags('refunds')
+@Controller('tickets')
+export class RefundsController {
+  constructor(private readonly refundsService: RefundsService) {}
+
+  @Get(':id/refund-eligibility')
+  @ApiOperation({
+    summary: 'Explain whether a sender can refund a ticket right now',
+  })
+  @ApiParam({ name: 'id', description: 'Ticket object ID' })
+  @ApiResponse({ status: 200, type: RefundEligibilityResponseDto })
+  async getEligibility(
+    @Param('id') id: string,
+    @Query() query: RefundEligibilityQueryDto,
+  ): Promise<RefundEligibilityResponseDto> {
+    return this.refundsService.getEligibility(id, query.sender);
+  }
+}
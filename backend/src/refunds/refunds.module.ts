@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { EventsModule } from '../events/events.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { TicketsModule } from '../tickets/tickets.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { RefundCampaignStore } from './refund-campaign.store';
+import { RefundCampaignsController } from './refund-campaigns.controller';
+import { RefundCampaignsService } from './refund-campaigns.service';
+import { RefundsController } from './refunds.controller';
+import { RefundsService } from './refunds.service';
+
+@Module({
+  imports: [
+    IndexerModule,
+    EventsModule,
+    TicketsModule,
+    TransactionsModule,
+    AuthModule,
+  ],
+  controllers: [RefundsController, RefundCampaignsController],
+  providers: [RefundsService, RefundCampaignsService, RefundCampaignStore],
+})
+export class RefundsModule {}
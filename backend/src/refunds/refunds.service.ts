@@ -0,0 +1,78 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { decodeMoveObject } from '../common/sui/move-decoder';
+import {
+  EVENT_TREASURY,
+  EventTreasuryObject,
+} from '../common/sui/move-objects';
+import { SuiService } from '../common/sui/sui.service';
+import { EventResponseDto } from '../events/dto/event.dto';
+import { EventsService } from '../events/events.service';
+import { suiAmount, toMist } from '../payments/mist';
+import { TicketsService } from '../tickets/tickets.service';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { RefundEligibilityResponseDto } from './dto/refund.dto';
+import { checkRefundEligibility } from './refund-eligibility';
+
+@Injectable()
+export class RefundsService {
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly eventsService: EventsService,
+    private readonly ticketsService: TicketsService,
+    private readonly resolver: ObjectResolverService,
+  ) {}
+
+  async getEligibility(
+    ticketId: string,
+    sender: string,
+  ): Promise<RefundEligibilityResponseDto> {
+    const ticket = await this.ticketsService.getTicket(ticketId);
+    if (!ticket) {
+      throw new NotFoundException(`Ticket ${ticketId} not found`);
+    }
+    const event = await this.requireEvent(ticket.eventId);
+    const treasury = await this.readTreasury(ticket.eventId);
+
+    const result = checkRefundEligibility({
+      sender,
+      ticket,
+      event,
+      treasuryBalance: toMist(treasury.balance),
+      now: Date.now(),
+    });
+    return {
+      ticketId,
+      eventId: ticket.eventId,
+      sender,
+      eligible: result.eligible,
+      refundAmount: suiAmount(result.refundAmount),
+      conditions: result.conditions,
+    };
+  }
+
+  async requireEvent(eventId: string): Promise<EventResponseDto> {
+    const event = await this.eventsService.getEvent(eventId);
+    if (!event) {
+      throw new NotFoundException(`Event ${eventId} not found`);
+    }
+    return event;
+  }
+
+  /**
+   * Read the event's treasury past the object cache: no indexed event
+   * names the treasury, so refunds and payments never invalidate it.
+   */
+  async readTreasury(eventId: string): Promise<EventTreasuryObject> {
+    const treasuryId = await this.resolver.resolveEventTreasury(eventId);
+    this.suiService.invalidateObjects([treasuryId]);
+    const treasury = decodeMoveObject(
+      await this.suiService.getObject(treasuryId),
+      this.suiService.getPackageIds(),
+      EVENT_TREASURY,
+    );
+    if (!treasury) {
+      throw new NotFoundException(`EventTreasury ${treasuryId} not found`);
+    }
+    return treasury;
+  }
+}
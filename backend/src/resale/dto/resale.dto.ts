@@ -0,0 +1,199 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  IsHexBytes,
+  IsSuiAddress,
+} from '../../common/validation/sui.validators';
+import { SuiAmountDto } from '../../payments/dto/payments.dto';
+import { LISTING_STATUSES } from '../resale.store';
+import type { ListingStatus, RemovalReason } from '../resale.store';
+
+export class CreateListingDto {
+  @ApiProperty({ description: 'Ticket object ID' })
+  @IsSuiAddress()
+  ticketId: string;
+
+  @ApiProperty({ description: 'Asking price in MIST' })
+  @IsNumberString({ no_symbols: true })
+  price: string;
+
+  @ApiPropertyOptional({
+    description: 'When the listing lapses (ms); defaults to the event start',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  expiresAt?: number;
+}
+
+export class ListingQueryDto {
+  @ApiPropertyOptional({ description: 'Only listings for this event' })
+  @IsOptional()
+  @IsSuiAddress()
+  eventId?: string;
+
+  @ApiPropertyOptional({ description: 'Only listings by this seller' })
+  @IsOptional()
+  @IsSuiAddress()
+  seller?: string;
+
+  @ApiPropertyOptional({ enum: LISTING_STATUSES, default: 'active' })
+  @IsOptional()
+  @IsIn(LISTING_STATUSES)
+  status?: ListingStatus = 'active';
+}
+
+export class PurchaseListingDto {
+  @ApiProperty({
+    description:
+      "Hex-encoded hash of a QR secret only the buyer knows; replaces the seller's",
+  })
+  @IsHexBytes()
+  qrCodeHash: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Hex-encoded payload the buyer sealed with POST /tickets/payload; without one the seller's payload is cleared",
+  })
+  @IsOptional()
+  @IsHexBytes()
+  encryptedData?: string;
+
+  @ApiPropertyOptional({
+    description: 'Seal key id from POST /tickets/payload',
+  })
+  @IsOptional()
+  @IsString()
+  sealKeyId?: string;
+}
+
+export class ConfirmPurchaseDto {
+  @ApiProperty({ description: "Buyer's signature over the swap txBytes" })
+  @IsString()
+  @IsNotEmpty()
+  signature: string;
+}
+
+export class ResalePolicyDto {
+  @ApiProperty({
+    description: 'Highest markup over the purchase price, in basis points',
+    minimum: 0,
+    maximum: 100_000,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(100_000)
+  maxMarkupBps: number;
+}
+
+export class ResalePolicyResponseDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  maxMarkupBps: number;
+
+  @ApiProperty({ description: 'Whether the platform default applies' })
+  isDefault: boolean;
+
+  @ApiPropertyOptional()
+  updatedBy?: string;
+
+  @ApiPropertyOptional()
+  updatedAt?: number;
+}
+
+export class PendingPurchaseDto {
+  @ApiProperty()
+  buyer: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Swap transaction both the seller and the buyer sign; shown to them only',
+  })
+  txBytes?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Buyer's signature, once given, for the seller to countersign; shown to the seller and buyer only",
+  })
+  buyerSignature?: string;
+
+  @ApiProperty({ description: 'Whether the buyer has signed the swap' })
+  buyerSigned: boolean;
+
+  @ApiProperty({ description: 'When the hold on the listing lapses (ms)' })
+  heldUntil: number;
+}
+
+export class ResaleListingResponseDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty()
+  ticketId: string;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  seller: string;
+
+  @ApiProperty()
+  price: SuiAmountDto;
+
+  @ApiProperty({ description: 'What the ticket originally sold for' })
+  purchasePrice: SuiAmountDto;
+
+  @ApiProperty({ enum: LISTING_STATUSES })
+  status: ListingStatus;
+
+  @ApiProperty()
+  createdAt: number;
+
+  @ApiProperty()
+  expiresAt: number;
+
+  @ApiPropertyOptional()
+  closedAt?: number;
+
+  @ApiPropertyOptional({
+    enum: ['validated', 'refunded', 'event_cancelled', 'transferred'],
+    description: 'Why the platform removed the listing',
+  })
+  closeReason?: RemovalReason;
+
+  @ApiPropertyOptional({ type: PendingPurchaseDto })
+  pendingPurchase?: PendingPurchaseDto;
+}
+
+export class ResaleListingListResponseDto {
+  @ApiProperty({ type: [ResaleListingResponseDto] })
+  listings: ResaleListingResponseDto[];
+}
+
+export class ResalePurchaseResponseDto {
+  @ApiProperty()
+  listingId: number;
+
+  @ApiProperty({ description: 'Transaction sender, who signs second' })
+  seller: string;
+
+  @ApiProperty({ description: 'Gas owner, who pays and signs first' })
+  buyer: string;
+
+  @ApiProperty({ description: 'Base64 BCS TransactionData, ready to sign' })
+  txBytes: string;
+
+  @ApiProperty({ description: 'When the hold on the listing lapses (ms)' })
+  heldUntil: number;
+}
@@ -0,0 +1,32 @@
+import { Body, Controller, Get, Param, Put } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentAddress, EventRoles } from '../auth/auth.decorators';
+import { ResaleService } from './resale.service';
+import { ResalePolicyDto, ResalePolicyResponseDto } from './dto/resale.dto';
+
+@ApiTags('resale')
+@Controller('events')
+export class ResalePolicyController {
+  constructor(private readonly resaleService: ResaleService) {}
+
+  @Get(':id/resale-policy')
+  @ApiOperation({ summary: 'Get the resale price cap for an event' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: ResalePolicyResponseDto })
+  getPolicy(@Param('id') id: string): ResalePolicyResponseDto {
+    return this.resaleService.getPolicy(id);
+  }
+
+  @Put(':id/resale-policy')
+  @EventRoles('id', 'organizer')
+  @ApiOperation({ summary: 'Set the resale price cap for an event' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: ResalePolicyResponseDto })
+  setPolicy(
+    @Param('id') id: string,
+    @Body() dto: ResalePolicyDto,
+    @CurrentAddress() address: string,
+  ): ResalePolicyResponseDto {
+    return this.resaleService.setPolicy(id, dto.maxMarkupBps, address);
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Authenticated, CurrentAddress } from '../auth/auth.decorators';
+import { ResaleService } from './resale.service';
+import {
+  ConfirmPurchaseDto,
+  CreateListingDto,
+  ListingQueryDto,
+  PendingPurchaseDto,
+  PurchaseListingDto,
+  ResaleListingListResponseDto,
+  ResaleListingResponseDto,
+  ResalePurchaseResponseDto,
+} from './dto/resale.dto';
+
+@ApiTags('resale')
+@Controller('resale/listings')
+export class ResaleController {
+  constructor(private readonly resaleService: ResaleService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List resale listings' })
+  @ApiResponse({ status: 200, type: ResaleListingListResponseDto })
+  listListings(@Query() query: ListingQueryDto): ResaleListingListResponseDto {
+    return this.resaleService.listListings(query);
+  }
+
+  @Post()
+  @Authenticated()
+  @ApiOperation({ summary: 'List a ticket you own for resale' })
+  @ApiResponse({ status: 201, type: ResaleListingResponseDto })
+  async createListing(
+    @Body() dto: CreateListingDto,
+    @CurrentAddress() address: string,
+  ): Promise<ResaleListingResponseDto> {
+    return this.resaleService.createListing(address, dto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a resale listing' })
+  @ApiParam({ name: 'id', description: 'Listing ID' })
+  @ApiResponse({ status: 200, type: ResaleListingResponseDto })
+  getListing(@Param('id', ParseIntPipe) id: number): ResaleListingResponseDto {
+    return this.resaleService.getListing(id);
+  }
+
+  @Delete(':id')
+  @Authenticated()
+  @ApiOperation({ summary: 'Withdraw your listing' })
+  @ApiParam({ name: 'id', description: 'Listing ID' })
+  @ApiResponse({ status: 200, type: ResaleListingResponseDto })
+  cancelListing(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentAddress() address: string,
+  ): ResaleListingResponseDto {
+    return this.resaleService.cancelListing(id, address);
+  }
+
+  @Post(':id/purchase')
+  @HttpCode(HttpStatus.OK)
+  @Authenticated()
+  @ApiOperation({
+    summary: 'Build the swap transaction and hold the listing for you',
+  })
+  @ApiParam({ name: 'id', description: 'Listing ID' })
+  @ApiResponse({ status: 200, type: ResalePurchaseResponseDto })
+  async purchase(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: PurchaseListingDto,
+    @CurrentAddress() address: string,
+  ): Promise<ResalePurchaseResponseDto> {
+    return this.resaleService.purchase(id, address, dto);
+  }
+
+  @Get(':id/purchase')
+  @Authenticated()
+  @ApiOperation({
+    summary: 'Get the held swap and escrowed signature, as seller or buyer',
+  })
+  @ApiParam({ name: 'id', description: 'Listing ID' })
+  @ApiResponse({ status: 200, type: PendingPurchaseDto })
+  getPendingPurchase(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentAddress() address: string,
+  ): PendingPurchaseDto {
+    return this.resaleService.getPendingPurchase(id, address);
+  }
+
+  @Post(':id/purchase/signature')
+  @HttpCode(HttpStatus.OK)
+  @Authenticated()
+  @ApiOperation({
+    summary: 'Escrow your signature on the swap for the seller to countersign',
+  })
+  @ApiParam({ name: 'id', description: 'Listing ID' })
+  @ApiResponse({ status: 200, type: ResaleListingResponseDto })
+  async confirmPurchase(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: ConfirmPurchaseDto,
+    @CurrentAddress() address: string,
+  ): Promise<ResaleListingResponseDto> {
+    return this.resaleService.confirmPurchase(id, address, dto.signature);
+  }
+}
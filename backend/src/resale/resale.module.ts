@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { EventsModule } from '../events/events.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { TicketsModule } from '../tickets/tickets.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { ResalePolicyController } from './resale-policy.controller';
+import { ResaleController } from './resale.controller';
+import { ResaleService } from './resale.service';
+import { ResaleStore } from './resale.store';
+
+@Module({
+  imports: [
+    IndexerModule,
+    EventsModule,
+    TicketsModule,
+    TransactionsModule,
+    AuthModule,
+  ],
+  controllers: [ResaleController, ResalePolicyController],
+  providers: [ResaleService, ResaleStore],
+})
+export class ResaleModule {}
@@ -0,0 +1,393 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { bcs } from '@mysten/sui/bcs';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction } from '@mysten/sui/transactions';
+import {
+  fromBase64,
+  fromHex,
+  normalizeSuiAddress,
+  toBase64,
+} from '@mysten/sui/utils';
+import { CheckInService } from '../check-in/check-in.service';
+import {
+  encodeQrPayload,
+  hashQrSecret,
+  qrSigningMessage,
+} from '../check-in/qr-payload';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import {
+  eventObject,
+  ticketObject,
+  userProfileObject,
+  validatorCapObject,
+} from '../common/sui/testing/move-fixtures';
+import { EventsService } from '../events/events.service';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { TicketsService } from '../tickets/tickets.service';
+import { TierStore } from '../tiers/tier.store';
+import { TiersService } from '../tiers/tiers.service';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { TransactionsService } from '../transactions/transactions.service';
+import { ResaleService, maxResalePrice } from './resale.service';
+import { ResaleStore } from './resale.store';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const TICKET_ID = normalizeSuiAddress('0x71');
+const PROFILE_ID = normalizeSuiAddress('0x90');
+const SELLER = normalizeSuiAddress('0x5e11');
+const STAFF = normalizeSuiAddress('0x57af');
+const SELLER_SECRET = 'c0ffee';
+const BUYER_SECRET = 'b0b5ec';
+const HOUR = 3_600_000;
+const SWAP_BYTES = toBase64(new Uint8Array([1, 2, 3, 4]));
+
+describe('ResaleService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let indexer: IndexerService;
+  let resale: ResaleService;
+  let buyer: Ed25519Keypair;
+  let serialize: jest.SpyInstance;
+  let startTime: number;
+
+  function index(eventType: string, data: Record<string, unknown>) {
+    client.addEvents(recordedEvent(eventType, data));
+    return indexer.syncOnce();
+  }
+
+  async function listTicket(price = '1100000000', expiresAt?: number) {
+    return resale.createListing(SELLER, {
+      ticketId: TICKET_ID,
+      price,
+      expiresAt,
+    });
+  }
+
+  function purchase(listingId: number, address = buyer.toSuiAddress()) {
+    return resale.purchase(listingId, address, {
+      qrCodeHash: hashQrSecret(BUYER_SECRET),
+    });
+  }
+
+  async function buyerSignedPayload(secret: string) {
+    const unsigned = { ticketId: TICKET_ID, secret, issuedAt: Date.now() };
+    const { signature } = await buyer.signPersonalMessage(
+      qrSigningMessage(unsigned),
+    );
+    return encodeQrPayload({ ...unsigned, signature });
+  }
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 4, 1) });
+    startTime = Date.now() + 48 * HOUR;
+    client = new FakeSuiClient();
+    buyer = Ed25519Keypair.generate();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+            resale: { defaultMaxMarkupBps: 1000, purchaseHoldMs: HOUR },
+            checkIn: { earlyEntryMs: HOUR, qrMaxAgeMs: 60_000 },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        EventsService,
+        TicketsService,
+        ObjectResolverService,
+        TierStore,
+        TiersService,
+        TransactionsService,
+        ResaleStore,
+        ResaleService,
+        CheckInService,
+      ],
+    }).compile();
+    await module.init();
+
+    indexer = module.get(IndexerService);
+    resale = module.get(ResaleService);
+    serialize = jest
+      .spyOn(module.get(TransactionsService), 'serialize')
+      .mockImplementation((_tx: Transaction, sender: string) =>
+        Promise.resolve({ sender, txBytes: SWAP_BYTES }),
+      );
+
+    client.setObject(
+      eventObject(EVENT_ID, { config: { start_time: String(startTime) } }),
+    );
+    client.setObject(
+      ticketObject(TICKET_ID, {
+        event_id: EVENT_ID,
+        owner: SELLER,
+        original_owner: SELLER,
+        metadata: {
+          qr_code_hash: Array.from(fromHex(hashQrSecret(SELLER_SECRET))),
+        },
+      }),
+    );
+    client.setObject(userProfileObject(PROFILE_ID, SELLER));
+    await index('tickets::TicketMinted', {
+      ticket_id: TICKET_ID,
+      event_id: EVENT_ID,
+      owner: SELLER,
+      price_paid: '1000000000',
+    });
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await module.close();
+  });
+
+  it('caps the markup over the purchase price', async () => {
+    expect(maxResalePrice(1_000_000_000n, 1000)).toBe(1_100_000_000n);
+
+    await expect(listTicket('1100000001')).rejects.toThrow(
+      'Price exceeds the resale cap of 1.1 SUI (1000 bps over the 1 SUI purchase price)',
+    );
+
+    resale.setPolicy(EVENT_ID, 2500, '0x0a');
+    const listing = await listTicket('1250000000');
+
+    expect(listing).toMatchObject({
+      ticketId: TICKET_ID,
+      seller: SELLER,
+      status: 'active',
+      price: { mist: '1250000000', sui: '1.25' },
+      purchasePrice: { mist: '1000000000', sui: '1' },
+      expiresAt: startTime,
+    });
+  });
+
+  it('only lists tickets the seller holds, once', async () => {
+    await expect(
+      resale.createListing(normalizeSuiAddress('0xbad'), {
+        ticketId: TICKET_ID,
+        price: '1000000000',
+      }),
+    ).rejects.toThrow(ForbiddenException);
+
+    await listTicket();
+    await expect(listTicket()).rejects.toThrow(ConflictException);
+  });
+
+  it('builds a swap paid by the buyer and escrows their signature', async () => {
+    const listing = await listTicket();
+    const held = await purchase(listing.id);
+
+    expect(held).toEqual({
+      listingId: listing.id,
+      seller: SELLER,
+      buyer: buyer.toSuiAddress(),
+      txBytes: SWAP_BYTES,
+      heldUntil: Date.now() + HOUR,
+    });
+    const [tx, sender] = serialize.mock.calls[0] as [Transaction, string];
+    expect(sender).toBe(SELLER);
+    expect(tx.getData().gasData.owner).toBe(buyer.toSuiAddress());
+
+    await expect(
+      purchase(listing.id, normalizeSuiAddress('0xb2')),
+    ).rejects.toThrow(ConflictException);
+
+    const forged = await Ed25519Keypair.generate().signTransaction(
+      Buffer.from(SWAP_BYTES, 'base64'),
+    );
+    await expect(
+      resale.confirmPurchase(
+        listing.id,
+        buyer.toSuiAddress(),
+        forged.signature,
+      ),
+    ).rejects.toThrow(BadRequestException);
+
+    const { signature } = await buyer.signTransaction(
+      Buffer.from(SWAP_BYTES, 'base64'),
+    );
+    const confirmed = await resale.confirmPurchase(
+      listing.id,
+      buyer.toSuiAddress(),
+      signature,
+    );
+    expect(confirmed.status).toBe('pending');
+    expect(confirmed.pendingPurchase).toEqual({
+      buyer: buyer.toSuiAddress(),
+      txBytes: SWAP_BYTES,
+      buyerSignature: signature,
+      buyerSigned: true,
+      heldUntil: held.heldUntil,
+    });
+
+    await index('tickets::TicketTransferred', {
+      ticket_id: TICKET_ID,
+      event_id: EVENT_ID,
+      from: SELLER,
+      to: buyer.toSuiAddress(),
+    });
+    expect(resale.getListing(listing.id).status).toBe('sold');
+  });
+
+  it('shows the swap and escrowed signature to the seller and buyer only', async () => {
+    const listing = await listTicket();
+    await purchase(listing.id);
+    const { signature } = await buyer.signTransaction(
+      Buffer.from(SWAP_BYTES, 'base64'),
+    );
+    await resale.confirmPurchase(listing.id, buyer.toSuiAddress(), signature);
+
+    const [listed] = resale.listListings({
+      eventId: EVENT_ID,
+      status: 'pending',
+    }).listings;
+    for (const publicView of [resale.getListing(listing.id), listed]) {
+      expect(publicView.pendingPurchase).toEqual({
+        buyer: buyer.toSuiAddress(),
+        buyerSigned: true,
+        heldUntil: expect.any(Number) as number,
+      });
+    }
+
+    expect(resale.getPendingPurchase(listing.id, SELLER)).toMatchObject({
+      txBytes: SWAP_BYTES,
+      buyerSignature: signature,
+    });
+    expect(
+      resale.getPendingPurchase(listing.id, buyer.toSuiAddress()),
+    ).toMatchObject({ txBytes: SWAP_BYTES });
+    expect(() =>
+      resale.getPendingPurchase(listing.id, normalizeSuiAddress('0xb2')),
+    ).toThrow(ForbiddenException);
+  });
+
+  it("rekeys the ticket so only the buyer's QR secret checks in after the sale", async () => {
+    const listing = await listTicket();
+    await purchase(listing.id);
+
+    const [tx] = serialize.mock.calls[0] as [Transaction];
+    const { commands, inputs } = tx.getData();
+    const calls = commands.flatMap((command) =>
+      command.MoveCall ? [command.MoveCall] : [],
+    );
+    expect(calls.map((call) => `${call.module}::${call.function}`)).toEqual([
+      'tickets::rekey_ticket',
+      'tickets::transfer_ticket',
+    ]);
+    const qrArgument = calls[0].arguments[3] as { Input: number };
+    const qrCodeHash = bcs
+      .vector(bcs.u8())
+      .parse(fromBase64(inputs[qrArgument.Input].Pure!.bytes));
+
+    // the chain runs the swap: rekey_ticket, then transfer_ticket
+    client.setObject(
+      ticketObject(TICKET_ID, {
+        event_id: EVENT_ID,
+        owner: buyer.toSuiAddress(),
+        original_owner: SELLER,
+        metadata: { qr_code_hash: qrCodeHash },
+      }),
+    );
+    await index('tickets::TicketTransferred', {
+      ticket_id: TICKET_ID,
+      event_id: EVENT_ID,
+      from: SELLER,
+      to: buyer.toSuiAddress(),
+    });
+    expect(resale.getListing(listing.id).status).toBe('sold');
+
+    jest.setSystemTime(startTime);
+    client.setObject(
+      eventObject(EVENT_ID, {
+        config: {
+          start_time: String(startTime),
+          end_time: String(startTime + HOUR),
+        },
+      }),
+    );
+    client.setObject(
+      validatorCapObject(normalizeSuiAddress('0xca9'), STAFF, {
+        event_id: EVENT_ID,
+      }),
+    );
+    const checkIn = module.get(CheckInService);
+
+    await expect(
+      checkIn.checkIn(
+        { eventId: EVENT_ID, payload: await buyerSignedPayload(SELLER_SECRET) },
+        STAFF,
+      ),
+    ).resolves.toMatchObject({
+      accepted: false,
+      abortName: 'tickets::EInvalidQRHash',
+    });
+    await expect(
+      checkIn.checkIn(
+        { eventId: EVENT_ID, payload: await buyerSignedPayload(BUYER_SECRET) },
+        STAFF,
+      ),
+    ).resolves.toMatchObject({ accepted: true, ticketId: TICKET_ID });
+  });
+
+  it('releases lapsed holds and expires lapsed listings', async () => {
+    const listing = await listTicket('1000000000', Date.now() + 2 * HOUR);
+    await purchase(listing.id);
+
+    jest.setSystemTime(Date.now() + HOUR);
+    expect(resale.getListing(listing.id)).toMatchObject({
+      status: 'active',
+      pendingPurchase: undefined,
+    });
+
+    jest.setSystemTime(Date.now() + HOUR);
+    expect(resale.getListing(listing.id).status).toBe('expired');
+    expect(
+      resale.listListings({ eventId: EVENT_ID, status: 'active' }).listings,
+    ).toEqual([]);
+  });
+
+  it.each([
+    [
+      'tickets::TicketValidated',
+      { ticket_id: TICKET_ID, event_id: EVENT_ID },
+      'validated',
+    ],
+    [
+      'tickets::TicketRefunded',
+      { ticket_id: TICKET_ID, event_id: EVENT_ID },
+      'refunded',
+    ],
+    ['events::EventCancelled', { event_id: EVENT_ID }, 'event_cancelled'],
+  ])('removes listings on %s', async (eventType, data, reason) => {
+    const listing = await listTicket();
+
+    await index(eventType, data);
+
+    expect(resale.getListing(listing.id)).toMatchObject({
+      status: 'removed',
+      closeReason: reason,
+    });
+    expect(module.get(ResaleStore).findOpenByTicket(TICKET_ID)).toBeNull();
+  });
+});
@@ -0,0 +1,397 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { verifyTransactionSignature } from '@mysten/sui/verify';
+import { SuiService } from '../common/sui/sui.service';
+import { EventsService } from '../events/events.service';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import {
+  EventCancelledEvent,
+  IndexedEvent,
+  TicketMintedEvent,
+  TicketRefundedEvent,
+  TicketTransferredEvent,
+  TicketValidatedEvent,
+} from '../indexer/indexer.types';
+import { formatSui, suiAmount, toMist } from '../payments/mist';
+import { TicketsService } from '../tickets/tickets.service';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { buildResaleSwapTx } from '../transactions/transaction.builders';
+import { TransactionsService } from '../transactions/transactions.service';
+import { RemovalReason, ResaleListing, ResaleStore } from './resale.store';
+import {
+  CreateListingDto,
+  ListingQueryDto,
+  PendingPurchaseDto,
+  PurchaseListingDto,
+  ResaleListingListResponseDto,
+  ResaleListingResponseDto,
+  ResalePolicyResponseDto,
+  ResalePurchaseResponseDto,
+} from './dto/resale.dto';
+
+/**
+ * Secondary-market listings for transferable tickets. A sale is a single
+ * transaction the seller sends and the buyer pays gas for: the price comes
+ * off the buyer's gas coin, rekey_ticket swaps in the buyer's QR hash and
+ * payload, and transfer_ticket moves the ticket, so both sides settle
+ * atomically. The backend holds the buyer-signed swap in escrow until the
+ * seller countersigns it; only the two parties see it.
+ */
+@Injectable()
+export class ResaleService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ResaleService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly suiService: SuiService,
+    private readonly eventsService: EventsService,
+    private readonly ticketsService: TicketsService,
+    private readonly indexerService: IndexerService,
+    private readonly indexerStore: IndexerStore,
+    private readonly resolver: ObjectResolverService,
+    private readonly transactionsService: TransactionsService,
+    private readonly store: ResaleStore,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.indexerService.events$.subscribe((event) => this.onChainEvent(event));
+  }
+
+  getPolicy(eventId: string): ResalePolicyResponseDto {
+    const policy = this.store.getPolicy(eventId);
+    return policy
+      ? {
+          eventId,
+          maxMarkupBps: policy.maxMarkupBps,
+          isDefault: false,
+          updatedBy: policy.updatedBy,
+          updatedAt: policy.updatedAt,
+        }
+      : {
+          eventId,
+          maxMarkupBps: this.configService.get<number>(
+            'resale.defaultMaxMarkupBps',
+          )!,
+          isDefault: true,
+        };
+  }
+
+  /** Applies to new listings; existing ones keep the price they were listed at */
+  setPolicy(
+    eventId: string,
+    maxMarkupBps: number,
+    organizer: string,
+  ): ResalePolicyResponseDto {
+    this.store.setPolicy({ eventId, maxMarkupBps, updatedBy: organizer });
+    return this.getPolicy(eventId);
+  }
+
+  async createListing(
+    seller: string,
+    dto: CreateListingDto,
+  ): Promise<ResaleListingResponseDto> {
+    const ticket = await this.ticketsService.getTicket(dto.ticketId);
+    if (!ticket) {
+      throw new NotFoundException(`Ticket ${dto.ticketId} not found`);
+    }
+    if (normalizeSuiAddress(ticket.owner) !== normalizeSuiAddress(seller)) {
+      throw new ForbiddenException(`Ticket ${dto.ticketId} is not yours`);
+    }
+    if (ticket.isValidated) {
+      throw new BadRequestException('Validated tickets cannot be resold');
+    }
+
+    const event = await this.eventsService.getEvent(ticket.eventId);
+    if (!event) {
+      throw new NotFoundException(`Event ${ticket.eventId} not found`);
+    }
+    if (!event.config.isTransferable) {
+      throw new BadRequestException(
+        `Tickets for event ${event.id} are not transferable`,
+      );
+    }
+    if (event.status !== 'open') {
+      throw new BadRequestException(
+        `Event is ${event.status}; tickets can only be resold while it is open`,
+      );
+    }
+
+    const purchasePrice = this.purchasePrice(ticket.id);
+    const { maxMarkupBps } = this.getPolicy(event.id);
+    const maxPrice = maxResalePrice(purchasePrice, maxMarkupBps);
+    if (toMist(dto.price) > maxPrice) {
+      throw new BadRequestException(
+        `Price exceeds the resale cap of ${formatSui(maxPrice)} SUI ` +
+          `(${maxMarkupBps} bps over the ${formatSui(purchasePrice)} SUI purchase price)`,
+      );
+    }
+
+    const now = Date.now();
+    const startTime = Number(event.config.startTime);
+    const expiresAt = dto.expiresAt ?? startTime;
+    if (expiresAt <= now || expiresAt > startTime) {
+      throw new BadRequestException(
+        'expiresAt must be in the future and no later than the event start',
+      );
+    }
+
+    this.store.expire(now);
+    const listing = this.store.create({
+      ticketId: ticket.id,
+      eventId: event.id,
+      seller: normalizeSuiAddress(seller),
+      price: dto.price,
+      purchasePrice: purchasePrice.toString(),
+      expiresAt,
+    });
+    if (!listing) {
+      throw new ConflictException(`Ticket ${dto.ticketId} is already listed`);
+    }
+    return toListingDto(listing, seller);
+  }
+
+  getListing(id: number): ResaleListingResponseDto {
+    this.store.expire();
+    return toListingDto(this.requireListing(id));
+  }
+
+  listListings(query: ListingQueryDto): ResaleListingListResponseDto {
+    this.store.expire();
+    const listings = this.store.find({
+      eventId: query.eventId && normalizeSuiAddress(query.eventId),
+      seller: query.seller && normalizeSuiAddress(query.seller),
+      status: query.status,
+    });
+    return { listings: listings.map((listing) => toListingDto(listing)) };
+  }
+
+  cancelListing(id: number, seller: string): ResaleListingResponseDto {
+    this.store.expire();
+    const listing = this.requireListing(id);
+    if (listing.seller !== normalizeSuiAddress(seller)) {
+      throw new ForbiddenException(`Listing ${id} is not yours`);
+    }
+    if (this.store.close({ id }, 'cancelled') === 0) {
+      throw new ConflictException(`Listing ${id} is ${listing.status}`);
+    }
+    return toListingDto(this.requireListing(id), seller);
+  }
+
+  /** The held swap and any escrowed signature, for the seller or buyer only */
+  getPendingPurchase(id: number, caller: string): PendingPurchaseDto {
+    this.store.expire();
+    const listing = this.requireListing(id);
+    const callerAddress = normalizeSuiAddress(caller);
+    if (callerAddress !== listing.seller && callerAddress !== listing.buyer) {
+      throw new ForbiddenException(
+        `Only the seller or buyer of listing ${id} may see its purchase`,
+      );
+    }
+    const { pendingPurchase } = toListingDto(listing, callerAddress);
+    if (!pendingPurchase) {
+      throw new NotFoundException(`Listing ${id} has no pending purchase`);
+    }
+    return pendingPurchase;
+  }
+
+  /**
+   * Build the swap for `buyer` and hold the listing for them while both
+   * parties sign it. The swap rekeys the ticket to the buyer's QR hash and
+   * payload, since the seller knows the current QR secret.
+   */
+  async purchase(
+    id: number,
+    buyer: string,
+    dto: PurchaseListingDto,
+  ): Promise<ResalePurchaseResponseDto> {
+    this.store.expire();
+    const listing = this.requireListing(id);
+    const buyerAddress = normalizeSuiAddress(buyer);
+    if (listing.status !== 'active') {
+      throw new ConflictException(`Listing ${id} is ${listing.status}`);
+    }
+    if (listing.seller === buyerAddress) {
+      throw new BadRequestException('You cannot buy your own listing');
+    }
+
+    const tx = buildResaleSwapTx(this.suiService.getPackageId(), {
+      seller: listing.seller,
+      buyer: buyerAddress,
+      ticketId: listing.ticketId,
+      eventId: listing.eventId,
+      sellerProfileId: await this.resolver.resolveUserProfile(listing.seller),
+      price: listing.price,
+      encryptedData: dto.encryptedData,
+      sealKeyId: dto.sealKeyId,
+      qrCodeHash: dto.qrCodeHash,
+    });
+    const { txBytes } = await this.transactionsService.serialize(
+      tx,
+      listing.seller,
+    );
+
+    const heldUntil =
+      Date.now() + this.configService.get<number>('resale.purchaseHoldMs')!;
+    if (!this.store.hold(id, { buyer: buyerAddress, txBytes, heldUntil })) {
+      throw new ConflictException(`Listing ${id} was just taken`);
+    }
+    return {
+      listingId: id,
+      seller: listing.seller,
+      buyer: buyerAddress,
+      txBytes,
+      heldUntil,
+    };
+  }
+
+  /** Escrow the buyer's signature for the seller to countersign */
+  async confirmPurchase(
+    id: number,
+    buyer: string,
+    signature: string,
+  ): Promise<ResaleListingResponseDto> {
+    this.store.expire();
+    const listing = this.requireListing(id);
+    const buyerAddress = normalizeSuiAddress(buyer);
+    if (listing.status !== 'pending' || listing.buyer !== buyerAddress) {
+      throw new ConflictException(`Listing ${id} is not held for you`);
+    }
+
+    try {
+      await verifyTransactionSignature(
+        Buffer.from(listing.txBytes!, 'base64'),
+        signature,
+        { address: buyerAddress, client: this.suiService.getClient() },
+      );
+    } catch {
+      throw new BadRequestException(
+        'Signature does not sign the swap transaction as the buyer',
+      );
+    }
+
+    this.store.setBuyerSignature(id, signature);
+    return toListingDto(this.requireListing(id), buyerAddress);
+  }
+
+  /** Take listings down once the chain shows the ticket can no longer sell */
+  private onChainEvent(event: IndexedEvent) {
+    switch (event.eventType) {
+      case 'tickets::TicketValidated': {
+        const data = event.data as unknown as TicketValidatedEvent;
+        this.remove({ ticketId: data.ticket_id }, 'validated');
+        break;
+      }
+      case 'tickets::TicketRefunded': {
+        const data = event.data as unknown as TicketRefundedEvent;
+        this.remove({ ticketId: data.ticket_id }, 'refunded');
+        break;
+      }
+      case 'events::EventCancelled': {
+        const data = event.data as unknown as EventCancelledEvent;
+        this.remove({ eventId: data.event_id }, 'event_cancelled');
+        break;
+      }
+      case 'tickets::TicketTransferred': {
+        const data = event.data as unknown as TicketTransferredEvent;
+        const listing = this.store.findOpenByTicket(data.ticket_id);
+        if (
+          listing?.status === 'pending' &&
+          listing.buyer === normalizeSuiAddress(data.to)
+        ) {
+          this.store.close({ id: listing.id }, 'sold');
+        } else {
+          this.remove({ ticketId: data.ticket_id }, 'transferred');
+        }
+        break;
+      }
+    }
+  }
+
+  private remove(
+    target: { ticketId: string } | { eventId: string },
+    reason: RemovalReason,
+  ) {
+    const removed = this.store.close(target, 'removed', reason);
+    if (removed > 0) {
+      this.logger.log(`Removed ${removed} resale listing(s): ${reason}`);
+    }
+  }
+
+  private purchasePrice(ticketId: string): bigint {
+    const [minted] = this.indexerStore.findEvents<TicketMintedEvent>(
+      'tickets::TicketMinted',
+      { ticket_id: ticketId },
+      { limit: 1 },
+    );
+    if (!minted) {
+      throw new NotFoundException(
+        `Ticket ${ticketId} has not been indexed; its purchase price is unknown`,
+      );
+    }
+    return toMist(minted.data.price_paid);
+  }
+
+  private requireListing(id: number): ResaleListing {
+    const listing = this.store.get(id);
+    if (!listing) {
+      throw new NotFoundException(`Listing ${id} not found`);
+    }
+    return listing;
+  }
+}
+
+/** The highest asking price `maxMarkupBps` allows, rounded down to MIST */
+export function maxResalePrice(
+  purchasePrice: bigint,
+  maxMarkupBps: number,
+): bigint {
+  return (purchasePrice * BigInt(10_000 + maxMarkupBps)) / 10_000n;
+}
+
+/**
+ * The swap and the buyer's signature over it are shown to `viewer` only
+ * when they are the seller or the buyer; listings are otherwise public.
+ */
+function toListingDto(
+  listing: ResaleListing,
+  viewer?: string,
+): ResaleListingResponseDto {
+  const party =
+    viewer !== undefined &&
+    [listing.seller, listing.buyer].includes(normalizeSuiAddress(viewer));
+  return {
+    id: listing.id,
+    ticketId: listing.ticketId,
+    eventId: listing.eventId,
+    seller: listing.seller,
+    price: suiAmount(toMist(listing.price)),
+    purchasePrice: suiAmount(toMist(listing.purchasePrice)),
+    status: listing.status,
+    createdAt: listing.createdAt,
+    expiresAt: listing.expiresAt,
+    closedAt: listing.closedAt ?? undefined,
+    closeReason: listing.closeReason ?? undefined,
+    pendingPurchase:
+      listing.status === 'pending'
+        ? {
+            buyer: listing.buyer!,
+            txBytes: party ? listing.txBytes! : undefined,
+            buyerSignature: party
+              ? (listing.buyerSignature ?? undefined)
+              : undefined,
+            buyerSigned: listing.buyerSignature !== null,
+            heldUntil: listing.heldUntil!,
+          }
+        : undefined,
+  };
+}
@@ -0,0 +1,316 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../common/database/database.service';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS resale_listings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    ticket_id TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    seller TEXT NOT NULL,
+    price TEXT NOT NULL,
+    purchase_price TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    closed_at INTEGER,
+    close_reason TEXT,
+    buyer TEXT,
+    tx_bytes TEXT,
+    buyer_signature TEXT,
+    held_until INTEGER
+  );
+
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_resale_listings_open_ticket
+    ON resale_listings (ticket_id) WHERE status IN ('active', 'pending');
+
+  CREATE INDEX IF NOT EXISTS idx_resale_listings_event
+    ON resale_listings (event_id, status);
+
+  CREATE TABLE IF NOT EXISTS resale_policies (
+    event_id TEXT PRIMARY KEY,
+    max_markup_bps INTEGER NOT NULL,
+    updated_by TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`;
+
+/** Listings still on offer: `pending` ones are held for one buyer */
+const OPEN = `status IN ('active', 'pending')`;
+
+export const LISTING_STATUSES = [
+  'active',
+  'pending',
+  'sold',
+  'cancelled',
+  'expired',
+  'removed',
+] as const;
+
+export type ListingStatus = (typeof LISTING_STATUSES)[number];
+
+/** Why the platform took a listing down */
+export type RemovalReason =
+  | 'validated'
+  | 'refunded'
+  | 'event_cancelled'
+  | 'transferred';
+
+export interface ResaleListing {
+  id: number;
+  ticketId: string;
+  eventId: string;
+  seller: string;
+  /** Asking price in MIST */
+  price: string;
+  /** Price paid when the ticket was minted, in MIST */
+  purchasePrice: string;
+  status: ListingStatus;
+  createdAt: number;
+  expiresAt: number;
+  closedAt: number | null;
+  closeReason: RemovalReason | null;
+  buyer: string | null;
+  txBytes: string | null;
+  buyerSignature: string | null;
+  heldUntil: number | null;
+}
+
+export type NewListing = Pick<
+  ResaleListing,
+  'ticketId' | 'eventId' | 'seller' | 'price' | 'purchasePrice' | 'expiresAt'
+>;
+
+export interface ListingFilter {
+  eventId?: string;
+  seller?: string;
+  status?: ListingStatus;
+}
+
+export interface PurchaseHold {
+  buyer: string;
+  txBytes: string;
+  heldUntil: number;
+}
+
+export interface ResalePolicy {
+  eventId: string;
+  maxMarkupBps: number;
+  updatedBy: string;
+  updatedAt: number;
+}
+
+interface ListingRow {
+  id: number;
+  ticket_id: string;
+  event_id: string;
+  seller: string;
+  price: string;
+  purchase_price: string;
+  status: ListingStatus;
+  created_at: number;
+  expires_at: number;
+  closed_at: number | null;
+  close_reason: RemovalReason | null;
+  buyer: string | null;
+  tx_bytes: string | null;
+  buyer_signature: string | null;
+  held_until: number | null;
+}
+
+interface PolicyRow {
+  event_id: string;
+  max_markup_bps: number;
+  updated_by: string;
+  updated_at: number;
+}
+
+/**
+ * Resale listings and the per-event markup caps organizers set on them.
+ */
+@Injectable()
+export class ResaleStore implements OnModuleInit {
+  private readonly db: Database.Database;
+
+  constructor(database: DatabaseService) {
+    this.db = database.connection;
+  }
+
+  onModuleInit() {
+    this.db.exec(SCHEMA);
+  }
+
+  /** Returns null when the ticket already has an open listing */
+  create(listing: NewListing): ResaleListing | null {
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO resale_listings
+          (ticket_id, event_id, seller, price, purchase_price, status,
+           created_at, expires_at)
+          VALUES (?, ?, ?, ?, ?, 'active', ?, ?)`,
+      )
+      .run(
+        listing.ticketId,
+        listing.eventId,
+        listing.seller,
+        listing.price,
+        listing.purchasePrice,
+        Date.now(),
+        listing.expiresAt,
+      );
+    return result.changes > 0 ? this.get(Number(result.lastInsertRowid)) : null;
+  }
+
+  get(id: number): ResaleListing | null {
+    const row = this.db
+      .prepare('SELECT * FROM resale_listings WHERE id = ?')
+      .get(id) as ListingRow | undefined;
+    return row ? this.mapRow(row) : null;
+  }
+
+  find(filter: ListingFilter): ResaleListing[] {
+    const clauses: string[] = [];
+    const params: string[] = [];
+    if (filter.eventId) {
+      clauses.push('event_id = ?');
+      params.push(filter.eventId);
+    }
+    if (filter.seller) {
+      clauses.push('seller = ?');
+      params.push(filter.seller);
+    }
+    if (filter.status) {
+      clauses.push('status = ?');
+      params.push(filter.status);
+    }
+    const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM resale_listings ${where} ORDER BY id`)
+      .all(...params) as ListingRow[];
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  findOpenByTicket(ticketId: string): ResaleListing | null {
+    const row = this.db
+      .prepare(`SELECT * FROM resale_listings WHERE ticket_id = ? AND ${OPEN}`)
+      .get(ticketId) as ListingRow | undefined;
+    return row ? this.mapRow(row) : null;
+  }
+
+  /** Hold an active listing for one buyer; false if it is not active */
+  hold(id: number, hold: PurchaseHold): boolean {
+    return (
+      this.db
+        .prepare(
+          `UPDATE resale_listings
+            SET status = 'pending', buyer = ?, tx_bytes = ?, held_until = ?,
+                buyer_signature = NULL
+            WHERE id = ? AND status = 'active'`,
+        )
+        .run(hold.buyer, hold.txBytes, hold.heldUntil, id).changes > 0
+    );
+  }
+
+  setBuyerSignature(id: number, signature: string) {
+    this.db
+      .prepare(
+        `UPDATE resale_listings SET buyer_signature = ?
+          WHERE id = ? AND status = 'pending'`,
+      )
+      .run(signature, id);
+  }
+
+  /** Close open listings by id, ticket or event; returns how many closed */
+  close(
+    target: { id: number } | { ticketId: string } | { eventId: string },
+    status: Exclude<ListingStatus, 'active' | 'pending'>,
+    reason: RemovalReason | null = null,
+    closedAt = Date.now(),
+  ): number {
+    const [column, value] =
+      'id' in target
+        ? ['id', target.id]
+        : 'ticketId' in target
+          ? ['ticket_id', target.ticketId]
+          : ['event_id', target.eventId];
+    return this.db
+      .prepare(
+        `UPDATE resale_listings
+          SET status = ?, close_reason = ?, closed_at = ?
+          WHERE ${column} = ? AND ${OPEN}`,
+      )
+      .run(status, reason, closedAt, value).changes;
+  }
+
+  /**
+   * Expire listings past their expiry and put listings whose buyer hold
+   * lapsed back on offer.
+   */
+  expire(now = Date.now()) {
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE resale_listings SET status = 'expired', closed_at = ?
+            WHERE ${OPEN} AND expires_at <= ?`,
+        )
+        .run(now, now);
+      this.db
+        .prepare(
+          `UPDATE resale_listings
+            SET status = 'active', buyer = NULL, tx_bytes = NULL,
+                buyer_signature = NULL, held_until = NULL
+            WHERE status = 'pending' AND held_until <= ?`,
+        )
+        .run(now);
+    })();
+  }
+
+  getPolicy(eventId: string): ResalePolicy | null {
+    const row = this.db
+      .prepare('SELECT * FROM resale_policies WHERE event_id = ?')
+      .get(eventId) as PolicyRow | undefined;
+    return row
+      ? {
+          eventId: row.event_id,
+          maxMarkupBps: row.max_markup_bps,
+          updatedBy: row.updated_by,
+          updatedAt: row.updated_at,
+        }
+      : null;
+  }
+
+  setPolicy(policy: Omit<ResalePolicy, 'updatedAt'>): ResalePolicy {
+    this.db
+      .prepare(
+        `INSERT INTO resale_policies
+          (event_id, max_markup_bps, updated_by, updated_at)
+          VALUES (?, ?, ?, ?)
+          ON CONFLICT (event_id) DO UPDATE SET
+            max_markup_bps = excluded.max_markup_bps,
+            updated_by = excluded.updated_by,
+            updated_at = excluded.updated_at`,
+      )
+      .run(policy.eventId, policy.maxMarkupBps, policy.updatedBy, Date.now());
+    return this.getPolicy(policy.eventId)!;
+  }
+
+  private mapRow(row: ListingRow): ResaleListing {
+    return {
+      id: row.id,
+      ticketId: row.ticket_id,
+      eventId: row.event_id,
+      seller: row.seller,
+      price: row.price,
+      purchasePrice: row.purchase_price,
+      status: row.status,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      closedAt: row.closed_at,
+      closeReason: row.close_reason,
+      buyer: row.buyer,
+      txBytes: row.tx_bytes,
+      buyerSignature: row.buyer_signature,
+      heldUntil: row.held_until,
+    };
+  }
+}
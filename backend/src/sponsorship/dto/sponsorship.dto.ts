@@ -0,0 +1,90 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBase64, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from '../../common/pagination/pagination.dto';
+import { IsSuiAddress } from '../../common/validation/sui.validators';
+import type { SponsorshipStatus } from '../sponsorship.types';
+
+export class SponsorTransactionDto {
+  @ApiProperty({
+    description:
+      'Base64 TransactionKind bytes, built with `onlyTransactionKind: true`',
+  })
+  @IsBase64()
+  txKindBytes: string;
+}
+
+export class SponsoredTransactionResponseDto {
+  @ApiProperty()
+  sender: string;
+
+  @ApiProperty({ description: 'Address paying for gas' })
+  sponsor: string;
+
+  @ApiProperty()
+  digest: string;
+
+  @ApiProperty({
+    description: 'Base64 BCS TransactionData for the sender to sign',
+  })
+  txBytes: string;
+
+  @ApiProperty({
+    description: 'Sponsor signature to submit alongside the sender signature',
+  })
+  sponsorSignature: string;
+
+  @ApiProperty({ description: 'Gas budget in MIST' })
+  gasBudget: string;
+}
+
+export class SponsorshipLedgerQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsSuiAddress()
+  eventId?: string;
+}
+
+export class SponsorshipLedgerEntryDto {
+  @ApiProperty()
+  digest: string;
+
+  @ApiProperty()
+  sender: string;
+
+  @ApiPropertyOptional()
+  eventId?: string;
+
+  @ApiProperty({ type: [String] })
+  targets: string[];
+
+  @ApiProperty()
+  gasCoinId: string;
+
+  @ApiProperty({ description: 'Gas budget in MIST' })
+  gasBudget: string;
+
+  @ApiPropertyOptional({
+    description: 'Net gas charged to the sponsor in MIST, once settled',
+  })
+  gasUsed?: string;
+
+  @ApiProperty({ enum: ['pending', 'executed', 'failed'] })
+  status: SponsorshipStatus;
+
+  @ApiProperty()
+  createdAt: number;
+
+  @ApiPropertyOptional()
+  settledAt?: number;
+}
+
+export class SponsorshipLedgerResponseDto {
+  @ApiProperty({ type: [SponsorshipLedgerEntryDto] })
+  entries: SponsorshipLedgerEntryDto[];
+
+  @ApiPropertyOptional()
+  nextCursor?: string;
+
+  @ApiProperty()
+  hasMore: boolean;
+}
@@ -0,0 +1,31 @@
+import { Keypair } from '@mysten/sui/cryptography';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+
+/**
+ * Signs sponsored transactions as the gas owner. Kept behind an interface
+ * so the key can live in memory for tests or in a KMS in production.
+ */
+export interface SponsorSigner {
+  getAddress(): string;
+  signTransaction(bytes: Uint8Array): Promise<string>;
+}
+
+export class KeypairSponsorSigner implements SponsorSigner {
+  constructor(private readonly keypair: Keypair) {}
+
+  /**
+   * Accepts a bech32 `suiprivkey...` string as exported by the Sui CLI.
+   */
+  static fromSecretKey(secretKey: string): KeypairSponsorSigner {
+    return new KeypairSponsorSigner(Ed25519Keypair.fromSecretKey(secretKey));
+  }
+
+  getAddress(): string {
+    return this.keypair.toSuiAddress();
+  }
+
+  async signTransaction(bytes: Uint8Array): Promise<string> {
+    const { signature } = await this.keypair.signTransaction(bytes);
+    return signature;
+  }
+}
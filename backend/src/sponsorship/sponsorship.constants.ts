@@ -0,0 +1,8 @@
+export const SPONSOR_SIGNER = 'SPONSOR_SIGNER';
+
+/**
+ * How long a gas coin handed out with a sponsored transaction stays
+ * reserved. Reusing a coin before the first transaction lands would
+ * equivocate it and lock the coin until the end of the epoch.
+ */
+export const GAS_COIN_RESERVATION_MS = 60_000;
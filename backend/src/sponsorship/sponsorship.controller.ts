@@ -0,0 +1,77 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Authenticated, CurrentAddress } from '../auth/auth.decorators';
+import { SponsorshipService } from './sponsorship.service';
+import {
+  SponsoredTransactionResponseDto,
+  SponsorshipLedgerEntryDto,
+  SponsorshipLedgerQueryDto,
+  SponsorshipLedgerResponseDto,
+  SponsorTransactionDto,
+} from './dto/sponsorship.dto';
+
+@ApiTags('sponsorship')
+@Controller('sponsorship')
+export class SponsorshipController {
+  constructor(private readonly sponsorshipService: SponsorshipService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @Authenticated()
+  @ApiOperation({
+    summary:
+      'Attach sponsor gas to a transaction kind for the session address and sign as sponsor',
+  })
+  @ApiResponse({ status: 200, type: SponsoredTransactionResponseDto })
+  @ApiResponse({ status: 403, description: 'Target is not allowlisted' })
+  @ApiResponse({
+    status: 429,
+    description: 'Address, event or platform limit reached',
+  })
+  async sponsor(
+    @Body() dto: SponsorTransactionDto,
+    @CurrentAddress() address: string,
+  ): Promise<SponsoredTransactionResponseDto> {
+    return this.sponsorshipService.sponsor(dto, address);
+  }
+
+  @Get('ledger')
+  @Authenticated()
+  @ApiOperation({
+    summary: 'List your sponsored transactions and the gas they spent',
+  })
+  @ApiResponse({ status: 200, type: SponsorshipLedgerResponseDto })
+  getLedger(
+    @Query() query: SponsorshipLedgerQueryDto,
+    @CurrentAddress() address: string,
+  ): SponsorshipLedgerResponseDto {
+    return this.sponsorshipService.getLedger(query, address);
+  }
+
+  @Post('ledger/:digest/settle')
+  @HttpCode(HttpStatus.OK)
+  @Authenticated()
+  @ApiOperation({
+    summary: 'Record the gas one of your executed sponsored transactions cost',
+  })
+  @ApiResponse({ status: 200, type: SponsorshipLedgerEntryDto })
+  @ApiResponse({
+    status: 404,
+    description: 'Not your transaction or not executed',
+  })
+  async settle(
+    @Param('digest') digest: string,
+    @CurrentAddress() address: string,
+  ): Promise<SponsorshipLedgerEntryDto> {
+    return this.sponsorshipService.settle(digest, address);
+  }
+}
@@ -0,0 +1,226 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../common/database/database.service';
+import { GAS_COIN_RESERVATION_MS } from './sponsorship.constants';
+import {
+  GasReservation,
+  LedgerEntry,
+  LedgerFilter,
+  SponsorshipStatus,
+  SponsorshipUsage,
+} from './sponsorship.types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sponsorship_ledger (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    digest TEXT UNIQUE,
+    sender TEXT NOT NULL,
+    event_id TEXT,
+    targets TEXT NOT NULL,
+    gas_coin_id TEXT NOT NULL,
+    gas_budget INTEGER NOT NULL,
+    gas_used INTEGER,
+    status TEXT NOT NULL DEFAULT 'pending',
+    created_at INTEGER NOT NULL,
+    settled_at INTEGER
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_sponsorship_sender
+    ON sponsorship_ledger (sender, created_at);
+
+  CREATE INDEX IF NOT EXISTS idx_sponsorship_event
+    ON sponsorship_ledger (event_id, created_at);
+`;
+
+interface LedgerRow {
+  id: number;
+  digest: string | null;
+  sender: string;
+  event_id: string | null;
+  targets: string;
+  gas_coin_id: string;
+  gas_budget: number;
+  gas_used: number | null;
+  status: SponsorshipStatus;
+  created_at: number;
+  settled_at: number | null;
+}
+
+/**
+ * Record of every transaction the backend sponsored and the gas it cost.
+ */
+@Injectable()
+export class SponsorshipLedger implements OnModuleInit {
+  private readonly db: Database.Database;
+
+  constructor(database: DatabaseService) {
+    this.db = database.connection;
+  }
+
+  onModuleInit() {
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Check limits with `admit`, claim the first of `coinIds` no pending
+   * transaction holds and record the budget against it, all in one
+   * synchronous transaction: concurrent requests can neither share a coin
+   * nor overrun a limit while their transactions are being built. Returns
+   * null when every coin is taken.
+   */
+  reserve(
+    reservation: GasReservation,
+    coinIds: string[],
+    admit: () => void,
+    createdAt = Date.now(),
+  ): { id: number; gasCoinId: string } | null {
+    const claim = this.db.transaction(() => {
+      admit();
+      const reserved = this.reservedGasCoins(
+        createdAt - GAS_COIN_RESERVATION_MS,
+      );
+      const gasCoinId = coinIds.find((coinId) => !reserved.has(coinId));
+      if (!gasCoinId) {
+        return null;
+      }
+      const result = this.db
+        .prepare(
+          `INSERT INTO sponsorship_ledger
+            (sender, event_id, targets, gas_coin_id, gas_budget, created_at)
+            VALUES (?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          reservation.sender,
+          reservation.eventId,
+          JSON.stringify(reservation.targets),
+          gasCoinId,
+          reservation.gasBudget,
+          createdAt,
+        );
+      return { id: Number(result.lastInsertRowid), gasCoinId };
+    });
+    return claim();
+  }
+
+  /** Attach the signed transaction's digest to its reservation */
+  confirm(id: number, digest: string): LedgerEntry {
+    this.db
+      .prepare('UPDATE sponsorship_ledger SET digest = ? WHERE id = ?')
+      .run(digest, id);
+    return this.findById(id)!;
+  }
+
+  /** Free a reservation whose transaction was never signed */
+  release(id: number) {
+    this.db
+      .prepare('DELETE FROM sponsorship_ledger WHERE id = ? AND digest IS NULL')
+      .run(id);
+  }
+
+  findByDigest(digest: string): LedgerEntry | null {
+    const row = this.db
+      .prepare('SELECT * FROM sponsorship_ledger WHERE digest = ?')
+      .get(digest) as LedgerRow | undefined;
+    return row ? this.mapRow(row) : null;
+  }
+
+  settle(
+    digest: string,
+    gasUsed: number,
+    status: Exclude<SponsorshipStatus, 'pending'>,
+  ): LedgerEntry | null {
+    this.db
+      .prepare(
+        `UPDATE sponsorship_ledger
+          SET gas_used = ?, status = ?, settled_at = ?
+          WHERE digest = ?`,
+      )
+      .run(gasUsed, status, Date.now(), digest);
+    return this.findByDigest(digest);
+  }
+
+  usage(filter: LedgerFilter, since: number): SponsorshipUsage {
+    const { clause, params } = this.buildWhere(filter);
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(*) AS transactions,
+            COALESCE(SUM(COALESCE(gas_used, gas_budget)), 0) AS gasSpent
+          FROM sponsorship_ledger
+          WHERE ${clause} AND created_at >= ?`,
+      )
+      .get(...params, since) as SponsorshipUsage;
+    return row;
+  }
+
+  /**
+   * Gas coins attached to transactions that have not landed yet.
+   */
+  private reservedGasCoins(since: number): Set<string> {
+    const rows = this.db
+      .prepare(
+        `SELECT gas_coin_id FROM sponsorship_ledger
+          WHERE status = 'pending' AND created_at >= ?`,
+      )
+      .all(since) as { gas_coin_id: string }[];
+    return new Set(rows.map((row) => row.gas_coin_id));
+  }
+
+  pageEntries(
+    filter: LedgerFilter,
+    options: { beforeId?: number; limit: number },
+  ): { entries: LedgerEntry[]; hasMore: boolean } {
+    const { clause, params } = this.buildWhere(filter);
+    let sql = `SELECT * FROM sponsorship_ledger
+      WHERE ${clause} AND digest IS NOT NULL`;
+    if (options.beforeId !== undefined) {
+      sql += ' AND id < ?';
+      params.push(options.beforeId);
+    }
+    sql += ' ORDER BY id DESC LIMIT ?';
+    params.push(options.limit + 1);
+
+    const rows = this.db.prepare(sql).all(...params) as LedgerRow[];
+    return {
+      entries: rows.slice(0, options.limit).map((row) => this.mapRow(row)),
+      hasMore: rows.length > options.limit,
+    };
+  }
+
+  private findById(id: number): LedgerEntry | null {
+    const row = this.db
+      .prepare('SELECT * FROM sponsorship_ledger WHERE id = ?')
+      .get(id) as LedgerRow | undefined;
+    return row ? this.mapRow(row) : null;
+  }
+
+  private buildWhere(filter: LedgerFilter) {
+    const conditions = ['1 = 1'];
+    const params: (string | number)[] = [];
+    if (filter.sender) {
+      conditions.push('sender = ?');
+      params.push(filter.sender);
+    }
+    if (filter.eventId) {
+      conditions.push('event_id = ?');
+      params.push(filter.eventId);
+    }
+    return { clause: conditions.join(' AND '), params };
+  }
+
+  private mapRow(row: LedgerRow): LedgerEntry {
+    return {
+      id: row.id,
+      // only reservations lack a digest, and they are never mapped
+      digest: row.digest!,
+      sender: row.sender,
+      eventId: row.event_id,
+      targets: JSON.parse(row.targets) as string[],
+      gasCoinId: row.gas_coin_id,
+      gasBudget: row.gas_budget,
+      gasUsed: row.gas_used,
+      status: row.status,
+      createdAt: row.created_at,
+      settledAt: row.settled_at,
+    };
+  }
+}
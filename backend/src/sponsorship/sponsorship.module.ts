@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthModule } from '../auth/auth.module';
+import { KeypairSponsorSigner } from './sponsor-signer';
+import { SPONSOR_SIGNER } from './sponsorship.constants';
+import { SponsorshipController } from './sponsorship.controller';
+import { SponsorshipLedger } from './sponsorship.ledger';
+import { SponsorshipService } from './sponsorship.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [SponsorshipController],
+  providers: [
+    {
+      provide: SPONSOR_SIGNER,
+      useFactory: (configService: ConfigService) => {
+        const privateKey = configService.get<string>('sponsorship.privateKey');
+        return privateKey
+          ? KeypairSponsorSigner.fromSecretKey(privateKey)
+          : null;
+      },
+      inject: [ConfigService],
+    },
+    SponsorshipLedger,
+    SponsorshipService,
+  ],
+  exports: [SponsorshipService],
+})
+export class SponsorshipModule {}
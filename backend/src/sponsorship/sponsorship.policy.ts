@@ -0,0 +1,126 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Argument, Command, TransactionData } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+export interface SponsoredCall {
+  target: string;
+  eventId: string | null;
+}
+
+/**
+ * Position of the `&mut Event` parameter for entry points that act on an
+ * event, used to charge the call against that event's budget.
+ */
+const EVENT_ARGUMENT_INDEX: Record<string, number> = {
+  'tickets::mint_ticket': 1,
+  'tickets::validate_ticket': 1,
+  'tickets::check_in_ticket': 0,
+  'tickets::transfer_ticket': 1,
+  'tickets::refund_ticket': 1,
+};
+
+/**
+ * Check that a transaction kind only calls allowlisted functions in our
+ * package and never touches the gas coin, which belongs to the sponsor.
+ * Plain coin plumbing and transfers are allowed around the calls.
+ */
+export function inspectSponsoredKind(
+  data: TransactionData,
+  packageId: string,
+  allowedTargets: string[],
+): SponsoredCall[] {
+  const calls: SponsoredCall[] = [];
+  const ownPackage = normalizeSuiAddress(packageId);
+
+  for (const command of data.commands) {
+    const args = commandArguments(command);
+    if (!args) {
+      throw new ForbiddenException(
+        `${command.$kind} commands cannot be sponsored`,
+      );
+    }
+    if (args.some((arg) => arg.$kind === 'GasCoin')) {
+      throw new ForbiddenException(
+        'Sponsored transactions may not use the gas coin',
+      );
+    }
+    if (command.$kind !== 'MoveCall') {
+      continue;
+    }
+
+    const { package: pkg, module, function: fn } = command.MoveCall;
+    const target = `${module}::${fn}`;
+    if (normalizeSuiAddress(pkg) !== ownPackage) {
+      throw new ForbiddenException(
+        `${pkg}::${target} is outside the platform package`,
+      );
+    }
+    if (!allowedTargets.includes(target)) {
+      throw new ForbiddenException(`${target} is not eligible for sponsorship`);
+    }
+
+    const eventIndex = EVENT_ARGUMENT_INDEX[target];
+    calls.push({
+      target,
+      eventId:
+        eventIndex === undefined
+          ? null
+          : inputObjectId(data, command.MoveCall.arguments[eventIndex]),
+    });
+  }
+
+  if (calls.length === 0) {
+    throw new ForbiddenException(
+      'Sponsored transactions must call the platform package',
+    );
+  }
+
+  return calls;
+}
+
+function commandArguments(command: Command): Argument[] | null {
+  switch (command.$kind) {
+    case 'MoveCall':
+      return command.MoveCall.arguments;
+    case 'TransferObjects':
+      return [
+        ...command.TransferObjects.objects,
+        command.TransferObjects.address,
+      ];
+    case 'SplitCoins':
+      return [command.SplitCoins.coin, ...command.SplitCoins.amounts];
+    case 'MergeCoins':
+      return [command.MergeCoins.destination, ...command.MergeCoins.sources];
+    case 'MakeMoveVec':
+      return command.MakeMoveVec.elements;
+    default:
+      return null;
+  }
+}
+
+function inputObjectId(
+  data: TransactionData,
+  arg: Argument | undefined,
+): string | null {
+  if (arg?.$kind !== 'Input') {
+    return null;
+  }
+
+  const input = data.inputs[arg.Input];
+  if (input?.$kind === 'UnresolvedObject') {
+    return input.UnresolvedObject.objectId;
+  }
+  if (input?.$kind !== 'Object') {
+    return null;
+  }
+
+  const object = input.Object;
+  switch (object.$kind) {
+    case 'SharedObject':
+      return object.SharedObject.objectId;
+    case 'ImmOrOwnedObject':
+      return object.ImmOrOwnedObject.objectId;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,367 @@
+import {
+  ForbiddenException,
+  HttpException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import { verifyTransactionSignature } from '@mysten/sui/verify';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+} from '../common/sui/testing/fake-sui-client';
+import { KeypairSponsorSigner } from './sponsor-signer';
+import { SPONSOR_SIGNER } from './sponsorship.constants';
+import { SponsorshipLedger } from './sponsorship.ledger';
+import { SponsorshipService } from './sponsorship.service';
+
+const SENDER = normalizeSuiAddress('0xa11ce');
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const OBJECT_DIGEST = '4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi';
+
+async function kindBytes(build: (tx: Transaction) => void) {
+  const tx = new Transaction();
+  build(tx);
+  return toBase64(await tx.build({ onlyTransactionKind: true }));
+}
+
+function createProfileKind(displayName = 'Alice') {
+  return kindBytes((tx) => {
+    const profile = tx.moveCall({
+      target: `${FAKE_PACKAGE_ID}::users::create_profile`,
+      arguments: [
+        tx.pure.option('string', displayName),
+        tx.pure.option('string', null),
+      ],
+    });
+    tx.moveCall({
+      target: `${FAKE_PACKAGE_ID}::users::keep_profile`,
+      arguments: [profile],
+    });
+  });
+}
+
+function sharedObject(tx: Transaction, objectId: string) {
+  return tx.sharedObjectRef({
+    objectId,
+    initialSharedVersion: 1,
+    mutable: true,
+  });
+}
+
+function mintTicketKind(eventId: string) {
+  return kindBytes((tx) => {
+    const ticket = tx.moveCall({
+      target: `${FAKE_PACKAGE_ID}::tickets::mint_ticket`,
+      arguments: [
+        sharedObject(tx, '0xb001'),
+        sharedObject(tx, eventId),
+        tx.objectRef({ objectId: '0x102', version: 1, digest: OBJECT_DIGEST }),
+        sharedObject(tx, '0x7e'),
+        sharedObject(tx, '0x7f'),
+        sharedObject(tx, '0x100'),
+        tx.objectRef({ objectId: '0xc01', version: 1, digest: OBJECT_DIGEST }),
+        tx.pure.string('general'),
+        tx.pure.vector('u8', []),
+        tx.pure.string(''),
+        tx.pure.vector('u8', [1, 2]),
+      ],
+    });
+    tx.transferObjects([ticket], SENDER);
+  });
+}
+
+describe('SponsorshipService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let signer: KeypairSponsorSigner;
+  let service: SponsorshipService;
+
+  async function createModule(limits: {
+    global?: { maxTransactions: number; maxGas: number };
+    perAddress?: { maxTransactions: number; maxGas: number };
+    perEvent?: { maxTransactions: number; maxGas: number };
+  }) {
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            sponsorship: {
+              allowedTargets: [
+                'users::create_profile',
+                'users::keep_profile',
+                'tickets::mint_ticket',
+              ],
+              gasBudget: 1_000,
+              windowMs: 60_000,
+              global: limits.global ?? {
+                maxTransactions: 100,
+                maxGas: 1_000_000,
+              },
+              perAddress: limits.perAddress ?? {
+                maxTransactions: 10,
+                maxGas: 1_000_000,
+              },
+              perEvent: limits.perEvent ?? {
+                maxTransactions: 10,
+                maxGas: 1_000_000,
+              },
+            },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        { provide: SPONSOR_SIGNER, useValue: signer },
+        SuiService,
+        DatabaseService,
+        SponsorshipLedger,
+        SponsorshipService,
+      ],
+    }).compile();
+    await module.init();
+    service = module.get(SponsorshipService);
+  }
+
+  beforeEach(() => {
+    client = new FakeSuiClient();
+    signer = new KeypairSponsorSigner(Ed25519Keypair.generate());
+    for (let i = 1; i <= 5; i++) {
+      client.addCoin(
+        signer.getAddress(),
+        normalizeSuiAddress(`0xc0${i}`),
+        10_000n,
+      );
+    }
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('pays gas from a sponsor coin and signs as gas owner', async () => {
+    await createModule({});
+
+    const result = await service.sponsor(
+      { txKindBytes: await createProfileKind() },
+      SENDER,
+    );
+
+    const data = Transaction.from(result.txBytes).getData();
+    expect(data.sender).toBe(SENDER);
+    expect(data.gasData.owner).toBe(signer.getAddress());
+    expect(data.gasData.budget).toBe('1000');
+    expect(data.gasData.payment).toHaveLength(1);
+
+    const publicKey = await verifyTransactionSignature(
+      Buffer.from(result.txBytes, 'base64'),
+      result.sponsorSignature,
+    );
+    expect(publicKey.toSuiAddress()).toBe(signer.getAddress());
+
+    const ledger = service.getLedger({}, SENDER);
+    expect(ledger.entries).toEqual([
+      expect.objectContaining({
+        digest: result.digest,
+        targets: ['users::create_profile', 'users::keep_profile'],
+        status: 'pending',
+      }),
+    ]);
+  });
+
+  it('never hands out the same gas coin twice while it is in flight', async () => {
+    await createModule({});
+    const txKindBytes = await createProfileKind();
+
+    const coins = new Set<string>();
+    for (let i = 0; i < 3; i++) {
+      const result = await service.sponsor({ txKindBytes }, SENDER);
+      const [payment] = Transaction.from(result.txBytes).getData().gasData
+        .payment!;
+      coins.add(payment.objectId);
+    }
+
+    expect(coins.size).toBe(3);
+  });
+
+  it('reserves distinct gas coins for concurrent requests', async () => {
+    await createModule({});
+    const txKindBytes = await createProfileKind();
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 6 }, (_, i) =>
+        service.sponsor({ txKindBytes }, `0xa${i}`),
+      ),
+    );
+
+    const coins = results
+      .filter((result) => result.status === 'fulfilled')
+      .map(
+        (result) =>
+          Transaction.from(result.value.txBytes).getData().gasData.payment![0]
+            .objectId,
+      );
+    expect(new Set(coins).size).toBe(5);
+    expect(
+      results.filter((result) => result.status === 'rejected'),
+    ).toMatchObject([{ reason: { status: 503 } }]);
+  });
+
+  it('releases the coin and budget when signing fails', async () => {
+    await createModule({
+      global: { maxTransactions: 1, maxGas: 1_000_000 },
+    });
+    const txKindBytes = await createProfileKind();
+    jest
+      .spyOn(signer, 'signTransaction')
+      .mockRejectedValueOnce(new Error('signer offline'));
+
+    await expect(service.sponsor({ txKindBytes }, SENDER)).rejects.toThrow(
+      'signer offline',
+    );
+    await expect(
+      service.sponsor({ txKindBytes }, SENDER),
+    ).resolves.toBeDefined();
+  });
+
+  it('rejects functions that are not allowlisted', async () => {
+    await createModule({});
+    const txKindBytes = await kindBytes((tx) => {
+      tx.moveCall({
+        target: `${FAKE_PACKAGE_ID}::payments::withdraw_funds`,
+        arguments: [sharedObject(tx, '0x7e'), tx.pure.u64(1)],
+      });
+    });
+
+    await expect(service.sponsor({ txKindBytes }, SENDER)).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('rejects calls into other packages', async () => {
+    await createModule({});
+    const txKindBytes = await kindBytes((tx) => {
+      tx.moveCall({
+        target: '0xbad::users::create_profile',
+        arguments: [
+          tx.pure.option('string', null),
+          tx.pure.option('string', null),
+        ],
+      });
+    });
+
+    await expect(service.sponsor({ txKindBytes }, SENDER)).rejects.toThrow(
+      'outside the platform package',
+    );
+  });
+
+  it('rejects transactions that spend the sponsor gas coin', async () => {
+    await createModule({});
+    const txKindBytes = await kindBytes((tx) => {
+      const [coin] = tx.splitCoins(tx.gas, [1_000_000]);
+      tx.transferObjects([coin], SENDER);
+      tx.moveCall({
+        target: `${FAKE_PACKAGE_ID}::users::create_profile`,
+        arguments: [
+          tx.pure.option('string', null),
+          tx.pure.option('string', null),
+        ],
+      });
+    });
+
+    await expect(service.sponsor({ txKindBytes }, SENDER)).rejects.toThrow(
+      'may not use the gas coin',
+    );
+  });
+
+  it('enforces the per-address transaction limit', async () => {
+    await createModule({
+      perAddress: { maxTransactions: 2, maxGas: 1_000_000 },
+    });
+    const txKindBytes = await createProfileKind();
+
+    await service.sponsor({ txKindBytes }, SENDER);
+    await service.sponsor({ txKindBytes }, '0xA11CE');
+
+    await expect(
+      service.sponsor({ txKindBytes }, SENDER),
+    ).rejects.toMatchObject({ status: 429 });
+  });
+
+  it('caps sponsorship across all senders', async () => {
+    await createModule({ global: { maxTransactions: 2, maxGas: 1_000_000 } });
+    const txKindBytes = await createProfileKind();
+
+    await service.sponsor({ txKindBytes }, '0xa');
+    await service.sponsor({ txKindBytes }, '0xb');
+
+    await expect(service.sponsor({ txKindBytes }, '0xc')).rejects.toMatchObject(
+      { status: 429 },
+    );
+  });
+
+  it('charges mint_ticket against the event budget', async () => {
+    await createModule({
+      perEvent: { maxTransactions: 10, maxGas: 2_500 },
+    });
+
+    for (const sender of ['0xa', '0xb']) {
+      await service.sponsor(
+        { txKindBytes: await mintTicketKind(EVENT_ID) },
+        sender,
+      );
+    }
+
+    expect(
+      service.getLedger({ eventId: EVENT_ID }, '0xa').entries,
+    ).toHaveLength(1);
+    await expect(
+      service.sponsor({ txKindBytes: await mintTicketKind(EVENT_ID) }, '0xc'),
+    ).rejects.toThrow(HttpException);
+
+    await expect(
+      service.sponsor({ txKindBytes: await mintTicketKind('0xe2') }, '0xc'),
+    ).resolves.toMatchObject({ sender: normalizeSuiAddress('0xc') });
+  });
+
+  it('settles the ledger with the net gas charged', async () => {
+    await createModule({
+      perAddress: { maxTransactions: 10, maxGas: 1_500 },
+    });
+    const txKindBytes = await createProfileKind();
+    const { digest } = await service.sponsor({ txKindBytes }, SENDER);
+
+    client.transactions.set(digest, {
+      digest,
+      effects: {
+        status: { status: 'success' },
+        gasUsed: {
+          computationCost: '300',
+          storageCost: '250',
+          storageRebate: '100',
+          nonRefundableStorageFee: '0',
+        },
+      },
+    } as never);
+
+    await expect(service.settle(digest, '0xb0b')).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(service.settle(digest, SENDER)).resolves.toMatchObject({
+      gasUsed: '450',
+      status: 'executed',
+    });
+
+    // the settled cost, not the full budget, now counts against the address
+    await expect(
+      service.sponsor({ txKindBytes: await createProfileKind('Bob') }, SENDER),
+    ).resolves.toBeDefined();
+  });
+});
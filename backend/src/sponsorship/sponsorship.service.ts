@@ -0,0 +1,285 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import {
+  decodeCursor,
+  encodeCursor,
+  isRowCursor,
+} from '../common/pagination/cursor';
+import { SuiService } from '../common/sui/sui.service';
+import { SponsorSigner } from './sponsor-signer';
+import { SPONSOR_SIGNER } from './sponsorship.constants';
+import { SponsorshipLedger } from './sponsorship.ledger';
+import { inspectSponsoredKind } from './sponsorship.policy';
+import {
+  GasReservation,
+  LedgerEntry,
+  LedgerFilter,
+  SponsorshipLimit,
+} from './sponsorship.types';
+import {
+  SponsoredTransactionResponseDto,
+  SponsorshipLedgerEntryDto,
+  SponsorshipLedgerQueryDto,
+  SponsorshipLedgerResponseDto,
+  SponsorTransactionDto,
+} from './dto/sponsorship.dto';
+
+@Injectable()
+export class SponsorshipService {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly suiService: SuiService,
+    private readonly ledger: SponsorshipLedger,
+    @Inject(SPONSOR_SIGNER) private readonly signer: SponsorSigner | null,
+  ) {}
+
+  /**
+   * Wrap the sender's transaction kind with sponsor-owned gas and sign it
+   * as the gas owner. The sender is the session address and still has to
+   * sign the returned bytes.
+   */
+  async sponsor(
+    dto: SponsorTransactionDto,
+    address: string,
+  ): Promise<SponsoredTransactionResponseDto> {
+    const signer = this.requireSigner();
+    const sender = normalizeSuiAddress(address);
+    const tx = parseKind(dto.txKindBytes);
+
+    const calls = inspectSponsoredKind(
+      tx.getData(),
+      this.suiService.getPackageId(),
+      this.configService.get<string[]>('sponsorship.allowedTargets') ?? [],
+    );
+    const eventIds = [
+      ...new Set(calls.flatMap((call) => (call.eventId ? [call.eventId] : []))),
+    ];
+    if (eventIds.length > 1) {
+      throw new ForbiddenException(
+        'A sponsored transaction may act on one event only',
+      );
+    }
+    const eventId = eventIds[0] ?? null;
+
+    const gasBudget = this.configService.get<number>('sponsorship.gasBudget')!;
+    const sponsor = signer.getAddress();
+    const { reservationId, gasCoin } = await this.reserveGasCoin(sponsor, {
+      sender,
+      eventId,
+      targets: calls.map((call) => call.target),
+      gasBudget,
+    });
+
+    let bytes: Uint8Array;
+    let digest: string;
+    let sponsorSignature: string;
+    try {
+      tx.setSender(sender);
+      tx.setGasOwner(sponsor);
+      tx.setGasBudget(gasBudget);
+      tx.setGasPrice(await this.suiService.getReferenceGasPrice());
+      tx.setGasPayment([gasCoin]);
+
+      bytes = await tx.build({ client: this.suiService.getClient() });
+      digest = await tx.getDigest();
+      sponsorSignature = await signer.signTransaction(bytes);
+    } catch (error) {
+      this.ledger.release(reservationId);
+      throw error;
+    }
+    this.ledger.confirm(reservationId, digest);
+
+    return {
+      sender,
+      sponsor,
+      digest,
+      txBytes: toBase64(bytes),
+      sponsorSignature,
+      gasBudget: gasBudget.toString(),
+    };
+  }
+
+  /**
+   * Record the gas a sponsored transaction actually cost once it has
+   * been executed. Only its sender may ask; the cost is read from the
+   * transaction's effects on chain.
+   */
+  async settle(
+    digest: string,
+    address: string,
+  ): Promise<SponsorshipLedgerEntryDto> {
+    const entry = this.ledger.findByDigest(digest);
+    if (!entry || entry.sender !== normalizeSuiAddress(address)) {
+      throw new NotFoundException(`No sponsored transaction ${digest}`);
+    }
+
+    let effects: Awaited<ReturnType<SuiService['getTransactionEffects']>>;
+    try {
+      effects = await this.suiService.getTransactionEffects(digest);
+    } catch {
+      effects = null;
+    }
+    if (!effects) {
+      throw new NotFoundException(
+        `Transaction ${digest} has not been executed`,
+      );
+    }
+
+    const { computationCost, storageCost, storageRebate } = effects.gasUsed;
+    const gasUsed =
+      BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate);
+    const settled = this.ledger.settle(
+      digest,
+      Number(gasUsed),
+      effects.status.status === 'success' ? 'executed' : 'failed',
+    );
+
+    return toEntryDto(settled!);
+  }
+
+  /** The ledger entries of transactions sponsored for `address` */
+  getLedger(
+    query: SponsorshipLedgerQueryDto,
+    address: string,
+  ): SponsorshipLedgerResponseDto {
+    const limit = query.limit ?? 20;
+    const before = decodeCursor(query.cursor, isRowCursor);
+    const page = this.ledger.pageEntries(
+      {
+        sender: normalizeSuiAddress(address),
+        eventId: query.eventId,
+      },
+      { beforeId: before?.id, limit },
+    );
+
+    const last = page.entries[page.entries.length - 1];
+    return {
+      entries: page.entries.map(toEntryDto),
+      nextCursor: page.hasMore ? encodeCursor({ id: last.id }) : undefined,
+      hasMore: page.hasMore,
+    };
+  }
+
+  private requireSigner(): SponsorSigner {
+    if (!this.signer) {
+      throw new ServiceUnavailableException(
+        'Gas sponsorship is not configured',
+      );
+    }
+    return this.signer;
+  }
+
+  /** Throw unless `reservation` fits every limit it counts against */
+  private enforceLimits(reservation: GasReservation) {
+    const { sender, eventId, gasBudget } = reservation;
+    const since =
+      Date.now() - this.configService.get<number>('sponsorship.windowMs')!;
+    // Fresh keypairs get fresh per-address budgets; the global cap bounds them all
+    this.enforceLimit({}, 'global', since, gasBudget);
+    this.enforceLimit({ sender }, 'perAddress', since, gasBudget);
+    if (eventId) {
+      this.enforceLimit({ eventId }, 'perEvent', since, gasBudget);
+    }
+  }
+
+  private enforceLimit(
+    filter: LedgerFilter,
+    scope: 'global' | 'perAddress' | 'perEvent',
+    since: number,
+    gasBudget: number,
+  ) {
+    const limit = this.configService.get<SponsorshipLimit>(
+      `sponsorship.${scope}`,
+    )!;
+    const usage = this.ledger.usage(filter, since);
+    const subject =
+      filter.sender ??
+      (filter.eventId ? `event ${filter.eventId}` : 'the platform');
+
+    if (usage.transactions >= limit.maxTransactions) {
+      throw new HttpException(
+        `Sponsorship rate limit reached for ${subject}`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    if (usage.gasSpent + gasBudget > limit.maxGas) {
+      throw new HttpException(
+        `Sponsorship gas budget exhausted for ${subject}`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Reserve a sponsor coin that covers the budget and is not already
+   * attached to a transaction still in flight, together with the budget.
+   * Each page of coins is claimed synchronously in the ledger, so requests
+   * racing through the awaits here cannot pick the same coin.
+   */
+  private async reserveGasCoin(sponsor: string, reservation: GasReservation) {
+    let cursor: string | null | undefined;
+    do {
+      const page = await this.suiService.getGasCoins(sponsor, cursor);
+      const candidates = page.data.filter(
+        (coin) => BigInt(coin.balance) >= BigInt(reservation.gasBudget),
+      );
+      const claimed = this.ledger.reserve(
+        reservation,
+        candidates.map((coin) => coin.coinObjectId),
+        () => this.enforceLimits(reservation),
+      );
+      if (claimed) {
+        const coin = candidates.find(
+          (candidate) => candidate.coinObjectId === claimed.gasCoinId,
+        )!;
+        return {
+          reservationId: claimed.id,
+          gasCoin: {
+            objectId: coin.coinObjectId,
+            version: coin.version,
+            digest: coin.digest,
+          },
+        };
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    throw new ServiceUnavailableException(
+      'No sponsor gas coin is available; try again shortly',
+    );
+  }
+}
+
+function parseKind(txKindBytes: string): Transaction {
+  try {
+    return Transaction.fromKind(txKindBytes);
+  } catch {
+    throw new BadRequestException('Invalid transaction kind bytes');
+  }
+}
+
+function toEntryDto(entry: LedgerEntry): SponsorshipLedgerEntryDto {
+  return {
+    digest: entry.digest,
+    sender: entry.sender,
+    eventId: entry.eventId ?? undefined,
+    targets: entry.targets,
+    gasCoinId: entry.gasCoinId,
+    gasBudget: entry.gasBudget.toString(),
+    gasUsed: entry.gasUsed === null ? undefined : entry.gasUsed.toString(),
+    status: entry.status,
+    createdAt: entry.createdAt,
+    settledAt: entry.settledAt ?? undefined,
+  };
+}
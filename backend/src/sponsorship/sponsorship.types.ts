@@ -0,0 +1,40 @@
+export type SponsorshipStatus = 'pending' | 'executed' | 'failed';
+
+export interface LedgerEntry {
+  id: number;
+  digest: string;
+  sender: string;
+  eventId: string | null;
+  targets: string[];
+  gasCoinId: string;
+  gasBudget: number;
+  gasUsed: number | null;
+  status: SponsorshipStatus;
+  createdAt: number;
+  settledAt: number | null;
+}
+
+/** Gas held for a transaction that is still being built and signed */
+export type GasReservation = Pick<
+  LedgerEntry,
+  'sender' | 'eventId' | 'targets' | 'gasBudget'
+>;
+
+export interface LedgerFilter {
+  sender?: string;
+  eventId?: string;
+}
+
+/**
+ * Gas already committed within a window. Unsettled entries count at their
+ * full budget until their effects are recorded.
+ */
+export interface SponsorshipUsage {
+  transactions: number;
+  gasSpent: number;
+}
+
+export interface SponsorshipLimit {
+  maxTransactions: number;
+  maxGas: number;
+}
@@ -0,0 +1,92 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CAP_GRANT_ACTIONS, STAFF_ROLES } from '../staff.types';
+import type { CapGrantAction, StaffRole } from '../staff.types';
+
+export class StaffPermissionsDto {
+  @ApiProperty()
+  canUpdateEvent: boolean;
+
+  @ApiProperty()
+  canCancelEvent: boolean;
+
+  @ApiProperty()
+  canApproveRegistrations: boolean;
+
+  @ApiProperty()
+  canWithdrawFunds: boolean;
+
+  @ApiProperty()
+  canGrantValidators: boolean;
+}
+
+export class StaffMemberDto {
+  @ApiProperty()
+  capId: string;
+
+  @ApiProperty({ enum: STAFF_ROLES })
+  role: StaffRole;
+
+  @ApiPropertyOptional({
+    description: 'Current address owner; absent when the cap is wrapped',
+  })
+  holder?: string;
+
+  @ApiPropertyOptional({
+    type: StaffPermissionsDto,
+    description: 'Organizer and delegate caps only',
+  })
+  permissions?: StaffPermissionsDto;
+
+  @ApiPropertyOptional({ description: 'Validator caps only' })
+  validatorAddress?: string;
+
+  @ApiProperty({ description: 'Epoch timestamp (ms) of the grant' })
+  grantedAt: string;
+
+  @ApiProperty({ description: 'Address that created the cap' })
+  grantedBy: string;
+}
+
+export class StaffResponseDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({ type: [StaffMemberDto] })
+  staff: StaffMemberDto[];
+}
+
+export class CapGrantAuditEntryDto {
+  @ApiProperty({ enum: CAP_GRANT_ACTIONS })
+  action: CapGrantAction;
+
+  @ApiProperty()
+  capId: string;
+
+  @ApiProperty()
+  grantedBy: string;
+
+  @ApiPropertyOptional({
+    description: 'Validator address; delegated caps are transferred later',
+  })
+  recipient?: string;
+
+  @ApiProperty({ description: 'Epoch timestamp (ms) of the grant' })
+  timestamp: string;
+
+  @ApiProperty()
+  txDigest: string;
+}
+
+export class CapGrantAuditResponseDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({ type: [CapGrantAuditEntryDto] })
+  entries: CapGrantAuditEntryDto[];
+
+  @ApiPropertyOptional()
+  nextCursor?: string;
+
+  @ApiProperty()
+  hasMore: boolean;
+}
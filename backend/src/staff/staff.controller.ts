@@ -0,0 +1,37 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { EventRoles, RequiresPermission } from '../auth/auth.decorators';
+import { PaginationQueryDto } from '../common/pagination/pagination.dto';
+import { StaffService } from './staff.service';
+import { CapGrantAuditResponseDto, StaffResponseDto } from './dto/staff.dto';
+
+@ApiTags('staff')
+@Controller('events')
+export class StaffController {
+  constructor(private readonly staffService: StaffService) {}
+
+  @Get(':id/staff')
+  @EventRoles('id', 'organizer')
+  @RequiresPermission('can_grant_validators')
+  @ApiOperation({
+    summary: 'List organizer, delegate and validator cap holders',
+  })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: StaffResponseDto })
+  async getStaff(@Param('id') id: string): Promise<StaffResponseDto> {
+    return this.staffService.getStaff(id);
+  }
+
+  @Get(':id/staff/audit')
+  @EventRoles('id', 'organizer')
+  @RequiresPermission('can_grant_validators')
+  @ApiOperation({ summary: 'Get the capability grant log for an event' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: CapGrantAuditResponseDto })
+  getGrantAudit(
+    @Param('id') id: string,
+    @Query() query: PaginationQueryDto,
+  ): CapGrantAuditResponseDto {
+    return this.staffService.getGrantAudit(id, query.limit, query.cursor);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { StaffController } from './staff.controller';
+import { StaffService } from './staff.service';
+
+@Module({
+  imports: [IndexerModule, AuthModule],
+  controllers: [StaffController],
+  providers: [StaffService],
+})
+export class StaffModule {}
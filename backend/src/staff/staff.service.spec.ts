@@ -0,0 +1,178 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import {
+  organizerCapObject,
+  validatorCapObject,
+} from '../common/sui/testing/move-fixtures';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { StaffService } from './staff.service';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const ORGANIZER = normalizeSuiAddress('0x0a9');
+const DELEGATE = normalizeSuiAddress('0xde1');
+const VALIDATOR = normalizeSuiAddress('0x5aff');
+const ORGANIZER_CAP = normalizeSuiAddress('0xca1');
+const LIMITED_CAP = normalizeSuiAddress('0xca2');
+const VALIDATOR_CAP = normalizeSuiAddress('0xca3');
+
+describe('StaffService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let indexer: IndexerService;
+  let staff: StaffService;
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID, objects: {} },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        StaffService,
+      ],
+    }).compile();
+    await module.init();
+
+    indexer = module.get(IndexerService);
+    staff = module.get(StaffService);
+
+    client.addEvents(
+      recordedEvent('access_control::OrganizerCapCreated', {
+        cap_id: ORGANIZER_CAP,
+        event_id: EVENT_ID,
+        organizer: ORGANIZER,
+        timestamp: '1000',
+      }),
+      recordedEvent('access_control::LimitedCapCreated', {
+        cap_id: LIMITED_CAP,
+        event_id: EVENT_ID,
+        delegated_to: ORGANIZER,
+        timestamp: '2000',
+      }),
+      recordedEvent('access_control::ValidatorCapGranted', {
+        cap_id: VALIDATOR_CAP,
+        event_id: EVENT_ID,
+        validator: VALIDATOR,
+        granted_by: ORGANIZER,
+        timestamp: '3000',
+      }),
+      recordedEvent('access_control::ValidatorCapGranted', {
+        cap_id: normalizeSuiAddress('0xca4'),
+        event_id: normalizeSuiAddress('0xe2'),
+        validator: VALIDATOR,
+        granted_by: ORGANIZER,
+        timestamp: '3000',
+      }),
+    );
+    await indexer.syncOnce();
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('lists current cap holders with permissions and grantors', async () => {
+    client.setObject(
+      organizerCapObject(ORGANIZER_CAP, ORGANIZER, {
+        event_id: EVENT_ID,
+        granted_at: '1000',
+      }),
+    );
+    client.setObject(
+      organizerCapObject(LIMITED_CAP, DELEGATE, {
+        event_id: EVENT_ID,
+        permissions: { can_cancel_event: false, can_withdraw_funds: false },
+        granted_at: '2000',
+      }),
+    );
+    client.setObject(
+      validatorCapObject(VALIDATOR_CAP, VALIDATOR, {
+        event_id: EVENT_ID,
+        granted_by: ORGANIZER,
+        granted_at: '3000',
+      }),
+    );
+
+    const result = await staff.getStaff(EVENT_ID);
+
+    expect(result.staff).toEqual([
+      expect.objectContaining({
+        capId: ORGANIZER_CAP,
+        role: 'organizer',
+        holder: ORGANIZER,
+        grantedBy: ORGANIZER,
+        grantedAt: '1000',
+      }),
+      {
+        capId: LIMITED_CAP,
+        role: 'delegate',
+        holder: DELEGATE,
+        permissions: {
+          canUpdateEvent: true,
+          canCancelEvent: false,
+          canApproveRegistrations: true,
+          canWithdrawFunds: false,
+          canGrantValidators: true,
+        },
+        validatorAddress: undefined,
+        grantedAt: '2000',
+        grantedBy: ORGANIZER,
+      },
+      expect.objectContaining({
+        capId: VALIDATOR_CAP,
+        role: 'validator',
+        holder: VALIDATOR,
+        permissions: undefined,
+        validatorAddress: VALIDATOR,
+      }),
+    ]);
+  });
+
+  it('omits caps that no longer exist', async () => {
+    const result = await staff.getStaff(EVENT_ID);
+
+    expect(result.staff).toEqual([]);
+  });
+
+  it('pages the grant audit log in grant order', () => {
+    const first = staff.getGrantAudit(EVENT_ID, 2);
+    const second = staff.getGrantAudit(EVENT_ID, 2, first.nextCursor);
+
+    expect(first.hasMore).toBe(true);
+    expect(first.entries.map((entry) => entry.action)).toEqual([
+      'organizer_cap_created',
+      'limited_cap_created',
+    ]);
+    expect(second.hasMore).toBe(false);
+    expect(second.entries).toEqual([
+      expect.objectContaining({
+        action: 'validator_cap_granted',
+        capId: VALIDATOR_CAP,
+        grantedBy: ORGANIZER,
+        recipient: VALIDATOR,
+        timestamp: '3000',
+      }),
+    ]);
+  });
+});
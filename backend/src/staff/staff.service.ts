@@ -0,0 +1,174 @@
+import { Injectable } from '@nestjs/common';
+import { SuiObjectResponse } from '@mysten/sui/client';
+import {
+  decodeCursor,
+  encodeCursor,
+  isRowCursor,
+} from '../common/pagination/cursor';
+import { addressOwner, decodeMoveObject } from '../common/sui/move-decoder';
+import {
+  EVENT_ORGANIZER_CAP,
+  OrganizerPermissions,
+  VALIDATOR_CAP,
+} from '../common/sui/move-objects';
+import { SuiService } from '../common/sui/sui.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import {
+  IndexedEvent,
+  LimitedCapCreatedEvent,
+  OrganizerCapCreatedEvent,
+  ValidatorCapGrantedEvent,
+} from '../indexer/indexer.types';
+import {
+  CapGrantAuditEntryDto,
+  CapGrantAuditResponseDto,
+  StaffMemberDto,
+  StaffPermissionsDto,
+  StaffResponseDto,
+} from './dto/staff.dto';
+import {
+  CAP_GRANT_EVENT_ACTIONS,
+  CAP_GRANT_EVENT_TYPES,
+  CapGrantEventType,
+  StaffRole,
+} from './staff.types';
+
+type CapGrantEvent =
+  | OrganizerCapCreatedEvent
+  | LimitedCapCreatedEvent
+  | ValidatorCapGrantedEvent;
+
+const STAFF_ROLE_BY_EVENT: Record<CapGrantEventType, StaffRole> = {
+  'access_control::OrganizerCapCreated': 'organizer',
+  'access_control::LimitedCapCreated': 'delegate',
+  'access_control::ValidatorCapGranted': 'validator',
+};
+
+@Injectable()
+export class StaffService {
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly indexerStore: IndexerStore,
+  ) {}
+
+  /**
+   * Every cap ever granted for the event that still exists on chain, with
+   * its current holder. Caps are plain owned objects, so a delegate may
+   * have passed theirs on since the grant.
+   */
+  async getStaff(eventId: string): Promise<StaffResponseDto> {
+    const grants = this.indexerStore.findEvents<CapGrantEvent>(
+      CAP_GRANT_EVENT_TYPES,
+      { event_id: eventId },
+    );
+
+    const staff: StaffMemberDto[] = [];
+    for (const grant of grants) {
+      const cap = await this.suiService.getObject(grant.data.cap_id);
+      const member = mapStaffMember(
+        grant,
+        cap,
+        this.suiService.getPackageIds(),
+      );
+      if (member) {
+        staff.push(member);
+      }
+    }
+
+    return { eventId, staff };
+  }
+
+  getGrantAudit(
+    eventId: string,
+    limit = 20,
+    cursor?: string,
+  ): CapGrantAuditResponseDto {
+    const after = decodeCursor(cursor, isRowCursor);
+    const page = this.indexerStore.pageEvents<CapGrantEvent>(
+      CAP_GRANT_EVENT_TYPES,
+      { event_id: eventId },
+      { afterId: after?.id, limit },
+    );
+
+    const last = page.events[page.events.length - 1];
+    return {
+      eventId,
+      entries: page.events.map(mapAuditEntry),
+      nextCursor: page.hasMore ? encodeCursor({ id: last.id }) : undefined,
+      hasMore: page.hasMore,
+    };
+  }
+}
+
+/** Address that created the cap, as recorded by the grant event */
+function grantor(event: IndexedEvent<CapGrantEvent>): string {
+  const data = event.data as Partial<
+    OrganizerCapCreatedEvent & LimitedCapCreatedEvent & ValidatorCapGrantedEvent
+  >;
+  return (data.granted_by ?? data.delegated_to ?? data.organizer)!;
+}
+
+function mapAuditEntry(
+  event: IndexedEvent<CapGrantEvent>,
+): CapGrantAuditEntryDto {
+  const type = event.eventType as CapGrantEventType;
+  return {
+    action: CAP_GRANT_EVENT_ACTIONS[type],
+    capId: event.data.cap_id,
+    grantedBy: grantor(event),
+    recipient:
+      type === 'access_control::ValidatorCapGranted'
+        ? (event.data as ValidatorCapGrantedEvent).validator
+        : undefined,
+    timestamp: event.data.timestamp,
+    txDigest: event.txDigest,
+  };
+}
+
+function mapStaffMember(
+  event: IndexedEvent<CapGrantEvent>,
+  cap: SuiObjectResponse,
+  packageIds: readonly string[],
+): StaffMemberDto | null {
+  const role = STAFF_ROLE_BY_EVENT[event.eventType as CapGrantEventType];
+  const member = {
+    capId: event.data.cap_id,
+    role,
+    holder: addressOwner(cap),
+    grantedBy: grantor(event),
+  };
+
+  if (role === 'validator') {
+    const validatorCap = decodeMoveObject(cap, packageIds, VALIDATOR_CAP);
+    return (
+      validatorCap && {
+        ...member,
+        permissions: undefined,
+        validatorAddress: validatorCap.validator_address,
+        grantedAt: validatorCap.granted_at,
+      }
+    );
+  }
+
+  const organizerCap = decodeMoveObject(cap, packageIds, EVENT_ORGANIZER_CAP);
+  return (
+    organizerCap && {
+      ...member,
+      permissions: mapPermissions(organizerCap.permissions),
+      validatorAddress: undefined,
+      grantedAt: organizerCap.granted_at,
+    }
+  );
+}
+
+function mapPermissions(
+  permissions: OrganizerPermissions,
+): StaffPermissionsDto {
+  return {
+    canUpdateEvent: permissions.can_update_event,
+    canCancelEvent: permissions.can_cancel_event,
+    canApproveRegistrations: permissions.can_approve_registrations,
+    canWithdrawFunds: permissions.can_withdraw_funds,
+    canGrantValidators: permissions.can_grant_validators,
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Capability grant events, keyed to the audit action clients see.
+ */
+export const CAP_GRANT_EVENT_ACTIONS = {
+  'access_control::OrganizerCapCreated': 'organizer_cap_created',
+  'access_control::LimitedCapCreated': 'limited_cap_created',
+  'access_control::ValidatorCapGranted': 'validator_cap_granted',
+} as const;
+
+export type CapGrantEventType = keyof typeof CAP_GRANT_EVENT_ACTIONS;
+
+export const CAP_GRANT_EVENT_TYPES = Object.keys(
+  CAP_GRANT_EVENT_ACTIONS,
+) as CapGrantEventType[];
+
+export const CAP_GRANT_ACTIONS = Object.values(CAP_GRANT_EVENT_ACTIONS);
+
+export type CapGrantAction = (typeof CAP_GRANT_ACTIONS)[number];
+
+/** The event creator's cap, a delegated copy of it, or a gate validator */
+export const STAFF_ROLES = ['organizer', 'delegate', 'validator'] as const;
+
+export type StaffRole = (typeof STAFF_ROLES)[number];
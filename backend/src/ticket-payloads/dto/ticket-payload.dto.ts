@@ -0,0 +1,70 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { IsSuiAddress } from '../../common/validation/sui.validators';
+
+export class TicketPayloadDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  seat?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  holderName?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  accessInstructions?: string;
+}
+
+export class EncryptTicketPayloadDto {
+  @ApiProperty({ description: 'Event the ticket will be minted for' })
+  @IsSuiAddress()
+  eventId: string;
+
+  @ApiProperty({ type: TicketPayloadDto })
+  @ValidateNested()
+  @Type(() => TicketPayloadDto)
+  payload: TicketPayloadDto;
+}
+
+export class EncryptedTicketPayloadResponseDto {
+  @ApiProperty({
+    description: 'Hex-encoded ciphertext; pass as encryptedData to mint-ticket',
+  })
+  encryptedData: string;
+
+  @ApiProperty({ description: 'Pass as sealKeyId to mint-ticket' })
+  sealKeyId: string;
+}
+
+export class DecryptedTicketPayloadResponseDto {
+  @ApiProperty()
+  ticketId: string;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  sealKeyId: string;
+
+  @ApiProperty({
+    enum: ['owner', 'validator'],
+    description: 'Which access rule admitted the caller',
+  })
+  accessedAs: 'owner' | 'validator';
+
+  @ApiProperty({ type: TicketPayloadDto })
+  payload: TicketPayloadDto;
+}
@@ -0,0 +1,83 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { fromHex, normalizeSuiAddress, toHex } from '@mysten/sui/utils';
+
+const ENVELOPE_VERSION = 1;
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_ID_NONCE_BYTES = 16;
+
+/**
+ * Seal identities are the event id followed by a random nonce, so every
+ * ticket gets its own key and a payload can only be opened in the context
+ * of the event it was minted for.
+ */
+export function newSealKeyId(eventId: string): string {
+  return `0x${normalizeSuiAddress(eventId).slice(2)}${toHex(randomBytes(KEY_ID_NONCE_BYTES))}`;
+}
+
+export function sealKeyIdMatchesEvent(keyId: string, eventId: string): boolean {
+  const event = normalizeSuiAddress(eventId).slice(2);
+  return (
+    /^0x[0-9a-f]+$/.test(keyId) &&
+    keyId.length === 2 + event.length + KEY_ID_NONCE_BYTES * 2 &&
+    keyId.slice(2, 2 + event.length) === event
+  );
+}
+
+/**
+ * AES-256-GCM with the key id and the buyer's address as associated data,
+ * so a payload only opens on a ticket whose `original_owner` it was sealed
+ * for. Envelope layout: version (1) | nonce (12) | tag (16) | ciphertext.
+ */
+export function encryptPayload(
+  key: Uint8Array,
+  keyId: string,
+  buyer: string,
+  plaintext: Uint8Array,
+): Uint8Array {
+  const nonce = randomBytes(NONCE_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, nonce);
+  cipher.setAAD(associatedData(keyId, buyer));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return Buffer.concat([
+    Buffer.from([ENVELOPE_VERSION]),
+    nonce,
+    cipher.getAuthTag(),
+    ciphertext,
+  ]);
+}
+
+/** Returns `null` when the envelope is malformed or fails authentication */
+export function decryptPayload(
+  key: Uint8Array,
+  keyId: string,
+  buyer: string,
+  envelope: Uint8Array,
+): Uint8Array | null {
+  const header = 1 + NONCE_BYTES + TAG_BYTES;
+  if (envelope.length < header || envelope[0] !== ENVELOPE_VERSION) {
+    return null;
+  }
+
+  const bytes = Buffer.from(envelope);
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    key,
+    bytes.subarray(1, 1 + NONCE_BYTES),
+  );
+  decipher.setAAD(associatedData(keyId, buyer));
+  decipher.setAuthTag(bytes.subarray(1 + NONCE_BYTES, header));
+  try {
+    return Buffer.concat([
+      decipher.update(bytes.subarray(header)),
+      decipher.final(),
+    ]);
+  } catch {
+    return null;
+  }
+}
+
+function associatedData(keyId: string, buyer: string): Buffer {
+  return Buffer.concat([fromHex(keyId), fromHex(normalizeSuiAddress(buyer))]);
+}
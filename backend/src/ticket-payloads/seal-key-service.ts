@@ -0,0 +1,34 @@
+import { createHmac } from 'crypto';
+import { fromHex } from '@mysten/sui/utils';
+
+/**
+ * Releases the symmetric key for a Seal identity. A networked
+ * implementation asks the Seal key servers, which only answer once the
+ * on-chain access policy approves; callers of this interface must run the
+ * equivalent access check themselves before asking.
+ */
+export interface SealKeyService {
+  deriveKey(keyId: string): Promise<Uint8Array>;
+}
+
+/**
+ * Derives per-identity keys from a single local master secret with
+ * HMAC-SHA256, for development and tests without key servers.
+ */
+export class LocalSealKeyService implements SealKeyService {
+  constructor(private readonly masterKey: Uint8Array) {}
+
+  static fromHex(masterKey: string): LocalSealKeyService {
+    const bytes = fromHex(masterKey);
+    if (bytes.length !== 32) {
+      throw new Error('Seal master key must be 32 bytes of hex');
+    }
+    return new LocalSealKeyService(bytes);
+  }
+
+  deriveKey(keyId: string): Promise<Uint8Array> {
+    return Promise.resolve(
+      createHmac('sha256', this.masterKey).update(fromHex(keyId)).digest(),
+    );
+  }
+}
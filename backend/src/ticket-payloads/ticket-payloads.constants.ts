@@ -0,0 +1 @@
+export const SEAL_KEY_SERVICE = 'SEAL_KEY_SERVICE';
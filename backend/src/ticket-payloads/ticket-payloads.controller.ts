@@ -0,0 +1,52 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Authenticated, CurrentAddress } from '../auth/auth.decorators';
+import { TicketPayloadsService } from './ticket-payloads.service';
+import {
+  DecryptedTicketPayloadResponseDto,
+  EncryptTicketPayloadDto,
+  EncryptedTicketPayloadResponseDto,
+} from './dto/ticket-payload.dto';
+
+@ApiTags('tickets')
+@Controller('tickets')
+export class TicketPayloadsController {
+  constructor(private readonly ticketPayloadsService: TicketPayloadsService) {}
+
+  @Post('payload')
+  @HttpCode(HttpStatus.OK)
+  @Authenticated()
+  @ApiOperation({
+    summary:
+      'Encrypt a ticket payload for the signed-in buyer to pass to mint-ticket',
+  })
+  @ApiResponse({ status: 200, type: EncryptedTicketPayloadResponseDto })
+  async encryptPayload(
+    @Body() dto: EncryptTicketPayloadDto,
+    @CurrentAddress() buyer: string,
+  ): Promise<EncryptedTicketPayloadResponseDto> {
+    return this.ticketPayloadsService.encrypt(dto, buyer);
+  }
+
+  @Get(':id/payload')
+  @Authenticated()
+  @ApiOperation({
+    summary: 'Decrypt a ticket payload for its owner or an event validator',
+  })
+  @ApiParam({ name: 'id', description: 'Ticket object ID' })
+  @ApiResponse({ status: 200, type: DecryptedTicketPayloadResponseDto })
+  async decryptPayload(
+    @Param('id') id: string,
+    @CurrentAddress() address: string,
+  ): Promise<DecryptedTicketPayloadResponseDto> {
+    return this.ticketPayloadsService.decrypt(id, address);
+  }
+}
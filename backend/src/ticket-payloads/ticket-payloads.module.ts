@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthModule } from '../auth/auth.module';
+import { LocalSealKeyService } from './seal-key-service';
+import { SEAL_KEY_SERVICE } from './ticket-payloads.constants';
+import { TicketPayloadsController } from './ticket-payloads.controller';
+import { TicketPayloadsService } from './ticket-payloads.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [TicketPayloadsController],
+  providers: [
+    {
+      provide: SEAL_KEY_SERVICE,
+      useFactory: (configService: ConfigService) => {
+        const key = configService.get<string>('seal.masterKey');
+        return key ? LocalSealKeyService.fromHex(key) : null;
+      },
+      inject: [ConfigService],
+    },
+    TicketPayloadsService,
+  ],
+})
+export class TicketPayloadsModule {}
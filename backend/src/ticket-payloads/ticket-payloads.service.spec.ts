@@ -0,0 +1,203 @@
+import {
+  ForbiddenException,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { fromHex, normalizeSuiAddress } from '@mysten/sui/utils';
+import { randomBytes } from 'crypto';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  moveObject,
+} from '../common/sui/testing/fake-sui-client';
+import {
+  ticketFields,
+  validatorCapObject,
+} from '../common/sui/testing/move-fixtures';
+import { IndexerStore } from '../indexer/indexer.store';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { LocalSealKeyService } from './seal-key-service';
+import { SEAL_KEY_SERVICE } from './ticket-payloads.constants';
+import { TicketPayloadsService } from './ticket-payloads.service';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const OTHER_EVENT_ID = normalizeSuiAddress('0xe2');
+const OWNER = normalizeSuiAddress('0xa11ce');
+const VALIDATOR = normalizeSuiAddress('0x5aff');
+const STRANGER = normalizeSuiAddress('0xbad');
+const TICKET_ID = normalizeSuiAddress('0x71c');
+
+const PAYLOAD = {
+  seat: 'B-12',
+  holderName: 'Alice',
+  accessInstructions: 'Use the north gate',
+};
+
+describe('TicketPayloadsService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let payloads: TicketPayloadsService;
+
+  function setTicket(
+    sealed: { encryptedData: string; sealKeyId: string },
+    overrides: {
+      type?: string;
+      eventId?: string;
+      buyer?: string;
+      resoldTo?: string;
+    } = {},
+  ) {
+    const buyer = overrides.buyer ?? OWNER;
+    const owner = overrides.resoldTo ?? buyer;
+    client.setObject(
+      moveObject(
+        TICKET_ID,
+        overrides.type ?? 'tickets::Ticket',
+        ticketFields({
+          id: { id: TICKET_ID },
+          event_id: overrides.eventId ?? EVENT_ID,
+          owner,
+          original_owner: buyer,
+          metadata: {
+            encrypted_data: Array.from(fromHex(sealed.encryptedData)),
+            seal_key_id: sealed.sealKeyId,
+          },
+        }),
+        owner,
+      ),
+    );
+  }
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID, objects: {} },
+            database: { path: ':memory:' },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        {
+          provide: SEAL_KEY_SERVICE,
+          useValue: new LocalSealKeyService(randomBytes(32)),
+        },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        ObjectResolverService,
+        TicketPayloadsService,
+      ],
+    }).compile();
+    await module.init();
+
+    payloads = module.get(TicketPayloadsService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('round-trips a payload for the ticket owner', async () => {
+    const sealed = await payloads.encrypt(
+      { eventId: EVENT_ID, payload: PAYLOAD },
+      OWNER,
+    );
+    setTicket(sealed);
+
+    const result = await payloads.decrypt(TICKET_ID, OWNER);
+
+    expect(sealed.encryptedData).not.toContain(
+      Buffer.from('Alice').toString('hex'),
+    );
+    expect(sealed.sealKeyId.startsWith(EVENT_ID)).toBe(true);
+    expect(result).toEqual({
+      ticketId: TICKET_ID,
+      eventId: EVENT_ID,
+      sealKeyId: sealed.sealKeyId,
+      accessedAs: 'owner',
+      payload: PAYLOAD,
+    });
+  });
+
+  it('admits validators for the event and nobody else', async () => {
+    setTicket(
+      await payloads.encrypt({ eventId: EVENT_ID, payload: PAYLOAD }, OWNER),
+    );
+    client.setObject(
+      validatorCapObject(normalizeSuiAddress('0xca9'), VALIDATOR, {
+        event_id: EVENT_ID,
+      }),
+    );
+
+    await expect(payloads.decrypt(TICKET_ID, VALIDATOR)).resolves.toMatchObject(
+      { accessedAs: 'validator', payload: PAYLOAD },
+    );
+    await expect(payloads.decrypt(TICKET_ID, STRANGER)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+  });
+
+  it('refuses ciphertext copied onto another event or a forged object', async () => {
+    const sealed = await payloads.encrypt(
+      { eventId: EVENT_ID, payload: PAYLOAD },
+      OWNER,
+    );
+
+    setTicket(sealed, { eventId: OTHER_EVENT_ID });
+    await expect(payloads.decrypt(TICKET_ID, OWNER)).rejects.toBeInstanceOf(
+      UnprocessableEntityException,
+    );
+
+    setTicket(sealed, { type: 'forgery::Ticket' });
+    await expect(payloads.decrypt(TICKET_ID, OWNER)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it("refuses ciphertext copied onto another buyer's genuine ticket", async () => {
+    const sealed = await payloads.encrypt(
+      { eventId: EVENT_ID, payload: PAYLOAD },
+      OWNER,
+    );
+
+    setTicket(sealed, { buyer: STRANGER });
+    await expect(payloads.decrypt(TICKET_ID, STRANGER)).rejects.toBeInstanceOf(
+      UnprocessableEntityException,
+    );
+  });
+
+  it('decrypts the payload a resale buyer sealed when the ticket was rekeyed', async () => {
+    const sealed = await payloads.encrypt(
+      { eventId: EVENT_ID, payload: { ...PAYLOAD, holderName: 'Bob' } },
+      STRANGER,
+    );
+
+    setTicket(sealed, { resoldTo: STRANGER });
+    await expect(payloads.decrypt(TICKET_ID, STRANGER)).resolves.toMatchObject({
+      accessedAs: 'owner',
+      payload: { holderName: 'Bob' },
+    });
+  });
+
+  it('is unavailable without a key service', async () => {
+    const unconfigured = new TicketPayloadsService(
+      module.get(SuiService),
+      module.get(ObjectResolverService),
+      null,
+    );
+
+    await expect(
+      unconfigured.encrypt({ eventId: EVENT_ID, payload: PAYLOAD }, OWNER),
+    ).rejects.toBeInstanceOf(ServiceUnavailableException);
+  });
+});
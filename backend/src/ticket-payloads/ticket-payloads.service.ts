@@ -0,0 +1,152 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { fromHex, normalizeSuiAddress, toHex } from '@mysten/sui/utils';
+import { decodeMoveObject } from '../common/sui/move-decoder';
+import { TICKET } from '../common/sui/move-objects';
+import { SuiService } from '../common/sui/sui.service';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import {
+  DecryptedTicketPayloadResponseDto,
+  EncryptTicketPayloadDto,
+  EncryptedTicketPayloadResponseDto,
+  TicketPayloadDto,
+} from './dto/ticket-payload.dto';
+import {
+  decryptPayload,
+  encryptPayload,
+  newSealKeyId,
+  sealKeyIdMatchesEvent,
+} from './payload-cipher';
+import type { SealKeyService } from './seal-key-service';
+import { SEAL_KEY_SERVICE } from './ticket-payloads.constants';
+
+interface SealedTicket {
+  eventId: string;
+  owner: string;
+  originalOwner: string;
+  encryptedData: string;
+  sealKeyId: string;
+}
+
+@Injectable()
+export class TicketPayloadsService {
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly resolver: ObjectResolverService,
+    @Inject(SEAL_KEY_SERVICE)
+    private readonly keyService: SealKeyService | null,
+  ) {}
+
+  /** Seal a payload for a ticket that `buyer` is about to mint */
+  async encrypt(
+    dto: EncryptTicketPayloadDto,
+    buyer: string,
+  ): Promise<EncryptedTicketPayloadResponseDto> {
+    const keyService = this.requireKeyService();
+    const sealKeyId = newSealKeyId(dto.eventId);
+    const key = await keyService.deriveKey(sealKeyId);
+    const plaintext = Buffer.from(JSON.stringify(dto.payload));
+
+    return {
+      encryptedData: toHex(encryptPayload(key, sealKeyId, buyer, plaintext)),
+      sealKeyId,
+    };
+  }
+
+  /**
+   * Decrypt a ticket's payload for its owner or for a ValidatorCap holder
+   * of the ticket's event, the same audience the Seal policy admits.
+   */
+  async decrypt(
+    ticketId: string,
+    caller: string,
+  ): Promise<DecryptedTicketPayloadResponseDto> {
+    const keyService = this.requireKeyService();
+    const ticket = await this.getSealedTicket(ticketId);
+
+    let accessedAs: DecryptedTicketPayloadResponseDto['accessedAs'];
+    if (normalizeSuiAddress(ticket.owner) === normalizeSuiAddress(caller)) {
+      accessedAs = 'owner';
+    } else if (
+      await this.resolver.resolveValidatorCap(caller, ticket.eventId)
+    ) {
+      accessedAs = 'validator';
+    } else {
+      throw new ForbiddenException(
+        `Only the ticket owner or a validator for event ${ticket.eventId} may read this payload`,
+      );
+    }
+
+    if (!sealKeyIdMatchesEvent(ticket.sealKeyId, ticket.eventId)) {
+      throw new UnprocessableEntityException(
+        `Seal key ${ticket.sealKeyId} is not bound to event ${ticket.eventId}`,
+      );
+    }
+
+    const key = await keyService.deriveKey(ticket.sealKeyId);
+    // A resold ticket carries the payload its buyer sealed for themselves
+    // when the resale swap rekeyed it
+    const envelope = fromHex(ticket.encryptedData);
+    const plaintext =
+      decryptPayload(key, ticket.sealKeyId, ticket.originalOwner, envelope) ??
+      decryptPayload(key, ticket.sealKeyId, ticket.owner, envelope);
+    if (!plaintext) {
+      throw new UnprocessableEntityException(
+        `Payload of ticket ${ticketId} could not be decrypted or was not sealed for its buyer`,
+      );
+    }
+
+    return {
+      ticketId,
+      eventId: ticket.eventId,
+      sealKeyId: ticket.sealKeyId,
+      accessedAs,
+      payload: JSON.parse(
+        Buffer.from(plaintext).toString('utf8'),
+      ) as TicketPayloadDto,
+    };
+  }
+
+  private async getSealedTicket(ticketId: string): Promise<SealedTicket> {
+    // Anyone can publish an object with copied ciphertext and themselves as
+    // `owner`; decoding only accepts genuine tickets from our package
+    const ticket = decodeMoveObject(
+      await this.suiService.getObject(ticketId),
+      this.suiService.getPackageIds(),
+      TICKET,
+    );
+    if (!ticket) {
+      throw new NotFoundException(`Ticket ${ticketId} not found`);
+    }
+
+    const { encrypted_data, seal_key_id } = ticket.metadata;
+    if (!encrypted_data || !seal_key_id) {
+      throw new NotFoundException(
+        `Ticket ${ticketId} has no encrypted payload`,
+      );
+    }
+
+    return {
+      eventId: ticket.event_id,
+      owner: ticket.owner,
+      originalOwner: ticket.original_owner,
+      encryptedData: encrypted_data,
+      sealKeyId: seal_key_id,
+    };
+  }
+
+  private requireKeyService(): SealKeyService {
+    if (!this.keyService) {
+      throw new ServiceUnavailableException(
+        'Ticket payload encryption is not configured',
+      );
+    }
+    return this.keyService;
+  }
+}
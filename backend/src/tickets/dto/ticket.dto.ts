@@ -17,27 +17,44 @@ export class TicketResponseDto {
   ticketNumber: number;
 
   @ApiProperty()
-  purchasePrice: string;
+  tier: string;
 
-  @ApiProperty()
-  purchasedAt: string;
+  @ApiProperty({ description: 'Hex-encoded hash of the QR code secret' })
+  qrCodeHash: string;
+
+  @ApiProperty({ description: 'Mint time in ms since epoch' })
+  mintedAt: string;
 
   @ApiProperty()
-  isUsed: boolean;
+  isValidated: boolean;
+
+  @ApiPropertyOptional()
+  validatedAt?: string;
 
   @ApiPropertyOptional()
-  usedAt?: string;
+  validatorAddress?: string;
+
+  @ApiProperty({ description: 'Readable via GET /tickets/:id/payload' })
+  hasEncryptedPayload: boolean;
 
   @ApiPropertyOptional()
-  encryptedData?: string;
+  sealKeyId?: string;
 }
 
 export class TicketListResponseDto {
   @ApiProperty({ type: [TicketResponseDto] })
   tickets: TicketResponseDto[];
 
+  @ApiPropertyOptional({
+    description: 'Total tickets across all pages, when known',
+  })
+  total?: number;
+
+  @ApiPropertyOptional()
+  nextCursor?: string;
+
   @ApiProperty()
-  total: number;
+  hasMore: boolean;
 }
 
 export class ValidateTicketResponseDto {
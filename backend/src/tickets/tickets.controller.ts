@@ -1,7 +1,12 @@
 import { Controller, Get, Param, Query } from '@nestjs/common';
 import { ApiOperation, ApiParam, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { TicketsService } from './tickets.service';
-import { TicketResponseDto, ValidateTicketResponseDto } from './dto/ticket.dto';
+import {
+  TicketListResponseDto,
+  TicketResponseDto,
+  ValidateTicketResponseDto,
+} from './dto/ticket.dto';
+import { PaginationQueryDto } from '../common/pagination/pagination.dto';
 
 @ApiTags('tickets')
 @Controller('tickets')
@@ -19,17 +24,23 @@ export class TicketsController {
   @Get('owner/:address')
   @ApiOperation({ summary: 'Get tickets by owner address' })
   @ApiParam({ name: 'address', description: 'Owner wallet address' })
-  @ApiResponse({ status: 200, type: [TicketResponseDto] })
-  async getTicketsByOwner(@Param('address') address: string): Promise<TicketResponseDto[]> {
-    return this.ticketsService.getTicketsByOwner(address);
+  @ApiResponse({ status: 200, type: TicketListResponseDto })
+  async getTicketsByOwner(
+    @Param('address') address: string,
+    @Query() query: PaginationQueryDto,
+  ): Promise<TicketListResponseDto> {
+    return this.ticketsService.getTicketsByOwner(address, query.limit, query.cursor);
   }
 
   @Get('event/:eventId')
   @ApiOperation({ summary: 'Get tickets for an event' })
   @ApiParam({ name: 'eventId', description: 'Event object ID' })
-  @ApiResponse({ status: 200, type: [TicketResponseDto] })
-  async getTicketsByEvent(@Param('eventId') eventId: string): Promise<TicketResponseDto[]> {
-    return this.ticketsService.getTicketsByEvent(eventId);
+  @ApiResponse({ status: 200, type: TicketListResponseDto })
+  async getTicketsByEvent(
+    @Param('eventId') eventId: string,
+    @Query() query: PaginationQueryDto,
+  ): Promise<TicketListResponseDto> {
+    return this.ticketsService.getTicketsByEvent(eventId, query.limit, query.cursor);
   }
 
   @Get(':id/validate')
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
+import { IndexerModule } from '../indexer/indexer.module';
 import { TicketsController } from './tickets.controller';
 import { TicketsService } from './tickets.service';
 
 @Module({
+  imports: [IndexerModule],
   controllers: [TicketsController],
   providers: [TicketsService],
   exports: [TicketsService],
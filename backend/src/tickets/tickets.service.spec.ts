@@ -0,0 +1,111 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { BadRequestException } from '@nestjs/common';
+import { DatabaseService } from '../common/database/database.service';
+import { SuiService } from '../common/sui/sui.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import { ticketObject } from '../common/sui/testing/move-fixtures';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { TicketsService } from './tickets.service';
+
+describe('TicketsService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let ticketsService: TicketsService;
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        TicketsService,
+      ],
+    }).compile();
+    await module.init();
+
+    ticketsService = module.get(TicketsService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  describe('pagination', () => {
+    it('pages through every ticket of an event with opaque cursors', async () => {
+      for (let i = 0; i < 45; i++) {
+        client.addEvents(
+          recordedEvent('tickets::TicketMinted', {
+            ticket_id: `0x7${i}`,
+            event_id: normalizeSuiAddress('0xe1'),
+          }),
+        );
+        client.setObject(ticketObject(`0x7${i}`, { event_id: '0xe1' }));
+      }
+      await module.get(IndexerService).syncOnce();
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        // events carry the full id; the short form must still match
+        const page = await ticketsService.getTicketsByEvent('0xE1', 20, cursor);
+        expect(page.total).toBe(45);
+        seen.push(...page.tickets.map((ticket) => ticket.id));
+        cursor = page.nextCursor;
+        expect(page.hasMore).toBe(cursor !== undefined);
+      } while (cursor);
+
+      expect(seen).toHaveLength(45);
+      expect(new Set(seen).size).toBe(45);
+    });
+
+    it('follows getOwnedObjects nextCursor for owned tickets', async () => {
+      for (let i = 0; i < 3; i++) {
+        client.setObject(
+          ticketObject(`0x7${i}`, { event_id: '0xe1', owner: '0xb0b' }),
+        );
+      }
+
+      const first = await ticketsService.getTicketsByOwner('0xb0b', 2);
+      const second = await ticketsService.getTicketsByOwner(
+        '0xb0b',
+        2,
+        first.nextCursor,
+      );
+
+      expect(first.tickets.map((ticket) => ticket.id)).toEqual([
+        '0x70',
+        '0x71',
+      ]);
+      expect(first.hasMore).toBe(true);
+      expect(second.tickets.map((ticket) => ticket.id)).toEqual(['0x72']);
+      expect(second.hasMore).toBe(false);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('rejects a tampered cursor', async () => {
+      await expect(
+        ticketsService.getTicketsByEvent('0xe1', 20, 'not-a-cursor'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -1,56 +1,116 @@
 import { Injectable } from '@nestjs/common';
+import { SuiObjectResponse } from '@mysten/sui/client';
 import { SuiService } from '../common/sui/sui.service';
-import { TicketResponseDto, ValidateTicketResponseDto } from './dto/ticket.dto';
+import { decodeMoveObject } from '../common/sui/move-decoder';
+import { TICKET, TicketObject } from '../common/sui/move-objects';
+import {
+  decodeCursor,
+  encodeCursor,
+  isObjectIdCursor,
+  isRowCursor,
+} from '../common/pagination/cursor';
+import { IndexerStore } from '../indexer/indexer.store';
+import {
+  TicketMintedEvent,
+  TicketValidatedEvent,
+} from '../indexer/indexer.types';
+import {
+  TicketListResponseDto,
+  TicketResponseDto,
+  ValidateTicketResponseDto,
+} from './dto/ticket.dto';
 
 @Injectable()
 export class TicketsService {
-  constructor(private readonly suiService: SuiService) {}
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly indexerStore: IndexerStore,
+  ) {}
 
   async getTicket(ticketId: string): Promise<TicketResponseDto | null> {
-    const response = await this.suiService.getObject(ticketId);
+    const ticket = this.decodeTicket(await this.suiService.getObject(ticketId));
+    return ticket && this.withCheckIn(mapTicket(ticketId, ticket));
+  }
 
-    if (!response.data?.content || response.data.content.dataType !== 'moveObject') {
-      return null;
-    }
+  /**
+   * Batch-fetch tickets in input order, skipping ids that no longer resolve
+   * to a ticket object.
+   */
+  async getTickets(ticketIds: string[]): Promise<TicketResponseDto[]> {
+    const responses = await this.suiService.getObjects(ticketIds);
 
-    const fields = response.data.content.fields as Record<string, unknown>;
-    return this.mapTicketFields(ticketId, fields);
+    const tickets: TicketResponseDto[] = [];
+    responses.forEach((response, index) => {
+      const ticket = this.decodeTicket(response);
+      if (ticket) {
+        tickets.push(this.withCheckIn(mapTicket(ticketIds[index], ticket)));
+      }
+    });
+    return tickets;
   }
 
-  async getTicketsByOwner(owner: string): Promise<TicketResponseDto[]> {
-    const response = await this.suiService.getOwnedObjects(owner, 'tickets::Ticket');
+  async getTicketsByOwner(
+    owner: string,
+    limit = 20,
+    cursor?: string,
+  ): Promise<TicketListResponseDto> {
+    const response = await this.suiService.getOwnedObjects(
+      owner,
+      'tickets::Ticket',
+      decodeCursor(cursor, isObjectIdCursor),
+      limit,
+    );
 
     const tickets: TicketResponseDto[] = [];
     for (const obj of response.data) {
-      if (obj.data?.content && obj.data.content.dataType === 'moveObject') {
-        const fields = obj.data.content.fields as Record<string, unknown>;
-        const ticketId = obj.data.objectId;
-        tickets.push(this.mapTicketFields(ticketId, fields));
+      const ticket = this.decodeTicket(obj);
+      if (ticket && obj.data) {
+        tickets.push(this.withCheckIn(mapTicket(obj.data.objectId, ticket)));
       }
     }
 
-    return tickets;
+    return {
+      tickets,
+      nextCursor:
+        response.hasNextPage && response.nextCursor
+          ? encodeCursor(response.nextCursor)
+          : undefined,
+      hasMore: response.hasNextPage,
+    };
   }
 
-  async getTicketsByEvent(eventId: string): Promise<TicketResponseDto[]> {
-    const response = await this.suiService.queryEvents('tickets::TicketPurchased');
+  async getTicketsByEvent(
+    eventId: string,
+    limit = 20,
+    cursor?: string,
+  ): Promise<TicketListResponseDto> {
+    const after = decodeCursor(cursor, isRowCursor);
+    const page = this.indexerStore.pageEvents<TicketMintedEvent>(
+      'tickets::TicketMinted',
+      { event_id: eventId },
+      { afterId: after?.id, limit },
+    );
 
-    const eventTickets = response.data.filter(
-      (event) => (event.parsedJson as Record<string, unknown>)?.event_id === eventId,
+    // Refunded tickets are deleted on chain, so getTickets drops them here
+    const tickets = await this.getTickets(
+      page.events.map((event) => event.data.ticket_id),
     );
 
-    const tickets: TicketResponseDto[] = [];
-    for (const event of eventTickets) {
-      const ticketId = (event.parsedJson as Record<string, unknown>)?.ticket_id as string;
-      if (ticketId) {
-        const ticket = await this.getTicket(ticketId);
-        if (ticket) {
-          tickets.push(ticket);
-        }
-      }
-    }
+    const total =
+      this.indexerStore.countEvents('tickets::TicketMinted', {
+        event_id: eventId,
+      }) -
+      this.indexerStore.countEvents('tickets::TicketRefunded', {
+        event_id: eventId,
+      });
 
-    return tickets;
+    const last = page.events[page.events.length - 1];
+    return {
+      tickets,
+      total,
+      nextCursor: page.hasMore ? encodeCursor({ id: last.id }) : undefined,
+      hasMore: page.hasMore,
+    };
   }
 
   async validateTicket(ticketId: string, eventId: string): Promise<ValidateTicketResponseDto> {
@@ -74,12 +134,12 @@ export class TicketsService {
       };
     }
 
-    if (ticket.isUsed) {
+    if (ticket.isValidated) {
       return {
         isValid: false,
         ticketId,
         eventId,
-        message: 'Ticket has already been used',
+        message: 'Ticket has already been validated',
       };
     }
 
@@ -91,18 +151,51 @@ export class TicketsService {
     };
   }
 
-  private mapTicketFields(id: string, fields: Record<string, unknown>): TicketResponseDto {
-    return {
-      id,
-      eventId: fields.event_id as string,
-      owner: fields.owner as string,
-      originalOwner: fields.original_owner as string,
-      ticketNumber: Number(fields.ticket_number),
-      purchasePrice: fields.purchase_price as string,
-      purchasedAt: fields.purchased_at as string,
-      isUsed: fields.is_used as boolean,
-      usedAt: fields.used_at as string | undefined,
-      encryptedData: fields.encrypted_data as string | undefined,
-    };
+  /**
+   * Door check-ins through `tickets::check_in_ticket` cannot take the
+   * attendee's ticket, so its validation fields stay unset and the
+   * TicketValidated event is the only record of them.
+   */
+  private withCheckIn(ticket: TicketResponseDto): TicketResponseDto {
+    if (ticket.isValidated) {
+      return ticket;
+    }
+    const [checkIn] = this.indexerStore.findEvents<TicketValidatedEvent>(
+      'tickets::TicketValidated',
+      { ticket_id: ticket.id },
+      { limit: 1 },
+    );
+    return checkIn
+      ? {
+          ...ticket,
+          isValidated: true,
+          validatedAt: checkIn.data.timestamp,
+          validatorAddress: checkIn.data.validator,
+        }
+      : ticket;
+  }
+
+  private decodeTicket(response: SuiObjectResponse): TicketObject | null {
+    return decodeMoveObject(response, this.suiService.getPackageIds(), TICKET);
   }
-}
\ No newline at end of file
+}
+
+function mapTicket(id: string, ticket: TicketObject): TicketResponseDto {
+  const { metadata, validation } = ticket;
+
+  return {
+    id,
+    eventId: ticket.event_id,
+    owner: ticket.owner,
+    originalOwner: ticket.original_owner,
+    ticketNumber: Number(metadata.ticket_number),
+    tier: metadata.tier,
+    qrCodeHash: metadata.qr_code_hash,
+    mintedAt: ticket.mint_time,
+    isValidated: validation.is_validated,
+    validatedAt: validation.validation_time ?? undefined,
+    validatorAddress: validation.validator_address ?? undefined,
+    hasEncryptedPayload: metadata.encrypted_data !== '',
+    sealKeyId: metadata.seal_key_id || undefined,
+  };
+}
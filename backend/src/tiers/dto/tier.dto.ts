@@ -0,0 +1,175 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { SuiAmountDto } from '../../payments/dto/payments.dto';
+import { REVENUE_INTERVALS } from '../../payments/revenue-report';
+import type { RevenueInterval } from '../../payments/revenue-report';
+import { MAX_TIER_NAME_LENGTH, MAX_TIERS } from '../tiers.constants';
+
+export class TierConfigDto {
+  @ApiProperty({ example: 'vip' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_TIER_NAME_LENGTH)
+  name: string;
+
+  @ApiProperty({
+    description:
+      'Price in MIST; at least the on-chain ticket price, which mint_ticket always charges',
+  })
+  @IsNumberString({ no_symbols: true })
+  price: string;
+
+  @ApiProperty({ description: 'Seats reserved for the tier' })
+  @IsInt()
+  @Min(1)
+  allocation: number;
+
+  @ApiPropertyOptional({ description: 'Sales open at this time (ms)' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  saleStart?: number;
+
+  @ApiPropertyOptional({ description: 'Sales close at this time (ms)' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  saleEnd?: number;
+}
+
+export class SetTiersDto {
+  @ApiProperty({
+    type: [TierConfigDto],
+    description: 'Replaces the whole configuration; empty to remove it',
+  })
+  @IsArray()
+  @ArrayMaxSize(MAX_TIERS)
+  @ValidateNested({ each: true })
+  @Type(() => TierConfigDto)
+  tiers: TierConfigDto[];
+}
+
+export class TierResponseDto {
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  price: SuiAmountDto;
+
+  @ApiProperty({ description: 'Charged on top of the on-chain ticket price' })
+  premium: SuiAmountDto;
+
+  @ApiProperty()
+  allocation: number;
+
+  @ApiPropertyOptional()
+  saleStart?: number;
+
+  @ApiPropertyOptional()
+  saleEnd?: number;
+}
+
+export class TierListResponseDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({ type: [TierResponseDto] })
+  tiers: TierResponseDto[];
+
+  @ApiPropertyOptional()
+  updatedBy?: string;
+
+  @ApiPropertyOptional()
+  updatedAt?: number;
+}
+
+export class InventoryQueryDto {
+  @ApiPropertyOptional({ enum: REVENUE_INTERVALS, default: 'day' })
+  @IsOptional()
+  @IsIn(REVENUE_INTERVALS)
+  interval?: RevenueInterval = 'day';
+}
+
+export class TierSalesBucketDto {
+  @ApiProperty({ description: 'Bucket start (ms, inclusive)' })
+  start: number;
+
+  @ApiProperty({ description: 'Bucket end (ms, exclusive)' })
+  end: number;
+
+  @ApiProperty()
+  minted: number;
+
+  @ApiProperty()
+  refunded: number;
+}
+
+export class TierInventoryDto {
+  @ApiProperty()
+  tier: string;
+
+  @ApiPropertyOptional({ description: 'Absent for unconfigured tiers' })
+  allocation?: number;
+
+  @ApiProperty()
+  minted: number;
+
+  @ApiProperty()
+  validated: number;
+
+  @ApiProperty()
+  refunded: number;
+
+  @ApiProperty({ description: 'Minted less refunded' })
+  held: number;
+
+  @ApiProperty({
+    description:
+      "Mints naming this tier whose transaction did not pay the tier's price; not counted in minted, held or remaining",
+  })
+  underpaid: number;
+
+  @ApiPropertyOptional({ description: 'Allocation less held tickets' })
+  remaining?: number;
+
+  @ApiProperty({ type: [TierSalesBucketDto] })
+  sales: TierSalesBucketDto[];
+}
+
+export class InventoryResponseDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  capacity: number;
+
+  @ApiProperty({ description: 'Tickets held across all tiers' })
+  registered: number;
+
+  @ApiProperty({ enum: REVENUE_INTERVALS })
+  interval: RevenueInterval;
+
+  @ApiProperty({
+    type: [TierInventoryDto],
+    description: 'Configured tiers first, then any other tier sold',
+  })
+  tiers: TierInventoryDto[];
+
+  @ApiProperty({
+    description: 'Which tier rules the contract does not enforce',
+  })
+  enforcement: string;
+}
@@ -0,0 +1,133 @@
+import {
+  IndexedEvent,
+  TicketMintedEvent,
+  TicketRefundedEvent,
+  TicketValidatedEvent,
+} from '../indexer/indexer.types';
+import { INTERVAL_MS } from '../payments/revenue-report';
+import type { RevenueInterval } from '../payments/revenue-report';
+
+export interface TierCounts {
+  minted: number;
+  validated: number;
+  refunded: number;
+  /** Mints naming the tier whose transaction did not pay its price */
+  underpaid: number;
+}
+
+export interface TierSalesBucket {
+  start: number;
+  end: number;
+  minted: number;
+  refunded: number;
+}
+
+export interface TierActivity {
+  minted: IndexedEvent<TicketMintedEvent>[];
+  underpaid: IndexedEvent<TicketMintedEvent>[];
+  validated: IndexedEvent<TicketValidatedEvent>[];
+  refunded: IndexedEvent<TicketRefundedEvent>[];
+}
+
+/** Tickets still held in a tier: refunds free their seat */
+export function heldTickets(counts: TierCounts): number {
+  return counts.minted - counts.refunded;
+}
+
+function eventTime(event: IndexedEvent<{ timestamp: string }>): number {
+  return event.timestampMs ?? Number(event.data.timestamp);
+}
+
+/**
+ * Attribute validations and refunds to the tier each ticket was minted in.
+ * Only TicketMinted carries the tier, so tickets minted before indexing
+ * began are left out, as are underpaid ones.
+ */
+function tierOf(activity: TierActivity) {
+  const tiers = new Map(
+    activity.minted.map((event) => [event.data.ticket_id, event.data.tier]),
+  );
+  return (event: IndexedEvent<{ ticket_id: string }>) =>
+    tiers.get(event.data.ticket_id);
+}
+
+export function countByTier(activity: TierActivity): Map<string, TierCounts> {
+  const counts = new Map<string, TierCounts>();
+  const bump = (tier: string | undefined, key: keyof TierCounts) => {
+    if (tier === undefined) {
+      return;
+    }
+    let entry = counts.get(tier);
+    if (!entry) {
+      entry = { minted: 0, validated: 0, refunded: 0, underpaid: 0 };
+      counts.set(tier, entry);
+    }
+    entry[key]++;
+  };
+
+  const tierOfTicket = tierOf(activity);
+  for (const event of activity.minted) {
+    bump(event.data.tier, 'minted');
+  }
+  for (const event of activity.underpaid) {
+    bump(event.data.tier, 'underpaid');
+  }
+  for (const event of activity.validated) {
+    bump(tierOfTicket(event), 'validated');
+  }
+  for (const event of activity.refunded) {
+    bump(tierOfTicket(event), 'refunded');
+  }
+  return counts;
+}
+
+/**
+ * Mints and refunds per tier in UTC-aligned buckets. Every tier gets the
+ * same contiguous range of buckets so the series line up in a chart.
+ */
+export function salesByTier(
+  activity: TierActivity,
+  interval: RevenueInterval,
+): Map<string, TierSalesBucket[]> {
+  const size = INTERVAL_MS[interval];
+  const tierOfTicket = tierOf(activity);
+  const entries: { tier: string; start: number; key: 'minted' | 'refunded' }[] =
+    [];
+  const add = (
+    tier: string | undefined,
+    event: IndexedEvent<{ timestamp: string }>,
+    key: 'minted' | 'refunded',
+  ) => {
+    if (tier !== undefined) {
+      entries.push({
+        tier,
+        start: Math.floor(eventTime(event) / size) * size,
+        key,
+      });
+    }
+  };
+  activity.minted.forEach((event) => add(event.data.tier, event, 'minted'));
+  activity.refunded.forEach((event) =>
+    add(tierOfTicket(event), event, 'refunded'),
+  );
+
+  const sales = new Map<string, TierSalesBucket[]>();
+  if (entries.length === 0) {
+    return sales;
+  }
+
+  const first = Math.min(...entries.map((entry) => entry.start));
+  const last = Math.max(...entries.map((entry) => entry.start));
+  for (const { tier, start, key } of entries) {
+    let buckets = sales.get(tier);
+    if (!buckets) {
+      buckets = [];
+      for (let at = first; at <= last; at += size) {
+        buckets.push({ start: at, end: at + size, minted: 0, refunded: 0 });
+      }
+      sales.set(tier, buckets);
+    }
+    buckets[(start - first) / size][key]++;
+  }
+  return sales;
+}
@@ -0,0 +1,154 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../common/database/database.service';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS ticket_tiers (
+    event_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    price TEXT NOT NULL,
+    allocation INTEGER NOT NULL,
+    sale_start INTEGER,
+    sale_end INTEGER,
+    updated_by TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (event_id, name)
+  );
+
+  CREATE TABLE IF NOT EXISTS organizer_receipts (
+    tx_digest TEXT NOT NULL,
+    organizer TEXT NOT NULL,
+    received TEXT NOT NULL,
+    PRIMARY KEY (tx_digest, organizer)
+  );
+`;
+
+export interface TicketTier {
+  eventId: string;
+  name: string;
+  /** Price in MIST */
+  price: string;
+  /** Seats reserved for the tier */
+  allocation: number;
+  saleStart: number | null;
+  saleEnd: number | null;
+  updatedBy: string;
+  updatedAt: number;
+}
+
+export type NewTier = Pick<
+  TicketTier,
+  'name' | 'price' | 'allocation' | 'saleStart' | 'saleEnd'
+>;
+
+interface TierRow {
+  event_id: string;
+  name: string;
+  position: number;
+  price: string;
+  allocation: number;
+  sale_start: number | null;
+  sale_end: number | null;
+  updated_by: string;
+  updated_at: number;
+}
+
+/**
+ * Organizer-defined ticket tiers, and what mint transactions paid the
+ * organizer on top of the on-chain price. Events without tier rows sell
+ * any tier at the on-chain ticket price.
+ */
+@Injectable()
+export class TierStore implements OnModuleInit {
+  private readonly db: Database.Database;
+
+  constructor(database: DatabaseService) {
+    this.db = database.connection;
+  }
+
+  onModuleInit() {
+    this.db.exec(SCHEMA);
+  }
+
+  /** Tiers in the order the organizer listed them */
+  find(eventId: string): TicketTier[] {
+    const rows = this.db
+      .prepare(
+        'SELECT * FROM ticket_tiers WHERE event_id = ? ORDER BY position',
+      )
+      .all(eventId) as TierRow[];
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  /** Replace the event's whole tier configuration */
+  replace(eventId: string, tiers: NewTier[], updatedBy: string): TicketTier[] {
+    this.db.transaction(() => {
+      this.db
+        .prepare('DELETE FROM ticket_tiers WHERE event_id = ?')
+        .run(eventId);
+      const insert = this.db.prepare(
+        `INSERT INTO ticket_tiers
+          (event_id, name, position, price, allocation, sale_start, sale_end,
+           updated_by, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      const now = Date.now();
+      tiers.forEach((tier, position) =>
+        insert.run(
+          eventId,
+          tier.name,
+          position,
+          tier.price,
+          tier.allocation,
+          tier.saleStart,
+          tier.saleEnd,
+          updatedBy,
+          now,
+        ),
+      );
+    })();
+    return this.find(eventId);
+  }
+
+  /** SUI `organizer` received in each transaction already looked up, in MIST */
+  findOrganizerReceipts(
+    organizer: string,
+    digests: string[],
+  ): Map<string, bigint> {
+    const rows = this.db
+      .prepare(
+        `SELECT tx_digest, received FROM organizer_receipts
+          WHERE organizer = ?
+          AND tx_digest IN (SELECT value FROM json_each(?))`,
+      )
+      .all(organizer, JSON.stringify(digests)) as {
+      tx_digest: string;
+      received: string;
+    }[];
+    return new Map(rows.map((row) => [row.tx_digest, BigInt(row.received)]));
+  }
+
+  /** Transactions are final, so a receipt never needs refreshing */
+  saveOrganizerReceipt(digest: string, organizer: string, received: bigint) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO organizer_receipts (tx_digest, organizer, received)
+          VALUES (?, ?, ?)`,
+      )
+      .run(digest, organizer, received.toString());
+  }
+
+  private mapRow(row: TierRow): TicketTier {
+    return {
+      eventId: row.event_id,
+      name: row.name,
+      price: row.price,
+      allocation: row.allocation,
+      saleStart: row.sale_start,
+      saleEnd: row.sale_end,
+      updatedBy: row.updated_by,
+      updatedAt: row.updated_at,
+    };
+  }
+}
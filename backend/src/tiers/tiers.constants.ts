@@ -0,0 +1,11 @@
+/** Upper bound on tiers configured for one event */
+export const MAX_TIERS = 20;
+
+export const MAX_TIER_NAME_LENGTH = 64;
+
+/** Returned with every inventory report */
+export const TIER_ENFORCEMENT_NOTICE =
+  'Tier prices and allocations are enforced only in mint_ticket transactions ' +
+  'this backend builds. The contract accepts any tier name at the on-chain ' +
+  'ticket price, so a mint whose transaction did not also pay the organizer ' +
+  "the tier's premium is counted as underpaid, not against the tier.";
@@ -0,0 +1,51 @@
+import { Body, Controller, Get, Param, Put, Query } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentAddress, EventRoles } from '../auth/auth.decorators';
+import { TiersService } from './tiers.service';
+import {
+  InventoryQueryDto,
+  InventoryResponseDto,
+  SetTiersDto,
+  TierListResponseDto,
+} from './dto/tier.dto';
+
+@ApiTags('tiers')
+@Controller('events')
+export class TiersController {
+  constructor(private readonly tiersService: TiersService) {}
+
+  @Get(':id/tiers')
+  @ApiOperation({ summary: 'List the ticket tiers on sale for an event' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: TierListResponseDto })
+  async getTiers(@Param('id') id: string): Promise<TierListResponseDto> {
+    return this.tiersService.getTiers(id);
+  }
+
+  @Put(':id/tiers')
+  @EventRoles('id', 'organizer')
+  @ApiOperation({ summary: 'Replace the ticket tiers of an event' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: TierListResponseDto })
+  async setTiers(
+    @Param('id') id: string,
+    @Body() dto: SetTiersDto,
+    @CurrentAddress() address: string,
+  ): Promise<TierListResponseDto> {
+    return this.tiersService.setTiers(id, dto.tiers, address);
+  }
+
+  @Get(':id/inventory')
+  @EventRoles('id', 'organizer')
+  @ApiOperation({
+    summary: 'Minted, validated and refunded tickets and sales per tier',
+  })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: InventoryResponseDto })
+  async getInventory(
+    @Param('id') id: string,
+    @Query() query: InventoryQueryDto,
+  ): Promise<InventoryResponseDto> {
+    return this.tiersService.getInventory(id, query.interval ?? 'day');
+  }
+}
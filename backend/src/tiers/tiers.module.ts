@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { EventsModule } from '../events/events.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { TiersService } from './tiers.service';
+import { TierStore } from './tier.store';
+
+/**
+ * Tier pricing is enforced when mint transactions are built, so this module
+ * sits below TransactionsModule; TiersController is served by PaymentsModule.
+ */
+@Module({
+  imports: [IndexerModule, EventsModule],
+  providers: [TiersService, TierStore],
+  exports: [TiersService],
+})
+export class TiersModule {}
@@ -0,0 +1,287 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import { eventObject } from '../common/sui/testing/move-fixtures';
+import { EventsService } from '../events/events.service';
+import { EventResponseDto } from '../events/dto/event.dto';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { TiersService } from './tiers.service';
+import { TierStore } from './tier.store';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const ORGANIZER = normalizeSuiAddress('0x0a');
+const SUI = 1_000_000_000;
+const DAY = 86_400_000;
+const T0 = Date.UTC(2026, 4, 1);
+
+describe('TiersService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let indexer: IndexerService;
+  let tiers: TiersService;
+  let event: EventResponseDto;
+
+  function ticket(id: string, tier: string, at: number) {
+    return recordedEvent(
+      'tickets::TicketMinted',
+      {
+        ticket_id: normalizeSuiAddress(id),
+        event_id: EVENT_ID,
+        owner: '0xb0',
+        ticket_number: '1',
+        tier,
+        price_paid: String(SUI),
+        timestamp: String(at),
+      },
+      { timestampMs: String(at) },
+    );
+  }
+
+  /** A mint whose transaction also paid the organizer `premium` MIST */
+  function paidTicket(id: string, tier: string, at: number, premium: number) {
+    const minted = ticket(id, tier, at);
+    client.transactions.set(minted.id.txDigest, {
+      digest: minted.id.txDigest,
+      balanceChanges: [
+        {
+          owner: { AddressOwner: ORGANIZER },
+          coinType: '0x2::sui::SUI',
+          amount: String(premium),
+        },
+      ],
+    } as SuiTransactionBlockResponse);
+    return minted;
+  }
+
+  function ticketEvent(type: string, id: string, at: number) {
+    return recordedEvent(
+      type,
+      {
+        ticket_id: normalizeSuiAddress(id),
+        event_id: EVENT_ID,
+        owner: '0xb0',
+        timestamp: String(at),
+      },
+      { timestampMs: String(at) },
+    );
+  }
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+    client.setObject(eventObject(EVENT_ID, { config: { capacity: '10' } }));
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        EventsService,
+        TierStore,
+        TiersService,
+      ],
+    }).compile();
+    await module.init();
+
+    indexer = module.get(IndexerService);
+    tiers = module.get(TiersService);
+    event = (await module.get(EventsService).getEvent(EVENT_ID))!;
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('rejects tiers priced below the chain price or over capacity', async () => {
+    await expect(
+      tiers.setTiers(
+        EVENT_ID,
+        [{ name: 'early-bird', price: String(SUI / 2), allocation: 2 }],
+        ORGANIZER,
+      ),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      tiers.setTiers(
+        EVENT_ID,
+        [
+          { name: 'general', price: String(SUI), allocation: 8 },
+          { name: 'vip', price: String(3 * SUI), allocation: 3 },
+        ],
+        ORGANIZER,
+      ),
+    ).rejects.toThrow(BadRequestException);
+
+    const saved = await tiers.setTiers(
+      EVENT_ID,
+      [
+        { name: 'general', price: String(SUI), allocation: 8 },
+        { name: 'vip', price: String(3 * SUI), allocation: 2 },
+      ],
+      ORGANIZER,
+    );
+    expect(saved.updatedBy).toBe(ORGANIZER);
+    expect(
+      saved.tiers.map((tier) => [tier.name, tier.price.sui, tier.premium.sui]),
+    ).toEqual([
+      ['general', '1', '0'],
+      ['vip', '3', '2'],
+    ]);
+  });
+
+  it('prices configured tiers within their sale window and allocation', async () => {
+    await expect(tiers.priceTier(event, 'anything')).resolves.toEqual({
+      tier: 'anything',
+      price: BigInt(SUI),
+      premium: 0n,
+    });
+
+    await tiers.setTiers(
+      EVENT_ID,
+      [
+        {
+          name: 'vip',
+          price: String(3 * SUI),
+          allocation: 1,
+          saleStart: T0,
+          saleEnd: T0 + DAY,
+        },
+      ],
+      ORGANIZER,
+    );
+
+    await expect(tiers.priceTier(event, 'general', 1, T0)).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(tiers.priceTier(event, 'vip', 1, T0 - 1)).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(tiers.priceTier(event, 'vip', 1, T0 + DAY)).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(tiers.priceTier(event, 'vip', 1, T0)).resolves.toEqual({
+      tier: 'vip',
+      price: BigInt(3 * SUI),
+      premium: BigInt(2 * SUI),
+    });
+
+    client.addEvents(paidTicket('0x71', 'vip', T0, 2 * SUI));
+    await indexer.syncOnce();
+    await expect(tiers.priceTier(event, 'vip', 1, T0)).rejects.toThrow(
+      ConflictException,
+    );
+
+    client.addEvents(ticketEvent('tickets::TicketRefunded', '0x71', T0 + 1));
+    await indexer.syncOnce();
+    await expect(tiers.priceTier(event, 'vip', 1, T0)).resolves.toMatchObject({
+      premium: BigInt(2 * SUI),
+    });
+  });
+
+  it('reports counts and daily sales per tier', async () => {
+    await tiers.setTiers(
+      EVENT_ID,
+      [
+        { name: 'vip', price: String(3 * SUI), allocation: 2 },
+        { name: 'general', price: String(SUI), allocation: 8 },
+      ],
+      ORGANIZER,
+    );
+    client.addEvents(
+      ticket('0x71', 'general', T0),
+      ticket('0x72', 'general', T0 + 2 * DAY),
+      ticket('0x73', 'legacy', T0 + DAY),
+      ticketEvent('tickets::TicketValidated', '0x71', T0 + 2 * DAY),
+      ticketEvent('tickets::TicketRefunded', '0x72', T0 + 2 * DAY + 1),
+    );
+    await indexer.syncOnce();
+
+    const inventory = await tiers.getInventory(EVENT_ID, 'day');
+
+    expect(inventory.tiers.map((tier) => tier.tier)).toEqual([
+      'vip',
+      'general',
+      'legacy',
+    ]);
+    expect(inventory.tiers[0]).toMatchObject({
+      allocation: 2,
+      minted: 0,
+      held: 0,
+      remaining: 2,
+      sales: [],
+    });
+    expect(inventory.tiers[1]).toMatchObject({
+      allocation: 8,
+      minted: 2,
+      validated: 1,
+      refunded: 1,
+      held: 1,
+      remaining: 7,
+    });
+    expect(
+      inventory.tiers[1].sales.map((bucket) => [
+        bucket.start,
+        bucket.minted,
+        bucket.refunded,
+      ]),
+    ).toEqual([
+      [T0, 1, 0],
+      [T0 + DAY, 0, 0],
+      [T0 + 2 * DAY, 1, 1],
+    ]);
+    expect(inventory.tiers[2]).toMatchObject({
+      allocation: undefined,
+      minted: 1,
+      remaining: undefined,
+    });
+    expect(inventory.tiers[2].sales).toHaveLength(3);
+  });
+
+  it('counts premium tier mints only when their transaction paid the premium', async () => {
+    await tiers.setTiers(
+      EVENT_ID,
+      [{ name: 'vip', price: String(3 * SUI), allocation: 2 }],
+      ORGANIZER,
+    );
+    // mint_ticket called directly with the tier name, at the on-chain price
+    client.addEvents(
+      paidTicket('0x71', 'vip', T0, 2 * SUI),
+      paidTicket('0x72', 'vip', T0, SUI),
+      paidTicket('0x73', 'vip', T0, 0),
+    );
+    await indexer.syncOnce();
+
+    const inventory = await tiers.getInventory(EVENT_ID, 'day');
+
+    expect(inventory.tiers[0]).toMatchObject({
+      tier: 'vip',
+      minted: 1,
+      underpaid: 2,
+      held: 1,
+      remaining: 1,
+    });
+    expect(inventory.enforcement).toContain('accepts any tier name');
+    await expect(tiers.priceTier(event, 'vip', 1, T0)).resolves.toMatchObject({
+      premium: BigInt(2 * SUI),
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  SUI_TYPE_ARG,
+  normalizeStructTag,
+  normalizeSuiAddress,
+} from '@mysten/sui/utils';
+import { SuiService } from '../common/sui/sui.service';
+import { EventResponseDto } from '../events/dto/event.dto';
+import { EventsService } from '../events/events.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import {
+  IndexedEvent,
+  TicketMintedEvent,
+  TicketRefundedEvent,
+  TicketValidatedEvent,
+} from '../indexer/indexer.types';
+import { suiAmount, toMist } from '../payments/mist';
+import type { RevenueInterval } from '../payments/revenue-report';
+import {
+  countByTier,
+  heldTickets,
+  salesByTier,
+  TierActivity,
+} from './tier-inventory';
+import { NewTier, TicketTier, TierStore } from './tier.store';
+import { TIER_ENFORCEMENT_NOTICE } from './tiers.constants';
+import {
+  InventoryResponseDto,
+  TierConfigDto,
+  TierInventoryDto,
+  TierListResponseDto,
+  TierResponseDto,
+} from './dto/tier.dto';
+
+export interface TierPrice {
+  tier: string;
+  /** What the buyer pays per ticket, in MIST */
+  price: bigint;
+  /** Part of the price above the on-chain ticket price */
+  premium: bigint;
+}
+
+const SUI_COIN_TYPE = normalizeStructTag(SUI_TYPE_ARG);
+
+/**
+ * Ticket tiers layered over the contract's single ticket price.
+ * mint_ticket always takes the on-chain price into the event treasury, so
+ * a tier's premium is paid straight to the organizer in the same
+ * transaction. Premiums therefore carry no platform fee and are not
+ * returned by refund_ticket. Nothing on chain ties the tier name to that
+ * payment, so mints are only counted in a premium tier once their
+ * transaction is seen paying it.
+ */
+@Injectable()
+export class TiersService {
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly eventsService: EventsService,
+    private readonly indexerStore: IndexerStore,
+    private readonly store: TierStore,
+  ) {}
+
+  async getTiers(eventId: string): Promise<TierListResponseDto> {
+    const event = await this.requireEvent(eventId);
+    return this.toListDto(event, this.store.find(event.id));
+  }
+
+  async setTiers(
+    eventId: string,
+    tiers: TierConfigDto[],
+    updatedBy: string,
+  ): Promise<TierListResponseDto> {
+    const event = await this.requireEvent(eventId);
+    const basePrice = toMist(event.config.ticketPrice);
+
+    const names = new Set<string>();
+    let allocated = 0;
+    for (const tier of tiers) {
+      if (names.has(tier.name)) {
+        throw new BadRequestException(`Tier ${tier.name} is listed twice`);
+      }
+      names.add(tier.name);
+      if (BigInt(tier.price) < basePrice) {
+        throw new BadRequestException(
+          `Tier ${tier.name} is priced below the on-chain ticket price of ${basePrice} MIST`,
+        );
+      }
+      if (
+        tier.saleStart !== undefined &&
+        tier.saleEnd !== undefined &&
+        tier.saleStart >= tier.saleEnd
+      ) {
+        throw new BadRequestException(
+          `Tier ${tier.name} sale window ends before it starts`,
+        );
+      }
+      allocated += tier.allocation;
+    }
+    if (allocated > event.config.capacity) {
+      throw new BadRequestException(
+        `Tiers allocate ${allocated} seats but the event holds ${event.config.capacity}`,
+      );
+    }
+
+    const saved = this.store.replace(
+      event.id,
+      tiers.map(
+        (tier): NewTier => ({
+          name: tier.name,
+          price: tier.price,
+          allocation: tier.allocation,
+          saleStart: tier.saleStart ?? null,
+          saleEnd: tier.saleEnd ?? null,
+        }),
+      ),
+      normalizeSuiAddress(updatedBy),
+    );
+    return this.toListDto(event, saved);
+  }
+
+  /**
+   * Price `quantity` tickets of a tier, checking its sale window and what
+   * is left of its allocation. Events without a tier configuration sell
+   * any tier at the on-chain price.
+   */
+  async priceTier(
+    event: EventResponseDto,
+    tierName: string,
+    quantity = 1,
+    now = Date.now(),
+  ): Promise<TierPrice> {
+    const basePrice = toMist(event.config.ticketPrice);
+    const tiers = this.store.find(event.id);
+    if (tiers.length === 0) {
+      return { tier: tierName, price: basePrice, premium: 0n };
+    }
+
+    const tier = tiers.find((candidate) => candidate.name === tierName);
+    if (!tier) {
+      throw new BadRequestException(
+        `Unknown tier ${tierName}; this event sells ${tiers.map((t) => t.name).join(', ')}`,
+      );
+    }
+    if (tier.saleStart !== null && now < tier.saleStart) {
+      throw new BadRequestException(
+        `Sales for ${tier.name} open at ${new Date(tier.saleStart).toISOString()}`,
+      );
+    }
+    if (tier.saleEnd !== null && now >= tier.saleEnd) {
+      throw new BadRequestException(`Sales for ${tier.name} have closed`);
+    }
+
+    const activity = await this.findActivity(event, tiers);
+    const counts = countByTier(activity).get(tier.name);
+    const remaining = tier.allocation - (counts ? heldTickets(counts) : 0);
+    if (quantity > remaining) {
+      throw new ConflictException(
+        `Only ${Math.max(remaining, 0)} ${tier.name} tickets left`,
+      );
+    }
+
+    const premium = tierPremium(tier, basePrice);
+    return { tier: tier.name, price: basePrice + premium, premium };
+  }
+
+  async getInventory(
+    eventId: string,
+    interval: RevenueInterval,
+  ): Promise<InventoryResponseDto> {
+    const event = await this.requireEvent(eventId);
+    const configured = this.store.find(event.id);
+    const activity = await this.findActivity(event, configured);
+    const counts = countByTier(activity);
+    const sales = salesByTier(activity, interval);
+
+    const names = [
+      ...configured.map((tier) => tier.name),
+      ...[...counts.keys()].filter(
+        (name) => !configured.some((tier) => tier.name === name),
+      ),
+    ];
+
+    const tiers = names.map((name): TierInventoryDto => {
+      const tierCounts = counts.get(name) ?? {
+        minted: 0,
+        validated: 0,
+        refunded: 0,
+        underpaid: 0,
+      };
+      const allocation = configured.find(
+        (tier) => tier.name === name,
+      )?.allocation;
+      const held = heldTickets(tierCounts);
+      return {
+        tier: name,
+        allocation,
+        ...tierCounts,
+        held,
+        remaining:
+          allocation === undefined ? undefined : Math.max(allocation - held, 0),
+        sales: sales.get(name) ?? [],
+      };
+    });
+
+    return {
+      eventId: event.id,
+      capacity: event.config.capacity,
+      registered: event.stats.registered,
+      interval,
+      tiers,
+      enforcement: TIER_ENFORCEMENT_NOTICE,
+    };
+  }
+
+  /**
+   * Indexed activity for the event, with mints of a premium tier split by
+   * whether their transaction paid the organizer the premium. A transaction
+   * minting several tickets must pay one premium per ticket. Organizers
+   * minting their own tickets would pay themselves, so theirs always count.
+   */
+  private async findActivity(
+    event: EventResponseDto,
+    tiers: TicketTier[],
+  ): Promise<TierActivity> {
+    const filter = { event_id: event.id };
+    const basePrice = toMist(event.config.ticketPrice);
+    const organizer = normalizeSuiAddress(event.organizer);
+    const premiums = new Map(
+      tiers.map((tier) => [tier.name, tierPremium(tier, basePrice)]),
+    );
+    const premiumOf = (mint: IndexedEvent<TicketMintedEvent>) =>
+      normalizeSuiAddress(mint.data.owner) === organizer
+        ? 0n
+        : (premiums.get(mint.data.tier) ?? 0n);
+
+    const mints = this.indexerStore.findEvents<TicketMintedEvent>(
+      'tickets::TicketMinted',
+      filter,
+    );
+    const receipts = await this.organizerReceipts(
+      organizer,
+      mints.filter((mint) => premiumOf(mint) > 0n).map((mint) => mint.txDigest),
+    );
+    const minted: IndexedEvent<TicketMintedEvent>[] = [];
+    const underpaid: IndexedEvent<TicketMintedEvent>[] = [];
+    for (const mint of mints) {
+      const premium = premiumOf(mint);
+      const unspent = receipts.get(mint.txDigest) ?? 0n;
+      if (unspent >= premium) {
+        receipts.set(mint.txDigest, unspent - premium);
+        minted.push(mint);
+      } else {
+        underpaid.push(mint);
+      }
+    }
+
+    return {
+      minted,
+      underpaid,
+      validated: this.indexerStore.findEvents<TicketValidatedEvent>(
+        'tickets::TicketValidated',
+        filter,
+      ),
+      refunded: this.indexerStore.findEvents<TicketRefundedEvent>(
+        'tickets::TicketRefunded',
+        filter,
+      ),
+    };
+  }
+
+  /** SUI each transaction paid `organizer`, from the store or the chain */
+  private async organizerReceipts(
+    organizer: string,
+    digests: string[],
+  ): Promise<Map<string, bigint>> {
+    const unique = [...new Set(digests)];
+    const receipts = this.store.findOrganizerReceipts(organizer, unique);
+    for (const digest of unique.filter((digest) => !receipts.has(digest))) {
+      const changes =
+        await this.suiService.getTransactionBalanceChanges(digest);
+      const received = changes
+        .filter(
+          (change) =>
+            typeof change.owner === 'object' &&
+            'AddressOwner' in change.owner &&
+            normalizeSuiAddress(change.owner.AddressOwner) === organizer &&
+            normalizeStructTag(change.coinType) === SUI_COIN_TYPE,
+        )
+        .reduce((sum, change) => sum + BigInt(change.amount), 0n);
+      this.store.saveOrganizerReceipt(digest, organizer, received);
+      receipts.set(digest, received);
+    }
+    return receipts;
+  }
+
+  private toListDto(
+    event: EventResponseDto,
+    tiers: TicketTier[],
+  ): TierListResponseDto {
+    const basePrice = toMist(event.config.ticketPrice);
+    return {
+      eventId: event.id,
+      tiers: tiers.map(
+        (tier): TierResponseDto => ({
+          name: tier.name,
+          price: suiAmount(basePrice + tierPremium(tier, basePrice)),
+          premium: suiAmount(tierPremium(tier, basePrice)),
+          allocation: tier.allocation,
+          saleStart: tier.saleStart ?? undefined,
+          saleEnd: tier.saleEnd ?? undefined,
+        }),
+      ),
+      updatedBy: tiers[0]?.updatedBy,
+      updatedAt: tiers[0]?.updatedAt,
+    };
+  }
+
+  private async requireEvent(eventId: string) {
+    const event = await this.eventsService.getEvent(eventId);
+    if (!event) {
+      throw new NotFoundException(`Event ${eventId} not found`);
+    }
+    return event;
+  }
+}
+
+/** Never negative: mint_ticket charges at least the on-chain price */
+function tierPremium(tier: TicketTier, basePrice: bigint): bigint {
+  const price = toMist(tier.price);
+  return price > basePrice ? price - basePrice : 0n;
+}
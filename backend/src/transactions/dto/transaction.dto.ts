@@ -0,0 +1,222 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import {
+  IsHexBytes,
+  IsSuiAddress,
+} from '../../common/validation/sui.validators';
+
+export class TransactionSenderDto {
+  @ApiProperty({ description: 'Address that will sign the transaction' })
+  @IsSuiAddress()
+  sender: string;
+}
+
+export class CreateEventMetadataDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @ApiProperty()
+  @IsString()
+  description: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  walrusBlobId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  imageUrl?: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  category: string;
+
+  @ApiProperty({ type: [String] })
+  @IsString({ each: true })
+  tags: string[];
+}
+
+export class CreateEventConfigDto {
+  @ApiProperty({ description: 'Start time (ms)' })
+  @IsNumberString({ no_symbols: true })
+  startTime: string;
+
+  @ApiProperty({ description: 'End time (ms)' })
+  @IsNumberString({ no_symbols: true })
+  endTime: string;
+
+  @ApiProperty({ description: 'Registration deadline (ms)' })
+  @IsNumberString({ no_symbols: true })
+  registrationDeadline: string;
+
+  @ApiProperty()
+  @IsNumberString({ no_symbols: true })
+  capacity: string;
+
+  @ApiProperty({ description: 'Ticket price in MIST' })
+  @IsNumberString({ no_symbols: true })
+  ticketPrice: string;
+
+  @ApiProperty()
+  @IsBoolean()
+  requiresApproval: boolean;
+
+  @ApiProperty()
+  @IsBoolean()
+  isTransferable: boolean;
+
+  @ApiProperty({ description: 'Refund deadline (ms)' })
+  @IsNumberString({ no_symbols: true })
+  refundDeadline: string;
+}
+
+export class CreateEventTransactionDto extends TransactionSenderDto {
+  @ApiProperty()
+  @ValidateNested()
+  @Type(() => CreateEventMetadataDto)
+  metadata: CreateEventMetadataDto;
+
+  @ApiProperty()
+  @ValidateNested()
+  @Type(() => CreateEventConfigDto)
+  config: CreateEventConfigDto;
+}
+
+export class EventActionTransactionDto extends TransactionSenderDto {
+  @ApiProperty({ description: 'Event object ID' })
+  @IsSuiAddress()
+  eventId: string;
+}
+
+export class CancelEventTransactionDto extends EventActionTransactionDto {
+  @ApiProperty()
+  @IsString()
+  reason: string;
+}
+
+export class MintTicketTransactionDto extends EventActionTransactionDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  tier: string;
+
+  @ApiPropertyOptional({
+    description: 'Hex-encoded payload from POST /tickets/payload',
+  })
+  @IsOptional()
+  @IsHexBytes()
+  encryptedData?: string;
+
+  @ApiPropertyOptional({
+    description: 'Seal key id from POST /tickets/payload',
+  })
+  @IsOptional()
+  @IsString()
+  sealKeyId?: string;
+
+  @ApiProperty({ description: 'Hex-encoded QR code hash' })
+  @IsHexBytes()
+  qrCodeHash: string;
+
+  @ApiPropertyOptional({
+    description: 'TicketPool ID, if it cannot be resolved from the event',
+  })
+  @IsOptional()
+  @IsSuiAddress()
+  poolId?: string;
+}
+
+export class TransferTicketTransactionDto extends TransactionSenderDto {
+  @ApiProperty({ description: 'Ticket object ID' })
+  @IsSuiAddress()
+  ticketId: string;
+
+  @ApiProperty()
+  @IsSuiAddress()
+  recipient: string;
+}
+
+export class RefundTicketTransactionDto extends TransactionSenderDto {
+  @ApiProperty({ description: 'Ticket object ID' })
+  @IsSuiAddress()
+  ticketId: string;
+
+  @ApiPropertyOptional({
+    description: 'TicketPool ID, if it cannot be resolved from the event',
+  })
+  @IsOptional()
+  @IsSuiAddress()
+  poolId?: string;
+}
+
+export class ApplyDiscountTransactionDto extends EventActionTransactionDto {
+  @ApiProperty({ description: 'DiscountCode object ID' })
+  @IsSuiAddress()
+  discountCodeId: string;
+}
+
+export class WithdrawFundsTransactionDto extends EventActionTransactionDto {
+  @ApiProperty({ description: 'Amount in MIST' })
+  @IsNumberString({ no_symbols: true })
+  amount: string;
+}
+
+export class OrganizerPermissionsDto {
+  @ApiProperty()
+  @IsBoolean()
+  canUpdateEvent: boolean;
+
+  @ApiProperty()
+  @IsBoolean()
+  canCancelEvent: boolean;
+
+  @ApiProperty()
+  @IsBoolean()
+  canApproveRegistrations: boolean;
+
+  @ApiProperty()
+  @IsBoolean()
+  canWithdrawFunds: boolean;
+
+  @ApiProperty()
+  @IsBoolean()
+  canGrantValidators: boolean;
+}
+
+export class CreateLimitedCapTransactionDto extends EventActionTransactionDto {
+  @ApiProperty({ description: 'Address that receives the delegated cap' })
+  @IsSuiAddress()
+  recipient: string;
+
+  @ApiProperty()
+  @ValidateNested()
+  @Type(() => OrganizerPermissionsDto)
+  permissions: OrganizerPermissionsDto;
+}
+
+export class GrantValidatorCapTransactionDto extends EventActionTransactionDto {
+  @ApiProperty({ description: 'Gate staff address that receives the cap' })
+  @IsSuiAddress()
+  validator: string;
+}
+
+export class UnsignedTransactionResponseDto {
+  @ApiProperty()
+  sender: string;
+
+  @ApiProperty({ description: 'Base64 BCS TransactionData, ready to sign' })
+  txBytes: string;
+}
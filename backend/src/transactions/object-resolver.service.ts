@@ -0,0 +1,175 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { SuiObjectResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { OrganizerPermissions } from '../common/sui/move-objects';
+import { SuiService } from '../common/sui/sui.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { EventCreatedEvent } from '../indexer/indexer.types';
+
+export interface EventObjectRefs {
+  eventTreasuryId?: string;
+  poolId?: string;
+}
+
+/**
+ * Resolves the owned and shared object ids a transaction needs from chain
+ * state, so clients only send the ids they actually know about.
+ */
+@Injectable()
+export class ObjectResolverService {
+  private readonly eventObjects = new Map<string, EventObjectRefs>();
+
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly indexerStore: IndexerStore,
+  ) {}
+
+  async resolveUserProfile(owner: string): Promise<string> {
+    const profile = await this.findOwnedObject(owner, 'users::UserProfile');
+    if (!profile) {
+      throw new NotFoundException(`No UserProfile owned by ${owner}`);
+    }
+    return profile;
+  }
+
+  async resolveOrganizerCap(owner: string, eventId: string): Promise<string> {
+    const cap = await this.findOrganizerCap(owner, eventId);
+    if (!cap) {
+      throw new NotFoundException(
+        `${owner} holds no EventOrganizerCap for event ${eventId}`,
+      );
+    }
+    return cap;
+  }
+
+  /** Any of the owner's caps for the event, or one granting `permission` */
+  async findOrganizerCap(
+    owner: string,
+    eventId: string,
+    permission?: keyof OrganizerPermissions,
+  ): Promise<string | null> {
+    return this.findOwnedObject(
+      owner,
+      'access_control::EventOrganizerCap',
+      (fields) =>
+        isForEvent(fields, eventId) &&
+        (!permission || grants(fields, permission)),
+    );
+  }
+
+  async resolveValidatorCap(
+    owner: string,
+    eventId: string,
+  ): Promise<string | null> {
+    return this.findOwnedObject(
+      owner,
+      'access_control::ValidatorCap',
+      (fields) => isForEvent(fields, eventId),
+    );
+  }
+
+  /**
+   * EventTreasury (and a TicketPool, when one was created alongside the
+   * event) are found among the objects created by the event's creation
+   * transaction. Creation effects never change, so results are memoised.
+   */
+  async resolveEventObjects(eventId: string): Promise<EventObjectRefs> {
+    const cached = this.eventObjects.get(eventId);
+    if (cached) {
+      return cached;
+    }
+
+    const [created] = this.indexerStore.findEvents<EventCreatedEvent>(
+      'events::EventCreated',
+      { event_id: eventId },
+      { limit: 1 },
+    );
+    if (!created) {
+      throw new NotFoundException(`Event ${eventId} has not been indexed`);
+    }
+
+    const changes = await this.suiService.getTransactionObjectChanges(
+      created.txDigest,
+    );
+    const refs: EventObjectRefs = {};
+    for (const change of changes) {
+      if (change.type !== 'created') {
+        continue;
+      }
+      if (change.objectType.endsWith('::payments::EventTreasury')) {
+        refs.eventTreasuryId = change.objectId;
+      } else if (change.objectType.endsWith('::tickets::TicketPool')) {
+        refs.poolId = change.objectId;
+      }
+    }
+
+    this.eventObjects.set(eventId, refs);
+    return refs;
+  }
+
+  async resolveEventTreasury(eventId: string): Promise<string> {
+    const { eventTreasuryId } = await this.resolveEventObjects(eventId);
+    if (!eventTreasuryId) {
+      throw new NotFoundException(
+        `No EventTreasury found for event ${eventId}`,
+      );
+    }
+    return eventTreasuryId;
+  }
+
+  async resolveTicketPool(eventId: string, poolId?: string): Promise<string> {
+    if (poolId) {
+      return poolId;
+    }
+
+    const refs = await this.resolveEventObjects(eventId);
+    if (!refs.poolId) {
+      throw new NotFoundException(
+        `No TicketPool found for event ${eventId}; pass poolId explicitly`,
+      );
+    }
+    return refs.poolId;
+  }
+
+  private async findOwnedObject(
+    owner: string,
+    type: string,
+    predicate: (fields: Record<string, unknown>) => boolean = () => true,
+  ): Promise<string | null> {
+    let cursor: string | null | undefined;
+    do {
+      const page = await this.suiService.getOwnedObjects(owner, type, cursor);
+      const match = page.data.find((obj) => predicate(contentFields(obj)));
+      if (match?.data) {
+        return match.data.objectId;
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return null;
+  }
+}
+
+function isForEvent(fields: Record<string, unknown>, eventId: string) {
+  return (
+    typeof fields.event_id === 'string' &&
+    normalizeSuiAddress(fields.event_id) === normalizeSuiAddress(eventId)
+  );
+}
+
+function grants(
+  fields: Record<string, unknown>,
+  permission: keyof OrganizerPermissions,
+): boolean {
+  const permissions = fields.permissions as
+    | { fields?: Record<string, unknown> }
+    | undefined;
+  return permissions?.fields?.[permission] === true;
+}
+
+function contentFields(obj: SuiObjectResponse): Record<string, unknown> {
+  const content = obj.data?.content;
+  return content?.dataType === 'moveObject'
+    ? (content.fields as Record<string, unknown>)
+    : {};
+}
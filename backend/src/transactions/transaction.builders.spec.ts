@@ -0,0 +1,292 @@
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import {
+  buildCheckInTicketTx,
+  buildCreateEventTx,
+  buildCreateLimitedCapTx,
+  buildGrantValidatorCapTx,
+  buildMintTicketTx,
+  buildPublishEventTx,
+  buildRefundTicketTx,
+  buildResaleSwapTx,
+  buildValidateTicketTx,
+  buildWithdrawFundsTx,
+} from './transaction.builders';
+
+const PACKAGE_ID = '0xfeed';
+const SENDER = '0xa11ce';
+
+function moveCalls(tx: Transaction) {
+  return tx
+    .getData()
+    .commands.filter((command) => command.$kind === 'MoveCall')
+    .map((command) => command.MoveCall);
+}
+
+function targets(tx: Transaction) {
+  return moveCalls(tx).map((call) => `${call.module}::${call.function}`);
+}
+
+function objectInputs(tx: Transaction) {
+  return tx
+    .getData()
+    .inputs.filter((input) => input.$kind === 'UnresolvedObject')
+    .map((input) => input.UnresolvedObject.objectId);
+}
+
+describe('transaction builders', () => {
+  it('builds create_event with constructed metadata and config', () => {
+    const tx = buildCreateEventTx(PACKAGE_ID, {
+      sender: SENDER,
+      eventRegistryId: '0x100',
+      badgeRegistryId: '0x101',
+      userProfileId: '0x102',
+      metadata: {
+        title: 'Sui Summit',
+        description: 'Builders meetup',
+        category: 'tech',
+        tags: ['sui', 'move'],
+      },
+      config: {
+        startTime: '2000',
+        endTime: '3000',
+        registrationDeadline: '1500',
+        capacity: '100',
+        ticketPrice: '1000000000',
+        requiresApproval: false,
+        isTransferable: true,
+        refundDeadline: '1500',
+      },
+    });
+
+    expect(targets(tx)).toEqual([
+      'events::new_event_metadata',
+      'events::new_event_config',
+      'events::create_event',
+      'payments::share_treasury',
+    ]);
+    expect(moveCalls(tx)[2].package).toBe(normalizeSuiAddress(PACKAGE_ID));
+    expect(objectInputs(tx)).toEqual(
+      ['0x100', '0x102', '0x101'].map((id) => normalizeSuiAddress(id)),
+    );
+
+    const commands = tx.getData().commands;
+    expect(
+      commands.some((command) => command.$kind === 'TransferObjects'),
+    ).toBe(true);
+    expect(tx.getData().sender).toBe(normalizeSuiAddress(SENDER));
+  });
+
+  it('builds publish_event against the event and organizer cap', () => {
+    const tx = buildPublishEventTx(PACKAGE_ID, {
+      sender: SENDER,
+      eventId: '0xe1',
+      organizerCapId: '0xca9',
+    });
+
+    expect(targets(tx)).toEqual(['events::publish_event']);
+    expect(objectInputs(tx)).toEqual([
+      normalizeSuiAddress('0xe1'),
+      normalizeSuiAddress('0xca9'),
+    ]);
+  });
+
+  it('pays for mint_ticket with an exact-value coin and keeps the ticket', () => {
+    const tx = buildMintTicketTx(PACKAGE_ID, {
+      sender: SENDER,
+      eventId: '0xe1',
+      poolId: '0xb001',
+      userProfileId: '0x102',
+      eventTreasuryId: '0x7e',
+      platformTreasuryId: '0x7f',
+      eventRegistryId: '0x100',
+      ticketPrice: '1000000000',
+      tier: 'general',
+      qrCodeHash: 'abcd',
+    });
+
+    const commands = tx.getData().commands;
+    const intent = commands.find((command) => command.$kind === '$Intent');
+    expect(intent?.$Intent?.name).toBe('CoinWithBalance');
+    expect(intent?.$Intent?.data).toMatchObject({ balance: 1000000000n });
+
+    expect(targets(tx)).toEqual(['tickets::mint_ticket']);
+    expect(objectInputs(tx)).toEqual(
+      ['0xb001', '0xe1', '0x102', '0x7e', '0x7f', '0x100'].map((id) =>
+        normalizeSuiAddress(id),
+      ),
+    );
+    expect(commands[commands.length - 1].$kind).toBe('TransferObjects');
+  });
+
+  it('pays a tier premium to the organizer alongside mint_ticket', () => {
+    const tx = buildMintTicketTx(PACKAGE_ID, {
+      sender: SENDER,
+      eventId: '0xe1',
+      poolId: '0xb001',
+      userProfileId: '0x102',
+      eventTreasuryId: '0x7e',
+      platformTreasuryId: '0x7f',
+      eventRegistryId: '0x100',
+      ticketPrice: '1000000000',
+      tier: 'vip',
+      tierPremium: { amount: '2000000000', recipient: '0x0a' },
+      qrCodeHash: 'abcd',
+    });
+
+    const commands = tx.getData().commands;
+    const balances = commands
+      .filter((command) => command.$kind === '$Intent')
+      .map((command) => command.$Intent?.data.balance);
+    expect(balances).toEqual([1000000000n, 2000000000n]);
+    expect(targets(tx)).toEqual(['tickets::mint_ticket']);
+    expect(
+      commands.filter((command) => command.$kind === 'TransferObjects'),
+    ).toHaveLength(2);
+  });
+
+  it('builds validate_ticket with the validator cap and QR hash', () => {
+    const tx = buildValidateTicketTx(PACKAGE_ID, {
+      sender: SENDER,
+      ticketId: '0x71c',
+      eventId: '0xe1',
+      userProfileId: '0x102',
+      badgeRegistryId: '0x101',
+      validatorCapId: '0xca9',
+      qrCodeHash: 'abcd',
+    });
+
+    expect(targets(tx)).toEqual(['tickets::validate_ticket']);
+    expect(objectInputs(tx)).toEqual(
+      ['0x71c', '0xe1', '0x102', '0x101', '0xca9'].map((id) =>
+        normalizeSuiAddress(id),
+      ),
+    );
+  });
+
+  it('builds check_in_ticket for the validator with the ticket and owner as values', () => {
+    const tx = buildCheckInTicketTx(PACKAGE_ID, {
+      sender: SENDER,
+      eventId: '0xe1',
+      validatorCapId: '0xca9',
+      ticketId: '0x71c',
+      owner: '0xa11ce',
+    });
+
+    expect(targets(tx)).toEqual(['tickets::check_in_ticket']);
+    expect(tx.getData().sender).toBe(normalizeSuiAddress(SENDER));
+    expect(objectInputs(tx)).toEqual(
+      ['0xe1', '0xca9'].map((id) => normalizeSuiAddress(id)),
+    );
+  });
+
+  it('builds refund_ticket with the pool and treasury', () => {
+    const tx = buildRefundTicketTx(PACKAGE_ID, {
+      sender: SENDER,
+      ticketId: '0x71c',
+      eventId: '0xe1',
+      poolId: '0xb001',
+      eventTreasuryId: '0x7e',
+    });
+
+    expect(targets(tx)).toEqual(['tickets::refund_ticket']);
+    expect(objectInputs(tx)).toEqual(
+      ['0x71c', '0xe1', '0xb001', '0x7e'].map((id) => normalizeSuiAddress(id)),
+    );
+  });
+
+  it('builds withdraw_funds with a u64 amount', () => {
+    const tx = buildWithdrawFundsTx(PACKAGE_ID, {
+      sender: SENDER,
+      eventTreasuryId: '0x7e',
+      amount: '500',
+    });
+
+    const pure = tx
+      .getData()
+      .inputs.filter((input) => input.$kind === 'Pure')
+      .map((input) => input.Pure.bytes);
+
+    expect(targets(tx)).toEqual(['payments::withdraw_funds']);
+    expect(pure).toEqual([
+      Buffer.from([0xf4, 1, 0, 0, 0, 0, 0, 0]).toString('base64'),
+    ]);
+  });
+
+  it('builds create_limited_cap from constructed permissions', () => {
+    const tx = buildCreateLimitedCapTx(PACKAGE_ID, {
+      sender: SENDER,
+      organizerCapId: '0xca9',
+      recipient: '0xb0b',
+      permissions: {
+        canUpdateEvent: true,
+        canCancelEvent: false,
+        canApproveRegistrations: true,
+        canWithdrawFunds: false,
+        canGrantValidators: true,
+      },
+    });
+
+    expect(targets(tx)).toEqual([
+      'access_control::new_permissions',
+      'access_control::create_limited_cap',
+    ]);
+    expect(objectInputs(tx)).toEqual([normalizeSuiAddress('0xca9')]);
+
+    const commands = tx.getData().commands;
+    expect(commands[commands.length - 1].$kind).toBe('TransferObjects');
+  });
+
+  it('builds grant_validator_cap and hands the cap to the validator', () => {
+    const tx = buildGrantValidatorCapTx(PACKAGE_ID, {
+      sender: SENDER,
+      eventId: '0xe1',
+      organizerCapId: '0xca9',
+      validator: '0xb0b',
+    });
+
+    const pure = tx
+      .getData()
+      .inputs.filter((input) => input.$kind === 'Pure')
+      .map((input) => input.Pure.bytes);
+
+    expect(targets(tx)).toEqual(['access_control::grant_validator_cap']);
+    expect(objectInputs(tx)).toEqual([normalizeSuiAddress('0xca9')]);
+    // event id, validator address, then the transfer recipient
+    const encoded = (id: string) =>
+      Buffer.from(normalizeSuiAddress(id).slice(2), 'hex').toString('base64');
+    expect(pure).toEqual([encoded('0xe1'), encoded('0xb0b'), encoded('0xb0b')]);
+  });
+
+  it('builds a resale swap paid from the buyer-owned gas coin', () => {
+    const tx = buildResaleSwapTx(PACKAGE_ID, {
+      seller: SENDER,
+      buyer: '0xb0b',
+      ticketId: '0x71c',
+      eventId: '0xe1',
+      sellerProfileId: '0x9a',
+      price: '500',
+      qrCodeHash: 'beef',
+    });
+
+    const data = tx.getData();
+    expect(data.sender).toBe(normalizeSuiAddress(SENDER));
+    expect(data.gasData.owner).toBe(normalizeSuiAddress('0xb0b'));
+    expect(data.commands.map((command) => command.$kind)).toEqual([
+      'SplitCoins',
+      'TransferObjects',
+      'MoveCall',
+      'MoveCall',
+    ]);
+    expect(data.commands[0].SplitCoins!.coin.$kind).toBe('GasCoin');
+    expect(targets(tx)).toEqual([
+      'tickets::rekey_ticket',
+      'tickets::transfer_ticket',
+    ]);
+    const [rekey, transfer] = moveCalls(tx);
+    expect(transfer.arguments[0]).toEqual(rekey.arguments[0]);
+    expect(objectInputs(tx)).toEqual(
+      ['0x71c', '0xe1', '0x9a'].map((id) => normalizeSuiAddress(id)),
+    );
+  });
+});
@@ -0,0 +1,430 @@
+import { Transaction, coinWithBalance } from '@mysten/sui/transactions';
+import { fromHex } from '@mysten/sui/utils';
+import {
+  CreateEventConfigDto,
+  CreateEventMetadataDto,
+  OrganizerPermissionsDto,
+} from './dto/transaction.dto';
+
+/**
+ * Pure PTB builders for the package's public entry points. Every object
+ * reference is passed in already resolved, so these never touch the network
+ * and tests can assert on the resulting commands directly.
+ */
+
+export interface CreateEventTxInput {
+  sender: string;
+  eventRegistryId: string;
+  badgeRegistryId: string;
+  userProfileId: string;
+  metadata: CreateEventMetadataDto;
+  config: CreateEventConfigDto;
+}
+
+export interface OrganizerTxInput {
+  sender: string;
+  eventId: string;
+  organizerCapId: string;
+}
+
+export interface CancelEventTxInput extends OrganizerTxInput {
+  userProfileId: string;
+  reason: string;
+}
+
+export interface MintTicketTxInput {
+  sender: string;
+  eventId: string;
+  poolId: string;
+  userProfileId: string;
+  eventTreasuryId: string;
+  platformTreasuryId: string;
+  eventRegistryId: string;
+  ticketPrice: string;
+  tier: string;
+  /** Tier price above ticketPrice, paid directly to the organizer */
+  tierPremium?: { amount: string; recipient: string };
+  encryptedData?: string;
+  sealKeyId?: string;
+  qrCodeHash: string;
+}
+
+export interface ValidateTicketTxInput {
+  sender: string;
+  ticketId: string;
+  eventId: string;
+  userProfileId: string;
+  badgeRegistryId: string;
+  validatorCapId: string;
+  qrCodeHash: string;
+}
+
+/** A door check-in, signed by the validator holding the ValidatorCap */
+export interface CheckInTicketTxInput {
+  sender: string;
+  eventId: string;
+  validatorCapId: string;
+  ticketId: string;
+  owner: string;
+}
+
+export interface TransferTicketTxInput {
+  sender: string;
+  ticketId: string;
+  eventId: string;
+  userProfileId: string;
+  recipient: string;
+}
+
+/** A resale swap: the seller sends, the buyer owns the gas */
+export interface ResaleSwapTxInput {
+  seller: string;
+  buyer: string;
+  ticketId: string;
+  eventId: string;
+  sellerProfileId: string;
+  price: string;
+  /** Buyer-generated values rekey_ticket swaps in before the transfer */
+  encryptedData?: string;
+  sealKeyId?: string;
+  qrCodeHash: string;
+}
+
+export interface RefundTicketTxInput {
+  sender: string;
+  ticketId: string;
+  eventId: string;
+  poolId: string;
+  eventTreasuryId: string;
+}
+
+export interface ApplyDiscountTxInput {
+  sender: string;
+  discountCodeId: string;
+  eventId: string;
+  originalPrice: string;
+}
+
+export interface WithdrawFundsTxInput {
+  sender: string;
+  eventTreasuryId: string;
+  amount: string;
+}
+
+export interface CreateLimitedCapTxInput {
+  sender: string;
+  organizerCapId: string;
+  recipient: string;
+  permissions: OrganizerPermissionsDto;
+}
+
+export interface GrantValidatorCapTxInput {
+  sender: string;
+  eventId: string;
+  organizerCapId: string;
+  validator: string;
+}
+
+function newTransaction(sender: string) {
+  const tx = new Transaction();
+  tx.setSender(sender);
+  return tx;
+}
+
+export function buildCreateEventTx(
+  packageId: string,
+  input: CreateEventTxInput,
+): Transaction {
+  const tx = newTransaction(input.sender);
+  const { metadata, config } = input;
+
+  const eventMetadata = tx.moveCall({
+    target: `${packageId}::events::new_event_metadata`,
+    arguments: [
+      tx.pure.string(metadata.title),
+      tx.pure.string(metadata.description),
+      tx.pure.string(metadata.walrusBlobId ?? ''),
+      tx.pure.string(metadata.imageUrl ?? ''),
+      tx.pure.string(metadata.category),
+      tx.pure.vector('string', metadata.tags),
+    ],
+  });
+
+  const eventConfig = tx.moveCall({
+    target: `${packageId}::events::new_event_config`,
+    arguments: [
+      tx.pure.u64(config.startTime),
+      tx.pure.u64(config.endTime),
+      tx.pure.u64(config.registrationDeadline),
+      tx.pure.u64(config.capacity),
+      tx.pure.u64(config.ticketPrice),
+      tx.pure.bool(config.requiresApproval),
+      tx.pure.bool(config.isTransferable),
+      tx.pure.u64(config.refundDeadline),
+    ],
+  });
+
+  const [organizerCap, treasury] = tx.moveCall({
+    target: `${packageId}::events::create_event`,
+    arguments: [
+      tx.object(input.eventRegistryId),
+      tx.object(input.userProfileId),
+      tx.object(input.badgeRegistryId),
+      eventMetadata,
+      eventConfig,
+    ],
+  });
+
+  tx.transferObjects([organizerCap], input.sender);
+  tx.moveCall({
+    target: `${packageId}::payments::share_treasury`,
+    arguments: [treasury],
+  });
+
+  return tx;
+}
+
+export function buildPublishEventTx(
+  packageId: string,
+  input: OrganizerTxInput,
+): Transaction {
+  const tx = newTransaction(input.sender);
+  tx.moveCall({
+    target: `${packageId}::events::publish_event`,
+    arguments: [tx.object(input.eventId), tx.object(input.organizerCapId)],
+  });
+  return tx;
+}
+
+export function buildCancelEventTx(
+  packageId: string,
+  input: CancelEventTxInput,
+): Transaction {
+  const tx = newTransaction(input.sender);
+  tx.moveCall({
+    target: `${packageId}::events::cancel_event`,
+    arguments: [
+      tx.object(input.eventId),
+      tx.object(input.organizerCapId),
+      tx.pure.string(input.reason),
+      tx.object(input.userProfileId),
+    ],
+  });
+  return tx;
+}
+
+export function buildMintTicketTx(
+  packageId: string,
+  input: MintTicketTxInput,
+): Transaction {
+  const tx = newTransaction(input.sender);
+
+  // mint_ticket requires an exact-value coin; the intent selects and
+  // splits the sender's SUI coins when the transaction is built
+  const payment = coinWithBalance({ balance: BigInt(input.ticketPrice) });
+
+  const ticket = tx.moveCall({
+    target: `${packageId}::tickets::mint_ticket`,
+    arguments: [
+      tx.object(input.poolId),
+      tx.object(input.eventId),
+      tx.object(input.userProfileId),
+      tx.object(input.eventTreasuryId),
+      tx.object(input.platformTreasuryId),
+      tx.object(input.eventRegistryId),
+      payment,
+      tx.pure.string(input.tier),
+      tx.pure.vector('u8', fromHex(input.encryptedData ?? '')),
+      tx.pure.string(input.sealKeyId ?? ''),
+      tx.pure.vector('u8', fromHex(input.qrCodeHash)),
+    ],
+  });
+
+  tx.transferObjects([ticket], input.sender);
+
+  if (input.tierPremium) {
+    tx.transferObjects(
+      [coinWithBalance({ balance: BigInt(input.tierPremium.amount) })],
+      input.tierPremium.recipient,
+    );
+  }
+  return tx;
+}
+
+export function buildValidateTicketTx(
+  packageId: string,
+  input: ValidateTicketTxInput,
+): Transaction {
+  const tx = newTransaction(input.sender);
+  tx.moveCall({
+    target: `${packageId}::tickets::validate_ticket`,
+    arguments: [
+      tx.object(input.ticketId),
+      tx.object(input.eventId),
+      tx.object(input.userProfileId),
+      tx.object(input.badgeRegistryId),
+      tx.object(input.validatorCapId),
+      tx.pure.vector('u8', fromHex(input.qrCodeHash)),
+    ],
+  });
+  return tx;
+}
+
+export function buildCheckInTicketTx(
+  packageId: string,
+  input: CheckInTicketTxInput,
+): Transaction {
+  const tx = newTransaction(input.sender);
+  tx.moveCall({
+    target: `${packageId}::tickets::check_in_ticket`,
+    arguments: [
+      tx.object(input.eventId),
+      tx.object(input.validatorCapId),
+      tx.pure.id(input.ticketId),
+      tx.pure.address(input.owner),
+    ],
+  });
+  return tx;
+}
+
+export function buildTransferTicketTx(
+  packageId: string,
+  input: TransferTicketTxInput,
+): Transaction {
+  const tx = newTransaction(input.sender);
+  tx.moveCall({
+    target: `${packageId}::tickets::transfer_ticket`,
+    arguments: [
+      tx.object(input.ticketId),
+      tx.object(input.eventId),
+      tx.object(input.userProfileId),
+      tx.pure.address(input.recipient),
+    ],
+  });
+  return tx;
+}
+
+/**
+ * Swap a ticket for SUI in one transaction signed by both parties. The
+ * price is split off the buyer's gas coin, so either the seller is paid
+ * and the ticket moves to the buyer or nothing happens.
+ */
+export function buildResaleSwapTx(
+  packageId: string,
+  input: ResaleSwapTxInput,
+): Transaction {
+  const tx = newTransaction(input.seller);
+  tx.setGasOwner(input.buyer);
+  const [payment] = tx.splitCoins(tx.gas, [tx.pure.u64(input.price)]);
+  tx.transferObjects([payment], input.seller);
+  const ticket = tx.object(input.ticketId);
+  tx.moveCall({
+    target: `${packageId}::tickets::rekey_ticket`,
+    arguments: [
+      ticket,
+      tx.pure.vector('u8', fromHex(input.encryptedData ?? '')),
+      tx.pure.string(input.sealKeyId ?? ''),
+      tx.pure.vector('u8', fromHex(input.qrCodeHash)),
+    ],
+  });
+  tx.moveCall({
+    target: `${packageId}::tickets::transfer_ticket`,
+    arguments: [
+      ticket,
+      tx.object(input.eventId),
+      tx.object(input.sellerProfileId),
+      tx.pure.address(input.buyer),
+    ],
+  });
+  return tx;
+}
+
+export function buildRefundTicketTx(
+  packageId: string,
+  input: RefundTicketTxInput,
+): Transaction {
+  const tx = newTransaction(input.sender);
+  tx.moveCall({
+    target: `${packageId}::tickets::refund_ticket`,
+    arguments: [
+      tx.object(input.ticketId),
+      tx.object(input.eventId),
+      tx.object(input.poolId),
+      tx.object(input.eventTreasuryId),
+    ],
+  });
+  return tx;
+}
+
+export function buildApplyDiscountTx(
+  packageId: string,
+  input: ApplyDiscountTxInput,
+): Transaction {
+  const tx = newTransaction(input.sender);
+  tx.moveCall({
+    target: `${packageId}::payments::apply_discount`,
+    arguments: [
+      tx.object(input.discountCodeId),
+      tx.pure.id(input.eventId),
+      tx.pure.u64(input.originalPrice),
+    ],
+  });
+  return tx;
+}
+
+export function buildWithdrawFundsTx(
+  packageId: string,
+  input: WithdrawFundsTxInput,
+): Transaction {
+  const tx = newTransaction(input.sender);
+  tx.moveCall({
+    target: `${packageId}::payments::withdraw_funds`,
+    arguments: [tx.object(input.eventTreasuryId), tx.pure.u64(input.amount)],
+  });
+  return tx;
+}
+
+export function buildCreateLimitedCapTx(
+  packageId: string,
+  input: CreateLimitedCapTxInput,
+): Transaction {
+  const tx = newTransaction(input.sender);
+  const { permissions } = input;
+
+  const limited = tx.moveCall({
+    target: `${packageId}::access_control::new_permissions`,
+    arguments: [
+      tx.pure.bool(permissions.canUpdateEvent),
+      tx.pure.bool(permissions.canCancelEvent),
+      tx.pure.bool(permissions.canApproveRegistrations),
+      tx.pure.bool(permissions.canWithdrawFunds),
+      tx.pure.bool(permissions.canGrantValidators),
+    ],
+  });
+
+  const cap = tx.moveCall({
+    target: `${packageId}::access_control::create_limited_cap`,
+    arguments: [tx.object(input.organizerCapId), limited],
+  });
+
+  tx.transferObjects([cap], input.recipient);
+  return tx;
+}
+
+export function buildGrantValidatorCapTx(
+  packageId: string,
+  input: GrantValidatorCapTxInput,
+): Transaction {
+  const tx = newTransaction(input.sender);
+  const cap = tx.moveCall({
+    target: `${packageId}::access_control::grant_validator_cap`,
+    arguments: [
+      tx.pure.id(input.eventId),
+      tx.pure.address(input.validator),
+      tx.object(input.organizerCapId),
+    ],
+  });
+
+  tx.transferObjects([cap], input.validator);
+  return tx;
+}
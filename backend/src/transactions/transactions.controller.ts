@@ -0,0 +1,148 @@
+import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { TransactionsService } from './transactions.service';
+import {
+  ApplyDiscountTransactionDto,
+  CancelEventTransactionDto,
+  CreateEventTransactionDto,
+  CreateLimitedCapTransactionDto,
+  EventActionTransactionDto,
+  GrantValidatorCapTransactionDto,
+  MintTicketTransactionDto,
+  RefundTicketTransactionDto,
+  TransferTicketTransactionDto,
+  UnsignedTransactionResponseDto,
+  WithdrawFundsTransactionDto,
+} from './dto/transaction.dto';
+
+@ApiTags('transactions')
+@Controller('transactions')
+export class TransactionsController {
+  constructor(private readonly transactionsService: TransactionsService) {}
+
+  @Post('create-event')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Build an unsigned events::create_event transaction',
+  })
+  @ApiResponse({ status: 200, type: UnsignedTransactionResponseDto })
+  async createEvent(
+    @Body() dto: CreateEventTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    return this.transactionsService.createEvent(dto);
+  }
+
+  @Post('publish-event')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Build an unsigned events::publish_event transaction',
+  })
+  @ApiResponse({ status: 200, type: UnsignedTransactionResponseDto })
+  async publishEvent(
+    @Body() dto: EventActionTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    return this.transactionsService.publishEvent(dto);
+  }
+
+  @Post('cancel-event')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Build an unsigned events::cancel_event transaction',
+  })
+  @ApiResponse({ status: 200, type: UnsignedTransactionResponseDto })
+  async cancelEvent(
+    @Body() dto: CancelEventTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    return this.transactionsService.cancelEvent(dto);
+  }
+
+  @Post('mint-ticket')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Build an unsigned tickets::mint_ticket transaction',
+  })
+  @ApiResponse({ status: 200, type: UnsignedTransactionResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown tier or the tier is not on sale',
+  })
+  @ApiResponse({ status: 409, description: 'The tier is sold out' })
+  async mintTicket(
+    @Body() dto: MintTicketTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    return this.transactionsService.mintTicket(dto);
+  }
+
+  @Post('transfer-ticket')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Build an unsigned tickets::transfer_ticket transaction',
+  })
+  @ApiResponse({ status: 200, type: UnsignedTransactionResponseDto })
+  async transferTicket(
+    @Body() dto: TransferTicketTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    return this.transactionsService.transferTicket(dto);
+  }
+
+  @Post('refund-ticket')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Build an unsigned tickets::refund_ticket transaction',
+  })
+  @ApiResponse({ status: 200, type: UnsignedTransactionResponseDto })
+  async refundTicket(
+    @Body() dto: RefundTicketTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    return this.transactionsService.refundTicket(dto);
+  }
+
+  @Post('apply-discount')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Build an unsigned payments::apply_discount transaction',
+  })
+  @ApiResponse({ status: 200, type: UnsignedTransactionResponseDto })
+  async applyDiscount(
+    @Body() dto: ApplyDiscountTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    return this.transactionsService.applyDiscount(dto);
+  }
+
+  @Post('withdraw-funds')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Build an unsigned payments::withdraw_funds transaction',
+  })
+  @ApiResponse({ status: 200, type: UnsignedTransactionResponseDto })
+  async withdrawFunds(
+    @Body() dto: WithdrawFundsTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    return this.transactionsService.withdrawFunds(dto);
+  }
+
+  @Post('create-limited-cap')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Build an unsigned access_control::create_limited_cap transaction',
+  })
+  @ApiResponse({ status: 200, type: UnsignedTransactionResponseDto })
+  async createLimitedCap(
+    @Body() dto: CreateLimitedCapTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    return this.transactionsService.createLimitedCap(dto);
+  }
+
+  @Post('grant-validator-cap')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Build an unsigned access_control::grant_validator_cap transaction',
+  })
+  @ApiResponse({ status: 200, type: UnsignedTransactionResponseDto })
+  async grantValidatorCap(
+    @Body() dto: GrantValidatorCapTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    return this.transactionsService.grantValidatorCap(dto);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { EventsModule } from '../events/events.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { TicketsModule } from '../tickets/tickets.module';
+import { TiersModule } from '../tiers/tiers.module';
+import { ObjectResolverService } from './object-resolver.service';
+import { TransactionsController } from './transactions.controller';
+import { TransactionsService } from './transactions.service';
+
+@Module({
+  imports: [IndexerModule, EventsModule, TicketsModule, TiersModule],
+  controllers: [TransactionsController],
+  providers: [TransactionsService, ObjectResolverService],
+  exports: [TransactionsService, ObjectResolverService],
+})
+export class TransactionsModule {}
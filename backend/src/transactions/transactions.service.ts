@@ -0,0 +1,228 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Transaction } from '@mysten/sui/transactions';
+import { toBase64 } from '@mysten/sui/utils';
+import { SuiService } from '../common/sui/sui.service';
+import { EventsService } from '../events/events.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { TiersService } from '../tiers/tiers.service';
+import { ObjectResolverService } from './object-resolver.service';
+import {
+  ApplyDiscountTransactionDto,
+  CancelEventTransactionDto,
+  CreateEventTransactionDto,
+  CreateLimitedCapTransactionDto,
+  EventActionTransactionDto,
+  GrantValidatorCapTransactionDto,
+  MintTicketTransactionDto,
+  RefundTicketTransactionDto,
+  TransferTicketTransactionDto,
+  UnsignedTransactionResponseDto,
+  WithdrawFundsTransactionDto,
+} from './dto/transaction.dto';
+import {
+  buildApplyDiscountTx,
+  buildCancelEventTx,
+  buildCreateEventTx,
+  buildCreateLimitedCapTx,
+  buildGrantValidatorCapTx,
+  buildMintTicketTx,
+  buildPublishEventTx,
+  buildRefundTicketTx,
+  buildTransferTicketTx,
+  buildWithdrawFundsTx,
+} from './transaction.builders';
+
+@Injectable()
+export class TransactionsService {
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly eventsService: EventsService,
+    private readonly ticketsService: TicketsService,
+    private readonly tiersService: TiersService,
+    private readonly resolver: ObjectResolverService,
+  ) {}
+
+  async createEvent(
+    dto: CreateEventTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const tx = buildCreateEventTx(this.suiService.getPackageId(), {
+      sender: dto.sender,
+      eventRegistryId: this.suiService.getSharedObjectId('eventRegistry'),
+      badgeRegistryId: this.suiService.getSharedObjectId('badgeRegistry'),
+      userProfileId: await this.resolver.resolveUserProfile(dto.sender),
+      metadata: dto.metadata,
+      config: dto.config,
+    });
+    return this.serialize(tx, dto.sender);
+  }
+
+  async publishEvent(
+    dto: EventActionTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const tx = buildPublishEventTx(this.suiService.getPackageId(), {
+      sender: dto.sender,
+      eventId: dto.eventId,
+      organizerCapId: await this.resolver.resolveOrganizerCap(
+        dto.sender,
+        dto.eventId,
+      ),
+    });
+    return this.serialize(tx, dto.sender);
+  }
+
+  async cancelEvent(
+    dto: CancelEventTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const tx = buildCancelEventTx(this.suiService.getPackageId(), {
+      sender: dto.sender,
+      eventId: dto.eventId,
+      organizerCapId: await this.resolver.resolveOrganizerCap(
+        dto.sender,
+        dto.eventId,
+      ),
+      userProfileId: await this.resolver.resolveUserProfile(dto.sender),
+      reason: dto.reason,
+    });
+    return this.serialize(tx, dto.sender);
+  }
+
+  async mintTicket(
+    dto: MintTicketTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const event = await this.requireEvent(dto.eventId);
+    const { premium } = await this.tiersService.priceTier(event, dto.tier);
+
+    const tx = buildMintTicketTx(this.suiService.getPackageId(), {
+      sender: dto.sender,
+      eventId: dto.eventId,
+      poolId: await this.resolver.resolveTicketPool(dto.eventId, dto.poolId),
+      userProfileId: await this.resolver.resolveUserProfile(dto.sender),
+      eventTreasuryId: await this.resolver.resolveEventTreasury(dto.eventId),
+      platformTreasuryId: this.suiService.getSharedObjectId('platformTreasury'),
+      eventRegistryId: this.suiService.getSharedObjectId('eventRegistry'),
+      ticketPrice: event.config.ticketPrice,
+      tier: dto.tier,
+      tierPremium:
+        premium > 0n
+          ? { amount: premium.toString(), recipient: event.organizer }
+          : undefined,
+      encryptedData: dto.encryptedData,
+      sealKeyId: dto.sealKeyId,
+      qrCodeHash: dto.qrCodeHash,
+    });
+    return this.serialize(tx, dto.sender);
+  }
+
+  async transferTicket(
+    dto: TransferTicketTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const ticket = await this.requireTicket(dto.ticketId);
+
+    const tx = buildTransferTicketTx(this.suiService.getPackageId(), {
+      sender: dto.sender,
+      ticketId: dto.ticketId,
+      eventId: ticket.eventId,
+      userProfileId: await this.resolver.resolveUserProfile(dto.sender),
+      recipient: dto.recipient,
+    });
+    return this.serialize(tx, dto.sender);
+  }
+
+  async refundTicket(
+    dto: RefundTicketTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const ticket = await this.requireTicket(dto.ticketId);
+
+    const tx = buildRefundTicketTx(this.suiService.getPackageId(), {
+      sender: dto.sender,
+      ticketId: dto.ticketId,
+      eventId: ticket.eventId,
+      poolId: await this.resolver.resolveTicketPool(ticket.eventId, dto.poolId),
+      eventTreasuryId: await this.resolver.resolveEventTreasury(ticket.eventId),
+    });
+    return this.serialize(tx, dto.sender);
+  }
+
+  async applyDiscount(
+    dto: ApplyDiscountTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const event = await this.requireEvent(dto.eventId);
+
+    const tx = buildApplyDiscountTx(this.suiService.getPackageId(), {
+      sender: dto.sender,
+      discountCodeId: dto.discountCodeId,
+      eventId: dto.eventId,
+      originalPrice: event.config.ticketPrice,
+    });
+    return this.serialize(tx, dto.sender);
+  }
+
+  async withdrawFunds(
+    dto: WithdrawFundsTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const tx = buildWithdrawFundsTx(this.suiService.getPackageId(), {
+      sender: dto.sender,
+      eventTreasuryId: await this.resolver.resolveEventTreasury(dto.eventId),
+      amount: dto.amount,
+    });
+    return this.serialize(tx, dto.sender);
+  }
+
+  async createLimitedCap(
+    dto: CreateLimitedCapTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const tx = buildCreateLimitedCapTx(this.suiService.getPackageId(), {
+      sender: dto.sender,
+      organizerCapId: await this.resolver.resolveOrganizerCap(
+        dto.sender,
+        dto.eventId,
+      ),
+      recipient: dto.recipient,
+      permissions: dto.permissions,
+    });
+    return this.serialize(tx, dto.sender);
+  }
+
+  async grantValidatorCap(
+    dto: GrantValidatorCapTransactionDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const tx = buildGrantValidatorCapTx(this.suiService.getPackageId(), {
+      sender: dto.sender,
+      eventId: dto.eventId,
+      organizerCapId: await this.resolver.resolveOrganizerCap(
+        dto.sender,
+        dto.eventId,
+      ),
+      validator: dto.validator,
+    });
+    return this.serialize(tx, dto.sender);
+  }
+
+  /**
+   * Resolve object versions, coin selection and gas against the network
+   * and return the unsigned BCS bytes for the wallet to sign.
+   */
+  async serialize(
+    tx: Transaction,
+    sender: string,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const bytes = await tx.build({ client: this.suiService.getClient() });
+    return { sender, txBytes: toBase64(bytes) };
+  }
+
+  private async requireEvent(eventId: string) {
+    const event = await this.eventsService.getEvent(eventId);
+    if (!event) {
+      throw new NotFoundException(`Event ${eventId} not found`);
+    }
+    return event;
+  }
+
+  private async requireTicket(ticketId: string) {
+    const ticket = await this.ticketsService.getTicket(ticketId);
+    if (!ticket) {
+      throw new NotFoundException(`Ticket ${ticketId} not found`);
+    }
+    return ticket;
+  }
+}
@@ -0,0 +1,179 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatabaseService } from '../common/database/database.service';
+import { decodeCursor, isOffsetCursor } from '../common/pagination/cursor';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  moveObject,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import { userProfileObject } from '../common/sui/testing/move-fixtures';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { BadgesService } from './badges.service';
+import { UsersService } from './users.service';
+
+const ALICE = normalizeSuiAddress('0xa11ce');
+const BOB = normalizeSuiAddress('0xb0b');
+const CAROL = normalizeSuiAddress('0xca201');
+
+describe('BadgesService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let indexer: IndexerService;
+  let badges: BadgesService;
+
+  function earned(user: string, rarity: number) {
+    return recordedEvent('users::BadgeEarned', {
+      badge_id: '0xbad9e',
+      user,
+      badge_type: 'first_timer',
+      name: 'First Timer',
+      rarity,
+    });
+  }
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        UsersService,
+        BadgesService,
+      ],
+    }).compile();
+    await module.init();
+
+    indexer = module.get(IndexerService);
+    badges = module.get(BadgesService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('lists owned badges in the order they were earned with rarity names', async () => {
+    client.setObject(
+      moveObject(
+        '0xb2',
+        'users::AchievementBadge',
+        {
+          user: ALICE,
+          badge_type: 'event_enthusiast',
+          name: 'Event Enthusiast',
+          description: 'Attended 10 events!',
+          metadata_url: '',
+          earned_at: '2000',
+          rarity: 1,
+        },
+        ALICE,
+      ),
+    );
+    client.setObject(
+      moveObject(
+        '0xb1',
+        'users::AchievementBadge',
+        {
+          user: ALICE,
+          badge_type: 'first_timer',
+          name: 'First Timer',
+          description: 'Attended your first event!',
+          metadata_url: '',
+          earned_at: '1000',
+          rarity: 0,
+        },
+        ALICE,
+      ),
+    );
+
+    const response = await badges.getUserBadges(ALICE);
+
+    expect(response.total).toBe(2);
+    expect(response.badges).toEqual([
+      expect.objectContaining({
+        id: '0xb1',
+        badgeType: 'first_timer',
+        rarity: 'common',
+      }),
+      expect.objectContaining({ id: '0xb2', rarity: 'rare' }),
+    ]);
+  });
+
+  it('reports the next milestone on each unfinished track', async () => {
+    client.setObject(
+      userProfileObject('0x9f', ALICE, {
+        stats: { events_attended: '12', events_created: '30' },
+      }),
+    );
+
+    const response = await badges.getNextMilestones(ALICE);
+
+    expect(response.next).toEqual([
+      expect.objectContaining({
+        track: 'attendance',
+        badgeType: 'event_legend',
+        rarity: 'epic',
+        threshold: 50,
+        current: 12,
+        remaining: 38,
+      }),
+    ]);
+  });
+
+  it('rejects milestone lookups for addresses without a profile', async () => {
+    await expect(badges.getNextMilestones(BOB)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it('ranks users by badge count, then by rarer badges', async () => {
+    client.addEvents(
+      earned(CAROL, 0),
+      earned(ALICE, 0),
+      earned(BOB, 0),
+      earned(BOB, 1),
+      earned(ALICE, 2),
+    );
+    await indexer.syncOnce();
+
+    const first = badges.getLeaderboard(2);
+
+    expect(first.entries).toEqual([
+      {
+        rank: 1,
+        address: ALICE,
+        badgeCount: 2,
+        byRarity: { common: 1, rare: 0, epic: 1, legendary: 0 },
+      },
+      expect.objectContaining({ rank: 2, address: BOB, badgeCount: 2 }),
+    ]);
+    expect(first.hasMore).toBe(true);
+    expect(decodeCursor(first.nextCursor, isOffsetCursor)).toEqual({
+      offset: 2,
+    });
+
+    const second = badges.getLeaderboard(2, first.nextCursor);
+    expect(second.entries).toEqual([
+      expect.objectContaining({ rank: 3, address: CAROL, badgeCount: 1 }),
+    ]);
+    expect(second.hasMore).toBe(false);
+  });
+});
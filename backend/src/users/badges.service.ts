@@ -0,0 +1,107 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  decodeCursor,
+  encodeCursor,
+  isOffsetCursor,
+} from '../common/pagination/cursor';
+import { IndexerStore } from '../indexer/indexer.store';
+import { BadgeEarnedEvent } from '../indexer/indexer.types';
+import {
+  BadgeDto,
+  BadgeLeaderboardResponseDto,
+  UserBadgesResponseDto,
+  UserMilestonesResponseDto,
+} from './dto/user.dto';
+import {
+  BADGE_RARITIES,
+  BadgeRarity,
+  nextMilestones,
+  rankBadgeHolders,
+  rarityName,
+} from './badges';
+import { UsersService } from './users.service';
+
+@Injectable()
+export class BadgesService {
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly indexerStore: IndexerStore,
+    private readonly usersService: UsersService,
+  ) {}
+
+  async getUserBadges(address: string): Promise<UserBadgesResponseDto> {
+    const badges: BadgeDto[] = [];
+    let cursor: string | null | undefined;
+    do {
+      const page = await this.suiService.getOwnedObjects(
+        address,
+        'users::AchievementBadge',
+        cursor,
+      );
+      for (const obj of page.data) {
+        const content = obj.data?.content;
+        if (content?.dataType === 'moveObject') {
+          badges.push(
+            mapBadgeFields(
+              obj.data!.objectId,
+              content.fields as Record<string, unknown>,
+            ),
+          );
+        }
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    badges.sort((a, b) => Number(a.awardedAt) - Number(b.awardedAt));
+    return { badges, total: badges.length };
+  }
+
+  async getNextMilestones(address: string): Promise<UserMilestonesResponseDto> {
+    const profile = await this.usersService.getUserProfileByAddress(address);
+    if (!profile) {
+      throw new NotFoundException(`No UserProfile owned by ${address}`);
+    }
+    return { address, next: nextMilestones(profile.stats) };
+  }
+
+  getLeaderboard(limit = 20, cursor?: string): BadgeLeaderboardResponseDto {
+    const offset = decodeCursor(cursor, isOffsetCursor)?.offset ?? 0;
+    const earned =
+      this.indexerStore.findEvents<BadgeEarnedEvent>('users::BadgeEarned');
+
+    const ranked = rankBadgeHolders(earned.map((event) => event.data));
+    const page = ranked.slice(offset, offset + limit);
+    const hasMore = offset + limit < ranked.length;
+
+    return {
+      entries: page.map((holder, index) => ({
+        rank: offset + index + 1,
+        address: holder.address,
+        badgeCount: holder.badgeCount,
+        byRarity: Object.fromEntries(
+          BADGE_RARITIES.map((rarity, level) => [
+            rarity,
+            holder.byRarity[level],
+          ]),
+        ) as Record<BadgeRarity, number>,
+      })),
+      nextCursor: hasMore
+        ? encodeCursor({ offset: offset + limit })
+        : undefined,
+      hasMore,
+    };
+  }
+}
+
+function mapBadgeFields(id: string, fields: Record<string, unknown>): BadgeDto {
+  return {
+    id,
+    badgeType: fields.badge_type as string,
+    name: fields.name as string,
+    rarity: rarityName(fields.rarity),
+    description: fields.description as string,
+    imageUrl: fields.metadata_url as string,
+    awardedAt: fields.earned_at as string,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Badge rarities by their `RARITY_*` value in users.move.
+ */
+export const BADGE_RARITIES = ['common', 'rare', 'epic', 'legendary'] as const;
+
+export type BadgeRarity = (typeof BADGE_RARITIES)[number];
+
+export type MilestoneTrack = 'attendance' | 'organizer';
+
+export interface Milestone {
+  track: MilestoneTrack;
+  badgeType: string;
+  name: string;
+  threshold: number;
+  rarity: BadgeRarity;
+}
+
+/**
+ * Mirrors check_attendance_milestones and check_organizer_milestones; a
+ * badge is minted when the stat reaches the threshold exactly.
+ */
+export const MILESTONES: readonly Milestone[] = [
+  {
+    track: 'attendance',
+    badgeType: 'first_timer',
+    name: 'First Timer',
+    threshold: 1,
+    rarity: 'common',
+  },
+  {
+    track: 'attendance',
+    badgeType: 'event_enthusiast',
+    name: 'Event Enthusiast',
+    threshold: 10,
+    rarity: 'rare',
+  },
+  {
+    track: 'attendance',
+    badgeType: 'event_legend',
+    name: 'Event Legend',
+    threshold: 50,
+    rarity: 'epic',
+  },
+  {
+    track: 'attendance',
+    badgeType: 'century_club',
+    name: 'Century Club',
+    threshold: 100,
+    rarity: 'legendary',
+  },
+  {
+    track: 'organizer',
+    badgeType: 'rising_organizer',
+    name: 'Rising Organizer',
+    threshold: 5,
+    rarity: 'rare',
+  },
+  {
+    track: 'organizer',
+    badgeType: 'veteran_organizer',
+    name: 'Veteran Organizer',
+    threshold: 25,
+    rarity: 'epic',
+  },
+];
+
+export function rarityName(value: unknown): BadgeRarity {
+  return BADGE_RARITIES[Number(value)] ?? 'common';
+}
+
+export interface MilestoneProgress extends Milestone {
+  current: number;
+  remaining: number;
+}
+
+/**
+ * The next unreached milestone on each track; tracks that are complete
+ * are left out.
+ */
+export function nextMilestones(stats: {
+  eventsAttended: number;
+  eventsCreated: number;
+}): MilestoneProgress[] {
+  const current: Record<MilestoneTrack, number> = {
+    attendance: stats.eventsAttended,
+    organizer: stats.eventsCreated,
+  };
+
+  const next: MilestoneProgress[] = [];
+  for (const track of ['attendance', 'organizer'] as const) {
+    const milestone = MILESTONES.find(
+      (candidate) =>
+        candidate.track === track && candidate.threshold > current[track],
+    );
+    if (milestone) {
+      next.push({
+        ...milestone,
+        current: current[track],
+        remaining: milestone.threshold - current[track],
+      });
+    }
+  }
+  return next;
+}
+
+export interface BadgeHolder {
+  address: string;
+  badgeCount: number;
+  /** Badges held per rarity, indexed like BADGE_RARITIES */
+  byRarity: number[];
+}
+
+/**
+ * Tally BadgeEarned events per user and rank by badge count, then by
+ * rarer badges held, with the address as a stable tie-break.
+ */
+export function rankBadgeHolders(
+  earned: { user: string; rarity: number | string }[],
+): BadgeHolder[] {
+  const holders = new Map<string, BadgeHolder>();
+  for (const badge of earned) {
+    let holder = holders.get(badge.user);
+    if (!holder) {
+      holder = {
+        address: badge.user,
+        badgeCount: 0,
+        byRarity: BADGE_RARITIES.map(() => 0),
+      };
+      holders.set(badge.user, holder);
+    }
+    holder.badgeCount++;
+    holder.byRarity[BADGE_RARITIES.indexOf(rarityName(badge.rarity))]++;
+  }
+
+  return [...holders.values()].sort((a, b) => {
+    if (a.badgeCount !== b.badgeCount) {
+      return b.badgeCount - a.badgeCount;
+    }
+    for (let rarity = BADGE_RARITIES.length - 1; rarity >= 0; rarity--) {
+      if (a.byRarity[rarity] !== b.byRarity[rarity]) {
+        return b.byRarity[rarity] - a.byRarity[rarity];
+      }
+    }
+    return a.address.localeCompare(b.address);
+  });
+}
@@ -1,4 +1,9 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { EventResponseDto } from '../../events/dto/event.dto';
+import { BADGE_RARITIES } from '../badges';
+import type { BadgeRarity, MilestoneTrack } from '../badges';
 
 export class UserStatsDto {
   @ApiProperty()
@@ -7,9 +12,15 @@ export class UserStatsDto {
   @ApiProperty()
   eventsAttended: number;
 
+  @ApiProperty()
+  noShowCount: number;
+
   @ApiProperty()
   ticketsPurchased: number;
 
+  @ApiProperty()
+  ticketsTransferred: number;
+
   @ApiProperty()
   totalSpent: string;
 }
@@ -19,13 +30,36 @@ export class ReputationDto {
   score: number;
 
   @ApiProperty()
-  eventsHosted: number;
+  organizerRating: number;
+
+  @ApiProperty()
+  attendeeRating: number;
+
+  @ApiProperty()
+  organizerRatingCount: number;
+
+  @ApiProperty()
+  attendeeRatingCount: number;
 
   @ApiProperty()
-  attendanceRate: number;
+  verifiedOrganizer: boolean;
 
   @ApiProperty()
-  cancellations: number;
+  badgeCount: number;
+}
+
+export class UserPreferencesDto {
+  @ApiProperty()
+  notificationEnabled: boolean;
+
+  @ApiProperty({ type: [String] })
+  favoriteCategories: string[];
+
+  @ApiProperty({ example: 'Europe/Berlin' })
+  timezone: string;
+
+  @ApiProperty({ example: 'en' })
+  language: string;
 }
 
 export class UserProfileResponseDto {
@@ -35,9 +69,6 @@ export class UserProfileResponseDto {
   @ApiProperty()
   owner: string;
 
-  @ApiPropertyOptional()
-  username?: string;
-
   @ApiPropertyOptional()
   displayName?: string;
 
@@ -47,12 +78,18 @@ export class UserProfileResponseDto {
   @ApiPropertyOptional()
   avatarUrl?: string;
 
+  @ApiProperty({ type: [String] })
+  socialLinks: string[];
+
   @ApiProperty()
   stats: UserStatsDto;
 
   @ApiProperty()
   reputation: ReputationDto;
 
+  @ApiProperty()
+  preferences: UserPreferencesDto;
+
   @ApiProperty()
   createdAt: string;
 
@@ -64,9 +101,15 @@ export class BadgeDto {
   @ApiProperty()
   id: string;
 
+  @ApiProperty({ example: 'first_timer' })
+  badgeType: string;
+
   @ApiProperty()
   name: string;
 
+  @ApiProperty({ enum: BADGE_RARITIES })
+  rarity: BadgeRarity;
+
   @ApiProperty()
   description: string;
 
@@ -83,4 +126,114 @@ export class UserBadgesResponseDto {
 
   @ApiProperty()
   total: number;
-}
\ No newline at end of file
+}
+
+export class MilestoneProgressDto {
+  @ApiProperty({ enum: ['attendance', 'organizer'] })
+  track: MilestoneTrack;
+
+  @ApiProperty()
+  badgeType: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ enum: BADGE_RARITIES })
+  rarity: BadgeRarity;
+
+  @ApiProperty({ description: 'Stat value at which the badge is minted' })
+  threshold: number;
+
+  @ApiProperty()
+  current: number;
+
+  @ApiProperty()
+  remaining: number;
+}
+
+export class UserMilestonesResponseDto {
+  @ApiProperty()
+  address: string;
+
+  @ApiProperty({
+    type: [MilestoneProgressDto],
+    description: 'Next milestone per track; completed tracks are omitted',
+  })
+  next: MilestoneProgressDto[];
+}
+
+export class BadgeLeaderboardEntryDto {
+  @ApiProperty()
+  rank: number;
+
+  @ApiProperty()
+  address: string;
+
+  @ApiProperty()
+  badgeCount: number;
+
+  @ApiProperty({ description: 'Badges held per rarity' })
+  byRarity: Record<BadgeRarity, number>;
+}
+
+export class BadgeLeaderboardResponseDto {
+  @ApiProperty({ type: [BadgeLeaderboardEntryDto] })
+  entries: BadgeLeaderboardEntryDto[];
+
+  @ApiPropertyOptional()
+  nextCursor?: string;
+
+  @ApiProperty()
+  hasMore: boolean;
+}
+export class RecommendationsQueryDto {
+  @ApiPropertyOptional({ default: 10, minimum: 1, maximum: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number = 10;
+}
+
+export class RecommendationBreakdownDto {
+  @ApiProperty({ description: 'Favorite or previously attended category' })
+  category: number;
+
+  @ApiProperty({ description: 'Tags shared with attended events' })
+  tags: number;
+
+  @ApiProperty({ description: 'Organizer rating and verification' })
+  organizer: number;
+
+  @ApiProperty({ description: "Start time in the user's timezone" })
+  time: number;
+}
+
+export class RecommendationDto {
+  @ApiProperty()
+  event: EventResponseDto;
+
+  @ApiProperty({ description: 'Sum of the breakdown, out of 100' })
+  score: number;
+
+  @ApiProperty()
+  breakdown: RecommendationBreakdownDto;
+
+  @ApiProperty({
+    type: [String],
+    example: ['In your favorite category "music"'],
+  })
+  reasons: string[];
+}
+
+export class RecommendationsResponseDto {
+  @ApiProperty()
+  address: string;
+
+  @ApiProperty({ description: 'Timezone start times were judged in' })
+  timezone: string;
+
+  @ApiProperty({ type: [RecommendationDto] })
+  recommendations: RecommendationDto[];
+}
@@ -0,0 +1,179 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import {
+  eventObject,
+  userProfileObject,
+} from '../common/sui/testing/move-fixtures';
+import { EventsService } from '../events/events.service';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { RecommendationsService } from './recommendations.service';
+import { UsersService } from './users.service';
+
+const ALICE = normalizeSuiAddress('0xa11ce');
+const ORGANIZER = normalizeSuiAddress('0x0a');
+const FUTURE = Date.parse('2099-06-10T10:00:00Z');
+
+describe('RecommendationsService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let indexer: IndexerService;
+  let recommendations: RecommendationsService;
+
+  /** Index an event and serve its object, open and joinable by default */
+  function addEvent(
+    eventId: string,
+    overrides: Record<string, unknown> = {},
+    organizer = ORGANIZER,
+  ) {
+    client.addEvents(
+      recordedEvent('events::EventCreated', {
+        event_id: eventId,
+        organizer,
+      }),
+    );
+    client.setObject(
+      eventObject(eventId, {
+        organizer,
+        ...overrides,
+        config: {
+          start_time: String(FUTURE),
+          registration_deadline: String(FUTURE),
+          ...(overrides.config as object),
+        },
+      }),
+    );
+  }
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        EventsService,
+        UsersService,
+        RecommendationsService,
+      ],
+    }).compile();
+    await module.init();
+
+    indexer = module.get(IndexerService);
+    recommendations = module.get(RecommendationsService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('ranks joinable events from preferences, history and organizer reputation', async () => {
+    client.setObject(
+      userProfileObject('0x9a', ALICE, {
+        preferences: { favorite_categories: ['tech'], timezone: 'UTC' },
+      }),
+    );
+    client.setObject(
+      userProfileObject('0x9b', ORGANIZER, {
+        reputation: {
+          organizer_rating: '90',
+          organizer_rating_count: '10',
+          verified_organizer: true,
+        },
+      }),
+    );
+
+    addEvent(normalizeSuiAddress('0xe1'), {
+      status: 3,
+      metadata: { category: 'music', tags: ['jazz'] },
+    });
+    client.addEvents(
+      recordedEvent('attendance::AttendanceProofMinted', {
+        proof_id: '0xa1',
+        event_id: normalizeSuiAddress('0xe1'),
+        attendee: ALICE,
+        ticket_id: '0x71',
+      }),
+    );
+    addEvent(normalizeSuiAddress('0xe2'), {
+      metadata: { category: 'music', tags: ['jazz'] },
+    });
+    addEvent(normalizeSuiAddress('0xe3'), { metadata: { category: 'tech' } });
+    addEvent(normalizeSuiAddress('0xe4'), { metadata: { category: 'art' } });
+    addEvent(normalizeSuiAddress('0xe5'), { metadata: { category: 'tech' } });
+    client.addEvents(
+      recordedEvent('tickets::TicketMinted', {
+        ticket_id: '0x75',
+        event_id: normalizeSuiAddress('0xe5'),
+        owner: ALICE,
+      }),
+    );
+    addEvent(normalizeSuiAddress('0xe6'), {
+      config: { capacity: '1' },
+      stats: { registered: '1' },
+    });
+    addEvent(
+      normalizeSuiAddress('0xe7'),
+      { metadata: { category: 'tech' } },
+      ALICE,
+    );
+    await indexer.syncOnce();
+
+    const response = await recommendations.getRecommendations('0xa11ce');
+
+    expect(response.address).toBe(ALICE);
+    expect(response.timezone).toBe('UTC');
+    expect(
+      response.recommendations.map((scored) => [scored.event.id, scored.score]),
+    ).toEqual([
+      [normalizeSuiAddress('0xe2'), 98.5],
+      [normalizeSuiAddress('0xe3'), 73.5],
+      [normalizeSuiAddress('0xe4'), 38.5],
+    ]);
+    expect(response.recommendations[0].reasons).toEqual([
+      'You attended 1 of 1 past events in "music"',
+      'Shares tags with events you attended: jazz',
+      'Hosted by a verified organizer',
+      'Organizer rated 90/100 across 10 reviews',
+      'Starts at 10:00 UTC, around when you usually attend',
+    ]);
+  });
+
+  it('limits the number of recommendations', async () => {
+    client.setObject(userProfileObject('0x9a', ALICE));
+    addEvent(normalizeSuiAddress('0xe1'));
+    addEvent(normalizeSuiAddress('0xe2'));
+    await indexer.syncOnce();
+
+    const response = await recommendations.getRecommendations(ALICE, 1);
+
+    expect(response.recommendations).toHaveLength(1);
+  });
+
+  it('rejects addresses without a UserProfile', async () => {
+    await expect(recommendations.getRecommendations(ALICE)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { EventsService } from '../events/events.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import {
+  AttendanceProofMintedEvent,
+  EventCreatedEvent,
+  TicketMintedEvent,
+  TicketTransferredEvent,
+} from '../indexer/indexer.types';
+import { RecommendationsResponseDto } from './dto/user.dto';
+import {
+  OrganizerReputation,
+  TasteProfile,
+  isRecommendable,
+  rankRecommendations,
+  resolveTimezone,
+  scoreEvent,
+} from './recommendations';
+import { UsersService } from './users.service';
+
+@Injectable()
+export class RecommendationsService {
+  constructor(
+    private readonly indexerStore: IndexerStore,
+    private readonly eventsService: EventsService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  /**
+   * Rank open events for `address` from its UserPreferences and the events
+   * it holds attendance proofs for.
+   */
+  async getRecommendations(
+    address: string,
+    limit = 10,
+  ): Promise<RecommendationsResponseDto> {
+    const user = normalizeSuiAddress(address);
+    const profile = await this.usersService.getUserProfileByAddress(user);
+    if (!profile) {
+      throw new NotFoundException(`No UserProfile owned by ${address}`);
+    }
+
+    const attendedIds = this.indexerStore
+      .findEvents<AttendanceProofMintedEvent>(
+        'attendance::AttendanceProofMinted',
+        { attendee: user },
+      )
+      .map((event) => event.data.event_id);
+    const taste: TasteProfile = {
+      favoriteCategories: profile.preferences.favoriteCategories,
+      timezone: profile.preferences.timezone,
+      attended: (await this.eventsService.getEvents(unique(attendedIds))).map(
+        (event) => ({
+          category: event.metadata.category,
+          tags: event.metadata.tags,
+          startTime: event.config.startTime,
+        }),
+      ),
+    };
+
+    const excluded = new Set([...attendedIds, ...this.ticketedEventIds(user)]);
+    const created = this.indexerStore.findEvents<EventCreatedEvent>(
+      'events::EventCreated',
+    );
+    const now = Date.now();
+    const candidates = (
+      await this.eventsService.getEvents(
+        created.map((event) => event.data.event_id),
+      )
+    ).filter((event) => isRecommendable(event, user, excluded, now));
+
+    const organizers = await this.organizerReputations(
+      unique(candidates.map((event) => event.organizer)),
+    );
+    const ranked = rankRecommendations(
+      candidates.map((event) =>
+        scoreEvent(event, taste, organizers.get(event.organizer) ?? null),
+      ),
+    );
+
+    return {
+      address: user,
+      timezone: resolveTimezone(taste.timezone),
+      recommendations: ranked.slice(0, limit),
+    };
+  }
+
+  /** Events the user was minted or transferred a ticket for */
+  private ticketedEventIds(user: string): string[] {
+    const minted = this.indexerStore.findEvents<TicketMintedEvent>(
+      'tickets::TicketMinted',
+      { owner: user },
+    );
+    const received = this.indexerStore.findEvents<TicketTransferredEvent>(
+      'tickets::TicketTransferred',
+      { to: user },
+    );
+    return [...minted, ...received].map((event) => event.data.event_id);
+  }
+
+  private async organizerReputations(
+    organizers: string[],
+  ): Promise<Map<string, OrganizerReputation>> {
+    const profiles = await Promise.all(
+      organizers.map((organizer) =>
+        this.usersService.getUserProfileByAddress(organizer),
+      ),
+    );
+
+    const reputations = new Map<string, OrganizerReputation>();
+    profiles.forEach((profile, index) => {
+      if (profile) {
+        reputations.set(organizers[index], {
+          rating: profile.reputation.organizerRating,
+          ratingCount: profile.reputation.organizerRatingCount,
+          verified: profile.reputation.verifiedOrganizer,
+        });
+      }
+    });
+    return reputations;
+  }
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
@@ -0,0 +1,278 @@
+import { EventResponseDto } from '../events/dto/event.dto';
+import {
+  AttendedEvent,
+  TasteProfile,
+  isRecommendable,
+  rankRecommendations,
+  scoreEvent,
+} from './recommendations';
+
+const NOW = Date.parse('2024-06-01T00:00:00Z');
+
+function makeEvent(
+  id: string,
+  overrides: {
+    organizer?: string;
+    category?: string;
+    tags?: string[];
+    status?: string;
+    startTime?: string;
+    registrationDeadline?: number;
+    capacity?: number;
+    registered?: number;
+  } = {},
+): EventResponseDto {
+  return {
+    id,
+    organizer: overrides.organizer ?? '0xorganizer',
+    metadata: {
+      title: `Event ${id}`,
+      description: '',
+      category: overrides.category ?? 'music',
+      tags: overrides.tags ?? [],
+    },
+    config: {
+      startTime: overrides.startTime ?? '2024-06-10T10:00:00Z',
+      endTime: '0',
+      registrationDeadline: String(
+        overrides.registrationDeadline ?? NOW + 3_600_000,
+      ),
+      capacity: overrides.capacity ?? 100,
+      ticketPrice: '0',
+      requiresApproval: false,
+      isTransferable: true,
+      refundDeadline: '0',
+    },
+    stats: {
+      registered: overrides.registered ?? 0,
+      attended: 0,
+      revenue: '0',
+      refunded: '0',
+    },
+    status: overrides.status ?? 'open',
+    createdAt: '0',
+    updatedAt: '0',
+  };
+}
+
+/** Start times are written as UTC ISO strings and stored as ms */
+function at(event: EventResponseDto): EventResponseDto {
+  event.config.startTime = String(Date.parse(event.config.startTime));
+  return event;
+}
+
+function attended(
+  category: string,
+  tags: string[],
+  startTime = '2024-05-01T10:00:00Z',
+): AttendedEvent {
+  return { category, tags, startTime: String(Date.parse(startTime)) };
+}
+
+function taste(overrides: Partial<TasteProfile> = {}): TasteProfile {
+  return {
+    favoriteCategories: [],
+    timezone: 'UTC',
+    attended: [],
+    ...overrides,
+  };
+}
+
+describe('event recommendations', () => {
+  describe('isRecommendable', () => {
+    const none = new Set<string>();
+
+    it('accepts open events with seats left before the deadline', () => {
+      expect(isRecommendable(makeEvent('0xe1'), '0xuser', none, NOW)).toBe(
+        true,
+      );
+    });
+
+    it.each([
+      ['not open', makeEvent('0xe1', { status: 'in_progress' })],
+      ['sold out', makeEvent('0xe1', { capacity: 10, registered: 10 })],
+      ['past its deadline', makeEvent('0xe1', { registrationDeadline: NOW })],
+      ['organized by the user', makeEvent('0xe1', { organizer: '0xuser' })],
+    ])('rejects events that are %s', (_, event) => {
+      expect(isRecommendable(event, '0xuser', none, NOW)).toBe(false);
+    });
+
+    it('rejects events the user already attended or holds a ticket for', () => {
+      expect(
+        isRecommendable(makeEvent('0xe1'), '0xuser', new Set(['0xe1']), NOW),
+      ).toBe(false);
+    });
+  });
+
+  describe('scoreEvent', () => {
+    it('gives full category points for a favorite category', () => {
+      const scored = scoreEvent(
+        at(makeEvent('0xe1', { category: 'Music' })),
+        taste({ favoriteCategories: ['music'] }),
+        null,
+      );
+
+      expect(scored.breakdown.category).toBe(35);
+      expect(scored.reasons).toContain('In your favorite category "Music"');
+    });
+
+    it('scales category points by the share of attended events', () => {
+      const scored = scoreEvent(
+        at(makeEvent('0xe1', { category: 'tech' })),
+        taste({
+          attended: [
+            attended('tech', []),
+            attended('tech', []),
+            attended('music', []),
+            attended('art', []),
+          ],
+        }),
+        null,
+      );
+
+      expect(scored.breakdown.category).toBe(17.5);
+      expect(scored.reasons).toContain(
+        'You attended 2 of 4 past events in "tech"',
+      );
+    });
+
+    it('weighs shared tags by how often the user attended them', () => {
+      const history = [
+        attended('tech', ['sui', 'move']),
+        attended('tech', ['sui', 'move']),
+        attended('tech', ['defi']),
+      ];
+
+      const strong = scoreEvent(
+        at(makeEvent('0xe1', { tags: ['Move', 'defi', 'art'] })),
+        taste({ attended: history }),
+        null,
+      );
+      const weak = scoreEvent(
+        at(makeEvent('0xe2', { tags: ['defi'] })),
+        taste({ attended: history }),
+        null,
+      );
+
+      expect(strong.breakdown.tags).toBe(25);
+      expect(strong.reasons).toContain(
+        'Shares tags with events you attended: move, defi',
+      );
+      expect(weak.breakdown.tags).toBe(8.33);
+    });
+
+    it('discounts organizer ratings with few reviews and rewards verification', () => {
+      const event = at(makeEvent('0xe1'));
+
+      const verified = scoreEvent(event, taste(), {
+        rating: 90,
+        ratingCount: 10,
+        verified: true,
+      });
+      const newcomer = scoreEvent(event, taste(), {
+        rating: 100,
+        ratingCount: 1,
+        verified: false,
+      });
+
+      expect(verified.breakdown.organizer).toBe(18.5);
+      expect(verified.reasons).toEqual(
+        expect.arrayContaining([
+          'Hosted by a verified organizer',
+          'Organizer rated 90/100 across 10 reviews',
+        ]),
+      );
+      expect(newcomer.breakdown.organizer).toBe(3);
+      expect(scoreEvent(event, taste(), null).breakdown.organizer).toBe(0);
+    });
+
+    it("judges start times in the user's timezone against past attendance", () => {
+      const tokyo = taste({
+        timezone: 'Asia/Tokyo',
+        attended: [attended('art', [], '2024-05-01T10:00:00Z')],
+      });
+
+      const usual = scoreEvent(
+        at(makeEvent('0xe1', { startTime: '2024-06-10T10:00:00Z' })),
+        tokyo,
+        null,
+      );
+      const later = scoreEvent(
+        at(makeEvent('0xe2', { startTime: '2024-06-10T12:00:00Z' })),
+        tokyo,
+        null,
+      );
+
+      expect(usual.breakdown.time).toBe(20);
+      expect(usual.reasons).toContain(
+        'Starts at 19:00 Asia/Tokyo, around when you usually attend',
+      );
+      expect(later.breakdown.time).toBe(10);
+    });
+
+    it('prefers sociable local hours without attendance history', () => {
+      const event = at(
+        makeEvent('0xe1', { startTime: '2024-06-10T18:00:00Z' }),
+      );
+
+      expect(scoreEvent(event, taste(), null).breakdown.time).toBe(20);
+      expect(
+        scoreEvent(event, taste({ timezone: 'Asia/Tokyo' }), null).breakdown
+          .time,
+      ).toBe(0);
+      expect(
+        scoreEvent(event, taste({ timezone: 'Not/AZone' }), null).reasons,
+      ).toEqual(['Starts at 18:00 UTC']);
+    });
+
+    it('sums the breakdown and returns identical results for identical input', () => {
+      const input = () =>
+        [
+          at(makeEvent('0xe1', { category: 'tech', tags: ['sui'] })),
+          taste({
+            favoriteCategories: ['tech'],
+            attended: [attended('music', ['sui'])],
+          }),
+          { rating: 80, ratingCount: 5, verified: false },
+        ] as const;
+
+      const scored = scoreEvent(...input());
+
+      expect(scored.breakdown).toEqual({
+        category: 35,
+        tags: 25,
+        organizer: 12,
+        time: 20,
+      });
+      expect(scored.score).toBe(92);
+      expect(scoreEvent(...input())).toEqual(scored);
+    });
+  });
+
+  describe('rankRecommendations', () => {
+    it('orders by score, then the sooner start, then id', () => {
+      const fan = taste({ favoriteCategories: ['tech'] });
+      const score = (event: EventResponseDto) =>
+        scoreEvent(at(event), fan, null);
+
+      const ranked = rankRecommendations([
+        score(makeEvent('0xe3', { startTime: '2024-06-12T10:00:00Z' })),
+        score(makeEvent('0xe2', { startTime: '2024-06-11T10:00:00Z' })),
+        score(makeEvent('0xe1', { startTime: '2024-06-11T10:00:00Z' })),
+        score(
+          makeEvent('0xe4', {
+            category: 'tech',
+            startTime: '2024-06-20T10:00:00Z',
+          }),
+        ),
+      ]);
+
+      expect(ranked.map((scored) => scored.event.id)).toEqual([
+        '0xe4',
+        '0xe1',
+        '0xe2',
+        '0xe3',
+      ]);
+    });
+  });
+});
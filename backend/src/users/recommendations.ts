@@ -0,0 +1,273 @@
+import { EventResponseDto } from '../events/dto/event.dto';
+import { seatsLeft } from '../events/event-search';
+
+/**
+ * Points each signal contributes to a recommendation score out of 100.
+ */
+export const RECOMMENDATION_WEIGHTS = {
+  category: 35,
+  tags: 25,
+  organizer: 20,
+  time: 20,
+} as const;
+
+export type RecommendationSignal = keyof typeof RECOMMENDATION_WEIGHTS;
+
+/** Ratings are averaged on-chain out of MAX_RATING in users.move */
+const MAX_RATING = 100;
+
+/** Reviews after which an organizer rating counts in full */
+const TRUSTED_RATING_COUNT = 5;
+
+/** Local hours considered sociable for users with no attendance history */
+const DEFAULT_HOURS = { from: 9, to: 22 };
+
+/** Hours away from a preferred start time after which time fit is zero */
+const HOUR_TOLERANCE = 4;
+
+export interface AttendedEvent {
+  category: string;
+  tags: string[];
+  startTime: string;
+}
+
+/** What is known about a user's taste, from UserPreferences and proofs */
+export interface TasteProfile {
+  favoriteCategories: string[];
+  timezone: string;
+  attended: AttendedEvent[];
+}
+
+export interface OrganizerReputation {
+  rating: number;
+  ratingCount: number;
+  verified: boolean;
+}
+
+export interface ScoredEvent {
+  event: EventResponseDto;
+  score: number;
+  breakdown: Record<RecommendationSignal, number>;
+  reasons: string[];
+}
+
+/**
+ * Whether an event can still be joined by `address`: open, with seats
+ * left, before its registration deadline, not organized by the user and
+ * not one they already hold or held a ticket for.
+ */
+export function isRecommendable(
+  event: EventResponseDto,
+  address: string,
+  excludedEventIds: ReadonlySet<string>,
+  now: number,
+): boolean {
+  return (
+    event.status === 'open' &&
+    seatsLeft(event) > 0 &&
+    Number(event.config.registrationDeadline) > now &&
+    event.organizer !== address &&
+    !excludedEventIds.has(event.id)
+  );
+}
+
+/**
+ * Score an event for a user. Every signal is a fraction of its weight,
+ * derived only from the arguments, so the same inputs always yield the
+ * same score and reasons.
+ */
+export function scoreEvent(
+  event: EventResponseDto,
+  taste: TasteProfile,
+  organizer: OrganizerReputation | null,
+): ScoredEvent {
+  const reasons: string[] = [];
+  const fractions: Record<RecommendationSignal, number> = {
+    category: categoryAffinity(event, taste, reasons),
+    tags: tagAffinity(event, taste, reasons),
+    organizer: organizerStanding(organizer, reasons),
+    time: timeFit(event, taste, reasons),
+  };
+
+  const breakdown = {} as Record<RecommendationSignal, number>;
+  let score = 0;
+  for (const signal of Object.keys(fractions) as RecommendationSignal[]) {
+    breakdown[signal] = round(
+      fractions[signal] * RECOMMENDATION_WEIGHTS[signal],
+    );
+    score += breakdown[signal];
+  }
+
+  return { event, score: round(score), breakdown, reasons };
+}
+
+/**
+ * Rank by score, then the sooner start, with the event id as a stable
+ * tie-break.
+ */
+export function rankRecommendations(scored: ScoredEvent[]): ScoredEvent[] {
+  return [...scored].sort(
+    (a, b) =>
+      b.score - a.score ||
+      Number(a.event.config.startTime) - Number(b.event.config.startTime) ||
+      a.event.id.localeCompare(b.event.id),
+  );
+}
+
+function categoryAffinity(
+  event: EventResponseDto,
+  taste: TasteProfile,
+  reasons: string[],
+): number {
+  const category = normalize(event.metadata.category);
+  if (taste.favoriteCategories.some((fav) => normalize(fav) === category)) {
+    reasons.push(`In your favorite category "${event.metadata.category}"`);
+    return 1;
+  }
+
+  const attended = taste.attended.filter(
+    (past) => normalize(past.category) === category,
+  ).length;
+  if (attended === 0) {
+    return 0;
+  }
+  reasons.push(
+    `You attended ${attended} of ${taste.attended.length} past events in "${event.metadata.category}"`,
+  );
+  return attended / taste.attended.length;
+}
+
+function tagAffinity(
+  event: EventResponseDto,
+  taste: TasteProfile,
+  reasons: string[],
+): number {
+  if (taste.attended.length === 0) {
+    return 0;
+  }
+  const frequency = new Map<string, number>();
+  for (const past of taste.attended) {
+    for (const tag of new Set(past.tags.map(normalize))) {
+      frequency.set(tag, (frequency.get(tag) ?? 0) + 1);
+    }
+  }
+
+  const shared = [...new Set(event.metadata.tags.map(normalize))]
+    .filter((tag) => frequency.has(tag))
+    .sort(
+      (a, b) => frequency.get(b)! - frequency.get(a)! || a.localeCompare(b),
+    );
+  if (shared.length === 0) {
+    return 0;
+  }
+
+  reasons.push(
+    `Shares tags with events you attended: ${shared.slice(0, 3).join(', ')}`,
+  );
+  const hits = shared.reduce((sum, tag) => sum + frequency.get(tag)!, 0);
+  return Math.min(1, hits / taste.attended.length);
+}
+
+/**
+ * Three quarters from the average rating, discounted until the organizer
+ * has enough reviews, and a quarter for verified organizers.
+ */
+function organizerStanding(
+  organizer: OrganizerReputation | null,
+  reasons: string[],
+): number {
+  if (!organizer) {
+    return 0;
+  }
+  if (organizer.verified) {
+    reasons.push('Hosted by a verified organizer');
+  }
+  if (organizer.ratingCount > 0) {
+    reasons.push(
+      `Organizer rated ${organizer.rating}/${MAX_RATING} across ${organizer.ratingCount} reviews`,
+    );
+  }
+
+  const confidence = Math.min(1, organizer.ratingCount / TRUSTED_RATING_COUNT);
+  const rating = Math.min(1, organizer.rating / MAX_RATING);
+  return 0.75 * rating * confidence + (organizer.verified ? 0.25 : 0);
+}
+
+/**
+ * How close the local start hour is to the hours the user usually attends,
+ * or to sociable hours when there is no history yet.
+ */
+function timeFit(
+  event: EventResponseDto,
+  taste: TasteProfile,
+  reasons: string[],
+): number {
+  const timezone = resolveTimezone(taste.timezone);
+  const start = localTime(Number(event.config.startTime), timezone);
+
+  let distance: number;
+  if (taste.attended.length > 0) {
+    distance = Math.min(
+      ...taste.attended.map((past) =>
+        hourDistance(
+          start.hour,
+          localTime(Number(past.startTime), timezone).hour,
+        ),
+      ),
+    );
+  } else {
+    distance =
+      start.hour < DEFAULT_HOURS.from
+        ? DEFAULT_HOURS.from - start.hour
+        : Math.max(0, start.hour - DEFAULT_HOURS.to);
+  }
+
+  const fit = Math.max(0, 1 - distance / HOUR_TOLERANCE);
+  if (fit >= 0.75) {
+    reasons.push(
+      taste.attended.length > 0
+        ? `Starts at ${start.label} ${timezone}, around when you usually attend`
+        : `Starts at ${start.label} ${timezone}`,
+    );
+  }
+  return fit;
+}
+
+/** Profiles default to UTC; unknown zones fall back to it as well */
+export function resolveTimezone(timezone: string): string {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    return 'UTC';
+  }
+}
+
+function localTime(
+  timestampMs: number,
+  timezone: string,
+): { hour: number; label: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(timestampMs));
+  const hour = parts.find((part) => part.type === 'hour')!.value;
+  const minute = parts.find((part) => part.type === 'minute')!.value;
+  return { hour: Number(hour), label: `${hour}:${minute}` };
+}
+
+/** Distance between two hours of the day, wrapping around midnight */
+function hourDistance(a: number, b: number): number {
+  const diff = Math.abs(a - b);
+  return Math.min(diff, 24 - diff);
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,12 +1,26 @@
-import { Controller, Get, Param } from '@nestjs/common';
+import { Controller, Get, Param, Query } from '@nestjs/common';
 import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { UsersService } from './users.service';
-import { UserProfileResponseDto } from './dto/user.dto';
+import { BadgesService } from './badges.service';
+import { RecommendationsService } from './recommendations.service';
+import {
+  BadgeLeaderboardResponseDto,
+  RecommendationsQueryDto,
+  RecommendationsResponseDto,
+  UserBadgesResponseDto,
+  UserMilestonesResponseDto,
+  UserProfileResponseDto,
+} from './dto/user.dto';
+import { PaginationQueryDto } from '../common/pagination/pagination.dto';
 
 @ApiTags('users')
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly badgesService: BadgesService,
+    private readonly recommendationsService: RecommendationsService,
+  ) {}
 
   @Get('profile/:id')
   @ApiOperation({ summary: 'Get user profile by profile ID' })
@@ -26,11 +40,51 @@ export class UsersController {
     return this.usersService.getUserProfileByAddress(address);
   }
 
+  @Get('address/:address/badges')
+  @ApiOperation({ summary: 'Get achievement badges held by an address' })
+  @ApiParam({ name: 'address', description: 'User wallet address' })
+  @ApiResponse({ status: 200, type: UserBadgesResponseDto })
+  async getUserBadges(
+    @Param('address') address: string,
+  ): Promise<UserBadgesResponseDto> {
+    return this.badgesService.getUserBadges(address);
+  }
+
+  @Get('address/:address/milestones')
+  @ApiOperation({ summary: 'Get progress towards the next badge milestones' })
+  @ApiParam({ name: 'address', description: 'User wallet address' })
+  @ApiResponse({ status: 200, type: UserMilestonesResponseDto })
+  async getNextMilestones(
+    @Param('address') address: string,
+  ): Promise<UserMilestonesResponseDto> {
+    return this.badgesService.getNextMilestones(address);
+  }
+
+  @Get('address/:address/recommendations')
+  @ApiOperation({ summary: 'Recommend open events, with the reasons for each' })
+  @ApiParam({ name: 'address', description: 'User wallet address' })
+  @ApiResponse({ status: 200, type: RecommendationsResponseDto })
+  async getRecommendations(
+    @Param('address') address: string,
+    @Query() query: RecommendationsQueryDto,
+  ): Promise<RecommendationsResponseDto> {
+    return this.recommendationsService.getRecommendations(address, query.limit);
+  }
+
+  @Get('leaderboard/badges')
+  @ApiOperation({ summary: 'Rank users by badge count and rarity' })
+  @ApiResponse({ status: 200, type: BadgeLeaderboardResponseDto })
+  getBadgeLeaderboard(
+    @Query() query: PaginationQueryDto,
+  ): BadgeLeaderboardResponseDto {
+    return this.badgesService.getLeaderboard(query.limit, query.cursor);
+  }
+
   @Get('username/:username/exists')
   @ApiOperation({ summary: 'Check if username exists' })
   @ApiParam({ name: 'username', description: 'Username to check' })
   @ApiResponse({ status: 200, type: Boolean })
-  async checkUsernameExists(@Param('username') username: string): Promise<boolean> {
+  checkUsernameExists(@Param('username') username: string): boolean {
     return this.usersService.checkUsernameExists(username);
   }
 }
\ No newline at end of file
@@ -1,10 +1,15 @@
 import { Module } from '@nestjs/common';
+import { EventsModule } from '../events/events.module';
+import { IndexerModule } from '../indexer/indexer.module';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
+import { BadgesService } from './badges.service';
+import { RecommendationsService } from './recommendations.service';
 
 @Module({
+  imports: [IndexerModule, EventsModule],
   controllers: [UsersController],
-  providers: [UsersService],
-  exports: [UsersService],
+  providers: [UsersService, BadgesService, RecommendationsService],
+  exports: [UsersService, BadgesService],
 })
 export class UsersModule {}
\ No newline at end of file
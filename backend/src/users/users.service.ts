@@ -1,20 +1,24 @@
 import { Injectable } from '@nestjs/common';
+import { SuiObjectResponse } from '@mysten/sui/client';
 import { SuiService } from '../common/sui/sui.service';
+import { addressOwner, decodeMoveObject } from '../common/sui/move-decoder';
+import { USER_PROFILE, UserProfileObject } from '../common/sui/move-objects';
+import { IndexerStore } from '../indexer/indexer.store';
 import { UserProfileResponseDto } from './dto/user.dto';
 
 @Injectable()
 export class UsersService {
-  constructor(private readonly suiService: SuiService) {}
+  constructor(
+    private readonly suiService: SuiService,
+    private readonly indexerStore: IndexerStore,
+  ) {}
 
   async getUserProfile(profileId: string): Promise<UserProfileResponseDto | null> {
     const response = await this.suiService.getObject(profileId);
+    const profile = this.decodeProfile(response);
+    const owner = addressOwner(response);
 
-    if (!response.data?.content || response.data.content.dataType !== 'moveObject') {
-      return null;
-    }
-
-    const fields = response.data.content.fields as Record<string, unknown>;
-    return this.mapUserFields(profileId, fields);
+    return profile && owner ? mapUserProfile(profileId, owner, profile) : null;
   }
 
   async getUserProfileByAddress(address: string): Promise<UserProfileResponseDto | null> {
@@ -25,47 +29,63 @@ export class UsersService {
     }
 
     const profileObj = response.data[0];
-    if (!profileObj.data?.content || profileObj.data.content.dataType !== 'moveObject') {
+    const profile = this.decodeProfile(profileObj);
+    if (!profile || !profileObj.data) {
       return null;
     }
 
-    const fields = profileObj.data.content.fields as Record<string, unknown>;
-    return this.mapUserFields(profileObj.data.objectId, fields);
+    return mapUserProfile(profileObj.data.objectId, address, profile);
   }
 
-  async checkUsernameExists(username: string): Promise<boolean> {
-    const response = await this.suiService.queryEvents('users::ProfileCreated');
+  /** Answered from the display names ProfileNameIndexer keeps in SQLite */
+  checkUsernameExists(username: string): boolean {
+    return this.indexerStore.displayNameExists(username);
+  }
 
-    return response.data.some(
-      (event) => (event.parsedJson as Record<string, unknown>)?.username === username,
-    );
+  private decodeProfile(response: SuiObjectResponse): UserProfileObject | null {
+    return decodeMoveObject(response, this.suiService.getPackageIds(), USER_PROFILE);
   }
+}
 
-  private mapUserFields(id: string, fields: Record<string, unknown>): UserProfileResponseDto {
-    const stats = fields.stats as Record<string, unknown>;
-    const reputation = fields.reputation as Record<string, unknown>;
+/** UserProfile has no owner field; it is the object's owning address */
+function mapUserProfile(
+  id: string,
+  owner: string,
+  profile: UserProfileObject,
+): UserProfileResponseDto {
+  const { identity, stats, reputation, preferences } = profile;
 
-    return {
-      id,
-      owner: fields.owner as string,
-      username: fields.username as string | undefined,
-      displayName: fields.display_name as string | undefined,
-      bio: fields.bio as string | undefined,
-      avatarUrl: fields.avatar_url as string | undefined,
-      stats: {
-        eventsCreated: Number(stats?.events_created || 0),
-        eventsAttended: Number(stats?.events_attended || 0),
-        ticketsPurchased: Number(stats?.tickets_purchased || 0),
-        totalSpent: (stats?.total_spent as string) || '0',
-      },
-      reputation: {
-        score: Number(reputation?.score || 0),
-        eventsHosted: Number(reputation?.events_hosted || 0),
-        attendanceRate: Number(reputation?.attendance_rate || 0),
-        cancellations: Number(reputation?.cancellations || 0),
-      },
-      createdAt: fields.created_at as string,
-      updatedAt: fields.updated_at as string,
-    };
-  }
+  return {
+    id,
+    owner,
+    displayName: identity.display_name ?? undefined,
+    bio: identity.bio ?? undefined,
+    avatarUrl: identity.avatar_url ?? undefined,
+    socialLinks: identity.social_links,
+    stats: {
+      eventsCreated: Number(stats.events_created),
+      eventsAttended: Number(stats.events_attended),
+      noShowCount: Number(stats.no_show_count),
+      ticketsPurchased: Number(stats.tickets_purchased),
+      ticketsTransferred: Number(stats.tickets_transferred),
+      totalSpent: stats.total_spent,
+    },
+    reputation: {
+      score: Number(reputation.score),
+      organizerRating: Number(reputation.organizer_rating),
+      attendeeRating: Number(reputation.attendee_rating),
+      organizerRatingCount: Number(reputation.organizer_rating_count),
+      attendeeRatingCount: Number(reputation.attendee_rating_count),
+      verifiedOrganizer: reputation.verified_organizer,
+      badgeCount: reputation.badges.length,
+    },
+    preferences: {
+      notificationEnabled: preferences.notification_enabled,
+      favoriteCategories: preferences.favorite_categories,
+      timezone: preferences.timezone,
+      language: preferences.language,
+    },
+    createdAt: profile.created_at,
+    updatedAt: profile.updated_at,
+  };
 }
@@ -0,0 +1,100 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { IsHexBytes } from '../../common/validation/sui.validators';
+import { UnsignedTransactionResponseDto } from '../../transactions/dto/transaction.dto';
+import { ENTRY_STATUSES, OFFER_STATUSES } from '../waitlist.store';
+import type { EntryStatus, OfferStatus } from '../waitlist.store';
+
+export class JoinWaitlistDto {
+  @ApiProperty({ description: 'Tier to mint when a seat is offered' })
+  @IsString()
+  @IsNotEmpty()
+  tier: string;
+}
+
+export class ClaimWaitlistOfferDto {
+  @ApiPropertyOptional({
+    description: 'Hex-encoded payload from POST /tickets/payload',
+  })
+  @IsOptional()
+  @IsHexBytes()
+  encryptedData?: string;
+
+  @ApiPropertyOptional({
+    description: 'Seal key id from POST /tickets/payload',
+  })
+  @IsOptional()
+  @IsString()
+  sealKeyId?: string;
+
+  @ApiProperty({ description: 'Hex-encoded QR code hash' })
+  @IsHexBytes()
+  qrCodeHash: string;
+}
+
+export class WaitlistOfferDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty()
+  address: string;
+
+  @ApiProperty({ description: 'Refunded ticket that freed the seat' })
+  refundedTicketId: string;
+
+  @ApiProperty({ enum: OFFER_STATUSES })
+  status: OfferStatus;
+
+  @ApiProperty()
+  offeredAt: number;
+
+  @ApiProperty({ description: 'End of the claim window (ms)' })
+  expiresAt: number;
+
+  @ApiPropertyOptional()
+  resolvedAt?: number;
+}
+
+export class WaitlistEntryDto {
+  @ApiProperty()
+  address: string;
+
+  @ApiProperty()
+  tier: string;
+
+  @ApiProperty({ enum: ENTRY_STATUSES })
+  status: EntryStatus;
+
+  @ApiPropertyOptional({ description: '1-based place in the queue' })
+  position?: number;
+
+  @ApiProperty()
+  joinedAt: number;
+}
+
+export class WaitlistStatusResponseDto extends WaitlistEntryDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({ type: [WaitlistOfferDto] })
+  offers: WaitlistOfferDto[];
+}
+
+export class WaitlistResponseDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({ type: [WaitlistEntryDto], description: 'In queue order' })
+  waiting: WaitlistEntryDto[];
+
+  @ApiProperty({ type: [WaitlistOfferDto], description: 'Oldest first' })
+  offers: WaitlistOfferDto[];
+}
+
+export class WaitlistClaimResponseDto extends UnsignedTransactionResponseDto {
+  @ApiProperty()
+  offerId: number;
+
+  @ApiProperty({ description: 'Mint before this time (ms) to keep the seat' })
+  expiresAt: number;
+}
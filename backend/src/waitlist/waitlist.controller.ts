@@ -0,0 +1,92 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  Authenticated,
+  CurrentAddress,
+  EventRoles,
+  RequiresPermission,
+} from '../auth/auth.decorators';
+import { WaitlistService } from './waitlist.service';
+import {
+  ClaimWaitlistOfferDto,
+  JoinWaitlistDto,
+  WaitlistClaimResponseDto,
+  WaitlistResponseDto,
+  WaitlistStatusResponseDto,
+} from './dto/waitlist.dto';
+
+@ApiTags('waitlist')
+@Controller('events')
+export class WaitlistController {
+  constructor(private readonly waitlistService: WaitlistService) {}
+
+  @Post(':id/waitlist')
+  @Authenticated()
+  @ApiOperation({ summary: 'Join the waitlist of a sold-out event' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 201, type: WaitlistStatusResponseDto })
+  async join(
+    @Param('id') id: string,
+    @Body() dto: JoinWaitlistDto,
+    @CurrentAddress() address: string,
+  ): Promise<WaitlistStatusResponseDto> {
+    return this.waitlistService.join(id, address, dto.tier);
+  }
+
+  @Delete(':id/waitlist')
+  @Authenticated()
+  @ApiOperation({ summary: 'Leave the waitlist' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: WaitlistStatusResponseDto })
+  leave(
+    @Param('id') id: string,
+    @CurrentAddress() address: string,
+  ): WaitlistStatusResponseDto {
+    return this.waitlistService.leave(id, address);
+  }
+
+  @Get(':id/waitlist')
+  @EventRoles('id', 'organizer')
+  @RequiresPermission('can_approve_registrations')
+  @ApiOperation({ summary: 'Get the queue and offer history' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: WaitlistResponseDto })
+  getWaitlist(@Param('id') id: string): WaitlistResponseDto {
+    return this.waitlistService.getWaitlist(id);
+  }
+
+  @Get(':id/waitlist/me')
+  @Authenticated()
+  @ApiOperation({ summary: 'Get your queue position and offers' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: WaitlistStatusResponseDto })
+  getStatus(
+    @Param('id') id: string,
+    @CurrentAddress() address: string,
+  ): WaitlistStatusResponseDto {
+    return this.waitlistService.getStatus(id, address);
+  }
+
+  @Post(':id/waitlist/claim')
+  @HttpCode(HttpStatus.OK)
+  @Authenticated()
+  @ApiOperation({ summary: 'Build the mint transaction for your seat offer' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: WaitlistClaimResponseDto })
+  async claim(
+    @Param('id') id: string,
+    @Body() dto: ClaimWaitlistOfferDto,
+    @CurrentAddress() address: string,
+  ): Promise<WaitlistClaimResponseDto> {
+    return this.waitlistService.claim(id, address, dto);
+  }
+}
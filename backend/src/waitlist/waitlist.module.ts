@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { EventsModule } from '../events/events.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { WaitlistController } from './waitlist.controller';
+import { WaitlistService } from './waitlist.service';
+import { WaitlistStore } from './waitlist.store';
+
+@Module({
+  imports: [IndexerModule, EventsModule, TransactionsModule, AuthModule],
+  controllers: [WaitlistController],
+  providers: [WaitlistService, WaitlistStore],
+})
+export class WaitlistModule {}
@@ -0,0 +1,234 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import { eventObject } from '../common/sui/testing/move-fixtures';
+import { EventsService } from '../events/events.service';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { TicketsService } from '../tickets/tickets.service';
+import { TierStore } from '../tiers/tier.store';
+import { TiersService } from '../tiers/tiers.service';
+import { ObjectResolverService } from '../transactions/object-resolver.service';
+import { TransactionsService } from '../transactions/transactions.service';
+import { WaitlistService } from './waitlist.service';
+import { WaitlistStore } from './waitlist.store';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const ALICE = normalizeSuiAddress('0xa1');
+const BOB = normalizeSuiAddress('0xb0');
+const CAROL = normalizeSuiAddress('0xc0');
+const CLAIM_WINDOW = 30 * 60_000;
+
+describe('WaitlistService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let indexer: IndexerService;
+  let waitlist: WaitlistService;
+
+  function setEvent(registered: number) {
+    client.setObject(
+      eventObject(EVENT_ID, {
+        config: { capacity: '2' },
+        stats: { registered: String(registered) },
+      }),
+    );
+  }
+
+  function refund(ticketId: string) {
+    client.addEvents(
+      recordedEvent('tickets::TicketRefunded', {
+        ticket_id: normalizeSuiAddress(ticketId),
+        event_id: EVENT_ID,
+        owner: '0x0b',
+        refund_amount: '1000000000',
+      }),
+    );
+    return indexer.syncOnce();
+  }
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+            waitlist: { claimWindowMs: CLAIM_WINDOW, sweepIntervalMs: 60_000 },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        EventsService,
+        TicketsService,
+        ObjectResolverService,
+        TierStore,
+        TiersService,
+        TransactionsService,
+        WaitlistStore,
+        WaitlistService,
+      ],
+    }).compile();
+    await module.init();
+
+    indexer = module.get(IndexerService);
+    waitlist = module.get(WaitlistService);
+    setEvent(2);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('only queues for sold-out events, once per address', async () => {
+    setEvent(1);
+    await expect(waitlist.join(EVENT_ID, ALICE, 'general')).rejects.toThrow(
+      BadRequestException,
+    );
+
+    setEvent(2);
+    await waitlist.join(EVENT_ID, ALICE, 'general');
+    const bob = await waitlist.join(EVENT_ID, BOB, 'vip');
+
+    expect(bob).toMatchObject({
+      eventId: EVENT_ID,
+      address: BOB,
+      tier: 'vip',
+      status: 'waiting',
+      position: 2,
+      offers: [],
+    });
+    await expect(waitlist.join(EVENT_ID, ALICE, 'general')).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('matches short-form event ids with the full ids chain events carry', async () => {
+    await waitlist.join('0xE1', ALICE, 'general');
+
+    await refund('0x71');
+
+    expect(waitlist.getStatus('0xe1', ALICE)).toMatchObject({
+      eventId: EVENT_ID,
+      status: 'offered',
+    });
+  });
+
+  it('offers a refunded seat to the next in line and passes it on when the window lapses', async () => {
+    await waitlist.join(EVENT_ID, ALICE, 'general');
+    await waitlist.join(EVENT_ID, BOB, 'general');
+
+    await refund('0x71');
+
+    const alice = waitlist.getStatus(EVENT_ID, ALICE);
+    expect(alice).toMatchObject({ status: 'offered', position: undefined });
+    expect(alice.offers).toEqual([
+      expect.objectContaining({
+        refundedTicketId: normalizeSuiAddress('0x71'),
+        status: 'open',
+      }),
+    ]);
+    expect(waitlist.getStatus(EVENT_ID, BOB).position).toBe(1);
+
+    expect(waitlist.expireOffers(alice.offers[0].expiresAt - 1)).toBe(0);
+    expect(waitlist.expireOffers(alice.offers[0].expiresAt)).toBe(1);
+
+    const queue = waitlist.getWaitlist(EVENT_ID);
+    expect(queue.waiting).toEqual([]);
+    expect(queue.offers.map((offer) => [offer.address, offer.status])).toEqual([
+      [ALICE, 'expired'],
+      [BOB, 'open'],
+    ]);
+    expect(waitlist.getStatus(EVENT_ID, ALICE).status).toBe('expired');
+  });
+
+  it('builds the mint for an open offer and settles it once the mint is indexed', async () => {
+    const serialize = jest
+      .spyOn(module.get(TransactionsService), 'serialize')
+      .mockImplementation((_tx: Transaction, sender: string) =>
+        Promise.resolve({ sender, txBytes: 'dHg=' }),
+      );
+    jest
+      .spyOn(module.get(ObjectResolverService), 'resolveEventObjects')
+      .mockResolvedValue({ eventTreasuryId: '0x7e', poolId: '0x9001' });
+    jest
+      .spyOn(module.get(ObjectResolverService), 'resolveUserProfile')
+      .mockResolvedValue('0x90');
+    jest
+      .spyOn(module.get(SuiService), 'getSharedObjectId')
+      .mockReturnValue('0x5');
+
+    await waitlist.join(EVENT_ID, ALICE, 'vip');
+    await expect(
+      waitlist.claim(EVENT_ID, ALICE, { qrCodeHash: 'abcd' }),
+    ).rejects.toThrow(ConflictException);
+
+    await refund('0x71');
+    const claim = await waitlist.claim(EVENT_ID, ALICE, { qrCodeHash: 'abcd' });
+
+    expect(claim).toMatchObject({ sender: ALICE, txBytes: 'dHg=' });
+    const [tx] = serialize.mock.calls[0];
+    const call = tx
+      .getData()
+      .commands.find((command) => command.MoveCall)!.MoveCall!;
+    expect(`${call.module}::${call.function}`).toBe('tickets::mint_ticket');
+
+    client.addEvents(
+      recordedEvent('tickets::TicketMinted', {
+        ticket_id: normalizeSuiAddress('0x72'),
+        event_id: EVENT_ID,
+        owner: ALICE,
+        tier: 'vip',
+        price_paid: '1000000000',
+      }),
+    );
+    await indexer.syncOnce();
+
+    const alice = waitlist.getStatus(EVENT_ID, ALICE);
+    expect(alice.status).toBe('claimed');
+    expect(alice.offers[0]).toMatchObject({
+      id: claim.offerId,
+      status: 'claimed',
+    });
+  });
+
+  it('hands an open offer on when its holder leaves and closes on cancellation', async () => {
+    await waitlist.join(EVENT_ID, ALICE, 'general');
+    await waitlist.join(EVENT_ID, BOB, 'general');
+    await waitlist.join(EVENT_ID, CAROL, 'general');
+    await refund('0x71');
+
+    expect(waitlist.leave(EVENT_ID, ALICE).status).toBe('left');
+    expect(waitlist.getStatus(EVENT_ID, BOB).status).toBe('offered');
+
+    client.addEvents(
+      recordedEvent('events::EventCancelled', {
+        event_id: EVENT_ID,
+        reason: 'Venue unavailable',
+      }),
+    );
+    await indexer.syncOnce();
+
+    expect(waitlist.getStatus(EVENT_ID, BOB)).toMatchObject({
+      status: 'cancelled',
+      offers: [expect.objectContaining({ status: 'withdrawn' })],
+    });
+    expect(waitlist.getStatus(EVENT_ID, CAROL).status).toBe('cancelled');
+  });
+});
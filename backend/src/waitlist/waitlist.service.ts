@@ -0,0 +1,254 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { EventsService } from '../events/events.service';
+import { IndexerService } from '../indexer/indexer.service';
+import {
+  EventCancelledEvent,
+  IndexedEvent,
+  TicketMintedEvent,
+  TicketRefundedEvent,
+} from '../indexer/indexer.types';
+import { TransactionsService } from '../transactions/transactions.service';
+import { WaitlistEntry, WaitlistOffer, WaitlistStore } from './waitlist.store';
+import {
+  ClaimWaitlistOfferDto,
+  WaitlistClaimResponseDto,
+  WaitlistEntryDto,
+  WaitlistOfferDto,
+  WaitlistResponseDto,
+  WaitlistStatusResponseDto,
+} from './dto/waitlist.dto';
+
+/**
+ * Waitlists for sold-out events. Each indexed refund offers the freed seat
+ * to the next address in line for a claim window; lapsed offers pass on.
+ * The chain does not reserve the seat, so the window only decides whose
+ * turn it is: anyone minting first still takes it.
+ */
+@Injectable()
+export class WaitlistService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(WaitlistService.name);
+  private timer?: NodeJS.Timeout;
+  private stopped = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly eventsService: EventsService,
+    private readonly indexerService: IndexerService,
+    private readonly transactionsService: TransactionsService,
+    private readonly store: WaitlistStore,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.indexerService.events$.subscribe((event) => this.onChainEvent(event));
+    this.scheduleSweep();
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+  }
+
+  async join(
+    eventId: string,
+    address: string,
+    tier: string,
+  ): Promise<WaitlistStatusResponseDto> {
+    const event = await this.eventsService.getEvent(eventId);
+    if (!event) {
+      throw new NotFoundException(`Event ${eventId} not found`);
+    }
+    if (event.status !== 'open') {
+      throw new BadRequestException(
+        `Event is ${event.status}; only open events have a waitlist`,
+      );
+    }
+    if (event.stats.registered < event.config.capacity) {
+      throw new BadRequestException(
+        'Tickets are still available; mint one instead',
+      );
+    }
+
+    const entry = this.store.join(event.id, normalizeSuiAddress(address), tier);
+    if (!entry) {
+      throw new ConflictException(`${address} is already on the waitlist`);
+    }
+    return this.getStatus(event.id, address);
+  }
+
+  /** Leave the queue, passing any open offer to the next in line */
+  leave(id: string, address: string): WaitlistStatusResponseDto {
+    const eventId = normalizeSuiAddress(id);
+    const entry = this.requireQueuedEntry(eventId, address);
+    const offer = this.store.findOpenOffer(eventId, entry.address);
+    if (offer) {
+      this.store.resolveOffer(offer, 'withdrawn', 'left');
+      this.offerSeat(eventId, offer.refundedTicketId);
+    } else {
+      this.store.setEntryStatus(entry.id, 'left');
+    }
+    return this.getStatus(eventId, address);
+  }
+
+  getStatus(id: string, address: string): WaitlistStatusResponseDto {
+    const eventId = normalizeSuiAddress(id);
+    const entry = this.store.findEntry(eventId, normalizeSuiAddress(address));
+    if (!entry) {
+      throw new NotFoundException(`${address} is not on the waitlist`);
+    }
+    return {
+      eventId,
+      ...this.toEntryDto(entry),
+      offers: this.store.findOffers(eventId, entry.address).map(toOfferDto),
+    };
+  }
+
+  getWaitlist(id: string): WaitlistResponseDto {
+    const eventId = normalizeSuiAddress(id);
+    return {
+      eventId,
+      waiting: this.store
+        .findWaiting(eventId)
+        .map((entry, index) => this.toEntryDto(entry, index + 1)),
+      offers: this.store.findOffers(eventId).map(toOfferDto),
+    };
+  }
+
+  /**
+   * Build the mint_ticket transaction for an open offer, in the tier the
+   * address queued for. The offer is claimed once the mint is indexed.
+   */
+  async claim(
+    id: string,
+    address: string,
+    dto: ClaimWaitlistOfferDto,
+  ): Promise<WaitlistClaimResponseDto> {
+    const eventId = normalizeSuiAddress(id);
+    const entry = this.requireQueuedEntry(eventId, address);
+    const offer = this.store.findOpenOffer(eventId, entry.address);
+    if (!offer || offer.expiresAt <= Date.now()) {
+      throw new ConflictException(`${address} has no open seat offer`);
+    }
+
+    const tx = await this.transactionsService.mintTicket({
+      sender: entry.address,
+      eventId,
+      tier: entry.tier,
+      encryptedData: dto.encryptedData,
+      sealKeyId: dto.sealKeyId,
+      qrCodeHash: dto.qrCodeHash,
+    });
+    return { ...tx, offerId: offer.id, expiresAt: offer.expiresAt };
+  }
+
+  /** Expire offers whose claim window closed and pass each seat on */
+  expireOffers(now = Date.now()): number {
+    const lapsed = this.store.findLapsedOffers(now);
+    for (const offer of lapsed) {
+      this.store.resolveOffer(offer, 'expired', 'expired');
+      this.offerSeat(offer.eventId, offer.refundedTicketId);
+    }
+    return lapsed.length;
+  }
+
+  private onChainEvent(event: IndexedEvent) {
+    switch (event.eventType) {
+      case 'tickets::TicketRefunded': {
+        const data = event.data as unknown as TicketRefundedEvent;
+        this.offerSeat(data.event_id, data.ticket_id);
+        break;
+      }
+      case 'tickets::TicketMinted': {
+        const data = event.data as unknown as TicketMintedEvent;
+        const offer = this.store.findOpenOffer(
+          data.event_id,
+          normalizeSuiAddress(data.owner),
+        );
+        if (offer) {
+          this.store.resolveOffer(offer, 'claimed', 'claimed');
+        }
+        break;
+      }
+      case 'events::EventCancelled': {
+        const data = event.data as unknown as EventCancelledEvent;
+        this.store.closeEvent(data.event_id);
+        break;
+      }
+    }
+  }
+
+  private offerSeat(eventId: string, refundedTicketId: string) {
+    const claimWindowMs = this.configService.get<number>(
+      'waitlist.claimWindowMs',
+    )!;
+    const offer = this.store.offerNext(
+      eventId,
+      refundedTicketId,
+      Date.now() + claimWindowMs,
+    );
+    if (offer) {
+      this.logger.log(`Offered a seat for ${eventId} to ${offer.address}`);
+    }
+  }
+
+  private scheduleSweep() {
+    if (this.stopped) {
+      return;
+    }
+    const interval =
+      this.configService.get<number>('waitlist.sweepIntervalMs') || 60000;
+    this.timer = setTimeout(() => {
+      try {
+        this.expireOffers();
+      } catch (error) {
+        this.logger.error(`Waitlist sweep failed: ${(error as Error).message}`);
+      }
+      this.scheduleSweep();
+    }, interval);
+    this.timer.unref();
+  }
+
+  private requireQueuedEntry(eventId: string, address: string): WaitlistEntry {
+    const entry = this.store.findEntry(eventId, normalizeSuiAddress(address));
+    if (!entry || (entry.status !== 'waiting' && entry.status !== 'offered')) {
+      throw new NotFoundException(`${address} is not on the waitlist`);
+    }
+    return entry;
+  }
+
+  private toEntryDto(
+    entry: WaitlistEntry,
+    position = this.store.position(entry),
+  ): WaitlistEntryDto {
+    return {
+      address: entry.address,
+      tier: entry.tier,
+      status: entry.status,
+      position: position ?? undefined,
+      joinedAt: entry.joinedAt,
+    };
+  }
+}
+
+function toOfferDto(offer: WaitlistOffer): WaitlistOfferDto {
+  return {
+    id: offer.id,
+    address: offer.address,
+    refundedTicketId: offer.refundedTicketId,
+    status: offer.status,
+    offeredAt: offer.offeredAt,
+    expiresAt: offer.expiresAt,
+    resolvedAt: offer.resolvedAt ?? undefined,
+  };
+}
@@ -0,0 +1,325 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../common/database/database.service';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS waitlist_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    event_id TEXT NOT NULL,
+    address TEXT NOT NULL,
+    tier TEXT NOT NULL,
+    status TEXT NOT NULL,
+    joined_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_entries_queued
+    ON waitlist_entries (event_id, address)
+    WHERE status IN ('waiting', 'offered');
+
+  CREATE TABLE IF NOT EXISTS waitlist_offers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    entry_id INTEGER NOT NULL REFERENCES waitlist_entries (id),
+    event_id TEXT NOT NULL,
+    address TEXT NOT NULL,
+    refunded_ticket_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    offered_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    resolved_at INTEGER
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_waitlist_offers_event
+    ON waitlist_offers (event_id, status);
+`;
+
+export const ENTRY_STATUSES = [
+  'waiting',
+  'offered',
+  'claimed',
+  'expired',
+  'left',
+  'cancelled',
+] as const;
+
+export type EntryStatus = (typeof ENTRY_STATUSES)[number];
+
+export const OFFER_STATUSES = [
+  'open',
+  'claimed',
+  'expired',
+  'withdrawn',
+] as const;
+
+export type OfferStatus = (typeof OFFER_STATUSES)[number];
+
+export interface WaitlistEntry {
+  id: number;
+  eventId: string;
+  address: string;
+  tier: string;
+  status: EntryStatus;
+  joinedAt: number;
+  updatedAt: number;
+}
+
+export interface WaitlistOffer {
+  id: number;
+  entryId: number;
+  eventId: string;
+  address: string;
+  /** The refund that freed the seat */
+  refundedTicketId: string;
+  status: OfferStatus;
+  offeredAt: number;
+  expiresAt: number;
+  resolvedAt: number | null;
+}
+
+interface EntryRow {
+  id: number;
+  event_id: string;
+  address: string;
+  tier: string;
+  status: EntryStatus;
+  joined_at: number;
+  updated_at: number;
+}
+
+interface OfferRow {
+  id: number;
+  entry_id: number;
+  event_id: string;
+  address: string;
+  refunded_ticket_id: string;
+  status: OfferStatus;
+  offered_at: number;
+  expires_at: number;
+  resolved_at: number | null;
+}
+
+/**
+ * Per-event waitlists, first come first served, and the seat offers made
+ * to them as refunds free capacity.
+ */
+@Injectable()
+export class WaitlistStore implements OnModuleInit {
+  private readonly db: Database.Database;
+
+  constructor(database: DatabaseService) {
+    this.db = database.connection;
+  }
+
+  onModuleInit() {
+    this.db.exec(SCHEMA);
+  }
+
+  /** Returns null when the address is already queued for the event */
+  join(eventId: string, address: string, tier: string): WaitlistEntry | null {
+    const now = Date.now();
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO waitlist_entries
+          (event_id, address, tier, status, joined_at, updated_at)
+          VALUES (?, ?, ?, 'waiting', ?, ?)`,
+      )
+      .run(eventId, address, tier, now, now);
+    return result.changes > 0
+      ? this.getEntry(Number(result.lastInsertRowid))
+      : null;
+  }
+
+  getEntry(id: number): WaitlistEntry | null {
+    const row = this.db
+      .prepare('SELECT * FROM waitlist_entries WHERE id = ?')
+      .get(id) as EntryRow | undefined;
+    return row ? this.mapEntry(row) : null;
+  }
+
+  /** The address's most recent entry for the event */
+  findEntry(eventId: string, address: string): WaitlistEntry | null {
+    const row = this.db
+      .prepare(
+        `SELECT * FROM waitlist_entries WHERE event_id = ? AND address = ?
+          ORDER BY id DESC LIMIT 1`,
+      )
+      .get(eventId, address) as EntryRow | undefined;
+    return row ? this.mapEntry(row) : null;
+  }
+
+  /** Entries still waiting for a seat, in queue order */
+  findWaiting(eventId: string): WaitlistEntry[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM waitlist_entries
+          WHERE event_id = ? AND status = 'waiting' ORDER BY id`,
+      )
+      .all(eventId) as EntryRow[];
+    return rows.map((row) => this.mapEntry(row));
+  }
+
+  /** 1-based place among waiting entries, or null if not waiting */
+  position(entry: WaitlistEntry): number | null {
+    if (entry.status !== 'waiting') {
+      return null;
+    }
+    const { ahead } = this.db
+      .prepare(
+        `SELECT COUNT(*) AS ahead FROM waitlist_entries
+          WHERE event_id = ? AND status = 'waiting' AND id < ?`,
+      )
+      .get(entry.eventId, entry.id) as { ahead: number };
+    return ahead + 1;
+  }
+
+  setEntryStatus(id: number, status: EntryStatus) {
+    this.db
+      .prepare(
+        'UPDATE waitlist_entries SET status = ?, updated_at = ? WHERE id = ?',
+      )
+      .run(status, Date.now(), id);
+  }
+
+  /**
+   * Offer a seat to the first waiting entry. Returns null when nobody is
+   * waiting.
+   */
+  offerNext(
+    eventId: string,
+    refundedTicketId: string,
+    expiresAt: number,
+  ): WaitlistOffer | null {
+    return this.db.transaction(() => {
+      const [next] = this.findWaiting(eventId);
+      if (!next) {
+        return null;
+      }
+      this.setEntryStatus(next.id, 'offered');
+      const result = this.db
+        .prepare(
+          `INSERT INTO waitlist_offers
+            (entry_id, event_id, address, refunded_ticket_id, status,
+             offered_at, expires_at)
+            VALUES (?, ?, ?, ?, 'open', ?, ?)`,
+        )
+        .run(
+          next.id,
+          eventId,
+          next.address,
+          refundedTicketId,
+          Date.now(),
+          expiresAt,
+        );
+      return this.getOffer(Number(result.lastInsertRowid));
+    })();
+  }
+
+  getOffer(id: number): WaitlistOffer | null {
+    const row = this.db
+      .prepare('SELECT * FROM waitlist_offers WHERE id = ?')
+      .get(id) as OfferRow | undefined;
+    return row ? this.mapOffer(row) : null;
+  }
+
+  findOpenOffer(eventId: string, address: string): WaitlistOffer | null {
+    const row = this.db
+      .prepare(
+        `SELECT * FROM waitlist_offers
+          WHERE event_id = ? AND address = ? AND status = 'open'`,
+      )
+      .get(eventId, address) as OfferRow | undefined;
+    return row ? this.mapOffer(row) : null;
+  }
+
+  /** Open offers whose claim window closed at or before `now` */
+  findLapsedOffers(now: number): WaitlistOffer[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM waitlist_offers
+          WHERE status = 'open' AND expires_at <= ? ORDER BY id`,
+      )
+      .all(now) as OfferRow[];
+    return rows.map((row) => this.mapOffer(row));
+  }
+
+  /** Offer history, oldest first, optionally for one address */
+  findOffers(eventId: string, address?: string): WaitlistOffer[] {
+    const rows = (
+      address
+        ? this.db
+            .prepare(
+              `SELECT * FROM waitlist_offers
+                WHERE event_id = ? AND address = ? ORDER BY id`,
+            )
+            .all(eventId, address)
+        : this.db
+            .prepare(
+              'SELECT * FROM waitlist_offers WHERE event_id = ? ORDER BY id',
+            )
+            .all(eventId)
+    ) as OfferRow[];
+    return rows.map((row) => this.mapOffer(row));
+  }
+
+  /** Settle an open offer and its entry together */
+  resolveOffer(
+    offer: WaitlistOffer,
+    status: Exclude<OfferStatus, 'open'>,
+    entryStatus: EntryStatus,
+  ) {
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE waitlist_offers SET status = ?, resolved_at = ?
+            WHERE id = ? AND status = 'open'`,
+        )
+        .run(status, Date.now(), offer.id);
+      this.setEntryStatus(offer.entryId, entryStatus);
+    })();
+  }
+
+  /** Close every queued entry and open offer of an event */
+  closeEvent(eventId: string) {
+    this.db.transaction(() => {
+      const now = Date.now();
+      this.db
+        .prepare(
+          `UPDATE waitlist_offers SET status = 'withdrawn', resolved_at = ?
+            WHERE event_id = ? AND status = 'open'`,
+        )
+        .run(now, eventId);
+      this.db
+        .prepare(
+          `UPDATE waitlist_entries SET status = 'cancelled', updated_at = ?
+            WHERE event_id = ? AND status IN ('waiting', 'offered')`,
+        )
+        .run(now, eventId);
+    })();
+  }
+
+  private mapEntry(row: EntryRow): WaitlistEntry {
+    return {
+      id: row.id,
+      eventId: row.event_id,
+      address: row.address,
+      tier: row.tier,
+      status: row.status,
+      joinedAt: row.joined_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapOffer(row: OfferRow): WaitlistOffer {
+    return {
+      id: row.id,
+      entryId: row.entry_id,
+      eventId: row.event_id,
+      address: row.address,
+      refundedTicketId: row.refunded_ticket_id,
+      status: row.status,
+      offeredAt: row.offered_at,
+      expiresAt: row.expires_at,
+      resolvedAt: row.resolved_at,
+    };
+  }
+}
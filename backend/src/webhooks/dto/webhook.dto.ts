@@ -0,0 +1,156 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsUrl,
+  Min,
+} from 'class-validator';
+import { PaginationQueryDto } from '../../common/pagination/pagination.dto';
+import { WEBHOOK_EVENT_NAMES } from '../webhook-delivery';
+import type { WebhookEventType } from '../webhook-delivery';
+import { DELIVERY_STATUSES } from '../webhook.store';
+import type { DeliveryStatus } from '../webhook.store';
+
+/** Upper bound on deliveries replayed by id in one request */
+const MAX_REPLAY_IDS = 100;
+
+export class CreateWebhookDto {
+  @ApiProperty({
+    example: 'https://crm.example.com/hooks/tickets',
+    description:
+      'HTTPS URL on a public host, or any URL when WEBHOOK_ALLOW_PRIVATE_TARGETS is set',
+  })
+  // the service checks scheme and host, since only it knows whether
+  // private targets are allowed
+  @IsUrl({
+    protocols: ['http', 'https'],
+    require_protocol: true,
+    require_tld: false,
+  })
+  url: string;
+
+  @ApiProperty({ enum: WEBHOOK_EVENT_NAMES, isArray: true })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(WEBHOOK_EVENT_NAMES, { each: true })
+  eventTypes: WebhookEventType[];
+}
+
+export class WebhookResponseDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  url: string;
+
+  @ApiProperty({ enum: WEBHOOK_EVENT_NAMES, isArray: true })
+  eventTypes: WebhookEventType[];
+
+  @ApiProperty()
+  active: boolean;
+
+  @ApiProperty()
+  createdBy: string;
+
+  @ApiProperty()
+  createdAt: number;
+}
+
+export class WebhookCreatedResponseDto extends WebhookResponseDto {
+  @ApiProperty({
+    description:
+      'HMAC-SHA256 key for the x-webhook-signature header; only shown once',
+  })
+  secret: string;
+}
+
+export class WebhookListResponseDto {
+  @ApiProperty({ type: [WebhookResponseDto] })
+  webhooks: WebhookResponseDto[];
+}
+
+export class DeliveryQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    enum: DELIVERY_STATUSES,
+    description: '`dead` lists the dead-letter queue',
+  })
+  @IsOptional()
+  @IsIn(DELIVERY_STATUSES)
+  status?: DeliveryStatus;
+}
+
+export class WebhookDeliveryDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty({ enum: WEBHOOK_EVENT_NAMES })
+  eventType: WebhookEventType;
+
+  @ApiProperty({ enum: DELIVERY_STATUSES })
+  status: DeliveryStatus;
+
+  @ApiProperty()
+  attempts: number;
+
+  @ApiPropertyOptional({ description: 'Next attempt (ms), while pending' })
+  nextAttemptAt?: number;
+
+  @ApiPropertyOptional()
+  lastAttemptAt?: number;
+
+  @ApiPropertyOptional({ description: 'HTTP status of the last attempt' })
+  lastStatusCode?: number;
+
+  @ApiPropertyOptional()
+  lastError?: string;
+
+  @ApiProperty()
+  createdAt: number;
+
+  @ApiPropertyOptional()
+  deliveredAt?: number;
+
+  @ApiProperty({ description: 'Request body as signed and sent' })
+  payload: string;
+}
+
+export class WebhookDeliveryListResponseDto {
+  @ApiProperty({ type: [WebhookDeliveryDto], description: 'Newest first' })
+  deliveries: WebhookDeliveryDto[];
+
+  @ApiPropertyOptional()
+  nextCursor?: string;
+
+  @ApiProperty()
+  hasMore: boolean;
+}
+
+export class ReplayDeliveriesDto {
+  @ApiPropertyOptional({
+    type: [Number],
+    description: 'Deliveries to send again; defaults to the dead-letter queue',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_REPLAY_IDS)
+  @Type(() => Number)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  deliveryIds?: number[];
+}
+
+export class ReplayDeliveriesResponseDto {
+  @ApiProperty({ description: 'Deliveries queued again' })
+  replayed: number;
+}
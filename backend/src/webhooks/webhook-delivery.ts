@@ -0,0 +1,103 @@
+import { createHmac } from 'crypto';
+import { LookupAddress } from 'dns';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { LookupFunction } from 'net';
+
+/** Webhook event names mapped to the Move events they forward */
+export const WEBHOOK_EVENT_TYPES = {
+  TicketMinted: 'tickets::TicketMinted',
+  TicketValidated: 'tickets::TicketValidated',
+  TicketRefunded: 'tickets::TicketRefunded',
+  EventCancelled: 'events::EventCancelled',
+  AttendanceProofMinted: 'attendance::AttendanceProofMinted',
+  FundsWithdrawn: 'payments::FundsWithdrawn',
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENT_TYPES;
+
+export const WEBHOOK_EVENT_NAMES = Object.keys(
+  WEBHOOK_EVENT_TYPES,
+) as WebhookEventType[];
+
+export function webhookEventName(
+  moveEventType: string,
+): WebhookEventType | undefined {
+  return WEBHOOK_EVENT_NAMES.find(
+    (name) => WEBHOOK_EVENT_TYPES[name] === moveEventType,
+  );
+}
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const DELIVERY_HEADER = 'x-webhook-delivery';
+
+/**
+ * Hex HMAC-SHA256 over `${timestamp}.${body}`. Receivers recompute it with
+ * the endpoint secret and reject stale timestamps to stop replays.
+ */
+export function signWebhookBody(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/** Exponential backoff: base, 2x base, 4x base... capped at `maxMs` */
+export function retryDelay(
+  attempts: number,
+  baseMs: number,
+  maxMs: number,
+): number {
+  return Math.min(baseMs * 2 ** Math.max(attempts - 1, 0), maxMs);
+}
+
+export interface WebhookRequest {
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+  /**
+   * Connect to this address instead of resolving the URL's host again.
+   * The Host header and TLS server name still come from the URL.
+   */
+  address?: LookupAddress;
+}
+
+/**
+ * POST a webhook body and resolve with the response status. Redirects are
+ * not followed, so a 3xx answer reaches the caller as-is.
+ */
+export function postWebhook(
+  url: string,
+  { headers, body, timeoutMs, address }: WebhookRequest,
+): Promise<number> {
+  const target = new URL(url);
+  const request = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  const lookup: LookupFunction | undefined = address
+    ? (_hostname, options, callback) =>
+        options.all
+          ? callback(null, [address])
+          : callback(null, address.address, address.family)
+    : undefined;
+
+  return new Promise((resolve, reject) => {
+    const outgoing = request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'content-length': Buffer.byteLength(body) },
+        lookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode!);
+      },
+    );
+    outgoing.on('error', reject);
+    outgoing.end(body);
+  });
+}
@@ -0,0 +1,70 @@
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+/**
+ * Addresses a webhook must not reach: this host, its private networks and
+ * cloud metadata services on link-local addresses.
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** BlockList also matches IPv4-mapped IPv6 addresses against IPv4 rules */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return (
+    family === 0 ||
+    PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6')
+  );
+}
+
+/**
+ * Resolve the webhook URL's host and throw unless every address it
+ * resolves to is public and the URL is HTTPS. Checked at registration and
+ * again before each delivery, since DNS can change after an endpoint is
+ * registered. Deliveries connect to the returned addresses so a second
+ * lookup cannot swap in a private one.
+ */
+export async function assertPublicWebhookUrl(
+  url: string,
+): Promise<LookupAddress[]> {
+  const { protocol, hostname } = new URL(url);
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Webhook host ${host} does not resolve`);
+  }
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    throw new Error(
+      `Webhook host ${host} resolves to ${blocked.address}, which is not a public address`,
+    );
+  }
+  if (protocol !== 'https:') {
+    throw new Error('Webhook URL must use https');
+  }
+  return addresses;
+}
@@ -0,0 +1,318 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../common/database/database.service';
+import type { WebhookEventType } from './webhook-delivery';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    event_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    event_types TEXT NOT NULL,
+    active INTEGER NOT NULL DEFAULT 1,
+    created_by TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_event
+    ON webhook_endpoints (event_id, active);
+
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    endpoint_id INTEGER NOT NULL REFERENCES webhook_endpoints (id),
+    event_type TEXT NOT NULL,
+    chain_event_id INTEGER NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER NOT NULL,
+    last_attempt_at INTEGER,
+    last_status_code INTEGER,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    delivered_at INTEGER,
+    UNIQUE (endpoint_id, chain_event_id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+    ON webhook_deliveries (status, next_attempt_at);
+`;
+
+export const DELIVERY_STATUSES = ['pending', 'delivered', 'dead'] as const;
+
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+export interface WebhookEndpoint {
+  id: number;
+  eventId: string;
+  url: string;
+  secret: string;
+  eventTypes: WebhookEventType[];
+  active: boolean;
+  createdBy: string;
+  createdAt: number;
+}
+
+export type NewEndpoint = Pick<
+  WebhookEndpoint,
+  'eventId' | 'url' | 'secret' | 'eventTypes' | 'createdBy'
+>;
+
+export interface WebhookDelivery {
+  id: number;
+  endpointId: number;
+  eventType: WebhookEventType;
+  /** Indexer row of the forwarded Move event */
+  chainEventId: number;
+  /** JSON request body, signed as sent */
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastAttemptAt: number | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: number;
+  deliveredAt: number | null;
+}
+
+export interface AttemptResult {
+  statusCode: number | null;
+  error: string | null;
+}
+
+interface EndpointRow {
+  id: number;
+  event_id: string;
+  url: string;
+  secret: string;
+  event_types: string;
+  active: number;
+  created_by: string;
+  created_at: number;
+}
+
+interface DeliveryRow {
+  id: number;
+  endpoint_id: number;
+  event_type: WebhookEventType;
+  chain_event_id: number;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: number;
+  last_attempt_at: number | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: number;
+  delivered_at: number | null;
+}
+
+/**
+ * Organizer webhook endpoints and the outbox of deliveries made to them.
+ * Deliveries that exhaust their attempts stay here as the dead-letter queue.
+ */
+@Injectable()
+export class WebhookStore implements OnModuleInit {
+  private readonly db: Database.Database;
+
+  constructor(database: DatabaseService) {
+    this.db = database.connection;
+  }
+
+  onModuleInit() {
+    this.db.exec(SCHEMA);
+  }
+
+  createEndpoint(endpoint: NewEndpoint): WebhookEndpoint {
+    const result = this.db
+      .prepare(
+        `INSERT INTO webhook_endpoints
+          (event_id, url, secret, event_types, created_by, created_at)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        endpoint.eventId,
+        endpoint.url,
+        endpoint.secret,
+        JSON.stringify(endpoint.eventTypes),
+        endpoint.createdBy,
+        Date.now(),
+      );
+    return this.getEndpoint(Number(result.lastInsertRowid))!;
+  }
+
+  getEndpoint(id: number): WebhookEndpoint | null {
+    const row = this.db
+      .prepare('SELECT * FROM webhook_endpoints WHERE id = ?')
+      .get(id) as EndpointRow | undefined;
+    return row ? this.mapEndpoint(row) : null;
+  }
+
+  findEndpoints(eventId: string, activeOnly = false): WebhookEndpoint[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM webhook_endpoints WHERE event_id = ?
+          ${activeOnly ? 'AND active = 1' : ''} ORDER BY id`,
+      )
+      .all(eventId) as EndpointRow[];
+    return rows.map((row) => this.mapEndpoint(row));
+  }
+
+  deactivateEndpoint(id: number) {
+    this.db
+      .prepare('UPDATE webhook_endpoints SET active = 0 WHERE id = ?')
+      .run(id);
+  }
+
+  /** Queue a delivery; a Move event is only queued once per endpoint */
+  enqueue(
+    endpointId: number,
+    eventType: WebhookEventType,
+    chainEventId: number,
+    payload: string,
+  ) {
+    const now = Date.now();
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO webhook_deliveries
+          (endpoint_id, event_type, chain_event_id, payload, status,
+           next_attempt_at, created_at)
+          VALUES (?, ?, ?, ?, 'pending', ?, ?)`,
+      )
+      .run(endpointId, eventType, chainEventId, payload, now, now);
+  }
+
+  /** Pending deliveries to active endpoints whose next attempt is due */
+  findDue(now: number, limit: number): WebhookDelivery[] {
+    const rows = this.db
+      .prepare(
+        `SELECT d.* FROM webhook_deliveries d
+          JOIN webhook_endpoints e ON e.id = d.endpoint_id
+          WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+            AND e.active = 1
+          ORDER BY d.next_attempt_at, d.id LIMIT ?`,
+      )
+      .all(now, limit) as DeliveryRow[];
+    return rows.map((row) => this.mapDelivery(row));
+  }
+
+  /** Newest first, optionally only one status */
+  pageDeliveries(
+    endpointId: number,
+    options: { status?: DeliveryStatus; beforeId?: number; limit: number },
+  ): { deliveries: WebhookDelivery[]; hasMore: boolean } {
+    const clauses = ['endpoint_id = ?'];
+    const params: (string | number)[] = [endpointId];
+    if (options.status) {
+      clauses.push('status = ?');
+      params.push(options.status);
+    }
+    if (options.beforeId !== undefined) {
+      clauses.push('id < ?');
+      params.push(options.beforeId);
+    }
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM webhook_deliveries WHERE ${clauses.join(' AND ')}
+          ORDER BY id DESC LIMIT ?`,
+      )
+      .all(...params, options.limit + 1) as DeliveryRow[];
+    return {
+      deliveries: rows
+        .slice(0, options.limit)
+        .map((row) => this.mapDelivery(row)),
+      hasMore: rows.length > options.limit,
+    };
+  }
+
+  recordSuccess(id: number, statusCode: number, at = Date.now()) {
+    this.db
+      .prepare(
+        `UPDATE webhook_deliveries
+          SET status = 'delivered', attempts = attempts + 1,
+              last_attempt_at = ?, last_status_code = ?, last_error = NULL,
+              delivered_at = ?
+          WHERE id = ?`,
+      )
+      .run(at, statusCode, at, id);
+  }
+
+  /**
+   * Record a failed attempt: retry at `nextAttemptAt`, or dead-letter the
+   * delivery when that is null.
+   */
+  recordFailure(
+    id: number,
+    result: AttemptResult,
+    nextAttemptAt: number | null,
+    at = Date.now(),
+  ) {
+    this.db
+      .prepare(
+        `UPDATE webhook_deliveries
+          SET status = ?, attempts = attempts + 1, next_attempt_at = ?,
+              last_attempt_at = ?, last_status_code = ?, last_error = ?
+          WHERE id = ?`,
+      )
+      .run(
+        nextAttemptAt === null ? 'dead' : 'pending',
+        nextAttemptAt ?? at,
+        at,
+        result.statusCode,
+        result.error,
+        id,
+      );
+  }
+
+  /**
+   * Send deliveries again with a fresh set of attempts. Without ids, every
+   * dead-lettered delivery of the endpoint is replayed.
+   */
+  replay(endpointId: number, deliveryIds?: number[]): number {
+    const now = Date.now();
+    const base = `UPDATE webhook_deliveries
+      SET status = 'pending', attempts = 0, next_attempt_at = ?,
+          delivered_at = NULL
+      WHERE endpoint_id = ? AND status != 'pending'`;
+    if (!deliveryIds) {
+      return this.db.prepare(`${base} AND status = 'dead'`).run(now, endpointId)
+        .changes;
+    }
+    return this.db
+      .prepare(`${base} AND id IN (${deliveryIds.map(() => '?').join(', ')})`)
+      .run(now, endpointId, ...deliveryIds).changes;
+  }
+
+  private mapEndpoint(row: EndpointRow): WebhookEndpoint {
+    return {
+      id: row.id,
+      eventId: row.event_id,
+      url: row.url,
+      secret: row.secret,
+      eventTypes: JSON.parse(row.event_types) as WebhookEventType[],
+      active: row.active === 1,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapDelivery(row: DeliveryRow): WebhookDelivery {
+    return {
+      id: row.id,
+      endpointId: row.endpoint_id,
+      eventType: row.event_type,
+      chainEventId: row.chain_event_id,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastAttemptAt: row.last_attempt_at,
+      lastStatusCode: row.last_status_code,
+      lastError: row.last_error,
+      createdAt: row.created_at,
+      deliveredAt: row.delivered_at,
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentAddress, EventRoles } from '../auth/auth.decorators';
+import { WebhooksService } from './webhooks.service';
+import {
+  CreateWebhookDto,
+  DeliveryQueryDto,
+  ReplayDeliveriesDto,
+  ReplayDeliveriesResponseDto,
+  WebhookCreatedResponseDto,
+  WebhookDeliveryListResponseDto,
+  WebhookListResponseDto,
+  WebhookResponseDto,
+} from './dto/webhook.dto';
+
+@ApiTags('webhooks')
+@Controller('events')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post(':id/webhooks')
+  @EventRoles('id', 'organizer')
+  @ApiOperation({ summary: 'Register a webhook endpoint for an event' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 201, type: WebhookCreatedResponseDto })
+  async createWebhook(
+    @Param('id') id: string,
+    @Body() dto: CreateWebhookDto,
+    @CurrentAddress() address: string,
+  ): Promise<WebhookCreatedResponseDto> {
+    return this.webhooksService.createWebhook(id, dto, address);
+  }
+
+  @Get(':id/webhooks')
+  @EventRoles('id', 'organizer')
+  @ApiOperation({ summary: 'List webhook endpoints of an event' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: WebhookListResponseDto })
+  listWebhooks(@Param('id') id: string): WebhookListResponseDto {
+    return this.webhooksService.listWebhooks(id);
+  }
+
+  @Delete(':id/webhooks/:webhookId')
+  @EventRoles('id', 'organizer')
+  @ApiOperation({ summary: 'Stop deliveries to a webhook endpoint' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: WebhookResponseDto })
+  deleteWebhook(
+    @Param('id') id: string,
+    @Param('webhookId', ParseIntPipe) webhookId: number,
+  ): WebhookResponseDto {
+    return this.webhooksService.deleteWebhook(id, webhookId);
+  }
+
+  @Get(':id/webhooks/:webhookId/deliveries')
+  @EventRoles('id', 'organizer')
+  @ApiOperation({
+    summary: 'List deliveries to an endpoint, including dead letters',
+  })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: WebhookDeliveryListResponseDto })
+  listDeliveries(
+    @Param('id') id: string,
+    @Param('webhookId', ParseIntPipe) webhookId: number,
+    @Query() query: DeliveryQueryDto,
+  ): WebhookDeliveryListResponseDto {
+    return this.webhooksService.listDeliveries(id, webhookId, query);
+  }
+
+  @Post(':id/webhooks/:webhookId/replay')
+  @HttpCode(HttpStatus.OK)
+  @EventRoles('id', 'organizer')
+  @ApiOperation({ summary: 'Send deliveries to an endpoint again' })
+  @ApiParam({ name: 'id', description: 'Event object ID' })
+  @ApiResponse({ status: 200, type: ReplayDeliveriesResponseDto })
+  replay(
+    @Param('id') id: string,
+    @Param('webhookId', ParseIntPipe) webhookId: number,
+    @Body() dto: ReplayDeliveriesDto,
+  ): ReplayDeliveriesResponseDto {
+    return {
+      replayed: this.webhooksService.replay(id, webhookId, dto.deliveryIds),
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { WebhookStore } from './webhook.store';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+
+@Module({
+  imports: [IndexerModule, AuthModule],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookStore],
+})
+export class WebhooksModule {}
@@ -0,0 +1,322 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { DatabaseService } from '../common/database/database.service';
+import { SUI_CLIENT } from '../common/sui/sui.constants';
+import { SuiService } from '../common/sui/sui.service';
+import {
+  FAKE_PACKAGE_ID,
+  FakeSuiClient,
+  recordedEvent,
+} from '../common/sui/testing/fake-sui-client';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { postWebhook, retryDelay, signWebhookBody } from './webhook-delivery';
+import { isPrivateAddress } from './webhook-target';
+import { WebhookStore } from './webhook.store';
+import { WebhooksService } from './webhooks.service';
+
+const EVENT_ID = normalizeSuiAddress('0xe1');
+const OTHER_EVENT_ID = normalizeSuiAddress('0xe2');
+const ORGANIZER = normalizeSuiAddress('0x0a');
+const HOUR = 3_600_000;
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhooksService', () => {
+  let module: TestingModule;
+  let client: FakeSuiClient;
+  let indexer: IndexerService;
+  let webhooks: WebhooksService;
+  let server: Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let statusCode: number;
+  let answers: (() => void)[];
+  /** Requests the receiver holds before answering them all at once */
+  let answerTogether: number;
+
+  function mint(eventId: string, ticketId: string) {
+    return recordedEvent('tickets::TicketMinted', {
+      ticket_id: normalizeSuiAddress(ticketId),
+      event_id: eventId,
+      owner: '0xb0',
+      ticket_number: '1',
+      tier: 'general',
+      price_paid: '1000000000',
+    });
+  }
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        answers.push(() => {
+          response.statusCode = statusCode;
+          response.end();
+        });
+        if (answers.length >= answerTogether) {
+          answers.splice(0).forEach((answer) => answer());
+        }
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    client = new FakeSuiClient();
+    received = [];
+    statusCode = 204;
+    answers = [];
+    answerTogether = 1;
+
+    module = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            sui: { packageId: FAKE_PACKAGE_ID },
+            database: { path: ':memory:' },
+            indexer: { enabled: false },
+            webhooks: {
+              maxAttempts: 3,
+              retryBaseMs: 1000,
+              retryMaxMs: HOUR,
+              timeoutMs: 2000,
+              pollIntervalMs: HOUR,
+              // the receiver listens on loopback
+              allowPrivateTargets: true,
+            },
+          }),
+        },
+        { provide: SUI_CLIENT, useValue: client.asClient() },
+        SuiService,
+        DatabaseService,
+        IndexerStore,
+        IndexerService,
+        WebhookStore,
+        WebhooksService,
+      ],
+    }).compile();
+    await module.init();
+
+    indexer = module.get(IndexerService);
+    webhooks = module.get(WebhooksService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('backs off exponentially up to a cap', () => {
+    expect(
+      [1, 2, 3, 4].map((attempt) => retryDelay(attempt, 1000, 5000)),
+    ).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('posts subscribed events for the event with a verifiable signature', async () => {
+    const webhook = await webhooks.createWebhook(
+      EVENT_ID,
+      { url, eventTypes: ['TicketMinted'] },
+      ORGANIZER,
+    );
+    const [listed] = webhooks.listWebhooks(EVENT_ID).webhooks;
+    expect(listed).toMatchObject({ id: webhook.id, active: true });
+    expect(listed).not.toHaveProperty('secret');
+
+    client.addEvents(
+      mint(EVENT_ID, '0x71'),
+      mint(OTHER_EVENT_ID, '0x72'),
+      recordedEvent('tickets::TicketValidated', {
+        ticket_id: normalizeSuiAddress('0x71'),
+        event_id: EVENT_ID,
+      }),
+    );
+    await indexer.syncOnce();
+    await webhooks.deliverDue();
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toMatchObject({
+      type: 'TicketMinted',
+      eventId: EVENT_ID,
+      data: { ticket_id: normalizeSuiAddress('0x71') },
+    });
+    const timestamp = Number(headers['x-webhook-timestamp']);
+    expect(headers['x-webhook-signature']).toBe(
+      `sha256=${signWebhookBody(webhook.secret, timestamp, body)}`,
+    );
+
+    const { deliveries } = webhooks.listDeliveries(EVENT_ID, webhook.id, {});
+    expect(deliveries).toEqual([
+      expect.objectContaining({
+        id: Number(headers['x-webhook-delivery']),
+        status: 'delivered',
+        attempts: 1,
+        lastStatusCode: 204,
+      }),
+    ]);
+  });
+
+  it('retries failed deliveries, dead-letters them and replays on request', async () => {
+    const webhook = await webhooks.createWebhook(
+      EVENT_ID,
+      { url, eventTypes: ['TicketMinted', 'EventCancelled'] },
+      ORGANIZER,
+    );
+    statusCode = 500;
+
+    client.addEvents(mint(EVENT_ID, '0x71'));
+    await indexer.syncOnce();
+    await webhooks.deliverDue();
+
+    let [delivery] = webhooks.listDeliveries(
+      EVENT_ID,
+      webhook.id,
+      {},
+    ).deliveries;
+    expect(delivery).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastStatusCode: 500,
+    });
+    // not due again until the first backoff has passed
+    expect(await webhooks.deliverDue()).toBe(0);
+
+    await webhooks.deliverDue(Date.now() + HOUR);
+    await webhooks.deliverDue(Date.now() + 2 * HOUR);
+    expect(received).toHaveLength(3);
+
+    const dead = webhooks.listDeliveries(EVENT_ID, webhook.id, {
+      status: 'dead',
+    });
+    expect(dead.deliveries).toEqual([
+      expect.objectContaining({ id: delivery.id, attempts: 3 }),
+    ]);
+
+    statusCode = 200;
+    expect(webhooks.replay(EVENT_ID, webhook.id)).toBe(1);
+    await webhooks.deliverDue();
+
+    [delivery] = webhooks.listDeliveries(EVENT_ID, webhook.id, {}).deliveries;
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1 });
+    expect(received).toHaveLength(4);
+    expect(received[3].body).toBe(received[0].body);
+  });
+
+  it('delivers to different endpoints in parallel', async () => {
+    const created = await Promise.all(
+      ['a', 'b'].map((path) =>
+        webhooks.createWebhook(
+          EVENT_ID,
+          { url: `${url}/${path}`, eventTypes: ['TicketMinted'] },
+          ORGANIZER,
+        ),
+      ),
+    );
+    // a receiver that answers only once both requests are in flight
+    answerTogether = 2;
+
+    client.addEvents(mint(EVENT_ID, '0x71'));
+    await indexer.syncOnce();
+    await webhooks.deliverDue();
+
+    expect(received).toHaveLength(2);
+    for (const webhook of created) {
+      const [delivery] = webhooks.listDeliveries(
+        EVENT_ID,
+        webhook.id,
+        {},
+      ).deliveries;
+      expect(delivery.status).toBe('delivered');
+    }
+  });
+
+  it('connects to the pinned address without resolving the host again', async () => {
+    const { port } = server.address() as AddressInfo;
+
+    await expect(
+      postWebhook(`http://hooks.example.invalid:${port}/hook`, {
+        headers: { 'content-type': 'application/json' },
+        body: '{}',
+        timeoutMs: 2000,
+        address: { address: '127.0.0.1', family: 4 },
+      }),
+    ).resolves.toBe(204);
+    expect(received[0].headers.host).toBe(`hooks.example.invalid:${port}`);
+  });
+
+  it('classifies loopback, link-local and private addresses', () => {
+    expect(
+      [
+        '127.0.0.1',
+        '10.1.2.3',
+        '172.20.0.1',
+        '192.168.1.1',
+        '169.254.169.254',
+        '0.0.0.0',
+        '::1',
+        'fd00::1',
+        'fe80::1',
+        '::ffff:127.0.0.1',
+        '::ffff:a00:1',
+      ].filter((address) => !isPrivateAddress(address)),
+    ).toEqual([]);
+    expect(isPrivateAddress('93.184.216.34')).toBe(false);
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+  });
+
+  it('refuses endpoints on private addresses at registration and delivery', async () => {
+    const webhook = await webhooks.createWebhook(
+      EVENT_ID,
+      { url, eventTypes: ['TicketMinted'] },
+      ORGANIZER,
+    );
+    module.get(ConfigService).set('webhooks.allowPrivateTargets', false);
+
+    await expect(
+      webhooks.createWebhook(
+        EVENT_ID,
+        { url, eventTypes: ['TicketMinted'] },
+        ORGANIZER,
+      ),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      webhooks.createWebhook(
+        EVENT_ID,
+        { url: 'http://93.184.216.34/hook', eventTypes: ['TicketMinted'] },
+        ORGANIZER,
+      ),
+    ).rejects.toThrow('Webhook URL must use https');
+
+    client.addEvents(mint(EVENT_ID, '0x71'));
+    await indexer.syncOnce();
+    await webhooks.deliverDue();
+
+    expect(received).toHaveLength(0);
+    const [delivery] = webhooks.listDeliveries(
+      EVENT_ID,
+      webhook.id,
+      {},
+    ).deliveries;
+    expect(delivery.status).toBe('pending');
+    expect(delivery.lastError).toContain(
+      'resolves to 127.0.0.1, which is not a public address',
+    );
+  });
+});
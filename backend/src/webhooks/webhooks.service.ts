@@ -0,0 +1,349 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { randomBytes } from 'crypto';
+import { LookupAddress } from 'dns';
+import {
+  decodeCursor,
+  encodeCursor,
+  isRowCursor,
+} from '../common/pagination/cursor';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexedEvent } from '../indexer/indexer.types';
+import {
+  AttemptResult,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookStore,
+} from './webhook.store';
+import {
+  DELIVERY_HEADER,
+  postWebhook,
+  retryDelay,
+  SIGNATURE_HEADER,
+  signWebhookBody,
+  TIMESTAMP_HEADER,
+  webhookEventName,
+} from './webhook-delivery';
+import { assertPublicWebhookUrl } from './webhook-target';
+import {
+  CreateWebhookDto,
+  DeliveryQueryDto,
+  WebhookCreatedResponseDto,
+  WebhookDeliveryDto,
+  WebhookDeliveryListResponseDto,
+  WebhookListResponseDto,
+  WebhookResponseDto,
+} from './dto/webhook.dto';
+
+/** Deliveries sent per pass of the delivery loop */
+const DELIVERY_BATCH_SIZE = 50;
+
+/** Endpoints posted to at once; each endpoint still gets one at a time */
+const DELIVERY_CONCURRENCY = 8;
+
+/**
+ * Pushes indexed Move events to organizer webhook endpoints. Deliveries
+ * are queued in SQLite as events are indexed and sent by a background
+ * loop, retrying with exponential backoff until they succeed or run out of
+ * attempts and land in the dead-letter queue.
+ */
+@Injectable()
+export class WebhooksService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(WebhooksService.name);
+  private timer?: NodeJS.Timeout;
+  private stopped = false;
+  private delivering?: Promise<number>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly indexerService: IndexerService,
+    private readonly store: WebhookStore,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.indexerService.events$.subscribe((event) => this.onChainEvent(event));
+    this.scheduleDelivery();
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+  }
+
+  async createWebhook(
+    eventId: string,
+    dto: CreateWebhookDto,
+    createdBy: string,
+  ): Promise<WebhookCreatedResponseDto> {
+    try {
+      await this.assertTarget(dto.url);
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+    const endpoint = this.store.createEndpoint({
+      eventId: normalizeSuiAddress(eventId),
+      url: dto.url,
+      secret: randomBytes(32).toString('hex'),
+      eventTypes: dto.eventTypes,
+      createdBy: normalizeSuiAddress(createdBy),
+    });
+    return { ...toWebhookDto(endpoint), secret: endpoint.secret };
+  }
+
+  listWebhooks(eventId: string): WebhookListResponseDto {
+    return {
+      webhooks: this.store
+        .findEndpoints(normalizeSuiAddress(eventId))
+        .map(toWebhookDto),
+    };
+  }
+
+  /** Stop deliveries to an endpoint; its delivery history is kept */
+  deleteWebhook(eventId: string, webhookId: number): WebhookResponseDto {
+    const endpoint = this.requireEndpoint(eventId, webhookId);
+    this.store.deactivateEndpoint(endpoint.id);
+    return toWebhookDto({ ...endpoint, active: false });
+  }
+
+  listDeliveries(
+    eventId: string,
+    webhookId: number,
+    query: DeliveryQueryDto,
+  ): WebhookDeliveryListResponseDto {
+    const endpoint = this.requireEndpoint(eventId, webhookId);
+    const before = decodeCursor(query.cursor, isRowCursor);
+    const page = this.store.pageDeliveries(endpoint.id, {
+      status: query.status,
+      beforeId: before?.id,
+      limit: query.limit ?? 20,
+    });
+
+    const last = page.deliveries[page.deliveries.length - 1];
+    return {
+      deliveries: page.deliveries.map(toDeliveryDto),
+      nextCursor: page.hasMore ? encodeCursor({ id: last.id }) : undefined,
+      hasMore: page.hasMore,
+    };
+  }
+
+  /** Queue deliveries again, by default the endpoint's dead letters */
+  replay(eventId: string, webhookId: number, deliveryIds?: number[]): number {
+    const endpoint = this.requireEndpoint(eventId, webhookId);
+    if (!endpoint.active) {
+      throw new NotFoundException(`Webhook ${webhookId} has been deleted`);
+    }
+    const replayed = this.store.replay(endpoint.id, deliveryIds);
+    if (replayed > 0) {
+      this.kick();
+    }
+    return replayed;
+  }
+
+  /**
+   * Send every delivery due by `now`. Passes never overlap: a call made
+   * while one is running waits for it instead.
+   */
+  deliverDue(now = Date.now()): Promise<number> {
+    if (!this.delivering) {
+      this.delivering = this.sendDue(now).finally(() => {
+        this.delivering = undefined;
+      });
+    }
+    return this.delivering;
+  }
+
+  /**
+   * Deliveries run in parallel across endpoints and in order within each,
+   * so one slow receiver holds up only its own queue.
+   */
+  private async sendDue(now: number): Promise<number> {
+    const due = this.store.findDue(now, DELIVERY_BATCH_SIZE);
+    const byEndpoint = new Map<number, WebhookDelivery[]>();
+    for (const delivery of due) {
+      const queued = byEndpoint.get(delivery.endpointId) ?? [];
+      queued.push(delivery);
+      byEndpoint.set(delivery.endpointId, queued);
+    }
+
+    const queues = [...byEndpoint];
+    const worker = async () => {
+      for (let next = queues.shift(); next; next = queues.shift()) {
+        const [endpointId, deliveries] = next;
+        const endpoint = this.store.getEndpoint(endpointId)!;
+        for (const delivery of deliveries) {
+          await this.attempt(delivery, endpoint);
+        }
+      }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(DELIVERY_CONCURRENCY, queues.length) },
+        worker,
+      ),
+    );
+    return due.length;
+  }
+
+  private async attempt(delivery: WebhookDelivery, endpoint: WebhookEndpoint) {
+    const result = await this.post(endpoint, delivery);
+    if (result.statusCode !== null && result.error === null) {
+      this.store.recordSuccess(delivery.id, result.statusCode);
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const maxAttempts =
+      this.configService.get<number>('webhooks.maxAttempts') || 8;
+    if (attempts >= maxAttempts) {
+      this.store.recordFailure(delivery.id, result, null);
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} to ${endpoint.url} dead-lettered after ${attempts} attempts`,
+      );
+      return;
+    }
+    const delay = retryDelay(
+      attempts,
+      this.configService.get<number>('webhooks.retryBaseMs') || 10000,
+      this.configService.get<number>('webhooks.retryMaxMs') || 3600000,
+    );
+    this.store.recordFailure(delivery.id, result, Date.now() + delay);
+  }
+
+  /** Any 2xx answer counts as delivered */
+  private async post(
+    endpoint: WebhookEndpoint,
+    delivery: WebhookDelivery,
+  ): Promise<AttemptResult> {
+    const timestamp = Date.now();
+    try {
+      const [address] = await this.assertTarget(endpoint.url);
+      const status = await postWebhook(endpoint.url, {
+        headers: {
+          'content-type': 'application/json',
+          [DELIVERY_HEADER]: String(delivery.id),
+          [TIMESTAMP_HEADER]: String(timestamp),
+          [SIGNATURE_HEADER]: `sha256=${signWebhookBody(endpoint.secret, timestamp, delivery.payload)}`,
+        },
+        body: delivery.payload,
+        timeoutMs:
+          this.configService.get<number>('webhooks.timeoutMs') || 10000,
+        address,
+      });
+      return status >= 200 && status < 300
+        ? { statusCode: status, error: null }
+        : { statusCode: status, error: `HTTP ${status}` };
+    } catch (error) {
+      return { statusCode: null, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Keep endpoints on public HTTPS hosts, off this host and its private
+   * networks, and return the addresses checked. With private targets
+   * allowed the URL is used as given and nothing is returned to pin.
+   */
+  private async assertTarget(url: string): Promise<LookupAddress[]> {
+    if (this.configService.get<boolean>('webhooks.allowPrivateTargets')) {
+      return [];
+    }
+    return assertPublicWebhookUrl(url);
+  }
+
+  private onChainEvent(event: IndexedEvent) {
+    const eventType = webhookEventName(event.eventType);
+    const eventId = (event.data as { event_id?: string }).event_id;
+    if (!eventType || !eventId) {
+      return;
+    }
+
+    const endpoints = this.store
+      .findEndpoints(normalizeSuiAddress(eventId), true)
+      .filter((endpoint) => endpoint.eventTypes.includes(eventType));
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const payload = JSON.stringify({
+      type: eventType,
+      eventId: normalizeSuiAddress(eventId),
+      txDigest: event.txDigest,
+      eventSeq: event.eventSeq,
+      timestampMs: event.timestampMs,
+      data: event.data,
+    });
+    for (const endpoint of endpoints) {
+      this.store.enqueue(endpoint.id, eventType, event.id, payload);
+    }
+    this.kick();
+  }
+
+  /** Start a delivery pass now rather than at the next tick of the loop */
+  private kick() {
+    this.deliverDue().catch((error: Error) =>
+      this.logger.error(`Webhook delivery failed: ${error.message}`),
+    );
+  }
+
+  private scheduleDelivery() {
+    if (this.stopped) {
+      return;
+    }
+    const interval =
+      this.configService.get<number>('webhooks.pollIntervalMs') || 5000;
+    this.timer = setTimeout(() => {
+      this.deliverDue()
+        .catch((error: Error) =>
+          this.logger.error(`Webhook delivery failed: ${error.message}`),
+        )
+        .finally(() => this.scheduleDelivery());
+    }, interval);
+    this.timer.unref();
+  }
+
+  private requireEndpoint(eventId: string, webhookId: number): WebhookEndpoint {
+    const endpoint = this.store.getEndpoint(webhookId);
+    if (!endpoint || endpoint.eventId !== normalizeSuiAddress(eventId)) {
+      throw new NotFoundException(`Webhook ${webhookId} not found`);
+    }
+    return endpoint;
+  }
+}
+
+function toWebhookDto(endpoint: WebhookEndpoint): WebhookResponseDto {
+  return {
+    id: endpoint.id,
+    eventId: endpoint.eventId,
+    url: endpoint.url,
+    eventTypes: endpoint.eventTypes,
+    active: endpoint.active,
+    createdBy: endpoint.createdBy,
+    createdAt: endpoint.createdAt,
+  };
+}
+
+function toDeliveryDto(delivery: WebhookDelivery): WebhookDeliveryDto {
+  return {
+    id: delivery.id,
+    eventType: delivery.eventType,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt:
+      delivery.status === 'pending' ? delivery.nextAttemptAt : undefined,
+    lastAttemptAt: delivery.lastAttemptAt ?? undefined,
+    lastStatusCode: delivery.lastStatusCode ?? undefined,
+    lastError: delivery.lastError ?? undefined,
+    createdAt: delivery.createdAt,
+    deliveredAt: delivery.deliveredAt ?? undefined,
+    payload: delivery.payload,
+  };
+}
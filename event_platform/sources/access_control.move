@@ -149,6 +149,25 @@ public fun grant_validator_cap(
     }
 }
 
+/// Build permissions for create_limited_cap in a PTB. The only other
+/// constructor, full_permissions, is private, so create_limited_cap could
+/// not otherwise be called from a transaction.
+public fun new_permissions(
+    can_update_event: bool,
+    can_cancel_event: bool,
+    can_approve_registrations: bool,
+    can_withdraw_funds: bool,
+    can_grant_validators: bool,
+): OrganizerPermissions {
+    OrganizerPermissions {
+        can_update_event,
+        can_cancel_event,
+        can_approve_registrations,
+        can_withdraw_funds,
+        can_grant_validators,
+    }
+}
+
 // ======== Verification Functions ========
 
 /// Verify organizer capability
@@ -145,6 +145,62 @@ fun init(ctx: &mut TxContext) {
     transfer::share_object(registry);
 }
 
+/// Share the EventRegistry in Move unit tests, which cannot run init.
+/// #[test_only] code is not compiled into the published package, so this
+/// adds no public API and needs no upgrade
+#[test_only]
+public fun init_for_testing(ctx: &mut TxContext) {
+    init(ctx);
+}
+
+// ======== Constructors ========
+
+/// Build event metadata (for create_event / update_event in a PTB).
+/// EventMetadata has no other public constructor and a PTB cannot pack
+/// structs, so without this neither function can be called from a wallet.
+public fun new_event_metadata(
+    title: String,
+    description: String,
+    walrus_blob_id: String,
+    image_url: String,
+    category: String,
+    tags: vector<String>,
+): EventMetadata {
+    EventMetadata {
+        title,
+        description,
+        walrus_blob_id,
+        image_url,
+        category,
+        tags,
+    }
+}
+
+/// Build event config (for create_event in a PTB). Needed for the same
+/// reason as new_event_metadata: EventConfig cannot be built outside this
+/// module.
+public fun new_event_config(
+    start_time: u64,
+    end_time: u64,
+    registration_deadline: u64,
+    capacity: u64,
+    ticket_price: u64,
+    requires_approval: bool,
+    is_transferable: bool,
+    refund_deadline: u64,
+): EventConfig {
+    EventConfig {
+        start_time,
+        end_time,
+        registration_deadline,
+        capacity,
+        ticket_price,
+        requires_approval,
+        is_transferable,
+        refund_deadline,
+    }
+}
+
 // ======== Public Functions ========
 
 /// Create a new event
@@ -459,10 +515,12 @@ public fun is_transferable(event: &Event): bool {
     event.config.is_transferable
 }
 
+/// Refunds are allowed until the refund deadline, and without one once the
+/// organizer cancelled the event
 public fun can_refund(event: &Event, ctx: &TxContext): bool {
     let now = tx_context::epoch_timestamp_ms(ctx);
-    event.status == STATUS_OPEN &&
-    now <= event.config.refund_deadline
+    event.status == STATUS_CANCELLED ||
+    (event.status == STATUS_OPEN && now <= event.config.refund_deadline)
 }
 
 public fun is_attendee_registered(event: &Event, attendee: address): bool {
@@ -101,6 +101,12 @@ fun init(ctx: &mut TxContext) {
     transfer::share_object(platform_treasury);
 }
 
+/// Share the PlatformTreasury in Move unit tests (see events::init_for_testing)
+#[test_only]
+public fun init_for_testing(ctx: &mut TxContext) {
+    init(ctx);
+}
+
 // ======== Public Functions ========
 
 /// Create event treasury
@@ -121,6 +127,13 @@ public(package) fun create_event_treasury(
     }
 }
 
+/// Share event treasury returned by events::create_event. EventTreasury
+/// has `key` but not `store`, so only this module can share it and a PTB
+/// calling create_event could not otherwise consume the returned value.
+public fun share_treasury(treasury: EventTreasury) {
+    transfer::share_object(treasury);
+}
+
 /// Process payment and split between organizer and platform
 public(package) fun process_payment(
     event_treasury: &mut EventTreasury,
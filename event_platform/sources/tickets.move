@@ -256,6 +256,53 @@ public fun validate_ticket(
     });
 }
 
+/// Check in a ticket holder at the door, signed by the validator.
+/// validate_ticket needs the ticket owner as sender and the validator's
+/// owned ValidatorCap, which no single transaction can hold, so gates call
+/// this instead after verifying the owner-signed QR code off chain. The
+/// attendee record on the shared event rejects a second check-in and blocks
+/// refunds afterwards.
+public fun check_in_ticket(
+    event: &mut Event,
+    validator_cap: &ValidatorCap,
+    ticket_id: ID,
+    owner: address,
+    ctx: &TxContext,
+) {
+    let event_id = object::id(event);
+    access_control::verify_validator(validator_cap, event_id, ctx);
+
+    events::check_in_attendee(event, owner, ctx);
+
+    event::emit(TicketValidated {
+        ticket_id,
+        event_id,
+        owner,
+        validator: access_control::get_validator_address(validator_cap),
+        timestamp: tx_context::epoch_timestamp_ms(ctx),
+    });
+}
+
+/// Replace the QR code hash and sealed payload of a ticket about to change
+/// hands. The seller knows the old QR secret and the payload was sealed
+/// for them, so a resale swap calls this before transfer_ticket with values
+/// the buyer generated; the buyer also signs the swap, so the seller cannot
+/// substitute their own.
+public fun rekey_ticket(
+    ticket: &mut Ticket,
+    encrypted_data: vector<u8>,
+    seal_key_id: String,
+    qr_code_hash: vector<u8>,
+    ctx: &TxContext,
+) {
+    assert!(ticket.owner == tx_context::sender(ctx), ENotAuthorized);
+    assert!(!ticket.validation.is_validated, EAlreadyValidated);
+
+    ticket.metadata.encrypted_data = encrypted_data;
+    ticket.metadata.seal_key_id = seal_key_id;
+    ticket.metadata.qr_code_hash = qr_code_hash;
+}
+
 /// Transfer ticket to another user
 public fun transfer_ticket(
     mut ticket: Ticket,
@@ -403,3 +450,8 @@ public fun get_validation_time(ticket: &Ticket): &Option<u64> {
 public fun get_validator_address(ticket: &Ticket): &Option<address> {
     &ticket.validation.validator_address
 }
+
+#[test_only]
+public fun get_qr_code_hash_for_testing(ticket: &Ticket): vector<u8> {
+    ticket.metadata.qr_code_hash
+}
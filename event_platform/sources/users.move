@@ -147,6 +147,12 @@ fun init(ctx: &mut TxContext) {
     transfer::share_object(registry);
 }
 
+/// Share the BadgeRegistry in Move unit tests (see events::init_for_testing)
+#[test_only]
+public fun init_for_testing(ctx: &mut TxContext) {
+    init(ctx);
+}
+
 // ======== Public Functions ========
 
 /// Create basic user profile
@@ -284,6 +290,13 @@ public fun update_preferences(
     });
 }
 
+/// Send a profile returned by create_profile to the transaction sender.
+/// UserProfile has `key` but not `store`, so only this module can transfer
+/// it; without this a PTB that calls create_profile cannot complete.
+public fun keep_profile(profile: UserProfile, ctx: &TxContext) {
+    transfer::transfer(profile, tx_context::sender(ctx));
+}
+
 // ======== Package Functions (Called by other modules) ========
 
 /// Increment events created and update reputation
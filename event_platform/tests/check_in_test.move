@@ -0,0 +1,207 @@
+#[test_only]
+module event_platform::check_in_test;
+
+use std::string;
+use sui::coin;
+use sui::sui::SUI;
+use sui::test_scenario::{Self, Scenario};
+use sui::test_utils;
+use event_platform::access_control::{Self, EventOrganizerCap, ValidatorCap};
+use event_platform::events::{Self, Event, EventRegistry};
+use event_platform::payments::{Self, EventTreasury, PlatformTreasury};
+use event_platform::tickets::{Self, Ticket, TicketPool};
+use event_platform::users::{Self, UserProfile, BadgeRegistry};
+
+const ORGANIZER: address = @0xA;
+const STAFF: address = @0x5;
+const ALICE: address = @0xA11CE;
+const BOB: address = @0xB0B;
+const CAROL: address = @0xCA201;
+
+const PRICE: u64 = 1_000;
+const START: u64 = 10_000;
+
+// ======== Tests ========
+
+#[test]
+fun test_validator_checks_in_ticket_holder() {
+    let mut scenario = test_scenario::begin(ORGANIZER);
+    let pool = sell_tickets(&mut scenario);
+    let ticket_id = alice_ticket_id(&mut scenario);
+
+    check_in(&mut scenario, STAFF, ticket_id, ALICE);
+
+    scenario.next_tx(STAFF);
+    let event = scenario.take_shared<Event>();
+    assert!(events::is_attendee_checked_in(&event, ALICE), 0);
+    assert!(events::get_attended_count(&event) == 1, 1);
+    test_scenario::return_shared(event);
+
+    test_utils::destroy(pool);
+    scenario.end();
+}
+
+#[test, expected_failure(abort_code = event_platform::events::EAlreadyCheckedIn)]
+fun test_second_check_in_fails() {
+    let mut scenario = test_scenario::begin(ORGANIZER);
+    let pool = sell_tickets(&mut scenario);
+    let ticket_id = alice_ticket_id(&mut scenario);
+
+    check_in(&mut scenario, STAFF, ticket_id, ALICE);
+    check_in(&mut scenario, STAFF, ticket_id, ALICE);
+
+    test_utils::destroy(pool);
+    scenario.end();
+}
+
+#[test, expected_failure(abort_code = event_platform::events::ENotRegistered)]
+fun test_check_in_without_ticket_fails() {
+    let mut scenario = test_scenario::begin(ORGANIZER);
+    let pool = sell_tickets(&mut scenario);
+    let ticket_id = alice_ticket_id(&mut scenario);
+
+    check_in(&mut scenario, STAFF, ticket_id, CAROL);
+
+    test_utils::destroy(pool);
+    scenario.end();
+}
+
+#[test, expected_failure(abort_code = event_platform::events::EAlreadyCheckedIn)]
+fun test_refund_after_check_in_fails() {
+    let mut scenario = test_scenario::begin(ORGANIZER);
+    let mut pool = sell_tickets(&mut scenario);
+    let ticket_id = alice_ticket_id(&mut scenario);
+    check_in(&mut scenario, STAFF, ticket_id, ALICE);
+
+    scenario.next_tx(ALICE);
+    let ticket = scenario.take_from_sender<Ticket>();
+    let mut event = scenario.take_shared<Event>();
+    let mut treasury = scenario.take_shared<EventTreasury>();
+    tickets::refund_ticket(ticket, &mut event, &mut pool, &mut treasury, scenario.ctx());
+    test_scenario::return_shared(event);
+    test_scenario::return_shared(treasury);
+
+    test_utils::destroy(pool);
+    scenario.end();
+}
+
+// ======== Helpers ========
+
+/// Publish an event, sell ALICE and BOB a ticket each and make STAFF its
+/// validator. BOB's payment keeps the treasury able to cover a refund.
+fun sell_tickets(scenario: &mut Scenario): TicketPool {
+    users::init_for_testing(scenario.ctx());
+    events::init_for_testing(scenario.ctx());
+    payments::init_for_testing(scenario.ctx());
+    create_profile(scenario, ORGANIZER);
+
+    scenario.next_tx(ORGANIZER);
+    let mut registry = scenario.take_shared<EventRegistry>();
+    let mut badges = scenario.take_shared<BadgeRegistry>();
+    let mut profile = scenario.take_from_sender<UserProfile>();
+    let metadata = events::new_event_metadata(
+        string::utf8(b"Launch party"),
+        string::utf8(b""),
+        string::utf8(b""),
+        string::utf8(b""),
+        string::utf8(b"music"),
+        vector[],
+    );
+    let config = events::new_event_config(
+        START,
+        START + 1_000,
+        START,
+        10,
+        PRICE,
+        false,
+        true,
+        START,
+    );
+    let (cap, treasury) = events::create_event(
+        &mut registry,
+        &mut profile,
+        &mut badges,
+        metadata,
+        config,
+        scenario.ctx(),
+    );
+    payments::share_treasury(treasury);
+    transfer::public_transfer(cap, ORGANIZER);
+    test_scenario::return_shared(registry);
+    test_scenario::return_shared(badges);
+    scenario.return_to_sender(profile);
+
+    scenario.next_tx(ORGANIZER);
+    let mut event = scenario.take_shared<Event>();
+    let cap = scenario.take_from_sender<EventOrganizerCap>();
+    events::publish_event(&mut event, &cap, scenario.ctx());
+    let validator_cap = access_control::grant_validator_cap(
+        object::id(&event),
+        STAFF,
+        &cap,
+        scenario.ctx(),
+    );
+    transfer::public_transfer(validator_cap, STAFF);
+    let mut pool = tickets::create_ticket_pool(object::id(&event), 10, scenario.ctx());
+    test_scenario::return_shared(event);
+    scenario.return_to_sender(cap);
+
+    buy(scenario, &mut pool, ALICE);
+    buy(scenario, &mut pool, BOB);
+    pool
+}
+
+fun alice_ticket_id(scenario: &mut Scenario): ID {
+    scenario.next_tx(ALICE);
+    let ticket = scenario.take_from_sender<Ticket>();
+    let ticket_id = object::id(&ticket);
+    scenario.return_to_sender(ticket);
+    ticket_id
+}
+
+fun check_in(scenario: &mut Scenario, validator: address, ticket_id: ID, owner: address) {
+    scenario.next_tx(validator);
+    let mut event = scenario.take_shared<Event>();
+    let cap = scenario.take_from_sender<ValidatorCap>();
+    tickets::check_in_ticket(&mut event, &cap, ticket_id, owner, scenario.ctx());
+    test_scenario::return_shared(event);
+    scenario.return_to_sender(cap);
+}
+
+fun create_profile(scenario: &mut Scenario, owner: address) {
+    scenario.next_tx(owner);
+    let profile = users::create_profile(option::none(), option::none(), scenario.ctx());
+    users::keep_profile(profile, scenario.ctx());
+}
+
+fun buy(scenario: &mut Scenario, pool: &mut TicketPool, buyer: address) {
+    create_profile(scenario, buyer);
+
+    scenario.next_tx(buyer);
+    let mut event = scenario.take_shared<Event>();
+    let mut treasury = scenario.take_shared<EventTreasury>();
+    let mut platform = scenario.take_shared<PlatformTreasury>();
+    let registry = scenario.take_shared<EventRegistry>();
+    let mut profile = scenario.take_from_sender<UserProfile>();
+    let payment = coin::mint_for_testing<SUI>(PRICE, scenario.ctx());
+    let ticket = tickets::mint_ticket(
+        pool,
+        &mut event,
+        &mut profile,
+        &mut treasury,
+        &mut platform,
+        &registry,
+        payment,
+        string::utf8(b"general"),
+        vector[],
+        string::utf8(b""),
+        vector[1],
+        scenario.ctx(),
+    );
+    transfer::public_transfer(ticket, buyer);
+    test_scenario::return_shared(event);
+    test_scenario::return_shared(treasury);
+    test_scenario::return_shared(platform);
+    test_scenario::return_shared(registry);
+    scenario.return_to_sender(profile);
+}
@@ -0,0 +1,197 @@
+#[test_only]
+module event_platform::refunds_test;
+
+use std::string;
+use sui::coin::{Self, Coin};
+use sui::sui::SUI;
+use sui::test_scenario::{Self, Scenario};
+use sui::test_utils;
+use event_platform::access_control::EventOrganizerCap;
+use event_platform::events::{Self, Event, EventRegistry};
+use event_platform::payments::{Self, EventTreasury, PlatformTreasury};
+use event_platform::tickets::{Self, Ticket, TicketPool};
+use event_platform::users::{Self, UserProfile, BadgeRegistry};
+
+const ORGANIZER: address = @0xA;
+const ALICE: address = @0xA11CE;
+const BOB: address = @0xB0B;
+
+const PRICE: u64 = 1_000;
+// 2.5% of PRICE goes to the platform treasury
+const ORGANIZER_SHARE: u64 = 975;
+const REFUND_DEADLINE: u64 = 1_000;
+const START: u64 = 10_000;
+
+// ======== Tests ========
+
+#[test]
+fun test_cancelled_event_refunds_after_deadline() {
+    let mut scenario = test_scenario::begin(ORGANIZER);
+    let mut pool = sell_two_tickets(&mut scenario);
+    cancel_after_refund_deadline(&mut scenario);
+
+    refund(&mut scenario, &mut pool, ALICE);
+
+    scenario.next_tx(ALICE);
+    let refunded = scenario.take_from_sender<Coin<SUI>>();
+    assert!(coin::value(&refunded) == PRICE, 0);
+    scenario.return_to_sender(refunded);
+
+    let treasury = scenario.take_shared<EventTreasury>();
+    assert!(payments::get_treasury_balance(&treasury) == 2 * ORGANIZER_SHARE - PRICE, 1);
+    assert!(payments::get_locked_for_refunds(&treasury) == 2 * ORGANIZER_SHARE - PRICE, 1);
+    test_scenario::return_shared(treasury);
+
+    test_utils::destroy(pool);
+    scenario.end();
+}
+
+#[test, expected_failure(abort_code = event_platform::tickets::ERefundNotAllowed)]
+fun test_open_event_refund_after_deadline_fails() {
+    let mut scenario = test_scenario::begin(ORGANIZER);
+    let mut pool = sell_two_tickets(&mut scenario);
+    scenario.later_epoch(2 * REFUND_DEADLINE, ORGANIZER);
+
+    refund(&mut scenario, &mut pool, ALICE);
+
+    test_utils::destroy(pool);
+    scenario.end();
+}
+
+/// Refunds pay the full price but the treasury only received the organizer
+/// share, so the last refund of a sold-out cancellation cannot be paid
+#[test, expected_failure(abort_code = event_platform::tickets::EInsufficientBalance)]
+fun test_last_refund_exhausts_treasury() {
+    let mut scenario = test_scenario::begin(ORGANIZER);
+    let mut pool = sell_two_tickets(&mut scenario);
+    cancel_after_refund_deadline(&mut scenario);
+
+    refund(&mut scenario, &mut pool, ALICE);
+    refund(&mut scenario, &mut pool, BOB);
+
+    test_utils::destroy(pool);
+    scenario.end();
+}
+
+// ======== Helpers ========
+
+/// Publish an event and sell one ticket each to ALICE and BOB
+fun sell_two_tickets(scenario: &mut Scenario): TicketPool {
+    users::init_for_testing(scenario.ctx());
+    events::init_for_testing(scenario.ctx());
+    payments::init_for_testing(scenario.ctx());
+    create_profile(scenario, ORGANIZER);
+
+    scenario.next_tx(ORGANIZER);
+    let mut registry = scenario.take_shared<EventRegistry>();
+    let mut badges = scenario.take_shared<BadgeRegistry>();
+    let mut profile = scenario.take_from_sender<UserProfile>();
+    let metadata = events::new_event_metadata(
+        string::utf8(b"Launch party"),
+        string::utf8(b""),
+        string::utf8(b""),
+        string::utf8(b""),
+        string::utf8(b"music"),
+        vector[],
+    );
+    let config = events::new_event_config(
+        START,
+        START + 1_000,
+        START,
+        10,
+        PRICE,
+        false,
+        true,
+        REFUND_DEADLINE,
+    );
+    let (cap, treasury) = events::create_event(
+        &mut registry,
+        &mut profile,
+        &mut badges,
+        metadata,
+        config,
+        scenario.ctx(),
+    );
+    payments::share_treasury(treasury);
+    transfer::public_transfer(cap, ORGANIZER);
+    test_scenario::return_shared(registry);
+    test_scenario::return_shared(badges);
+    scenario.return_to_sender(profile);
+
+    scenario.next_tx(ORGANIZER);
+    let mut event = scenario.take_shared<Event>();
+    let cap = scenario.take_from_sender<EventOrganizerCap>();
+    events::publish_event(&mut event, &cap, scenario.ctx());
+    let mut pool = tickets::create_ticket_pool(object::id(&event), 10, scenario.ctx());
+    test_scenario::return_shared(event);
+    scenario.return_to_sender(cap);
+
+    buy(scenario, &mut pool, ALICE);
+    buy(scenario, &mut pool, BOB);
+    pool
+}
+
+fun cancel_after_refund_deadline(scenario: &mut Scenario) {
+    scenario.later_epoch(2 * REFUND_DEADLINE, ORGANIZER);
+    let mut event = scenario.take_shared<Event>();
+    let cap = scenario.take_from_sender<EventOrganizerCap>();
+    let mut profile = scenario.take_from_sender<UserProfile>();
+    events::cancel_event(
+        &mut event,
+        &cap,
+        string::utf8(b"Venue closed"),
+        &mut profile,
+        scenario.ctx(),
+    );
+    test_scenario::return_shared(event);
+    scenario.return_to_sender(cap);
+    scenario.return_to_sender(profile);
+}
+
+fun create_profile(scenario: &mut Scenario, owner: address) {
+    scenario.next_tx(owner);
+    let profile = users::create_profile(option::none(), option::none(), scenario.ctx());
+    users::keep_profile(profile, scenario.ctx());
+}
+
+fun buy(scenario: &mut Scenario, pool: &mut TicketPool, buyer: address) {
+    create_profile(scenario, buyer);
+
+    scenario.next_tx(buyer);
+    let mut event = scenario.take_shared<Event>();
+    let mut treasury = scenario.take_shared<EventTreasury>();
+    let mut platform = scenario.take_shared<PlatformTreasury>();
+    let registry = scenario.take_shared<EventRegistry>();
+    let mut profile = scenario.take_from_sender<UserProfile>();
+    let payment = coin::mint_for_testing<SUI>(PRICE, scenario.ctx());
+    let ticket = tickets::mint_ticket(
+        pool,
+        &mut event,
+        &mut profile,
+        &mut treasury,
+        &mut platform,
+        &registry,
+        payment,
+        string::utf8(b"general"),
+        vector[],
+        string::utf8(b""),
+        vector[1],
+        scenario.ctx(),
+    );
+    transfer::public_transfer(ticket, buyer);
+    test_scenario::return_shared(event);
+    test_scenario::return_shared(treasury);
+    test_scenario::return_shared(platform);
+    test_scenario::return_shared(registry);
+    scenario.return_to_sender(profile);
+}
+
+fun refund(scenario: &mut Scenario, pool: &mut TicketPool, holder: address) {
+    scenario.next_tx(holder);
+    let ticket = scenario.take_from_sender<Ticket>();
+    let mut event = scenario.take_shared<Event>();
+    let mut treasury = scenario.take_shared<EventTreasury>();
+    tickets::refund_ticket(ticket, &mut event, pool, &mut treasury, scenario.ctx());
+    test_scenario::return_shared(event);
+    test_scenario::return_shared(treasury);
+}
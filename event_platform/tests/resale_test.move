@@ -0,0 +1,159 @@
+#[test_only]
+module event_platform::resale_test;
+
+use std::string;
+use sui::coin;
+use sui::sui::SUI;
+use sui::test_scenario::{Self, Scenario};
+use sui::test_utils;
+use event_platform::access_control::EventOrganizerCap;
+use event_platform::events::{Self, Event, EventRegistry};
+use event_platform::payments::{Self, EventTreasury, PlatformTreasury};
+use event_platform::tickets::{Self, Ticket, TicketPool};
+use event_platform::users::{Self, UserProfile, BadgeRegistry};
+
+const ORGANIZER: address = @0xA;
+const ALICE: address = @0xA11CE;
+const BOB: address = @0xB0B;
+
+const PRICE: u64 = 1_000;
+const START: u64 = 10_000;
+
+// ======== Tests ========
+
+#[test]
+fun test_swap_rekeys_ticket_for_buyer() {
+    let mut scenario = test_scenario::begin(ORGANIZER);
+    let pool = sell_ticket(&mut scenario);
+
+    scenario.next_tx(ALICE);
+    let mut ticket = scenario.take_from_sender<Ticket>();
+    let mut event = scenario.take_shared<Event>();
+    let mut profile = scenario.take_from_sender<UserProfile>();
+    tickets::rekey_ticket(&mut ticket, vector[], string::utf8(b""), vector[2], scenario.ctx());
+    tickets::transfer_ticket(ticket, &mut event, &mut profile, BOB, scenario.ctx());
+    test_scenario::return_shared(event);
+    scenario.return_to_sender(profile);
+
+    scenario.next_tx(BOB);
+    let ticket = scenario.take_from_sender<Ticket>();
+    assert!(tickets::get_owner(&ticket) == BOB, 0);
+    assert!(tickets::get_qr_code_hash_for_testing(&ticket) == vector[2], 1);
+    scenario.return_to_sender(ticket);
+    let event = scenario.take_shared<Event>();
+    assert!(events::is_attendee_registered(&event, BOB), 2);
+    assert!(!events::is_attendee_registered(&event, ALICE), 3);
+    test_scenario::return_shared(event);
+
+    test_utils::destroy(pool);
+    scenario.end();
+}
+
+#[test, expected_failure(abort_code = event_platform::tickets::ENotAuthorized)]
+fun test_only_owner_can_rekey() {
+    let mut scenario = test_scenario::begin(ORGANIZER);
+    let pool = sell_ticket(&mut scenario);
+
+    scenario.next_tx(BOB);
+    let mut ticket = scenario.take_from_address<Ticket>(ALICE);
+    tickets::rekey_ticket(&mut ticket, vector[], string::utf8(b""), vector[2], scenario.ctx());
+    test_scenario::return_to_address(ALICE, ticket);
+
+    test_utils::destroy(pool);
+    scenario.end();
+}
+
+// ======== Helpers ========
+
+/// Publish a transferable event and sell ALICE a ticket
+fun sell_ticket(scenario: &mut Scenario): TicketPool {
+    users::init_for_testing(scenario.ctx());
+    events::init_for_testing(scenario.ctx());
+    payments::init_for_testing(scenario.ctx());
+    create_profile(scenario, ORGANIZER);
+
+    scenario.next_tx(ORGANIZER);
+    let mut registry = scenario.take_shared<EventRegistry>();
+    let mut badges = scenario.take_shared<BadgeRegistry>();
+    let mut profile = scenario.take_from_sender<UserProfile>();
+    let metadata = events::new_event_metadata(
+        string::utf8(b"Launch party"),
+        string::utf8(b""),
+        string::utf8(b""),
+        string::utf8(b""),
+        string::utf8(b"music"),
+        vector[],
+    );
+    let config = events::new_event_config(
+        START,
+        START + 1_000,
+        START,
+        10,
+        PRICE,
+        false,
+        true,
+        START,
+    );
+    let (cap, treasury) = events::create_event(
+        &mut registry,
+        &mut profile,
+        &mut badges,
+        metadata,
+        config,
+        scenario.ctx(),
+    );
+    payments::share_treasury(treasury);
+    transfer::public_transfer(cap, ORGANIZER);
+    test_scenario::return_shared(registry);
+    test_scenario::return_shared(badges);
+    scenario.return_to_sender(profile);
+
+    scenario.next_tx(ORGANIZER);
+    let mut event = scenario.take_shared<Event>();
+    let cap = scenario.take_from_sender<EventOrganizerCap>();
+    events::publish_event(&mut event, &cap, scenario.ctx());
+    let mut pool = tickets::create_ticket_pool(object::id(&event), 10, scenario.ctx());
+    test_scenario::return_shared(event);
+    scenario.return_to_sender(cap);
+
+    buy(scenario, &mut pool, ALICE);
+    pool
+}
+
+fun create_profile(scenario: &mut Scenario, owner: address) {
+    scenario.next_tx(owner);
+    let profile = users::create_profile(option::none(), option::none(), scenario.ctx());
+    users::keep_profile(profile, scenario.ctx());
+}
+
+fun buy(scenario: &mut Scenario, pool: &mut TicketPool, buyer: address) {
+    create_profile(scenario, buyer);
+
+    scenario.next_tx(buyer);
+    let mut event = scenario.take_shared<Event>();
+    let mut treasury = scenario.take_shared<EventTreasury>();
+    let mut platform = scenario.take_shared<PlatformTreasury>();
+    let registry = scenario.take_shared<EventRegistry>();
+    let mut profile = scenario.take_from_sender<UserProfile>();
+    let payment = coin::mint_for_testing<SUI>(PRICE, scenario.ctx());
+    let ticket = tickets::mint_ticket(
+        pool,
+        &mut event,
+        &mut profile,
+        &mut treasury,
+        &mut platform,
+        &registry,
+        payment,
+        string::utf8(b"general"),
+        vector[],
+        string::utf8(b""),
+        vector[1],
+        scenario.ctx(),
+    );
+    transfer::public_transfer(ticket, buyer);
+    test_scenario::return_shared(event);
+    test_scenario::return_shared(treasury);
+    test_scenario::return_shared(platform);
+    test_scenario::return_shared(registry);
+    scenario.return_to_sender(profile);
+}